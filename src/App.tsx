@@ -3,11 +3,33 @@ import { LeftPanel } from './components/layout/LeftPanel';
 import { CenterPanel } from './components/layout/CenterPanel';
 import { RightPanel } from './components/layout/RightPanel';
 import { StatusBar } from './components/layout/StatusBar';
-import { Toaster } from 'sonner';
+import { SessionDialog } from './components/session/SessionDialog';
+import { useEffect } from 'react';
+import { Toaster, toast } from 'sonner';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useClipboardShortcuts } from './hooks/useClipboardShortcuts';
+import { useSessionAutosave } from './hooks/useSessionAutosave';
+import { useEditorStore } from './store/editorStore';
 
 function App() {
   useKeyboardShortcuts();
+  useClipboardShortcuts();
+  useSessionAutosave();
+
+  // Restore uploaded textures / sequences persisted in IndexedDB.
+  useEffect(() => {
+    void useEditorStore
+      .getState()
+      .hydrateAssets()
+      .then(() => {
+        const { status, error, skippedRecords } = useEditorStore.getState().assetStorage;
+        if (status === 'error') {
+          toast.warning(`Asset storage unavailable — uploads won't survive a reload (${error})`);
+        } else if (skippedRecords > 0) {
+          toast.warning(`Removed ${skippedRecords} unreadable asset(s) from storage`);
+        }
+      });
+  }, []);
 
   return (
     <div className="h-screen flex flex-col bg-[var(--bg)] text-[var(--text)] overflow-hidden">
@@ -29,6 +51,9 @@ function App() {
       {/* Status bar */}
       <StatusBar />
 
+      {/* Crash recovery prompt / snapshot browser */}
+      <SessionDialog />
+
       {/* Toast notifications */}
       <Toaster
         theme="dark"
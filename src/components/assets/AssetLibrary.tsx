@@ -1,8 +1,8 @@
 import { useRef, useState } from 'react';
 import { useEditorStore } from '@/store/editorStore';
 import { Button } from '@/components/ui/button';
-import { Upload, Trash2, Layers } from 'lucide-react';
-import { generateId } from '@/lib/utils';
+import { Upload, Trash2, Layers, Loader2, AlertTriangle } from 'lucide-react';
+import { formatFileSize, generateId } from '@/lib/utils';
 import { toast } from 'sonner';
 import {
   autoDetectSequences,
@@ -12,7 +12,8 @@ import {
 import type { TextureAsset } from '@/store/types';
 
 export function AssetLibrary() {
-  const { assets, addTexture, removeTexture, addSequence, removeSequence } = useEditorStore();
+  const { assets, assetStorage, addTexture, removeTexture, addSequence, removeSequence } =
+    useEditorStore();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isUploading, setIsUploading] = useState(false);
 
@@ -167,10 +168,25 @@ export function AssetLibrary() {
         <p className="text-xs text-[var(--text-muted)] mt-2">
           Upload multiple numbered files to auto-detect sequences
         </p>
+        <StorageUsage usage={assetStorage.usage} quota={assetStorage.quota} />
+        {assetStorage.status === 'error' && (
+          <p
+            className="flex items-start gap-1.5 text-xs text-[var(--warning)] mt-2"
+            title={assetStorage.error ?? undefined}
+          >
+            <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+            Storage unavailable — assets will be lost on reload
+          </p>
+        )}
       </div>
 
       {/* Texture Grid */}
-      {assets.textures.size === 0 ? (
+      {assetStorage.status === 'loading' && assets.textures.size === 0 ? (
+        <div className="flex items-center justify-center gap-2 text-sm text-[var(--text-muted)] py-8">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Restoring saved assets...
+        </div>
+      ) : assets.textures.size === 0 ? (
         <div className="text-sm text-[var(--text-muted)] text-center py-8">
           No assets yet. Upload some images to get started.
         </div>
@@ -253,6 +269,31 @@ export function AssetLibrary() {
   );
 }
 
+function StorageUsage({ usage, quota }: { usage: number | null; quota: number | null }) {
+  if (usage === null) return null;
+  const percent = quota ? Math.min(100, (usage / quota) * 100) : null;
+
+  return (
+    <div className="mt-2" title="Browser storage used by this site">
+      <div className="flex justify-between text-xs text-[var(--text-dimmed)]">
+        <span>Storage</span>
+        <span className="font-mono">
+          {formatFileSize(usage)}
+          {quota ? ` / ${formatFileSize(quota)}` : ''}
+        </span>
+      </div>
+      {percent !== null && (
+        <div className="h-1 mt-1 rounded-full bg-[var(--surface-2)] overflow-hidden">
+          <div
+            className={percent > 90 ? 'h-full bg-[var(--warning)]' : 'h-full bg-[var(--accent)]'}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
 // Helper functions
 function readFileAsDataURL(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -0,0 +1,50 @@
+import type { ReactNode } from 'react';
+import { usePreviewCapture } from '@/store/previewCapture';
+
+interface SegmentButtonProps {
+  selected: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}
+
+/** One option of a small inline button group (format, frame rate…). */
+export function SegmentButton({ selected, disabled, onClick, children }: SegmentButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      aria-pressed={selected}
+      className={`px-2 h-6 text-[10px] font-mono rounded-[var(--radius-xs)] transition-colors disabled:opacity-40 disabled:pointer-events-none ${
+        selected
+          ? 'bg-[var(--accent-muted)] text-[var(--accent)]'
+          : 'text-[var(--text-dimmed)] hover:text-[var(--text-muted)] hover:bg-[var(--surface-2)]'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/** Progress of the running capture; renders nothing when idle. */
+export function CaptureProgress() {
+  const progress = usePreviewCapture((s) => s.progress);
+  if (!progress) return null;
+
+  return (
+    <div className="mt-3 space-y-1">
+      <div className="h-1.5 rounded-full bg-[var(--surface-2)] overflow-hidden">
+        <div
+          className="h-full bg-[var(--accent)] transition-[width]"
+          style={{ width: `${(progress.frame / progress.total) * 100}%` }}
+        />
+      </div>
+      <p className="text-[10px] font-mono text-[var(--text-dimmed)]">
+        {progress.frame === progress.total
+          ? 'Encoding…'
+          : `Frame ${progress.frame} / ${progress.total}`}
+      </p>
+    </div>
+  );
+}
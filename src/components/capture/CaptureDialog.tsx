@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import { usePreviewCapture } from '@/store/previewCapture';
+import {
+  CAPTURE_FPS_OPTIONS,
+  MAX_CAPTURE_DURATION,
+  MAX_CAPTURE_SIZE,
+  MAX_GIF_FPS,
+  MIN_CAPTURE_DURATION,
+  MIN_CAPTURE_SIZE,
+  createCaptureJob,
+  getCaptureFrameCount,
+  isWebmCaptureSupported,
+  normalizeCaptureSettings,
+} from '@/utils/capture';
+import type { CaptureFormat, CaptureSettings } from '@/utils/capture';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CaptureProgress, SegmentButton } from './CaptureControls';
+
+interface CaptureDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FORMAT_OPTIONS: Array<{ value: CaptureFormat; label: string }> = [
+  { value: 'webm', label: 'WebM' },
+  { value: 'gif', label: 'GIF' },
+  { value: 'png', label: 'PNG frames' },
+];
+
+/**
+ * Settings for recording the preview, and progress while it records.
+ * The recording itself runs in PreviewCanvas.
+ */
+export function CaptureDialog({ open, onOpenChange }: CaptureDialogProps) {
+  const canvasWidth = useEditorStore((s) => s.ui.canvasWidth);
+  const canvasHeight = useEditorStore((s) => s.ui.canvasHeight);
+  const { progress, cancelRequested, requestCapture, cancelCapture } = usePreviewCapture();
+  const capturing = progress !== null;
+  const webmSupported = isWebmCaptureSupported();
+
+  const [settings, setSettings] = useState<CaptureSettings>({
+    format: webmSupported ? 'webm' : 'gif',
+    duration: 2,
+    fps: 30,
+    width: canvasWidth,
+    height: canvasHeight,
+    transparent: false,
+  });
+
+  // Start from the current preview size each time the dialog opens; the
+  // other settings are kept between recordings.
+  const [wasOpen, setWasOpen] = useState(open);
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) setSettings((s) => ({ ...s, width: canvasWidth, height: canvasHeight }));
+  }
+
+  const update = (patch: Partial<CaptureSettings>) => setSettings((s) => ({ ...s, ...patch }));
+  const normalized = normalizeCaptureSettings(settings);
+  const frameCount = getCaptureFrameCount(normalized);
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !capturing && onOpenChange(next)}>
+      <DialogContent className="max-w-sm">
+        <DialogTitle>Record preview</DialogTitle>
+        <DialogDescription>
+          Restarts the effect and renders {frameCount} frame{frameCount === 1 ? '' : 's'} at a
+          fixed timestep.
+        </DialogDescription>
+
+        <fieldset disabled={capturing} className="mt-3 space-y-3">
+          <div className="prop-row">
+            <Label className="prop-label">Format</Label>
+            <div className="flex items-center gap-0.5">
+              {FORMAT_OPTIONS.map((option) => (
+                <SegmentButton
+                  key={option.value}
+                  selected={settings.format === option.value}
+                  disabled={option.value === 'webm' && !webmSupported}
+                  onClick={() => update({ format: option.value })}
+                >
+                  {option.label}
+                </SegmentButton>
+              ))}
+            </div>
+          </div>
+
+          <div className="prop-row">
+            <Label htmlFor="capture-duration" className="prop-label">
+              Duration
+            </Label>
+            <div className="flex items-center gap-1.5">
+              <Input
+                id="capture-duration"
+                type="number"
+                min={MIN_CAPTURE_DURATION}
+                max={MAX_CAPTURE_DURATION}
+                step="0.5"
+                value={settings.duration}
+                onChange={(e) => update({ duration: parseFloat(e.target.value) || 0 })}
+                className="w-20"
+              />
+              <span className="prop-unit">s</span>
+            </div>
+          </div>
+
+          <div className="prop-row">
+            <Label className="prop-label">Frame rate</Label>
+            <div className="flex items-center gap-0.5">
+              {CAPTURE_FPS_OPTIONS.map((fps) => (
+                <SegmentButton
+                  key={fps}
+                  selected={normalized.fps === fps}
+                  disabled={settings.format === 'gif' && fps > MAX_GIF_FPS}
+                  onClick={() => update({ fps })}
+                >
+                  {fps}
+                </SegmentButton>
+              ))}
+            </div>
+          </div>
+
+          <div className="prop-row">
+            <Label htmlFor="capture-width" className="prop-label">
+              Size
+            </Label>
+            <div className="flex items-center gap-1.5">
+              <Input
+                id="capture-width"
+                type="number"
+                min={MIN_CAPTURE_SIZE}
+                max={MAX_CAPTURE_SIZE}
+                value={settings.width}
+                onChange={(e) => update({ width: parseInt(e.target.value) || 0 })}
+                className="w-20"
+              />
+              <span className="prop-unit">×</span>
+              <Input
+                id="capture-height"
+                type="number"
+                min={MIN_CAPTURE_SIZE}
+                max={MAX_CAPTURE_SIZE}
+                value={settings.height}
+                onChange={(e) => update({ height: parseInt(e.target.value) || 0 })}
+                className="w-20"
+              />
+            </div>
+          </div>
+
+          <div className="prop-row">
+            <Label htmlFor="capture-transparent" className="prop-label">
+              Transparent
+            </Label>
+            <input
+              id="capture-transparent"
+              type="checkbox"
+              checked={settings.transparent}
+              onChange={(e) => update({ transparent: e.target.checked })}
+              className="h-4 w-4 cursor-pointer accent-[var(--accent)]"
+            />
+          </div>
+          {settings.transparent && settings.format === 'webm' && (
+            <p className="text-[var(--text-xs)] text-[var(--text-dimmed)]">
+              WebM transparency depends on the browser&apos;s VP9 encoder; use PNG frames if the
+              background comes out black.
+            </p>
+          )}
+        </fieldset>
+
+        <CaptureProgress />
+
+        <DialogFooter>
+          {capturing ? (
+            <Button variant="ghost" onClick={cancelCapture} disabled={cancelRequested}>
+              Cancel
+            </Button>
+          ) : (
+            <>
+              <Button variant="ghost" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+              <Button onClick={() => requestCapture(createCaptureJob(normalized))}>Record</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { usePreviewCapture } from '@/store/previewCapture';
+import {
+  MAX_FLIPBOOK_CELL,
+  MAX_FLIPBOOK_DURATION,
+  MAX_FLIPBOOK_FRAMES,
+  MAX_SHEET_SIZE,
+  MIN_FLIPBOOK_CELL,
+  MIN_FLIPBOOK_DURATION,
+  MIN_FLIPBOOK_FRAMES,
+  createFlipbookJob,
+  estimateSheetSize,
+  normalizeFlipbookSettings,
+} from '@/utils/flipbook';
+import type { FlipbookSettings } from '@/utils/flipbook';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CaptureProgress } from './CaptureControls';
+
+interface FlipbookDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Settings for baking the effect into a spritesheet + TexturePacker atlas.
+ * Frames are rendered by the same capture loop as recordings.
+ */
+export function FlipbookDialog({ open, onOpenChange }: FlipbookDialogProps) {
+  const { progress, cancelRequested, requestCapture, cancelCapture } = usePreviewCapture();
+  const baking = progress !== null;
+
+  const [settings, setSettings] = useState<FlipbookSettings>({
+    frameCount: 16,
+    duration: 1,
+    cellWidth: 128,
+    cellHeight: 128,
+    trim: false,
+    premultipliedAlpha: false,
+  });
+
+  const update = (patch: Partial<FlipbookSettings>) => setSettings((s) => ({ ...s, ...patch }));
+  const normalized = normalizeFlipbookSettings(settings);
+  const sheet = estimateSheetSize(normalized);
+  const tooLarge = sheet.width > MAX_SHEET_SIZE || sheet.height > MAX_SHEET_SIZE;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !baking && onOpenChange(next)}>
+      <DialogContent className="max-w-sm">
+        <DialogTitle>Bake flipbook</DialogTitle>
+        <DialogDescription>
+          Restarts the effect, renders {normalized.frameCount} frames over {normalized.duration}s and
+          packs them into a spritesheet PNG with a TexturePacker JSON atlas.
+        </DialogDescription>
+
+        <fieldset disabled={baking} className="mt-3 space-y-3">
+          <div className="prop-row">
+            <Label htmlFor="flipbook-frames" className="prop-label">
+              Frames
+            </Label>
+            <Input
+              id="flipbook-frames"
+              type="number"
+              min={MIN_FLIPBOOK_FRAMES}
+              max={MAX_FLIPBOOK_FRAMES}
+              value={settings.frameCount}
+              onChange={(e) => update({ frameCount: parseInt(e.target.value) || 0 })}
+              className="w-20"
+            />
+          </div>
+
+          <div className="prop-row">
+            <Label htmlFor="flipbook-duration" className="prop-label">
+              Duration
+            </Label>
+            <div className="flex items-center gap-1.5">
+              <Input
+                id="flipbook-duration"
+                type="number"
+                min={MIN_FLIPBOOK_DURATION}
+                max={MAX_FLIPBOOK_DURATION}
+                step="0.1"
+                value={settings.duration}
+                onChange={(e) => update({ duration: parseFloat(e.target.value) || 0 })}
+                className="w-20"
+              />
+              <span className="prop-unit">s</span>
+            </div>
+          </div>
+
+          <div className="prop-row">
+            <Label htmlFor="flipbook-cell-width" className="prop-label">
+              Cell size
+            </Label>
+            <div className="flex items-center gap-1.5">
+              <Input
+                id="flipbook-cell-width"
+                type="number"
+                min={MIN_FLIPBOOK_CELL}
+                max={MAX_FLIPBOOK_CELL}
+                value={settings.cellWidth}
+                onChange={(e) => update({ cellWidth: parseInt(e.target.value) || 0 })}
+                className="w-20"
+              />
+              <span className="prop-unit">×</span>
+              <Input
+                id="flipbook-cell-height"
+                type="number"
+                min={MIN_FLIPBOOK_CELL}
+                max={MAX_FLIPBOOK_CELL}
+                value={settings.cellHeight}
+                onChange={(e) => update({ cellHeight: parseInt(e.target.value) || 0 })}
+                className="w-20"
+              />
+            </div>
+          </div>
+
+          <div className="prop-row">
+            <Label htmlFor="flipbook-trim" className="prop-label">
+              Trim
+            </Label>
+            <input
+              id="flipbook-trim"
+              type="checkbox"
+              checked={settings.trim}
+              onChange={(e) => update({ trim: e.target.checked })}
+              className="h-4 w-4 cursor-pointer accent-[var(--accent)]"
+            />
+          </div>
+
+          <div className="prop-row">
+            <Label htmlFor="flipbook-premultiplied" className="prop-label">
+              Premultiplied
+            </Label>
+            <input
+              id="flipbook-premultiplied"
+              type="checkbox"
+              checked={settings.premultipliedAlpha}
+              onChange={(e) => update({ premultipliedAlpha: e.target.checked })}
+              className="h-4 w-4 cursor-pointer accent-[var(--accent)]"
+            />
+          </div>
+
+          <p
+            className={`text-[10px] font-mono ${
+              tooLarge ? 'text-[var(--destructive)]' : 'text-[var(--text-dimmed)]'
+            }`}
+          >
+            Sheet up to {sheet.width}×{sheet.height}px
+            {tooLarge ? ` — over the ${MAX_SHEET_SIZE}px limit` : ''}
+          </p>
+        </fieldset>
+
+        <CaptureProgress />
+
+        <DialogFooter>
+          {baking ? (
+            <Button variant="ghost" onClick={cancelCapture} disabled={cancelRequested}>
+              Cancel
+            </Button>
+          ) : (
+            <>
+              <Button variant="ghost" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+              <Button
+                onClick={() => requestCapture(createFlipbookJob(normalized))}
+                disabled={tooLarge}
+              >
+                Bake
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,8 +3,8 @@
  *
  * Responsibilities:
  *  • Renders a filterable list of example cards
- *  • Handles "Load" action with unsaved-changes confirmation
- *  • Pushes selected config into the editor store via yamlToEditorConfig()
+ *  • Handles "Open" action, which opens the example in a new document tab
+ *  • Parses the selected example with yamlToEditorConfig()
  *  • Optionally shows a detail view for the selected example
  */
 
@@ -215,25 +215,15 @@ interface ExampleDetailProps {
 }
 
 function ExampleDetail({ example, onBack }: ExampleDetailProps) {
-  const { ui, loadConfig, setPreviewState } = useEditorStore();
+  const { openDocument, setPreviewState } = useEditorStore();
 
   const handleLoad = () => {
-    if (ui.hasUnsavedChanges) {
-      if (
-        !confirm(
-          'You have unsaved changes. Loading this example will replace your current configuration. Continue?',
-        )
-      ) {
-        return;
-      }
-    }
-
     try {
       const config = yamlToEditorConfig(example.yaml);
-      loadConfig(config, { textures: new Map(), sequences: new Map() });
+      openDocument(config, example.name);
       setPreviewState('playing');
-      toast.success(`Loaded "${example.name}"`, {
-        description: 'Configuration applied — preview is playing.',
+      toast.success(`Opened "${example.name}"`, {
+        description: 'Opened in a new tab — preview is playing.',
       });
     } catch (err) {
       toast.error('Failed to load example', {
@@ -321,10 +311,10 @@ function ExampleDetail({ example, onBack }: ExampleDetailProps) {
         </div>
       </div>
 
-      {/* Load button */}
+      {/* Open button */}
       <button onClick={handleLoad} className="example-load-btn mt-auto">
         <Sparkles className="h-4 w-4" />
-        LOAD INTO EDITOR
+        OPEN IN NEW TAB
       </button>
     </div>
   );
@@ -0,0 +1,132 @@
+import { useEffect, useRef } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import {
+  HISTORY_LIMIT_OPTIONS,
+  HISTORY_MEMORY_BUDGET,
+  estimateHistorySize,
+  getHistoryActionCount,
+} from '@/utils/history';
+import { formatFileSize } from '@/lib/utils';
+import { IconButton } from '@/components/ui/icon-button';
+import * as Select from '@radix-ui/react-select';
+import { Check, ChevronDown, X } from 'lucide-react';
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+/**
+ * Dockable list of the active document's undo history, oldest first.
+ * Clicking an entry jumps to the state right after it; entries past the
+ * current one are undone and can be jumped back to until the next edit.
+ */
+export function HistoryPanel() {
+  const history = useEditorStore((s) => s.history);
+  const historyIndex = useEditorStore((s) => s.historyIndex);
+  const historyLimit = useEditorStore((s) => s.layout.historyLimit);
+  const jumpToHistory = useEditorStore((s) => s.jumpToHistory);
+  const setHistoryLimit = useEditorStore((s) => s.setHistoryLimit);
+  const toggleHistoryPanel = useEditorStore((s) => s.toggleHistoryPanel);
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  const actions = history.slice(0, getHistoryActionCount(history, historyIndex));
+  const size = estimateHistorySize(history);
+  const limitOptions = HISTORY_LIMIT_OPTIONS.includes(historyLimit)
+    ? HISTORY_LIMIT_OPTIONS
+    : [...HISTORY_LIMIT_OPTIONS, historyLimit].sort((a, b) => a - b);
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [historyIndex, actions.length]);
+
+  const rowClass = (index: number) =>
+    `flex items-center gap-2 w-full px-3 py-1 text-left text-[var(--text-xs)] hover:bg-[var(--surface-2)] ${
+      index === historyIndex
+        ? 'bg-[var(--surface-2)] text-[var(--text-strong)] font-medium'
+        : index > historyIndex
+          ? 'text-[var(--text-dimmed)]'
+          : 'text-[var(--text)]'
+    }`;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center gap-2 px-3 h-7 border-b border-[var(--border)] shrink-0">
+        <span className="text-[var(--text-xs)] font-semibold text-[var(--text-strong)] uppercase tracking-wide">
+          History
+        </span>
+        <span
+          className={`text-[var(--text-xs)] font-mono ${
+            size > HISTORY_MEMORY_BUDGET * 0.8 ? 'text-[var(--warning)]' : 'text-[var(--text-dimmed)]'
+          }`}
+          title={`Undo snapshots use about ${formatFileSize(size)} of ${formatFileSize(HISTORY_MEMORY_BUDGET)}`}
+        >
+          {actions.length} · {formatFileSize(size)}
+        </span>
+        <div className="flex-1" />
+        <span className="text-[var(--text-xs)] text-[var(--text-dimmed)]">Keep</span>
+        <Select.Root value={String(historyLimit)} onValueChange={(value) => setHistoryLimit(Number(value))}>
+          <Select.Trigger
+            className="flex h-5 items-center gap-1 rounded border border-[var(--border)] px-1.5 text-[var(--text-xs)] font-mono focus:outline-none focus:ring-1 focus:ring-[var(--focus-ring)]"
+            title="Most undo steps kept per document"
+          >
+            <Select.Value />
+            <Select.Icon>
+              <ChevronDown size={10} className="opacity-50" />
+            </Select.Icon>
+          </Select.Trigger>
+          <Select.Portal>
+            <Select.Content className="overflow-hidden bg-[var(--surface-2)] text-[var(--text)] rounded-md border border-[var(--border)] shadow-lg z-50">
+              <Select.Viewport className="p-1">
+                {limitOptions.map((limit) => (
+                  <Select.Item
+                    key={limit}
+                    value={String(limit)}
+                    className="relative flex items-center pl-6 pr-2 py-1 text-[var(--text-xs)] font-mono rounded-sm hover:bg-[var(--surface-hover)] cursor-pointer outline-none"
+                  >
+                    <Select.ItemIndicator className="absolute left-1.5">
+                      <Check size={10} />
+                    </Select.ItemIndicator>
+                    <Select.ItemText>{limit}</Select.ItemText>
+                  </Select.Item>
+                ))}
+              </Select.Viewport>
+            </Select.Content>
+          </Select.Portal>
+        </Select.Root>
+        <IconButton size="xs" variant="ghost" title="Close history" onClick={toggleHistoryPanel}>
+          <X size={12} />
+        </IconButton>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto">
+        <li>
+          <button
+            type="button"
+            ref={historyIndex === -1 ? currentRef : undefined}
+            className={rowClass(-1)}
+            onClick={() => jumpToHistory(-1)}
+            aria-current={historyIndex === -1}
+          >
+            <span className="flex-1 min-w-0 truncate italic">Initial state</span>
+          </button>
+        </li>
+        {actions.map((entry, index) => (
+          <li key={`${index}:${entry.timestamp}`}>
+            <button
+              type="button"
+              ref={index === historyIndex ? currentRef : undefined}
+              className={rowClass(index)}
+              onClick={() => jumpToHistory(index)}
+              aria-current={index === historyIndex}
+            >
+              <span className="flex-1 min-w-0 truncate">{entry.label || 'Edit'}</span>
+              <span className="flex-shrink-0 font-mono text-[10px] text-[var(--text-dimmed)]">
+                {formatTime(entry.timestamp)}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
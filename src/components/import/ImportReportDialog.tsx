@@ -0,0 +1,100 @@
+import type { EditorConfig, ImportIssue, ImportIssueKind, YamlImportResult } from '@/store/types';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertCircle, AlertTriangle, Wrench } from 'lucide-react';
+
+interface ImportReportDialogProps {
+  fileName: string;
+  result: YamlImportResult | null;
+  onCancel: () => void;
+  onImport: (config: EditorConfig) => void;
+}
+
+const KIND_LABELS: Record<ImportIssueKind, string> = {
+  dropped: 'Dropped',
+  repairable: 'Fixable',
+  defaulted: 'Defaulted',
+};
+
+function IssueIcon({ kind }: { kind: ImportIssueKind }) {
+  switch (kind) {
+    case 'dropped':
+      return <AlertCircle size={12} className="flex-shrink-0 mt-0.5 text-[var(--destructive)]" />;
+    case 'repairable':
+      return <Wrench size={12} className="flex-shrink-0 mt-0.5 text-[var(--warning)]" />;
+    case 'defaulted':
+      return <AlertTriangle size={12} className="flex-shrink-0 mt-0.5 text-[var(--warning)]" />;
+  }
+}
+
+function IssueRow({ issue }: { issue: ImportIssue }) {
+  return (
+    <li className="flex items-start gap-2 px-2 py-1.5 text-[var(--text-xs)]">
+      <IssueIcon kind={issue.kind} />
+      <div className="flex-1 min-w-0">
+        <div className="text-[var(--text)]">{issue.message}</div>
+        {issue.fix && <div className="text-[var(--text-muted)]">Fix: {issue.fix}</div>}
+        <div className="font-mono text-[10px] text-[var(--text-dimmed)]">
+          {issue.line !== null ? `line ${issue.line} · ` : ''}
+          {issue.path}
+        </div>
+      </div>
+      <span className="flex-shrink-0 text-[10px] uppercase tracking-wide text-[var(--text-dimmed)]">
+        {KIND_LABELS[issue.kind]}
+      </span>
+    </li>
+  );
+}
+
+/**
+ * Lists everything a YAML import couldn't load as-is and lets the user
+ * import with or without the auto-fixes.
+ */
+export function ImportReportDialog({ fileName, result, onCancel, onImport }: ImportReportDialogProps) {
+  const issues = result?.issues ?? [];
+  const repairable = issues.some((issue) => issue.kind === 'repairable');
+  const importedCount = result?.config.emitters.length ?? 0;
+  const repairedCount = result?.repairedConfig.emitters.length ?? 0;
+
+  return (
+    <Dialog open={result !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogTitle>Import report</DialogTitle>
+        <DialogDescription>
+          &quot;{fileName}&quot; has {issues.length} issue{issues.length === 1 ? '' : 's'}.
+          {repairable
+            ? ` ${repairedCount - importedCount} emitter(s) can be repaired automatically.`
+            : ''}
+        </DialogDescription>
+
+        <ul className="mt-3 max-h-80 overflow-y-auto divide-y divide-[var(--border)] border border-[var(--border)] rounded-[var(--radius-sm)] bg-[var(--surface-2)]">
+          {issues.map((issue, i) => (
+            <IssueRow key={`${issue.path}:${i}`} issue={issue} />
+          ))}
+        </ul>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          {result && (
+            <Button variant={repairable ? 'outline' : 'default'} onClick={() => onImport(result.config)}>
+              {repairable ? `Import ${importedCount} without fixes` : 'Import'}
+            </Button>
+          )}
+          {result && repairable && (
+            <Button onClick={() => onImport(result.repairedConfig)}>
+              Apply fixes &amp; import {repairedCount}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
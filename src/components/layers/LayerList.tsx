@@ -1,19 +1,52 @@
 /**
- * LayerList - Manage emitter layers with drag-drop, visibility, and naming
+ * LayerList - Manage emitter layers with drag-drop, visibility, locking,
+ * naming and Ctrl/Shift-click multi-select (row actions then apply to the
+ * whole selection)
+ *
+ * Layers can be collected into collapsible groups (see utils/layerGroups).
+ * The top-level list drags whole groups and ungrouped layers; an expanded
+ * group reorders its own members.
  */
 
-import { useState } from 'react';
+import React, { useState } from 'react';
 import { useEditorStore } from '@/store/editorStore';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Plus, Trash2, Copy, Eye, EyeOff, Edit2, Check, X, GripVertical } from 'lucide-react';
+import { IconButton } from '@/components/ui/icon-button';
+import {
+  Plus,
+  Trash2,
+  Copy,
+  Eye,
+  EyeOff,
+  Edit2,
+  Check,
+  X,
+  GripVertical,
+  Focus,
+  Zap,
+  RotateCcw,
+  ChevronDown,
+  ChevronRight,
+  FolderPlus,
+  FolderMinus,
+  Lock,
+  Unlock,
+} from 'lucide-react';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 import { DragDropContext, Droppable, Draggable, DropResult } from 'react-beautiful-dnd';
+import type { DraggableProvided, DraggableStateSnapshot } from 'react-beautiful-dnd';
 import type { EmitterConfig } from '@eonwetheherald/swizzle';
 import {
   getDefaultParticleConfig,
   getDefaultVelocityConfig,
 } from '@/utils/configTransform';
+import { triggerLayer } from '@/store/previewTriggers';
+import { getTriggerKind, getTriggerShortcutLabel } from '@/utils/triggers';
+import { findEmitterIndex, getEditorId } from '@/utils/editorIds';
+import { getDropIndex } from '@/utils/selection';
+import { getLayerUnits, getUnitDropIndex } from '@/utils/layerGroups';
+import type { LayerUnit } from '@/utils/layerGroups';
 import { toast } from 'sonner';
 
 type EmitterType =
@@ -54,18 +87,32 @@ export function LayerList() {
   const {
     config,
     ui,
+    pushHistory,
     addEmitter,
-    removeEmitter,
-    duplicateEmitter,
+    removeEmitters,
+    duplicateEmitters,
     selectEmitter,
+    toggleEmitterSelection,
+    selectEmitterRange,
     reorderEmitters,
-    toggleEmitterVisibility,
+    setEmittersHidden,
+    setEmittersLocked,
+    setSoloMode,
     renameEmitter,
+    setEmitterSelection,
+    groupEmitters,
+    ungroup,
+    renameGroup,
+    setGroupCollapsed,
+    duplicateGroup,
   } = useEditorStore();
-  const { emitters } = config;
-  const { selectedEmitterIndex, hiddenEmitterIndices } = ui;
+  const { emitters, groups } = config;
+  const { selectedEmitterId, selectedEmitterIds, hiddenEmitterIds, lockedEmitterIds, soloMode } = ui;
+  const soloActive = soloMode && selectedEmitterIds.length > 0;
+  const units = getLayerUnits(emitters, groups);
 
-  const [editingNameIndex, setEditingNameIndex] = useState<number | null>(null);
+  // Layer ids and group ids never collide, so one rename state serves both.
+  const [editingNameId, setEditingNameId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
 
   const getViewportCenter = () => {
@@ -142,37 +189,119 @@ export function LayerList() {
         break;
     }
 
+    pushHistory('Add layer');
     addEmitter(defaultEmitter);
     toast.success(`Added ${defaultEmitter.name}`);
   };
 
+  /** Row actions apply to the whole selection when the row is part of it. */
+  const getTargetIds = (id: string) =>
+    selectedEmitterIds.includes(id) ? selectedEmitterIds : [id];
+
+  const handleLayerClick = (e: React.MouseEvent, id: string) => {
+    if (e.ctrlKey || e.metaKey) toggleEmitterSelection(id);
+    else if (e.shiftKey) selectEmitterRange(id);
+    else selectEmitter(id);
+  };
+
+  const isUnitSelected = (unit: LayerUnit) => unit.ids.some((id) => selectedEmitterIds.includes(id));
+
   const handleDragEnd = (result: DropResult) => {
     if (!result.destination) return;
+    const { source, destination } = result;
+
+    // Inside an expanded group: reorder its members only.
+    const group = groups?.find((g) => `group:${g.id}` === result.type);
+    if (group) {
+      const members = emitters.filter((e) => group.emitterIds.includes(getEditorId(e)));
+      const ids = getTargetIds(result.draggableId).filter((id) => group.emitterIds.includes(id));
+      if (ids.length === 1 && source.index === destination.index) return;
+      const groupStart = findEmitterIndex(emitters, group.emitterIds[0]);
+
+      pushHistory(ids.length === 1 ? 'Move layer' : 'Move layers');
+      reorderEmitters(ids, groupStart + getDropIndex(members, ids, result.draggableId, destination.index));
+      return;
+    }
+
+    // Top level: a selected unit brings every other selected unit along,
+    // groups always whole so they stay contiguous.
+    const dragged = units[source.index];
+    const moving = isUnitSelected(dragged) ? units.filter(isUnitSelected) : [dragged];
+    const ids = moving.flatMap((unit) => unit.ids);
+    if (moving.length === 1 && source.index === destination.index) return;
+
+    pushHistory(ids.length === 1 ? 'Move layer' : 'Move layers');
+    reorderEmitters(ids, getUnitDropIndex(units, ids, source.index, destination.index));
+  };
+
+  const handleGroupSelected = () => {
+    pushHistory('Group layers');
+    groupEmitters(selectedEmitterIds);
+    toast.success(`Grouped ${selectedEmitterIds.length} layer${selectedEmitterIds.length !== 1 ? 's' : ''}`);
+  };
+
+  const handleUngroup = (groupId: string, name: string) => {
+    pushHistory('Ungroup');
+    ungroup(groupId);
+    toast.success(`Ungrouped ${name}`);
+  };
+
+  const handleDuplicateGroup = (groupId: string) => {
+    pushHistory('Duplicate group');
+    duplicateGroup(groupId);
+    toast.success('Group duplicated');
+  };
 
-    const startIndex = result.source.index;
-    const endIndex = result.destination.index;
+  /** Solo the group: select its layers and preview only them. */
+  const handleSoloGroup = (ids: string[], isSoloed: boolean) => {
+    if (isSoloed) {
+      setSoloMode(false);
+      return;
+    }
+    setEmitterSelection(ids);
+    setSoloMode(true);
+  };
 
-    if (startIndex === endIndex) return;
+  const handleDuplicate = (id: string) => {
+    const ids = getTargetIds(id);
+    pushHistory(ids.length === 1 ? 'Duplicate layer' : 'Duplicate layers');
+    duplicateEmitters(ids);
+    toast.success(ids.length === 1 ? 'Layer duplicated' : `${ids.length} layers duplicated`);
+  };
 
-    reorderEmitters(startIndex, endIndex);
+  const handleDelete = (id: string, displayName: string) => {
+    const ids = getTargetIds(id).filter((target) => !lockedEmitterIds.has(target));
+    if (ids.length === 0) return;
+    if (!confirm(ids.length === 1 ? `Delete ${displayName}?` : `Delete ${ids.length} layers?`)) return;
+    pushHistory(ids.length === 1 ? 'Delete layer' : 'Delete layers');
+    removeEmitters(ids);
+    toast.success(ids.length === 1 ? 'Layer deleted' : `${ids.length} layers deleted`);
   };
 
-  const handleStartRename = (index: number, currentName: string) => {
-    setEditingNameIndex(index);
+  const handleStartRename = (id: string, currentName: string) => {
+    setEditingNameId(id);
     setEditingName(currentName);
   };
 
   const handleSaveRename = () => {
-    if (editingNameIndex !== null && editingName.trim()) {
-      renameEmitter(editingNameIndex, editingName.trim());
-      toast.success('Layer renamed');
+    if (editingNameId !== null && editingName.trim()) {
+      const group = groups?.find((g) => g.id === editingNameId);
+      if (group) {
+        pushHistory('Rename group');
+        renameGroup(group.id, editingName);
+        toast.success('Group renamed');
+      } else {
+        pushHistory('Rename layer');
+        renameEmitter(editingNameId, editingName.trim());
+        toast.success('Layer renamed');
+      }
     }
-    setEditingNameIndex(null);
+    setEditingNameId(null);
     setEditingName('');
   };
 
   const handleCancelRename = () => {
-    setEditingNameIndex(null);
+    setEditingNameId(null);
     setEditingName('');
   };
 
@@ -184,33 +313,443 @@ export function LayerList() {
     );
   };
 
-  return (
-    <div className="space-y-3">
-      {/* Add Layer Button */}
-      <DropdownMenu.Root>
-        <DropdownMenu.Trigger asChild>
-          <Button variant="outline" size="sm" className="w-full">
-            <Plus className="h-4 w-4" />
-            Add Layer
-          </Button>
-        </DropdownMenu.Trigger>
-        <DropdownMenu.Portal>
-          <DropdownMenu.Content
-            className="min-w-[220px] bg-[var(--surface-2)] text-[var(--text)] border border-[var(--border)] rounded-md shadow-lg p-1 z-50"
-            sideOffset={5}
+  const renderLayerRow = (
+    emitter: EmitterConfig,
+    provided: DraggableProvided,
+    snapshot: DraggableStateSnapshot,
+  ) => {
+    const id = getEditorId(emitter);
+    const index = emitters.indexOf(emitter);
+    const isHidden = hiddenEmitterIds.has(id);
+    const isLocked = lockedEmitterIds.has(id);
+    const isMuted = soloActive ? !selectedEmitterIds.includes(id) : isHidden;
+    const isSelected = selectedEmitterIds.includes(id);
+    const isEditing = editingNameId === id;
+    const displayName = getEmitterDisplayName(emitter, index);
+    const triggerKind = getTriggerKind(emitter);
+    const triggerShortcut = getTriggerShortcutLabel(index);
+
+    return (
+      <div
+        ref={provided.innerRef}
+        {...provided.draggableProps}
+        className={`group px-2 py-1.5 border rounded transition-all ${
+          snapshot.isDragging
+            ? 'border-[var(--accent)] bg-[var(--accent)]/10 shadow-md'
+            : selectedEmitterId === id
+            ? 'border-[var(--accent)] bg-[var(--surface-active)]'
+            : isSelected
+            ? 'border-[var(--border)] bg-[var(--surface-active)]'
+            : 'border-transparent hover:bg-[var(--surface-hover)]'
+        } ${isMuted ? 'opacity-40' : ''}`}
+        onClick={(e) => !isEditing && handleLayerClick(e, id)}
+        aria-selected={isSelected}
+      >
+        <div className="flex items-center gap-2">
+          {/* Drag Handle */}
+          <div
+            {...provided.dragHandleProps}
+            className="cursor-grab active:cursor-grabbing flex-shrink-0"
           >
-            {EMITTER_TYPES.map((type) => (
-              <DropdownMenu.Item
-                key={type.value}
-                className="px-3 py-2 text-[var(--text-sm)] cursor-pointer hover:bg-[var(--surface-hover)] rounded-sm outline-none transition-colors"
-                onSelect={() => handleAddEmitter(type.value)}
+            <GripVertical className="h-4 w-4 text-[var(--text-dimmed)]" />
+          </div>
+
+          {/* Layer Name */}
+          <div className="flex-1 min-w-0">
+            {isEditing ? (
+              <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                <Input
+                  type="text"
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleSaveRename();
+                    if (e.key === 'Escape') handleCancelRename();
+                  }}
+                  className="h-7 text-xs"
+                  autoFocus
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6 flex-shrink-0"
+                  onClick={handleSaveRename}
+                >
+                  <Check className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6 flex-shrink-0"
+                  onClick={handleCancelRename}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ) : (
+              <>
+                <div className="text-[var(--text-sm)] font-medium truncate text-[var(--text)]">
+                  {displayName}
+                </div>
+                <div className="text-[var(--text-xs)] text-[var(--text-dimmed)]">
+                  {emitter.particle.behaviors?.length || 0} behavior{(emitter.particle.behaviors?.length || 0) !== 1 ? 's' : ''}
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Fire / re-fire (always visible) */}
+          {!isEditing && triggerKind && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6 flex-shrink-0"
+              onClick={(e) => {
+                e.stopPropagation();
+                triggerLayer(id);
+              }}
+              title={`${triggerKind === 'fire' ? 'Fire' : 'Re-fire burst'}${
+                triggerShortcut ? ` (${triggerShortcut})` : ''
+              }`}
+            >
+              {triggerKind === 'fire' ? (
+                <Zap className="h-3 w-3" />
+              ) : (
+                <RotateCcw className="h-3 w-3" />
+              )}
+            </Button>
+          )}
+
+          {/* Lock (always visible while locked) */}
+          {!isEditing && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className={`h-6 w-6 flex-shrink-0 ${
+                isLocked ? '' : 'opacity-0 group-hover:opacity-100 transition-opacity'
+              }`}
+              onClick={(e) => {
+                e.stopPropagation();
+                setEmittersLocked(getTargetIds(id), !isLocked);
+              }}
+              title={isLocked ? 'Unlock layer' : 'Lock layer'}
+              aria-pressed={isLocked}
+            >
+              {isLocked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+            </Button>
+          )}
+
+          {/* Actions */}
+          {!isEditing && (
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              {/* Visibility Toggle */}
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setEmittersHidden(getTargetIds(id), !isHidden);
+                }}
+                title={isHidden ? 'Show layer' : 'Hide layer'}
+              >
+                {isHidden ? (
+                  <EyeOff className="h-3 w-3" />
+                ) : (
+                  <Eye className="h-3 w-3" />
+                )}
+              </Button>
+
+              {/* Rename */}
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleStartRename(id, displayName);
+                }}
+                title="Rename layer"
+                disabled={isLocked}
+              >
+                <Edit2 className="h-3 w-3" />
+              </Button>
+
+              {/* Duplicate */}
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDuplicate(id);
+                }}
+                title="Duplicate (Ctrl+D)"
               >
-                {type.label}
-              </DropdownMenu.Item>
-            ))}
-          </DropdownMenu.Content>
-        </DropdownMenu.Portal>
-      </DropdownMenu.Root>
+                <Copy className="h-3 w-3" />
+              </Button>
+
+              {/* Delete */}
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(id, displayName);
+                }}
+                title={isLocked ? 'Locked layers can’t be deleted' : 'Delete (Del)'}
+                disabled={isLocked}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderGroup = (
+    unit: Extract<LayerUnit, { kind: 'group' }>,
+    provided: DraggableProvided,
+    snapshot: DraggableStateSnapshot,
+  ) => {
+    const { group, ids } = unit;
+    const members = ids.map((id) => emitters[findEmitterIndex(emitters, id)]);
+    const isHidden = ids.every((id) => hiddenEmitterIds.has(id));
+    const isLocked = ids.every((id) => lockedEmitterIds.has(id));
+    const isSelected = ids.every((id) => selectedEmitterIds.includes(id));
+    const isSoloed = soloActive && isSelected && selectedEmitterIds.length === ids.length;
+    const isMuted = soloActive ? !isUnitSelected(unit) : isHidden;
+    const isEditing = editingNameId === group.id;
+    const Chevron = group.collapsed ? ChevronRight : ChevronDown;
+
+    return (
+      <div ref={provided.innerRef} {...provided.draggableProps} className="space-y-1">
+        {/* Group Header */}
+        <div
+          className={`group/header px-2 py-1.5 border rounded transition-all ${
+            snapshot.isDragging
+              ? 'border-[var(--accent)] bg-[var(--accent)]/10 shadow-md'
+              : isSelected
+              ? 'border-[var(--border)] bg-[var(--surface-active)]'
+              : 'border-transparent hover:bg-[var(--surface-hover)]'
+          } ${isMuted ? 'opacity-40' : ''}`}
+          onClick={() => !isEditing && setEmitterSelection(ids)}
+          aria-selected={isSelected}
+        >
+          <div className="flex items-center gap-2">
+            <div {...provided.dragHandleProps} className="cursor-grab active:cursor-grabbing flex-shrink-0">
+              <GripVertical className="h-4 w-4 text-[var(--text-dimmed)]" />
+            </div>
+
+            <IconButton
+              size="xs"
+              variant="ghost"
+              onClick={(e) => {
+                e.stopPropagation();
+                setGroupCollapsed(group.id, !group.collapsed);
+              }}
+              title={group.collapsed ? 'Expand group' : 'Collapse group'}
+              aria-expanded={!group.collapsed}
+            >
+              <Chevron className="h-3 w-3" />
+            </IconButton>
+
+            <div className="flex-1 min-w-0">
+              {isEditing ? (
+                <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                  <Input
+                    type="text"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleSaveRename();
+                      if (e.key === 'Escape') handleCancelRename();
+                    }}
+                    className="h-7 text-xs"
+                    autoFocus
+                  />
+                  <Button size="icon" variant="ghost" className="h-6 w-6 flex-shrink-0" onClick={handleSaveRename}>
+                    <Check className="h-3 w-3" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-6 w-6 flex-shrink-0" onClick={handleCancelRename}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <div
+                    className="text-[var(--text-sm)] font-semibold truncate text-[var(--text)]"
+                    onDoubleClick={() => handleStartRename(group.id, group.name)}
+                  >
+                    {group.name}
+                  </div>
+                  <div className="text-[var(--text-xs)] text-[var(--text-dimmed)]">
+                    {ids.length} layer{ids.length !== 1 ? 's' : ''}
+                  </div>
+                </>
+              )}
+            </div>
+
+            {!isEditing && (
+              <div className="flex items-center gap-1 opacity-0 group-hover/header:opacity-100 transition-opacity">
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setEmittersHidden(ids, !isHidden);
+                  }}
+                  title={isHidden ? 'Show group' : 'Hide group'}
+                >
+                  {isHidden ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                </Button>
+
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setEmittersLocked(ids, !isLocked);
+                  }}
+                  title={isLocked ? 'Unlock group' : 'Lock group'}
+                  aria-pressed={isLocked}
+                >
+                  {isLocked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+                </Button>
+
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className={`h-6 w-6 ${isSoloed ? 'text-[var(--accent)]' : ''}`}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleSoloGroup(ids, isSoloed);
+                  }}
+                  title={isSoloed ? 'Show all layers' : 'Solo group'}
+                  aria-pressed={isSoloed}
+                >
+                  <Focus className="h-3 w-3" />
+                </Button>
+
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleStartRename(group.id, group.name);
+                  }}
+                  title="Rename group"
+                >
+                  <Edit2 className="h-3 w-3" />
+                </Button>
+
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDuplicateGroup(group.id);
+                  }}
+                  title="Duplicate group"
+                >
+                  <Copy className="h-3 w-3" />
+                </Button>
+
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleUngroup(group.id, group.name);
+                  }}
+                  title="Ungroup (Ctrl+Shift+G)"
+                >
+                  <FolderMinus className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Members */}
+        {!group.collapsed && (
+          <Droppable droppableId={`group:${group.id}`} type={`group:${group.id}`}>
+            {(provided) => (
+              <div
+                {...provided.droppableProps}
+                ref={provided.innerRef}
+                className="space-y-1 ml-3 pl-2 border-l border-[var(--border)]"
+              >
+                {members.map((emitter, memberIndex) => (
+                  <Draggable key={ids[memberIndex]} draggableId={ids[memberIndex]} index={memberIndex}>
+                    {(provided, snapshot) => renderLayerRow(emitter, provided, snapshot)}
+                  </Draggable>
+                ))}
+                {provided.placeholder}
+              </div>
+            )}
+          </Droppable>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-1">
+        {/* Add Layer Button */}
+        <DropdownMenu.Root>
+          <DropdownMenu.Trigger asChild>
+            <Button variant="outline" size="sm" className="flex-1">
+              <Plus className="h-4 w-4" />
+              Add Layer
+            </Button>
+          </DropdownMenu.Trigger>
+          <DropdownMenu.Portal>
+            <DropdownMenu.Content
+              className="min-w-[220px] bg-[var(--surface-2)] text-[var(--text)] border border-[var(--border)] rounded-md shadow-lg p-1 z-50"
+              sideOffset={5}
+            >
+              {EMITTER_TYPES.map((type) => (
+                <DropdownMenu.Item
+                  key={type.value}
+                  className="px-3 py-2 text-[var(--text-sm)] cursor-pointer hover:bg-[var(--surface-hover)] rounded-sm outline-none transition-colors"
+                  onSelect={() => handleAddEmitter(type.value)}
+                >
+                  {type.label}
+                </DropdownMenu.Item>
+              ))}
+            </DropdownMenu.Content>
+          </DropdownMenu.Portal>
+        </DropdownMenu.Root>
+
+        {/* Group Selected */}
+        <IconButton
+          onClick={handleGroupSelected}
+          title="Group selected layers (Ctrl+G)"
+          disabled={selectedEmitterIds.length === 0}
+        >
+          <FolderPlus className="h-3.5 w-3.5" />
+        </IconButton>
+
+        {/* Solo Toggle */}
+        <IconButton
+          onClick={() => setSoloMode(!soloMode)}
+          title={soloMode ? 'Show all layers' : 'Solo selected layers'}
+          variant={soloMode ? 'active' : 'default'}
+          aria-pressed={soloMode}
+        >
+          <Focus className="h-3.5 w-3.5" />
+        </IconButton>
+      </div>
 
       {/* Layer List with Drag-Drop */}
       {emitters.length === 0 ? (
@@ -225,153 +764,19 @@ export function LayerList() {
           <Droppable droppableId="layers">
             {(provided) => (
               <div {...provided.droppableProps} ref={provided.innerRef} className="space-y-1">
-                {emitters.map((emitter, index) => {
-                  const isHidden = hiddenEmitterIndices.has(index);
-                  const isEditing = editingNameIndex === index;
-                  const displayName = getEmitterDisplayName(emitter, index);
-
-                  return (
-                    <Draggable key={index} draggableId={`layer-${index}`} index={index}>
-                      {(provided, snapshot) => (
-                        <div
-                          ref={provided.innerRef}
-                          {...provided.draggableProps}
-                          className={`group px-2 py-1.5 border rounded transition-all ${
-                            snapshot.isDragging
-                              ? 'border-[var(--accent)] bg-[var(--accent)]/10 shadow-md'
-                              : selectedEmitterIndex === index
-                              ? 'border-[var(--accent)] bg-[var(--surface-active)]'
-                              : 'border-transparent hover:bg-[var(--surface-hover)]'
-                          } ${isHidden ? 'opacity-40' : ''}`}
-                          onClick={() => !isEditing && selectEmitter(index)}
-                        >
-                          <div className="flex items-center gap-2">
-                            {/* Drag Handle */}
-                            <div
-                              {...provided.dragHandleProps}
-                              className="cursor-grab active:cursor-grabbing flex-shrink-0"
-                            >
-                              <GripVertical className="h-4 w-4 text-[var(--text-dimmed)]" />
-                            </div>
-
-                            {/* Layer Name */}
-                            <div className="flex-1 min-w-0">
-                              {isEditing ? (
-                                <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
-                                  <Input
-                                    type="text"
-                                    value={editingName}
-                                    onChange={(e) => setEditingName(e.target.value)}
-                                    onKeyDown={(e) => {
-                                      if (e.key === 'Enter') handleSaveRename();
-                                      if (e.key === 'Escape') handleCancelRename();
-                                    }}
-                                    className="h-7 text-xs"
-                                    autoFocus
-                                  />
-                                  <Button
-                                    size="icon"
-                                    variant="ghost"
-                                    className="h-6 w-6 flex-shrink-0"
-                                    onClick={handleSaveRename}
-                                  >
-                                    <Check className="h-3 w-3" />
-                                  </Button>
-                                  <Button
-                                    size="icon"
-                                    variant="ghost"
-                                    className="h-6 w-6 flex-shrink-0"
-                                    onClick={handleCancelRename}
-                                  >
-                                    <X className="h-3 w-3" />
-                                  </Button>
-                                </div>
-                              ) : (
-                                <>
-                                  <div className="text-[var(--text-sm)] font-medium truncate text-[var(--text)]">
-                                    {displayName}
-                                  </div>
-                                  <div className="text-[var(--text-xs)] text-[var(--text-dimmed)]">
-                                    {emitter.particle.behaviors?.length || 0} behavior{(emitter.particle.behaviors?.length || 0) !== 1 ? 's' : ''}
-                                  </div>
-                                </>
-                              )}
-                            </div>
-
-                            {/* Actions */}
-                            {!isEditing && (
-                              <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                {/* Visibility Toggle */}
-                                <Button
-                                  size="icon"
-                                  variant="ghost"
-                                  className="h-6 w-6"
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    toggleEmitterVisibility(index);
-                                  }}
-                                  title={isHidden ? 'Show layer' : 'Hide layer'}
-                                >
-                                  {isHidden ? (
-                                    <EyeOff className="h-3 w-3" />
-                                  ) : (
-                                    <Eye className="h-3 w-3" />
-                                  )}
-                                </Button>
-
-                                {/* Rename */}
-                                <Button
-                                  size="icon"
-                                  variant="ghost"
-                                  className="h-6 w-6"
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    handleStartRename(index, displayName);
-                                  }}
-                                  title="Rename layer"
-                                >
-                                  <Edit2 className="h-3 w-3" />
-                                </Button>
-
-                                {/* Duplicate */}
-                                <Button
-                                  size="icon"
-                                  variant="ghost"
-                                  className="h-6 w-6"
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    duplicateEmitter(index);
-                                    toast.success('Layer duplicated');
-                                  }}
-                                  title="Duplicate (Ctrl+D)"
-                                >
-                                  <Copy className="h-3 w-3" />
-                                </Button>
-
-                                {/* Delete */}
-                                <Button
-                                  size="icon"
-                                  variant="ghost"
-                                  className="h-6 w-6"
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    if (confirm(`Delete ${displayName}?`)) {
-                                      removeEmitter(index);
-                                      toast.success('Layer deleted');
-                                    }
-                                  }}
-                                  title="Delete (Del)"
-                                >
-                                  <Trash2 className="h-3 w-3" />
-                                </Button>
-                              </div>
-                            )}
-                          </div>
-                        </div>
-                      )}
+                {units.map((unit, unitIndex) =>
+                  unit.kind === 'layer' ? (
+                    <Draggable key={unit.ids[0]} draggableId={unit.ids[0]} index={unitIndex}>
+                      {(provided, snapshot) =>
+                        renderLayerRow(emitters[findEmitterIndex(emitters, unit.ids[0])], provided, snapshot)
+                      }
+                    </Draggable>
+                  ) : (
+                    <Draggable key={unit.group.id} draggableId={`group:${unit.group.id}`} index={unitIndex}>
+                      {(provided, snapshot) => renderGroup(unit, provided, snapshot)}
                     </Draggable>
-                  );
-                })}
+                  ),
+                )}
                 {provided.placeholder}
               </div>
             )}
@@ -1,10 +1,23 @@
 import { PreviewCanvas } from '../preview/PreviewCanvas';
 import { PlaybackControls } from '../preview/PlaybackControls';
+import { Timeline } from '../preview/Timeline';
+import { ProblemsPanel } from '../problems/ProblemsPanel';
+import { ProfilerPanel } from '../profiler/ProfilerPanel';
+import { HistoryPanel } from '../history/HistoryPanel';
+import { DocumentTabs } from './DocumentTabs';
+import { useEditorStore } from '@/store/editorStore';
 import { ErrorBoundary } from '../ErrorBoundary';
 
 export function CenterPanel() {
+  const problemsPanelOpen = useEditorStore((s) => s.layout.problemsPanelOpen);
+  const profilerPanelOpen = useEditorStore((s) => s.layout.profilerPanelOpen);
+  const historyPanelOpen = useEditorStore((s) => s.layout.historyPanelOpen);
+
   return (
     <div className="flex-1 flex flex-col bg-[var(--bg)] relative min-w-0">
+      {/* Open effects */}
+      <DocumentTabs />
+
       {/* Preview canvas */}
       <div className="flex-1 relative p-2">
         <ErrorBoundary label="PreviewCanvas">
@@ -12,6 +25,32 @@ export function CenterPanel() {
         </ErrorBoundary>
       </div>
 
+      {/* Timeline */}
+      <div className="h-9 border-t border-[var(--border)] bg-[var(--surface)] shrink-0">
+        <Timeline />
+      </div>
+
+      {/* Profiler */}
+      {profilerPanelOpen && (
+        <div className="h-48 border-t border-[var(--border)] bg-[var(--surface)] shrink-0">
+          <ProfilerPanel />
+        </div>
+      )}
+
+      {/* History */}
+      {historyPanelOpen && (
+        <div className="h-40 border-t border-[var(--border)] bg-[var(--surface)] shrink-0">
+          <HistoryPanel />
+        </div>
+      )}
+
+      {/* Problems (docked above the playback controls) */}
+      {problemsPanelOpen && (
+        <div className="h-40 border-t border-[var(--border)] bg-[var(--surface)] shrink-0">
+          <ProblemsPanel />
+        </div>
+      )}
+
       {/* Bottom controls */}
       <div className="h-9 border-t border-[var(--border)] bg-[var(--surface)] shrink-0">
         <PlaybackControls />
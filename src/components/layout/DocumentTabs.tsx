@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import { Input } from '@/components/ui/input';
+import { IconButton } from '@/components/ui/icon-button';
+import { Plus, X } from 'lucide-react';
+
+/**
+ * One tab per open document. Double-click a tab to rename it; closing a tab
+ * with unsaved changes asks first.
+ */
+export function DocumentTabs() {
+  const documents = useEditorStore((s) => s.documents);
+  const activeDocumentId = useEditorStore((s) => s.activeDocumentId);
+  // The active tab's live dirty flag is on `ui`, not its document entry.
+  const activeUnsaved = useEditorStore((s) => s.ui.hasUnsavedChanges);
+  const { newDocument, switchDocument, closeDocument, renameDocument } = useEditorStore();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const handleClose = (id: string) => {
+    const unsaved = id === activeDocumentId ? activeUnsaved : documents.find((d) => d.id === id)?.hasUnsavedChanges;
+    if (unsaved && !confirm('This effect has unsaved changes. Close it anyway?')) return;
+    closeDocument(id);
+  };
+
+  const handleSaveRename = () => {
+    if (editingId !== null) renameDocument(editingId, editingName);
+    setEditingId(null);
+  };
+
+  return (
+    <div
+      className="flex items-center h-8 border-b border-[var(--border)] bg-[var(--surface)] shrink-0 overflow-x-auto"
+      role="tablist"
+      aria-label="Open effects"
+    >
+      {documents.map((document) => {
+        const active = document.id === activeDocumentId;
+        const unsaved = active ? activeUnsaved : document.hasUnsavedChanges;
+        return (
+          <div
+            key={document.id}
+            role="tab"
+            aria-selected={active}
+            className={`group flex items-center gap-1.5 h-full pl-3 pr-1 border-r border-[var(--border)] cursor-pointer text-[var(--text-xs)] ${
+              active
+                ? 'bg-[var(--bg)] text-[var(--text)]'
+                : 'text-[var(--text-muted)] hover:text-[var(--text)] hover:bg-[var(--surface-2)]'
+            }`}
+            onClick={() => switchDocument(document.id)}
+            onDoubleClick={() => {
+              setEditingId(document.id);
+              setEditingName(document.name);
+            }}
+            onMouseDown={(e) => {
+              // Middle-click closes, as in browsers.
+              if (e.button === 1) {
+                e.preventDefault();
+                handleClose(document.id);
+              }
+            }}
+            title={document.name}
+          >
+            {editingId === document.id ? (
+              <Input
+                type="text"
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSaveRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                onBlur={handleSaveRename}
+                onClick={(e) => e.stopPropagation()}
+                className="h-6 w-32 text-xs"
+                autoFocus
+              />
+            ) : (
+              <span className="truncate max-w-[160px]">{document.name}</span>
+            )}
+            {unsaved && (
+              <span className="w-1.5 h-1.5 rounded-full bg-[var(--warning)] flex-shrink-0" title="Unsaved changes" />
+            )}
+            <IconButton
+              size="xs"
+              variant="ghost"
+              title={`Close ${document.name}`}
+              className={active ? '' : 'opacity-0 group-hover:opacity-100'}
+              onClick={(e) => {
+                e.stopPropagation();
+                handleClose(document.id);
+              }}
+            >
+              <X size={12} />
+            </IconButton>
+          </div>
+        );
+      })}
+      <IconButton size="xs" variant="ghost" title="New effect" className="mx-1" onClick={newDocument}>
+        <Plus size={12} />
+      </IconButton>
+    </div>
+  );
+}
@@ -1,12 +1,19 @@
+import { useState } from 'react';
 import { IconButton } from '@/components/ui/icon-button';
 import { Separator } from '@/components/ui/separator';
 import { useEditorStore } from '@/store/editorStore';
 import {
   Download, Upload, FilePlus, Play, Pause, Square,
   Undo2, Redo2, PanelLeftClose, PanelRightClose,
-  RotateCcw, Github,
+  RotateCcw, Github, History, Package, PackageOpen, Video, LayoutGrid,
 } from 'lucide-react';
-import { editorConfigToYAML, yamlToEditorConfig } from '@/utils/configTransform';
+import { editorConfigToYAML, parseYamlImport } from '@/utils/configTransform';
+import type { EditorConfig, YamlImportResult } from '@/store/types';
+import { ImportReportDialog } from '@/components/import/ImportReportDialog';
+import { CaptureDialog } from '@/components/capture/CaptureDialog';
+import { FlipbookDialog } from '@/components/capture/FlipbookDialog';
+import { createProjectBundle, readProjectBundle } from '@/utils/projectBundle';
+import { getDocumentNameFromFile } from '@/utils/documents';
 import { downloadFile } from '@/lib/utils';
 import { toast } from 'sonner';
 
@@ -17,17 +24,21 @@ export function Header() {
   const historyLength = useEditorStore((s) => s.history.length);
   const canUndo = historyIndex >= 0;
   const canRedo = historyIndex + 2 < historyLength;
+  // history[k] is labelled with action k: the one undo reverts / redo reapplies.
+  const undoLabel = useEditorStore((s) => (canUndo ? s.history[historyIndex].label : ''));
+  const redoLabel = useEditorStore((s) => (canRedo ? s.history[historyIndex + 1].label : ''));
+  const [importFileName, setImportFileName] = useState('');
+  const [importResult, setImportResult] = useState<YamlImportResult | null>(null);
+  const [captureOpen, setCaptureOpen] = useState(false);
+  const [flipbookOpen, setFlipbookOpen] = useState(false);
 
   const handleNew = () => {
-    if (hasUnsavedChanges) {
-      if (!confirm('You have unsaved changes. Create new effect?')) return;
-    }
-    useEditorStore.getState().resetToDefault();
+    useEditorStore.getState().newDocument();
   };
 
   const handleExport = () => {
     try {
-      const { config } = useEditorStore.getState();
+      const { config } = useEditorStore.getState().getExportData();
       const yaml = editorConfigToYAML(config);
       const blob = new Blob([yaml], { type: 'text/yaml' });
       downloadFile(blob, 'particle-effect.yaml');
@@ -49,16 +60,66 @@ export function Header() {
       if (!file) return;
 
       try {
-        const text = await file.text();
-        const config = yamlToEditorConfig(text);
-        useEditorStore.getState().loadConfig(config, {
-          textures: new Map(),
-          sequences: new Map(),
+        const result = parseYamlImport(await file.text());
+        if (result.issues.length > 0) {
+          // Let the user review what would be dropped before loading anything.
+          setImportFileName(file.name);
+          setImportResult(result);
+          return;
+        }
+        loadImportedConfig(result.config, file.name);
+      } catch (err) {
+        toast.error('Failed to import', {
+          description: err instanceof Error ? err.message : 'Invalid file',
         });
+      }
+    };
+    input.click();
+  };
+
+  const loadImportedConfig = (config: EditorConfig, fileName: string) => {
+    useEditorStore.getState().openDocument(config, getDocumentNameFromFile(fileName));
+    useEditorStore.getState().setPreviewState('playing');
+    toast.success(`Imported "${fileName}"`);
+  };
+
+  const handleExportBundle = async () => {
+    try {
+      const { config, assets } = useEditorStore.getState().getExportData();
+      const bytes = await createProjectBundle(config, assets);
+      downloadFile(new Blob([bytes], { type: 'application/zip' }), 'particle-effect.zip');
+      useEditorStore.getState().markSaved();
+      toast.success('Bundle exported');
+    } catch (err) {
+      toast.error('Failed to export bundle', {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  };
+
+  const handleImportBundle = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.zip';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      try {
+        const bundle = await readProjectBundle(await file.arrayBuffer());
+        await useEditorStore
+          .getState()
+          .loadBundle(bundle.config, bundle.assets, getDocumentNameFromFile(file.name));
         useEditorStore.getState().setPreviewState('playing');
-        toast.success(`Imported "${file.name}"`);
+
+        const skipped = bundle.manifest.textures.length - bundle.assets.textures.size;
+        if (skipped > 0) {
+          toast.warning(`Imported "${file.name}" — ${skipped} texture(s) were missing from the bundle`);
+        } else {
+          toast.success(`Imported "${file.name}"`);
+        }
       } catch (err) {
-        toast.error('Failed to import', {
+        toast.error('Failed to import bundle', {
           description: err instanceof Error ? err.message : 'Invalid file',
         });
       }
@@ -123,6 +184,25 @@ export function Header() {
         <IconButton onClick={handleExport} title="Export" size="sm">
           <Download size={14} />
         </IconButton>
+        <IconButton onClick={handleImportBundle} title="Import bundle (.zip)" size="sm">
+          <PackageOpen size={14} />
+        </IconButton>
+        <IconButton
+          onClick={() => {
+            void handleExportBundle();
+          }}
+          title="Export bundle (.zip with textures)"
+          size="sm"
+        >
+          <Package size={14} />
+        </IconButton>
+        <IconButton
+          onClick={() => useEditorStore.getState().setSessionDialog('browse')}
+          title="Autosaved snapshots"
+          size="sm"
+        >
+          <History size={14} />
+        </IconButton>
       </div>
 
       <Separator orientation="vertical" className="h-5 mx-1" />
@@ -131,7 +211,7 @@ export function Header() {
       <div className="flex items-center gap-0.5">
         <IconButton
           onClick={handleUndo}
-          title="Undo (Ctrl+Z)"
+          title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
           size="sm"
           disabled={!canUndo}
         >
@@ -139,7 +219,7 @@ export function Header() {
         </IconButton>
         <IconButton
           onClick={handleRedo}
-          title="Redo (Ctrl+Shift+Z)"
+          title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
           size="sm"
           disabled={!canRedo}
         >
@@ -172,6 +252,12 @@ export function Header() {
         >
           <Square size={12} />
         </IconButton>
+        <IconButton onClick={() => setCaptureOpen(true)} title="Record preview" size="sm">
+          <Video size={14} />
+        </IconButton>
+        <IconButton onClick={() => setFlipbookOpen(true)} title="Bake flipbook spritesheet" size="sm">
+          <LayoutGrid size={14} />
+        </IconButton>
 
         <Separator orientation="vertical" className="h-4 mx-1" />
 
@@ -222,6 +308,19 @@ export function Header() {
       >
         <PanelRightClose size={14} />
       </IconButton>
+
+      <ImportReportDialog
+        fileName={importFileName}
+        result={importResult}
+        onCancel={() => setImportResult(null)}
+        onImport={(config) => {
+          setImportResult(null);
+          loadImportedConfig(config, importFileName);
+        }}
+      />
+
+      <CaptureDialog open={captureOpen} onOpenChange={setCaptureOpen} />
+      <FlipbookDialog open={flipbookOpen} onOpenChange={setFlipbookOpen} />
     </header>
   );
 }
@@ -1,13 +1,25 @@
+import { useMemo } from 'react';
 import { useEditorStore } from '@/store/editorStore';
+import { useValidation } from '@/hooks/useValidation';
+import { estimateConfig, getParticleBudget } from '@/utils/particleEstimate';
+import { findEmitter } from '@/utils/editorIds';
+import { getMaxParticles } from '@/utils/configTransform';
+import { Activity, AlertCircle, AlertTriangle, ListOrdered } from 'lucide-react';
 
 export function StatusBar() {
-  const { ui, config } = useEditorStore();
-  const { previewState, timeScale, canvasWidth, canvasHeight, selectedEmitterIndex } = ui;
+  const { ui, config, layout, toggleProblemsPanel, toggleProfilerPanel, toggleHistoryPanel } =
+    useEditorStore();
+  const validation = useValidation();
+  const { previewState, timeScale, canvasWidth, canvasHeight, selectedEmitterId } = ui;
 
-  const selectedEmitter =
-    selectedEmitterIndex !== null ? config.emitters[selectedEmitterIndex] : null;
+  const selectedEmitter = findEmitter(config.emitters, selectedEmitterId);
 
-  const totalParticles = config.system.maxParticles;
+  const totalParticles = getMaxParticles(config);
+  const estimate = useMemo(() => estimateConfig(config).total, [config]);
+  const budget = getParticleBudget(config);
+  const overLimit = estimate.peak > totalParticles || (budget !== null && estimate.peak > budget);
+  const errorCount = validation.errors.filter((e) => e.severity === 'error').length;
+  const warningCount = validation.errors.length - errorCount;
 
   return (
     <footer className="status-bar">
@@ -31,9 +43,23 @@ export function StatusBar() {
 
       <div className="status-bar-separator" />
 
-      {/* Max particles */}
-      <div className="status-bar-item">
-        Max: <span className="font-mono">{totalParticles}</span>
+      {/* Estimated particles vs. max / budget */}
+      <div
+        className={`status-bar-item ${overLimit ? 'text-[var(--warning)]' : ''}`}
+        title={`Estimated ~${estimate.steady} particles steady, up to ${estimate.peak} at peak${
+          budget !== null ? ` (budget ${budget})` : ''
+        }`}
+      >
+        Particles: <span className="font-mono">~{estimate.steady}</span>
+        <span className="text-[var(--text-dimmed)]">peak</span>
+        <span className="font-mono">{estimate.peak}</span>
+        <span className="text-[var(--text-dimmed)]">/</span>
+        <span className="font-mono">{totalParticles}</span>
+        {budget !== null && (
+          <span className="text-[var(--text-dimmed)]">
+            budget <span className="font-mono">{budget}</span>
+          </span>
+        )}
       </div>
 
       <div className="status-bar-separator" />
@@ -56,6 +82,60 @@ export function StatusBar() {
       {/* Spacer */}
       <div className="flex-1" />
 
+      {/* History */}
+      <button
+        type="button"
+        className={`status-bar-item hover:text-[var(--text)] ${
+          layout.historyPanelOpen ? 'text-[var(--text)]' : ''
+        }`}
+        onClick={toggleHistoryPanel}
+        title={layout.historyPanelOpen ? 'Hide history' : 'Show history'}
+        aria-pressed={layout.historyPanelOpen}
+      >
+        <ListOrdered size={11} />
+        <span>History</span>
+      </button>
+
+      <div className="status-bar-separator" />
+
+      {/* Profiler */}
+      <button
+        type="button"
+        className={`status-bar-item hover:text-[var(--text)] ${
+          layout.profilerPanelOpen ? 'text-[var(--text)]' : ''
+        }`}
+        onClick={toggleProfilerPanel}
+        title={layout.profilerPanelOpen ? 'Hide profiler' : 'Show profiler'}
+        aria-pressed={layout.profilerPanelOpen}
+      >
+        <Activity size={11} />
+        <span>Profiler</span>
+      </button>
+
+      <div className="status-bar-separator" />
+
+      {/* Problems */}
+      <button
+        type="button"
+        className={`status-bar-item gap-2 hover:text-[var(--text)] ${
+          layout.problemsPanelOpen ? 'text-[var(--text)]' : ''
+        }`}
+        onClick={toggleProblemsPanel}
+        title={layout.problemsPanelOpen ? 'Hide problems' : 'Show problems'}
+        aria-pressed={layout.problemsPanelOpen}
+      >
+        <span className={`flex items-center gap-1 ${errorCount > 0 ? 'text-[var(--destructive)]' : ''}`}>
+          <AlertCircle size={11} />
+          <span className="font-mono">{errorCount}</span>
+        </span>
+        <span className={`flex items-center gap-1 ${warningCount > 0 ? 'text-[var(--warning)]' : ''}`}>
+          <AlertTriangle size={11} />
+          <span className="font-mono">{warningCount}</span>
+        </span>
+      </button>
+
+      <div className="status-bar-separator" />
+
       {/* Unsaved indicator */}
       {ui.hasUnsavedChanges && (
         <div className="status-bar-item">
@@ -1,11 +1,23 @@
 import { useEditorStore } from '@/store/editorStore';
+import { IconButton } from '@/components/ui/icon-button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
+import { Grid3x3, Scan } from 'lucide-react';
 import { numberToHex, hexToNumber } from '@/lib/utils';
 
 export function PlaybackControls() {
-  const { ui, setBackgroundColor, setZoom } = useEditorStore();
+  const {
+    ui,
+    config,
+    setBackgroundColor,
+    setZoom,
+    setShowGrid,
+    setGridSize,
+    resetView,
+    fitViewToEmitters,
+  } = useEditorStore();
+  const isDefaultView = ui.zoom === 1 && ui.pan.x === 0 && ui.pan.y === 0;
 
   return (
     <div className="h-full flex items-center gap-3 px-3">
@@ -25,6 +37,36 @@ export function PlaybackControls() {
 
       <Separator orientation="vertical" className="h-4" />
 
+      {/* Grid */}
+      <div className="flex items-center gap-1.5">
+        <IconButton
+          onClick={() => setShowGrid(!ui.showGrid)}
+          title={ui.showGrid ? 'Hide grid' : 'Show grid'}
+          variant={ui.showGrid ? 'active' : 'default'}
+          size="xs"
+          aria-pressed={ui.showGrid}
+        >
+          <Grid3x3 size={12} />
+        </IconButton>
+        <Label htmlFor="grid-size" className="text-[10px]">
+          Grid
+        </Label>
+        <Input
+          id="grid-size"
+          type="number"
+          min="5"
+          max="500"
+          step="5"
+          value={ui.gridSize}
+          disabled={!ui.showGrid}
+          onChange={(e) => setGridSize(parseInt(e.target.value) || 50)}
+          className="w-14 h-5 text-[10px] px-1"
+        />
+        <span className="prop-unit">px</span>
+      </div>
+
+      <Separator orientation="vertical" className="h-4" />
+
       {/* Zoom */}
       <div className="flex items-center gap-1.5">
         <Label htmlFor="zoom" className="text-[10px]">
@@ -34,12 +76,28 @@ export function PlaybackControls() {
           id="zoom"
           type="number"
           min="0.1"
-          max="5"
+          max="10"
           step="0.1"
-          value={ui.zoom}
+          value={Math.round(ui.zoom * 100) / 100}
           onChange={(e) => setZoom(parseFloat(e.target.value) || 1)}
           className="w-14 h-5 text-[10px] px-1"
         />
+        <IconButton
+          onClick={fitViewToEmitters}
+          title="Fit all emitters (Shift+1)"
+          size="xs"
+          disabled={config.emitters.length === 0}
+        >
+          <Scan size={12} />
+        </IconButton>
+        <button
+          onClick={resetView}
+          title="Reset to 1:1 (Shift+0)"
+          disabled={isDefaultView}
+          className="px-1.5 h-5 text-[10px] font-mono rounded-[var(--radius-xs)] text-[var(--text-dimmed)] hover:text-[var(--text-muted)] hover:bg-[var(--surface-2)] transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        >
+          1:1
+        </button>
       </div>
     </div>
   );
@@ -5,18 +5,93 @@
  *  1. One-time init: PixiApplication is created and the render ticker starts.
  *  2. ResizeObserver keeps the renderer dimensions in sync with the DOM.
  *  3. A debounced effect rebuilds the particle system whenever config/assets
- *     change.  A `cancelled` flag guards every async step so stale rebuilds
- *     caused by rapid config edits never race against each other.
+ *     change. Hidden layers are left out of the preview (and everything but
+ *     the selected layer while soloing), as are emitters with validation
+ *     errors; export still uses the full config.
+ *     A `cancelled` flag guards every async step so stale rebuilds caused by
+ *     rapid config edits never race against each other. While playing,
+ *     emitter-only edits swap just the changed emitters into the running
+ *     system instead; textures are cached by asset id across both paths.
  *  4. A separate effect drives play / pause / stop from the store.
+ *  5. A grid layer underneath the particles is redrawn from `ui.showGrid` /
+ *     `ui.gridSize` whenever the canvas size, camera or theme changes.
+ *  6. Particle containers live in a `world` container that carries the
+ *     view-only camera transform (`ui.zoom` / `ui.pan`); emitter coordinates
+ *     are never rewritten by zooming or panning.
+ *  7. A gizmo layer above the world draws the selected emitter's outline and
+ *     transform handles; dragging them edits the emitter through the store.
+ *  8. The simulation always advances in fixed 1/60 s frames with a PRNG
+ *     seeded from `system.seed` (see utils/random), so a restart or a seek
+ *     replays identically. The current frame is published to
+ *     `usePreviewClock` for the timeline; a paused preview re-seeks to it
+ *     after a rebuild.
+ *  9. Captures requested through `usePreviewCapture` restart the simulation
+ *     and render each output frame off-screen (without grid or gizmos) after
+ *     stepping to it, then hand the frames to an encoder in utils/capture.
+ * 10. Trigger requests from `usePreviewTriggers` fire triggered emitters
+ *     (optionally at the clicked position) and re-fire burst emitters in the
+ *     running system.
+ * 11. While the profiler panel is open, every played frame is measured and
+ *     a sample (per-emitter counts and rates, behavior timings) is pushed to
+ *     `usePreviewProfiler` a few times a second.
  */
 
-import { useEffect, useRef, useState } from 'react';
-import { Application as PixiApplication, Graphics } from 'pixi.js';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Application as PixiApplication,
+  Container,
+  Graphics,
+  Matrix,
+  RenderTexture,
+} from 'pixi.js';
 import type { Container as PixiNativeContainer } from 'pixi.js';
 
 import { useEditorStore } from '@/store/editorStore';
-import type { AssetState } from '@/store/types';
-import { editorConfigToYAML, validateEditorConfig } from '@/utils/configTransform';
+import { usePreviewClock } from '@/store/previewClock';
+import { usePreviewCapture } from '@/store/previewCapture';
+import { usePreviewTriggers } from '@/store/previewTriggers';
+import { usePreviewProfiler } from '@/store/previewProfiler';
+import type { AssetState, EditorConfig } from '@/store/types';
+import {
+  editorConfigToYAML,
+  getAutoStart,
+  getInvalidEmitterIndices,
+  getPreviewConfig,
+  validateEditorConfig,
+} from '@/utils/configTransform';
+import { useThemeVersion } from '@/hooks/useThemeVersion';
+import { useViewportNavigation } from '@/hooks/useViewportNavigation';
+import { useGizmoInteraction } from '@/hooks/useGizmoInteraction';
+import { useTriggerClick } from '@/hooks/useTriggerClick';
+import { useMarqueeSelection } from '@/hooks/useMarqueeSelection';
+import { useValidation } from '@/hooks/useValidation';
+import { getGizmoHandles } from '@/utils/emitterGizmos';
+import { findEmitter, findEmitterIndex, getEditorId } from '@/utils/editorIds';
+import { bakeGroupTransforms, toWorldEmitter } from '@/utils/layerGroups';
+import {
+  FRAME_DURATION,
+  consumeFixedSteps,
+  frameToTime,
+  planSeek,
+  timeToFrame,
+} from '@/utils/timeline';
+import { DEFAULT_SEED, createSeededRandom, getSimulationSeed, withRandom } from '@/utils/random';
+import { diffPreviewConfigs, planTextureCacheUpdate } from '@/utils/previewDiff';
+import { createProfiler, PROFILER_SAMPLE_INTERVAL_MS } from '@/utils/profiler';
+import type { Profiler } from '@/utils/profiler';
+import { getCaptureTransform } from '@/utils/capture';
+import {
+  detachLiveEmitters,
+  getLiveEmitter,
+  getLiveEmitterCount,
+  replaceLiveEmitter,
+} from '@/utils/liveEmitters';
+import type { LiveEmitter } from '@/utils/liveEmitters';
+import type { CaptureJob } from '@/utils/capture';
+import { downloadFile } from '@/lib/utils';
+import { drawGrid, readGridTheme } from './gridOverlay';
+import { TriggerBar } from './TriggerBar';
+import { drawGizmos, GIZMO_HIT_RADIUS, readGizmoTheme } from './gizmoOverlay';
 
 import {
   ConfigLoader,
@@ -26,8 +101,9 @@ import {
   PixiTexture,
   registerDefaults,
 } from '@eonwetheherald/swizzle';
-import type { ITexture } from '@eonwetheherald/swizzle';
+import type { EmitterConfig, ITexture } from '@eonwetheherald/swizzle';
 
+import { AlertCircle } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface DebugMetrics {
@@ -66,14 +142,14 @@ function isTexture(value: unknown): value is ITexture {
   );
 }
 
-function attachContainer(renderer: ParticleRenderer, app: PixiApplication): void {
+function attachContainer(renderer: ParticleRenderer, world: Container): void {
   const native = getPixiNative(renderer);
-  if (native) app.stage.addChild(native);
+  if (native) world.addChild(native);
 }
 
-function detachContainer(renderer: ParticleRenderer, app: PixiApplication): void {
+function detachContainer(renderer: ParticleRenderer, world: Container): void {
   const native = getPixiNative(renderer);
-  if (native) app.stage.removeChild(native);
+  if (native) world.removeChild(native);
 }
 
 function normalizeTimeScale(value: number | undefined): number {
@@ -81,6 +157,24 @@ function normalizeTimeScale(value: number | undefined): number {
   return Math.min(MAX_TIME_SCALE, Math.max(MIN_TIME_SCALE, numericValue));
 }
 
+/**
+ * Textures loaded for the preview, kept across rebuilds so an edit doesn't
+ * re-decode every uploaded image (big sequences made that slow). Entries are
+ * keyed by asset id; `dataURL` tells whether the asset was replaced since.
+ */
+interface TextureCache {
+  byAssetId: Map<string, { dataURL: string; texture: ITexture }>;
+  /** The built-in circle; only depends on the app. */
+  fallback: ITexture | null;
+}
+
+function disposeTextureCache(cache: TextureCache): void {
+  for (const { texture } of cache.byAssetId.values()) texture.dispose();
+  cache.byAssetId.clear();
+  cache.fallback?.dispose();
+  cache.fallback = null;
+}
+
 /**
  * Build the texture map that ConfigLoader expects.
  *
@@ -92,46 +186,130 @@ function normalizeTimeScale(value: number | undefined): number {
  *
  * Texture.WHITE (1×1 px) is intentionally NOT used here because it produces
  * sprites that are invisible to the naked eye at default scale.
+ *
+ * Only new or replaced assets are loaded; removed ones are evicted from
+ * `cache` and disposed. Callers must have disposed any system still using
+ * them first.
  */
 async function buildTextureMap(
   assets: AssetState,
   engine: PixiGraphicsEngine,
   app: PixiApplication,
+  cache: TextureCache,
 ): Promise<Map<string, ITexture>> {
-  const map = new Map<string, ITexture>();
+  const { load, evict } = planTextureCacheUpdate(cache.byAssetId, assets.textures);
 
-  for (const [id, asset] of assets.textures) {
+  for (const id of evict) {
+    cache.byAssetId.get(id)?.texture.dispose();
+    cache.byAssetId.delete(id);
+  }
+
+  for (const id of load) {
+    const asset = assets.textures.get(id)!;
     try {
       const loaded = await engine.createTexture(asset.dataURL);
       if (!isTexture(loaded)) {
         throw new Error(`Invalid texture returned for ${asset.name}`);
       }
-
-      const texture = loaded;
-      map.set(asset.name, texture);
-      map.set(id, texture);
-      // Convenience: also register without file extension.
-      map.set(asset.name.replace(/\.[^/.]+$/, ''), texture);
+      cache.byAssetId.set(id, { dataURL: asset.dataURL, texture: loaded });
     } catch (err) {
       console.warn(`Failed to load texture "${asset.name}":`, err);
       toast.warning(`Failed to load texture: ${asset.name}`);
     }
   }
 
+  const map = new Map<string, ITexture>();
+  for (const [id, asset] of assets.textures) {
+    const texture = cache.byAssetId.get(id)?.texture;
+    if (!texture) continue;
+    map.set(asset.name, texture);
+    map.set(id, texture);
+    // Convenience: also register without file extension.
+    map.set(asset.name.replace(/\.[^/.]+$/, ''), texture);
+  }
+
   // Always provide a built-in white circle as the "default" texture so users
   // can switch back to it after choosing an uploaded texture.
-  {
+  if (!cache.fallback) {
     const gfx = new Graphics();
     gfx.circle(0, 0, 8);
     gfx.fill({ color: 0xffffff, alpha: 1 });
     const texture = app.renderer.generateTexture(gfx);
     gfx.destroy();
-    map.set('default', new PixiTexture(texture));
+    cache.fallback = new PixiTexture(texture);
   }
+  map.set('default', cache.fallback);
 
   return map;
 }
 
+/**
+ * Swap the emitters at `indices` for freshly loaded ones inside the live
+ * system, so every other emitter carries on. The replacements are built by
+ * ConfigLoader into a scratch system that is thrown away afterwards; the
+ * emitters they replace are stopped and disposed (see utils/liveEmitters).
+ * Returns false when the system doesn't have the expected shape; the caller
+ * then falls back to a full rebuild.
+ */
+async function hotPatchEmitters(
+  system: ParticleSystem,
+  indices: number[],
+  config: EditorConfig,
+  engine: PixiGraphicsEngine,
+  textureMap: Map<string, ITexture>,
+  random: () => number,
+): Promise<boolean> {
+  if (getLiveEmitterCount(system) !== config.emitters.length) return false;
+
+  const partial: EditorConfig = {
+    system: config.system,
+    emitters: indices.map((i) => config.emitters[i]),
+  };
+  const scratch = await ConfigLoader.loadFromString(
+    editorConfigToYAML(partial),
+    new ParticleRenderer(engine),
+    engine,
+    textureMap,
+  );
+  if (getLiveEmitterCount(scratch) !== indices.length) {
+    scratch.dispose();
+    return false;
+  }
+
+  // Detach the replacements first so disposing the scratch system leaves them alone.
+  const replacements = detachLiveEmitters(scratch);
+  scratch.dispose();
+
+  withRandom(random, () => {
+    indices.forEach((index, i) => replaceLiveEmitter(system, index, replacements[i], system.isRunning));
+  });
+  return true;
+}
+
+/**
+ * Call `trigger()` on a live triggered emitter, optionally from another
+ * world position. The emitter is put back where it was straight after, so
+ * the config stays the source of truth for where it lives.
+ */
+function fireEmitter(target: LiveEmitter | null, position?: { x: number; y: number }): boolean {
+  if (typeof target?.trigger !== 'function') return false;
+
+  const home = target.position ? { x: target.position.x, y: target.position.y } : null;
+  if (position && target.position) {
+    target.position.x = position.x;
+    target.position.y = position.y;
+  }
+  try {
+    target.trigger();
+  } finally {
+    if (home && target.position) {
+      target.position.x = home.x;
+      target.position.y = home.y;
+    }
+  }
+  return true;
+}
+
 // ─── Component ────────────────────────────────────────────────────────────────
 
 export function PreviewCanvas() {
@@ -139,16 +317,44 @@ export function PreviewCanvas() {
   const appRef = useRef<PixiApplication | null>(null);
   const systemRef = useRef<ParticleSystem | null>(null);
   const rendererRef = useRef<ParticleRenderer | null>(null);
+  const gridLayerRef = useRef<Container | null>(null);
+  const worldRef = useRef<Container | null>(null);
+  const gizmoLayerRef = useRef<Container | null>(null);
   // Ref mirrors store state so the ticker (a stable closure) always reads the
   // latest value without needing to be re-created on every state change.
   const previewStateRef = useRef<string>('stopped');
   const timeScaleRef = useRef<number>(1);
+  // Fixed-step frame the system sits on (null: stopped or just rebuilt),
+  // wall-clock time not yet simulated, and the seeded PRNG driving it.
+  const simFrameRef = useRef<number | null>(null);
+  const accumulatorRef = useRef(0);
+  const seedRef = useRef(DEFAULT_SEED);
+  const randomRef = useRef(createSeededRandom(DEFAULT_SEED));
+  // Set once emitters were hot-patched or fired by hand: the running state no
+  // longer follows from the seed alone, so the next seek replays from frame 0.
+  const divergedRef = useRef(false);
+  // What the live system was built from, to diff the next edit against.
+  const builtRef = useRef<{ config: EditorConfig; assets: AssetState } | null>(null);
+  const textureCacheRef = useRef<TextureCache>({ byAssetId: new Map(), fallback: null });
+  // While a capture runs it owns the simulation; ticker and playback leave it alone.
+  const capturingRef = useRef(false);
+  // Only exists while the profiler panel is open.
+  const profilerRef = useRef<Profiler | null>(null);
+  const profilerTickRef = useRef(0);
   const debugTickRef = useRef(0);
   const metricsTickRef = useRef(0);
   const fpsAccumulatorRef = useRef(0);
   const fpsFrameCountRef = useRef(0);
 
   const [error, setError] = useState<string | null>(null);
+  const [appReady, setAppReady] = useState(false);
+  const themeVersion = useThemeVersion();
+  // Navigation must register first so panning wins over gizmo drags, both
+  // win over click-to-fire, and all of them over marquee selection.
+  const { isPanning, isSpaceHeld } = useViewportNavigation(canvasRef);
+  const gizmo = useGizmoInteraction(canvasRef);
+  const triggerClick = useTriggerClick(canvasRef);
+  const { marquee } = useMarqueeSelection(canvasRef);
   const [metrics, setMetrics] = useState<DebugMetrics>({
     activeEmitters: 0,
     totalParticles: 0,
@@ -156,7 +362,25 @@ export function PreviewCanvas() {
     memoryMb: null,
   });
 
-  const { config, assets, ui, setPreviewState, setCanvasDimensions } = useEditorStore();
+  const { config, assets, ui, layout, setPreviewState, setCanvasDimensions, toggleProblemsPanel } =
+    useEditorStore();
+  const validation = useValidation();
+  const seekRequest = usePreviewClock((s) => s.seekRequest);
+  const captureRequest = usePreviewCapture((s) => s.request);
+  const triggerRequest = usePreviewTriggers((s) => s.request);
+  const timelineRef = useRef(ui.timeline);
+  const invalidIndices = useMemo(() => getInvalidEmitterIndices(validation), [validation]);
+
+  // Only the filtered emitter list feeds the rebuild, so selection changes
+  // outside solo mode never restart the preview. Solo mode previews the
+  // whole selection (e.g. every layer of a group); the key keeps the memo
+  // stable while the selected layers stay the same.
+  const soloKey = ui.soloMode ? ui.selectedEmitterIds.join('\n') : '';
+  const soloIds = useMemo(() => (soloKey ? soloKey.split('\n') : []), [soloKey]);
+  const previewConfig = useMemo(
+    () => getPreviewConfig(bakeGroupTransforms(config), ui.hiddenEmitterIds, soloIds, invalidIndices),
+    [config, ui.hiddenEmitterIds, soloIds, invalidIndices],
+  );
 
   // Keep the ticker's refs in sync.
   useEffect(() => {
@@ -170,6 +394,61 @@ export function PreviewCanvas() {
     }
   }, [ui.timeScale]);
 
+  useEffect(() => {
+    timelineRef.current = ui.timeline;
+  }, [ui.timeline]);
+
+  // The simulation helpers only touch refs, so the ticker's stable closure
+  // can call them too.
+  const publishTime = useCallback(() => {
+    usePreviewClock.getState().setTime(frameToTime(simFrameRef.current ?? 0));
+  }, []);
+
+  /** Back to frame 0 with a freshly seeded PRNG. */
+  const restartSimulation = useCallback(() => {
+    const system = systemRef.current;
+    if (!system) return;
+    randomRef.current = createSeededRandom(seedRef.current);
+    system.stop();
+    system.clear();
+    withRandom(randomRef.current, () => system.start());
+    simFrameRef.current = 0;
+    accumulatorRef.current = 0;
+    divergedRef.current = false;
+    profilerRef.current?.reset();
+  }, []);
+
+  /** Advance `count` frames; playback passes the profiler so each one is measured. */
+  const stepFrames = useCallback((count: number, profiler: Profiler | null = null) => {
+    const system = systemRef.current;
+    if (!system || simFrameRef.current === null || count <= 0) return;
+    withRandom(randomRef.current, () => {
+      for (let i = 0; i < count; i++) {
+        if (!profiler) {
+          system.update(FRAME_DURATION);
+          continue;
+        }
+        const start = performance.now();
+        system.update(FRAME_DURATION);
+        profiler.observe(system, performance.now() - start);
+      }
+    });
+    simFrameRef.current += count;
+  }, []);
+
+  const seekTo = useCallback(
+    (time: number) => {
+      if (!systemRef.current) return;
+      const from = divergedRef.current ? null : simFrameRef.current;
+      const { reset, steps } = planSeek(from, timeToFrame(time));
+      if (reset) restartSimulation();
+      stepFrames(steps);
+      accumulatorRef.current = 0;
+      publishTime();
+    },
+    [publishTime, restartSimulation, stepFrames],
+  );
+
   // ── 1. One-time PixiJS app initialisation ──────────────────────────────────
   //
   // The app is a long-lived singleton bound to the component's DOM lifetime.
@@ -210,6 +489,22 @@ export function PreviewCanvas() {
 
         el.appendChild(app.canvas);
         appRef.current = app;
+
+        // Stage order: screen-space grid, then the camera-transformed world
+        // that holds every particle container, then screen-space gizmos.
+        const gridLayer = new Container();
+        gridLayer.eventMode = 'none';
+        app.stage.addChild(gridLayer);
+        gridLayerRef.current = gridLayer;
+
+        const world = new Container();
+        app.stage.addChild(world);
+        worldRef.current = world;
+
+        const gizmoLayer = new Container();
+        gizmoLayer.eventMode = 'none';
+        app.stage.addChild(gizmoLayer);
+        gizmoLayerRef.current = gizmoLayer;
         app.ticker.speed = timeScaleRef.current;
         setCanvasDimensions(Math.round(width), Math.round(height));
 
@@ -219,8 +514,22 @@ export function PreviewCanvas() {
           const deltaMs = Number.isFinite(deltaMsRaw) && (deltaMsRaw ?? 0) > 0 ? (deltaMsRaw as number) : 16.667;
           const dt = deltaMs / 1000;
 
-          if (systemRef.current && previewStateRef.current === 'playing') {
-            systemRef.current.update(dt);
+          if (
+            systemRef.current &&
+            previewStateRef.current === 'playing' &&
+            !capturingRef.current
+          ) {
+            if (simFrameRef.current === null) restartSimulation();
+            const { steps, remainder } = consumeFixedSteps(accumulatorRef.current, dt);
+            accumulatorRef.current = remainder;
+            stepFrames(steps, profilerRef.current);
+
+            const { loopEnabled, loopIn, loopOut } = timelineRef.current;
+            if (loopEnabled && frameToTime(simFrameRef.current ?? 0) >= loopOut) {
+              seekTo(loopIn);
+            } else {
+              publishTime();
+            }
           }
 
           fpsAccumulatorRef.current += dt;
@@ -256,6 +565,18 @@ export function PreviewCanvas() {
             });
           }
 
+          const profiler = profilerRef.current;
+          if (profiler && now - profilerTickRef.current >= PROFILER_SAMPLE_INTERVAL_MS) {
+            profilerTickRef.current = now;
+            const liveEmitters = builtRef.current?.config.emitters ?? [];
+            const layers = useEditorStore.getState().config.emitters;
+            const sample = profiler.sample(
+              now,
+              liveEmitters.map((emitter) => findEmitterIndex(layers, getEditorId(emitter))),
+            );
+            if (sample) usePreviewProfiler.getState().pushSample(sample);
+          }
+
           // PixiJS Application auto-renders at LOW priority after every tick —
           // no manual render() call needed here.  Adding one would cause two
           // full render passes per frame and waste ~50 % of the render budget.
@@ -273,6 +594,8 @@ export function PreviewCanvas() {
             }
           }
         });
+
+        setAppReady(true);
       } catch (err) {
         if (import.meta.env.DEV) console.error('Failed to initialise PixiJS:', err);
         setError('Failed to initialise preview canvas');
@@ -286,6 +609,10 @@ export function PreviewCanvas() {
         delete (globalThis as Record<string, unknown>).__PIXI_STAGE__;
         delete (globalThis as Record<string, unknown>).__PIXI_RENDERER__;
       }
+      gridLayerRef.current = null;
+      worldRef.current = null;
+      gizmoLayerRef.current = null;
+      disposeTextureCache(textureCacheRef.current);
       if (appRef.current) {
         appRef.current.destroy(true);
         appRef.current = null;
@@ -318,6 +645,93 @@ export function PreviewCanvas() {
     renderer.background.color = ui.backgroundColor;
   }, [ui.backgroundColor]);
 
+  // ── 3b. Grid overlay ──────────────────────────────────────────────────────
+  //
+  // Canvas dimensions come from the store (kept current by the
+  // ResizeObserver above) so the grid redraws on every resize.
+  useEffect(() => {
+    const layer = gridLayerRef.current;
+    if (!appReady || !layer) return;
+
+    layer.visible = ui.showGrid;
+    if (!ui.showGrid) return;
+
+    drawGrid(layer, {
+      width: ui.canvasWidth,
+      height: ui.canvasHeight,
+      gridSize: ui.gridSize,
+      camera: { zoom: ui.zoom, pan: ui.pan },
+      centre: { x: ui.canvasWidth / 2, y: ui.canvasHeight / 2 },
+      theme: readGridTheme(),
+    });
+  }, [
+    appReady,
+    ui.showGrid,
+    ui.gridSize,
+    ui.canvasWidth,
+    ui.canvasHeight,
+    ui.zoom,
+    ui.pan,
+    themeVersion,
+  ]);
+
+  // ── 3c. Camera transform ───────────────────────────────────────────────────
+  useEffect(() => {
+    const world = worldRef.current;
+    if (!appReady || !world) return;
+    world.scale.set(ui.zoom);
+    world.position.set(ui.pan.x, ui.pan.y);
+  }, [appReady, ui.zoom, ui.pan]);
+
+  // ── 3d. Gizmo overlay ──────────────────────────────────────────────────────
+  // Gizmos show layers where they render, i.e. with their group's transform.
+  const selectedEmitter = useMemo(() => {
+    const emitter = findEmitter(config.emitters, ui.selectedEmitterId);
+    return emitter && toWorldEmitter(config.groups, emitter);
+  }, [config.emitters, config.groups, ui.selectedEmitterId]);
+  const otherSelected = useMemo(
+    () =>
+      ui.selectedEmitterIds
+        .filter((id) => id !== ui.selectedEmitterId)
+        .map((id) => findEmitter(config.emitters, id))
+        .filter((emitter): emitter is EmitterConfig => emitter !== null)
+        .map((emitter) => toWorldEmitter(config.groups, emitter)),
+    [config.emitters, config.groups, ui.selectedEmitterIds, ui.selectedEmitterId],
+  );
+
+  // A locked layer keeps its outline but gets no handles.
+  const selectedLocked = ui.selectedEmitterId !== null && ui.lockedEmitterIds.has(ui.selectedEmitterId);
+
+  useEffect(() => {
+    const layer = gizmoLayerRef.current;
+    if (!appReady || !layer) return;
+
+    layer.visible = selectedEmitter !== null;
+    if (!selectedEmitter) return;
+
+    drawGizmos(layer, {
+      emitter: selectedEmitter,
+      handles: selectedLocked ? [] : getGizmoHandles(selectedEmitter, GIZMO_HIT_RADIUS / ui.zoom),
+      others: otherSelected,
+      camera: { zoom: ui.zoom, pan: ui.pan },
+      hoveredId: gizmo.hoveredHandleId,
+      activeId: gizmo.activeHandleId,
+      deleteMode: gizmo.isAltHeld,
+      theme: readGizmoTheme(),
+    });
+  }, [
+    appReady,
+    selectedEmitter,
+    selectedLocked,
+    otherSelected,
+    ui.zoom,
+    ui.pan,
+    gizmo.hoveredHandleId,
+    gizmo.activeHandleId,
+    gizmo.isAltHeld,
+    themeVersion,
+  ]);
+
   // ── 4. Particle system rebuild (debounced) ─────────────────────────────────
   //
   // Pattern: setTimeout + cleanup ref.
@@ -328,32 +742,85 @@ export function PreviewCanvas() {
   //     was already in-flight stops as soon as it regains control.
   //   • `setPreviewState` is a stable Zustand action (never changes identity)
   //     so including it in deps is correct and doesn't cause extra runs.
+  //   • While playing, edits that only touch emitters are hot-patched into
+  //     the live system (see utils/previewDiff) so existing particles keep
+  //     going. Paused and stopped previews, asset changes and running
+  //     captures still rebuild; a paused rebuild re-seeks to the same frame.
   useEffect(() => {
     let cancelled = false;
 
     const timer = setTimeout(() => {
       void (async () => {
-      if (cancelled || !appRef.current) return;
+      if (cancelled || !appRef.current || !worldRef.current) return;
+
+      const built = builtRef.current;
+      const live = systemRef.current;
+      const update =
+        built && built.assets === assets
+          ? diffPreviewConfigs(built.config, previewConfig)
+          : ({ kind: 'rebuild' } as const);
+      if (live && update.kind === 'unchanged') return;
+      if (
+        live &&
+        update.kind === 'patch' &&
+        previewStateRef.current === 'playing' &&
+        !capturingRef.current
+      ) {
+        try {
+          const engine = new PixiGraphicsEngine(appRef.current);
+          const textureMap = await buildTextureMap(
+            assets,
+            engine,
+            appRef.current,
+            textureCacheRef.current,
+          );
+          if (cancelled || systemRef.current !== live) return;
+          const patched = await hotPatchEmitters(
+            live,
+            update.emitterIndices,
+            previewConfig,
+            engine,
+            textureMap,
+            randomRef.current,
+          );
+          if (cancelled) return;
+          if (patched) {
+            builtRef.current = { config: previewConfig, assets };
+            divergedRef.current = true;
+            setError(null);
+            return;
+          }
+        } catch (err: unknown) {
+          if (cancelled) return;
+          if (import.meta.env.DEV) console.warn('Hot update failed, rebuilding:', err);
+        }
+      }
 
       // Tear down the previous system before building the new one.
+      builtRef.current = null;
       if (systemRef.current) {
         systemRef.current.dispose();
         systemRef.current = null;
       }
       if (rendererRef.current) {
-        detachContainer(rendererRef.current, appRef.current);
+        detachContainer(rendererRef.current, worldRef.current);
         rendererRef.current = null;
       }
 
-      if (config.emitters.length === 0) {
+      if (previewConfig.emitters.length === 0) {
         if (!cancelled) setError(null);
         return;
       }
 
-      const validation = validateEditorConfig(config);
+      // Invalid emitters were already filtered out, so anything left here is
+      // system-level and blocks the whole preview.
+      const validation = validateEditorConfig(previewConfig);
       if (!validation.valid) {
         if (!cancelled) {
-          setError(`Invalid configuration: ${validation.errors.join(', ')}`);
+          const messages = validation.errors
+            .filter((e) => e.severity === 'error')
+            .map((e) => e.message);
+          setError(`Invalid configuration: ${messages.join(', ')}`);
           toast.error('Configuration validation failed');
         }
         return;
@@ -361,34 +828,47 @@ export function PreviewCanvas() {
 
       try {
         const app = appRef.current;
+        const world = worldRef.current;
         const engine = new PixiGraphicsEngine(app);
-        const textureMap = await buildTextureMap(assets, engine, app);
+        const textureMap = await buildTextureMap(assets, engine, app, textureCacheRef.current);
         if (cancelled) return;
 
         const renderer = new ParticleRenderer(engine);
-        attachContainer(renderer, app);
+        attachContainer(renderer, world);
         rendererRef.current = renderer;
 
-        const yamlConfig = editorConfigToYAML(config);
+        const yamlConfig = editorConfigToYAML(previewConfig);
 
         const system = await ConfigLoader.loadFromString(yamlConfig, renderer, engine, textureMap);
         if (cancelled) return;
 
         systemRef.current = system;
+        builtRef.current = { config: previewConfig, assets };
+        const resumeTime =
+          previewStateRef.current === 'paused' ? frameToTime(simFrameRef.current ?? 0) : 0;
+        simFrameRef.current = null;
+        seedRef.current = getSimulationSeed(previewConfig);
         if (import.meta.env.DEV) {
           (globalThis as Record<string, unknown>).__SWIZZLE_SYSTEM__ = system;
           (globalThis as Record<string, unknown>).__SWIZZLE_RENDERER__ = renderer;
         }
 
-        const shouldPlay = config.system.autoStart || previewStateRef.current === 'playing';
+        const shouldPlay = getAutoStart(previewConfig) || previewStateRef.current === 'playing';
         if (shouldPlay) {
-          system.start();
+          restartSimulation();
           if (previewStateRef.current !== 'playing') {
             previewStateRef.current = 'playing';
             setPreviewState('playing');
           }
         }
 
+        // Keep a paused preview on the same frame across edits.
+        if (resumeTime > 0 && previewStateRef.current === 'paused') {
+          seekTo(resumeTime);
+        } else {
+          publishTime();
+        }
+
         setError(null);
       } catch (err: unknown) {
         if (cancelled) return;
@@ -404,27 +884,217 @@ export function PreviewCanvas() {
       cancelled = true;
       clearTimeout(timer);
     };
-  }, [config, assets, setPreviewState]);
+  }, [previewConfig, assets, setPreviewState, restartSimulation, seekTo, publishTime]);
 
   // ── 5. Playback control ────────────────────────────────────────────────────
   useEffect(() => {
     const system = systemRef.current;
-    if (!system) return;
+    if (!system || capturingRef.current) return;
 
     if (ui.previewState === 'stopped') {
       system.stop();
       // Clear particles to ensure a fresh restart when play is clicked again
       system.clear();
-    } else if (ui.previewState === 'playing') {
-      system.start();
+      simFrameRef.current = null;
+      accumulatorRef.current = 0;
+      publishTime();
+    } else if (ui.previewState === 'playing' && simFrameRef.current === null) {
+      restartSimulation();
     }
-    // 'paused' intentionally left unhandled: the ticker simply stops calling
-    // system.update() because previewStateRef is no longer 'playing'.
-  }, [ui.previewState]);
+    // 'paused' intentionally left unhandled: the ticker simply stops stepping
+    // the system because previewStateRef is no longer 'playing'. Resuming
+    // carries on from the same frame.
+  }, [ui.previewState, publishTime, restartSimulation]);
+
+  // ── 6. Timeline seeks ──────────────────────────────────────────────────────
+  //
+  // Seeking a stopped preview leaves it paused on the requested frame;
+  // playing and paused previews keep their state.
+  useEffect(() => {
+    if (!seekRequest || !systemRef.current || capturingRef.current) return;
+    seekTo(seekRequest.time);
+    if (previewStateRef.current === 'stopped') {
+      previewStateRef.current = 'paused';
+      setPreviewState('paused');
+    }
+  }, [seekRequest, seekTo, setPreviewState]);
+
+  // ── 7. Capture ─────────────────────────────────────────────────────────────
+  //
+  // Frames are rendered off-screen at the requested size after stepping the
+  // simulation to them, so output never depends on wall-clock time. The
+  // preview goes back to where it was afterwards.
+  const runCapture = useCallback(
+    async (job: CaptureJob) => {
+      const app = appRef.current;
+      const system = systemRef.current;
+      const capture = usePreviewCapture.getState();
+      if (!app || !system) {
+        toast.error('Nothing to capture — the preview is empty');
+        capture.finishCapture();
+        return;
+      }
+
+      const { ui: currentUi } = useEditorStore.getState();
+      const total = job.frameCount;
+      const resumeFrame = simFrameRef.current;
+      const { scale, x, y } = getCaptureTransform(
+        currentUi.canvasWidth,
+        currentUi.canvasHeight,
+        job.width,
+        job.height,
+      );
+      const transform = new Matrix(scale, 0, 0, scale, x, y);
+      const clearColor = job.transparent ? [0, 0, 0, 0] : currentUi.backgroundColor;
+      const target = RenderTexture.create({ width: job.width, height: job.height });
+
+      const renderFrame = (): HTMLCanvasElement => {
+        // Hide the editor overlays for this render only; the on-screen
+        // preview keeps them.
+        const overlays = [gridLayerRef.current, gizmoLayerRef.current];
+        const visible = overlays.map((layer) => layer?.visible ?? false);
+        overlays.forEach((layer) => {
+          if (layer) layer.visible = false;
+        });
+        app.renderer.render({ container: app.stage, target, clearColor, transform });
+        overlays.forEach((layer, i) => {
+          if (layer) layer.visible = visible[i];
+        });
+        return app.renderer.extract.canvas(target) as HTMLCanvasElement;
+      };
+
+      capturingRef.current = true;
+      try {
+        const encoder = job.createEncoder();
+        restartSimulation();
+        for (let i = 0; i < total; i++) {
+          if (usePreviewCapture.getState().cancelRequested) {
+            toast('Capture cancelled');
+            return;
+          }
+          if (systemRef.current !== system) {
+            throw new Error('The effect was rebuilt during capture');
+          }
+          stepFrames(job.simFrame(i) - (simFrameRef.current ?? 0));
+          await encoder.addFrame(renderFrame());
+          usePreviewCapture.getState().setCaptureProgress(i + 1);
+        }
+        const blob = await encoder.finish();
+        downloadFile(blob, job.fileName);
+        toast.success(`Captured ${total} frame${total === 1 ? '' : 's'}`);
+      } catch (err: unknown) {
+        toast.error('Capture failed', {
+          description: err instanceof Error ? err.message : 'Unknown error',
+        });
+      } finally {
+        target.destroy(true);
+        capturingRef.current = false;
+        if (systemRef.current === system) {
+          if (previewStateRef.current === 'stopped' || resumeFrame === null) {
+            system.stop();
+            system.clear();
+            simFrameRef.current = null;
+            publishTime();
+          } else {
+            seekTo(frameToTime(resumeFrame));
+          }
+        }
+        usePreviewCapture.getState().finishCapture();
+      }
+    },
+    [publishTime, restartSimulation, seekTo, stepFrames],
+  );
+
+  useEffect(() => {
+    if (captureRequest) void runCapture(captureRequest.job);
+  }, [captureRequest, runCapture]);
+
+  // ── 8. Manual triggers ─────────────────────────────────────────────────────
+  //
+  // The layer is looked up by identity in the config the live system was
+  // built from, which skips hidden, soloed-out and invalid layers for free.
+  // Firing a stopped or paused preview starts playback so the result is
+  // visible. Re-firing swaps in a fresh copy of the burst emitter the same way
+  // hot updates do, leaving everything else running.
+  useEffect(() => {
+    if (!triggerRequest || capturingRef.current) return;
+    const { action } = triggerRequest;
+    const app = appRef.current;
+    const system = systemRef.current;
+    const built = builtRef.current;
+    const liveIndex = built ? findEmitterIndex(built.config.emitters, action.emitterId) : -1;
+    if (!app || !system || !built || liveIndex < 0) {
+      toast.info('That layer is not in the preview right now');
+      return;
+    }
+
+    if (previewStateRef.current !== 'playing') {
+      if (simFrameRef.current === null) restartSimulation();
+      previewStateRef.current = 'playing';
+      setPreviewState('playing');
+    }
+
+    void (async () => {
+      try {
+        let fired = false;
+        if (action.kind === 'fire') {
+          const live = getLiveEmitter(system, liveIndex);
+          fired = withRandom(randomRef.current, () => fireEmitter(live, action.position));
+        } else {
+          const engine = new PixiGraphicsEngine(app);
+          const textureMap = await buildTextureMap(
+            built.assets,
+            engine,
+            app,
+            textureCacheRef.current,
+          );
+          if (systemRef.current !== system) return;
+          fired = await hotPatchEmitters(
+            system,
+            [liveIndex],
+            built.config,
+            engine,
+            textureMap,
+            randomRef.current,
+          );
+        }
+        if (fired) divergedRef.current = true;
+        else toast.error('This emitter cannot be triggered');
+      } catch (err: unknown) {
+        if (import.meta.env.DEV) console.error('Failed to trigger emitter:', err);
+        toast.error('Failed to trigger emitter');
+      }
+    })();
+  }, [triggerRequest, restartSimulation, setPreviewState]);
+
+  // ── 9. Profiler ────────────────────────────────────────────────────────────
+  //
+  // Measuring every frame costs time of its own, so it only runs while the
+  // panel is open. Opening it starts a fresh history.
+  useEffect(() => {
+    if (!layout.profilerPanelOpen) return;
+    const profiler = createProfiler();
+    profilerRef.current = profiler;
+    usePreviewProfiler.getState().clearSamples();
+    return () => {
+      profiler.dispose();
+      if (profilerRef.current === profiler) profilerRef.current = null;
+    };
+  }, [layout.profilerPanelOpen]);
 
   // ── Render ─────────────────────────────────────────────────────────────────
   return (
-    <div className="w-full h-full relative canvas-container" ref={canvasRef}>
+    <div
+      className="w-full h-full relative canvas-container"
+      ref={canvasRef}
+      style={{
+        cursor: isPanning
+          ? 'grabbing'
+          : isSpaceHeld
+          ? 'grab'
+          : gizmo.cursor ?? triggerClick.cursor,
+      }}
+    >
       {error && (
         <div className="absolute inset-0 flex items-center justify-center z-20">
           <div className="border border-[var(--destructive)] bg-[var(--surface)] rounded-[var(--radius-md)] p-6 max-w-md shadow-lg">
@@ -441,6 +1111,27 @@ export function PreviewCanvas() {
         </div>
       )}
 
+      {marquee && (
+        <div
+          className="absolute z-10 pointer-events-none border border-[var(--accent)] bg-[var(--accent)]/10"
+          style={{ left: marquee.x, top: marquee.y, width: marquee.width, height: marquee.height }}
+        />
+      )}
+
+      {invalidIndices.size > 0 && !error && (
+        <button
+          type="button"
+          className="absolute top-2 left-2 z-20 flex items-center gap-1.5 px-2 py-1 rounded-[var(--radius-sm)] border border-[var(--destructive)] bg-[var(--surface)] text-[var(--text-xs)] text-[var(--destructive)] shadow-lg hover:bg-[var(--surface-2)]"
+          onClick={() => {
+            if (!useEditorStore.getState().layout.problemsPanelOpen) toggleProblemsPanel();
+          }}
+          title="Show problems"
+        >
+          <AlertCircle size={12} />
+          {invalidIndices.size} emitter{invalidIndices.size === 1 ? '' : 's'} skipped
+        </button>
+      )}
+
       {config.emitters.length === 0 && !error && (
         <div className="absolute inset-0 flex items-center justify-center z-20">
           <div className="text-center border border-dashed border-[var(--border)] rounded-[var(--radius-md)] p-8">
@@ -454,6 +1145,8 @@ export function PreviewCanvas() {
         </div>
       )}
 
+      {!error && <TriggerBar />}
+
       {ui.showDebugMetrics && (
         <section
           className="debug-metrics-overlay"
@@ -0,0 +1,213 @@
+import { useEffect, useRef } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import { stepPreview, usePreviewClock } from '@/store/previewClock';
+import { IconButton } from '@/components/ui/icon-button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import {
+  COARSE_STEP_SECONDS,
+  FRAME_DURATION,
+  MAX_TIMELINE_DURATION,
+  MIN_TIMELINE_DURATION,
+  clampToTimeline,
+  formatTimelineTime,
+  timeToFraction,
+  timeToFrame,
+} from '@/utils/timeline';
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Repeat, SkipBack } from 'lucide-react';
+
+type DragTarget = 'playhead' | 'in' | 'out';
+
+/**
+ * Timeline bar under the preview: playhead, frame stepping, loop in/out
+ * markers and click/drag seeking. Seeks are coalesced to one per animation
+ * frame since each one re-simulates from the nearest fixed-step state.
+ */
+export function Timeline() {
+  const { ui, setTimelineDuration, setLoopEnabled, setLoopRange } = useEditorStore();
+  const { duration, loopEnabled, loopIn, loopOut } = ui.timeline;
+  const time = usePreviewClock((s) => s.time);
+  const requestSeek = usePreviewClock((s) => s.requestSeek);
+
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragTarget | null>(null);
+  const pendingSeekRef = useRef<number | null>(null);
+  const rafRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (rafRef.current !== null) cancelAnimationFrame(rafRef.current);
+    };
+  }, []);
+
+  const timeAtPointer = (clientX: number): number => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return clampToTimeline(fraction * duration, duration);
+  };
+
+  const scheduleSeek = (target: number) => {
+    pendingSeekRef.current = target;
+    if (rafRef.current !== null) return;
+    rafRef.current = requestAnimationFrame(() => {
+      rafRef.current = null;
+      if (pendingSeekRef.current !== null) requestSeek(pendingSeekRef.current);
+      pendingSeekRef.current = null;
+    });
+  };
+
+  const applyDrag = (target: DragTarget, clientX: number) => {
+    const t = timeAtPointer(clientX);
+    if (target === 'in') {
+      setLoopRange(t, loopOut, 'in');
+    } else if (target === 'out') {
+      setLoopRange(loopIn, t, 'out');
+    } else {
+      scheduleSeek(t);
+    }
+  };
+
+  const handlePointerDown = (target: DragTarget) => (e: ReactPointerEvent<HTMLElement>) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+    dragRef.current = target;
+    trackRef.current?.setPointerCapture(e.pointerId);
+    applyDrag(target, e.clientX);
+  };
+
+  const handlePointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (dragRef.current) applyDrag(dragRef.current, e.clientX);
+  };
+
+  const handlePointerUp = (e: ReactPointerEvent<HTMLDivElement>) => {
+    dragRef.current = null;
+    if (trackRef.current?.hasPointerCapture(e.pointerId)) {
+      trackRef.current.releasePointerCapture(e.pointerId);
+    }
+  };
+
+  const playheadPercent = timeToFraction(time, duration) * 100;
+  const inPercent = timeToFraction(loopIn, duration) * 100;
+  const outPercent = timeToFraction(loopOut, duration) * 100;
+
+  return (
+    <div className="h-full flex items-center gap-2 px-3">
+      <div className="flex items-center gap-0.5">
+        <IconButton onClick={() => requestSeek(0)} title="Go to start" size="xs">
+          <SkipBack size={12} />
+        </IconButton>
+        <IconButton onClick={() => stepPreview(-COARSE_STEP_SECONDS)} title="Back 0.1s (Shift+,)" size="xs">
+          <ChevronsLeft size={12} />
+        </IconButton>
+        <IconButton onClick={() => stepPreview(-FRAME_DURATION)} title="Previous frame (,)" size="xs">
+          <ChevronLeft size={12} />
+        </IconButton>
+        <IconButton onClick={() => stepPreview(FRAME_DURATION)} title="Next frame (.)" size="xs">
+          <ChevronRight size={12} />
+        </IconButton>
+        <IconButton onClick={() => stepPreview(COARSE_STEP_SECONDS)} title="Forward 0.1s (Shift+.)" size="xs">
+          <ChevronsRight size={12} />
+        </IconButton>
+      </div>
+
+      <span
+        className="w-24 text-[10px] font-mono tabular-nums text-[var(--text-muted)] whitespace-nowrap"
+        title="Simulated time · frame at 60 fps"
+      >
+        {formatTimelineTime(time)} · f{timeToFrame(time)}
+      </span>
+
+      {/* Track */}
+      <div
+        ref={trackRef}
+        className="relative flex-1 h-5 cursor-pointer select-none touch-none"
+        onPointerDown={handlePointerDown('playhead')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        role="slider"
+        aria-label="Preview time"
+        aria-valuemin={0}
+        aria-valuemax={duration}
+        aria-valuenow={Math.min(time, duration)}
+      >
+        <div className="absolute inset-x-0 top-1/2 h-1 -translate-y-1/2 rounded-full bg-[var(--surface-2)] border border-[var(--border)]" />
+        {loopEnabled && (
+          <div
+            className="absolute top-1/2 h-1 -translate-y-1/2 bg-[var(--accent)] opacity-40"
+            style={{ left: `${inPercent}%`, width: `${outPercent - inPercent}%` }}
+          />
+        )}
+        <LoopMarker
+          percent={inPercent}
+          active={loopEnabled}
+          title={`Loop in ${formatTimelineTime(loopIn)}`}
+          onPointerDown={handlePointerDown('in')}
+        />
+        <LoopMarker
+          percent={outPercent}
+          active={loopEnabled}
+          title={`Loop out ${formatTimelineTime(loopOut)}`}
+          onPointerDown={handlePointerDown('out')}
+        />
+        <div
+          className="absolute top-0 bottom-0 w-0.5 -translate-x-1/2 bg-[var(--text)] pointer-events-none"
+          style={{ left: `${playheadPercent}%` }}
+        />
+      </div>
+
+      <IconButton
+        onClick={() => setLoopEnabled(!loopEnabled)}
+        title={loopEnabled ? 'Disable loop range' : 'Loop between the in/out markers'}
+        variant={loopEnabled ? 'active' : 'default'}
+        size="xs"
+        aria-pressed={loopEnabled}
+      >
+        <Repeat size={12} />
+      </IconButton>
+
+      <Separator orientation="vertical" className="h-4" />
+
+      <div className="flex items-center gap-1.5">
+        <Label htmlFor="timeline-duration" className="text-[10px]">
+          Length
+        </Label>
+        <Input
+          id="timeline-duration"
+          type="number"
+          min={MIN_TIMELINE_DURATION}
+          max={MAX_TIMELINE_DURATION}
+          step="0.5"
+          value={duration}
+          onChange={(e) => setTimelineDuration(parseFloat(e.target.value) || duration)}
+          className="w-14 h-5 text-[10px] px-1"
+        />
+        <span className="prop-unit">s</span>
+      </div>
+    </div>
+  );
+}
+
+interface LoopMarkerProps {
+  percent: number;
+  active: boolean;
+  title: string;
+  onPointerDown: (e: ReactPointerEvent<HTMLElement>) => void;
+}
+
+function LoopMarker({ percent, active, title, onPointerDown }: LoopMarkerProps) {
+  return (
+    <div
+      className={`absolute top-0 bottom-0 w-1.5 -translate-x-1/2 rounded-[var(--radius-xs)] cursor-ew-resize ${
+        active ? 'bg-[var(--accent)]' : 'bg-[var(--text-dimmed)] opacity-50'
+      }`}
+      style={{ left: `${percent}%` }}
+      title={title}
+      onPointerDown={onPointerDown}
+    />
+  );
+}
@@ -0,0 +1,42 @@
+import { useEditorStore } from '@/store/editorStore';
+import { triggerLayer } from '@/store/previewTriggers';
+import { getTriggerKind, getTriggerShortcutLabel } from '@/utils/triggers';
+import { getEditorId } from '@/utils/editorIds';
+import { RotateCcw, Zap } from 'lucide-react';
+
+/**
+ * Fire buttons for every triggered / burst layer, overlaid on the canvas so
+ * effects can be fired while watching them.
+ */
+export function TriggerBar() {
+  const emitters = useEditorStore((s) => s.config.emitters);
+  const layers = emitters.flatMap((emitter, index) => {
+    const kind = getTriggerKind(emitter);
+    return kind ? [{ emitter, index, kind }] : [];
+  });
+
+  if (layers.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-2 left-2 z-20 flex flex-wrap gap-1 max-w-[60%]">
+      {layers.map(({ emitter, index, kind }) => {
+        const name = (emitter.name as string) || `${emitter.type} ${index + 1}`;
+        const shortcut = getTriggerShortcutLabel(index);
+        const action = kind === 'fire' ? 'Fire' : 'Re-fire burst';
+        return (
+          <button
+            key={getEditorId(emitter)}
+            type="button"
+            className="flex items-center gap-1 px-2 py-1 rounded-[var(--radius-sm)] border border-[var(--border)] bg-[var(--surface)] text-[var(--text-xs)] text-[var(--text-muted)] shadow-lg hover:text-[var(--text)] hover:bg-[var(--surface-2)]"
+            onClick={() => triggerLayer(getEditorId(emitter))}
+            title={shortcut ? `${action} ${name} (${shortcut})` : `${action} ${name}`}
+          >
+            {kind === 'fire' ? <Zap size={12} /> : <RotateCcw size={12} />}
+            <span className="truncate max-w-[120px]">{name}</span>
+            {shortcut && <kbd className="font-mono text-[var(--text-dimmed)]">{shortcut}</kbd>}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * gizmoOverlay – draws the selected emitter's shape outline and transform
+ * handles into a dedicated Pixi layer above the particles.
+ *
+ * Everything is drawn in screen space (projected through the camera) so
+ * handles keep a constant size at any zoom. Handle geometry comes from
+ * `getGizmoHandles`; this module only paints it.
+ */
+
+import { Container, Graphics } from 'pixi.js';
+import type { EmitterConfig } from '@eonwetheherald/swizzle';
+import { asEmitterData } from '@/types/emitterTypes';
+import { worldToScreen } from '@/utils/camera';
+import type { Camera, Vec2 } from '@/utils/camera';
+import type { GizmoHandle } from '@/utils/emitterGizmos';
+import { readThemeColor } from './themeColors';
+
+export interface GizmoTheme {
+  accent: number;
+  fill: number;
+  destructive: number;
+}
+
+export interface GizmoDrawOptions {
+  emitter: EmitterConfig;
+  handles: GizmoHandle[];
+  /** The rest of a multi-selection: outline and centre marker only, no handles. */
+  others?: EmitterConfig[];
+  camera: Camera;
+  hoveredId: string | null;
+  activeId: string | null;
+  /** Hovered vertex will be deleted on click (Alt held). */
+  deleteMode: boolean;
+  theme: GizmoTheme;
+}
+
+/** Half the side length of square handles, in screen pixels. */
+export const GIZMO_HANDLE_SIZE = 4;
+/** Pointer distance (screen pixels) within which a handle is grabbed. */
+export const GIZMO_HIT_RADIUS = 7;
+
+const INSERT_HANDLE_RADIUS = 3;
+const POSITION_HANDLE_RADIUS = 5;
+
+/**
+ * Resolve gizmo colours from the active theme's CSS custom properties.
+ */
+export function readGizmoTheme(): GizmoTheme {
+  const styles = getComputedStyle(document.documentElement);
+  return {
+    accent: readThemeColor(styles, '--accent', 0x3b82f6),
+    fill: readThemeColor(styles, '--bg', 0x1e1e1e),
+    destructive: readThemeColor(styles, '--destructive', 0xef4444),
+  };
+}
+
+function drawPolyline(g: Graphics, points: Vec2[], closed: boolean): void {
+  if (points.length < 2) return;
+  g.moveTo(points[0].x, points[0].y);
+  for (let i = 1; i < points.length; i++) g.lineTo(points[i].x, points[i].y);
+  if (closed) g.closePath();
+}
+
+function drawOutline(g: Graphics, emitter: EmitterConfig, camera: Camera): void {
+  const project = (p: Vec2) => worldToScreen(camera, p);
+  const centre = project(emitter.position);
+
+  switch (emitter.type) {
+    case 'circle': {
+      const data = asEmitterData(emitter, 'circle');
+      g.circle(centre.x, centre.y, (data.radius ?? 0) * camera.zoom);
+      if (data.innerRadius) g.circle(centre.x, centre.y, data.innerRadius * camera.zoom);
+      break;
+    }
+    case 'area': {
+      const data = asEmitterData(emitter, 'area');
+      const w = (data.width ?? 0) * camera.zoom;
+      const h = (data.height ?? 0) * camera.zoom;
+      g.rect(centre.x - w / 2, centre.y - h / 2, w, h);
+      break;
+    }
+    case 'line': {
+      const data = asEmitterData(emitter, 'line');
+      if (data.start && data.end) drawPolyline(g, [project(data.start), project(data.end)], false);
+      break;
+    }
+  }
+}
+
+/**
+ * Clear `layer` and draw the outline plus handles for one emitter.
+ */
+export function drawGizmos(
+  layer: Container,
+  { emitter, handles, others = [], camera, hoveredId, activeId, deleteMode, theme }: GizmoDrawOptions,
+): void {
+  for (const child of layer.removeChildren()) {
+    child.destroy();
+  }
+
+  const secondary = new Graphics();
+  for (const other of others) {
+    drawOutline(secondary, other, camera);
+    const centre = worldToScreen(camera, other.position);
+    secondary.circle(centre.x, centre.y, POSITION_HANDLE_RADIUS);
+  }
+  secondary.stroke({ width: 1, color: theme.accent, alpha: 0.5 });
+
+  const outline = new Graphics();
+  drawOutline(outline, emitter, camera);
+
+  // Polygon / path outlines follow the vertex handles.
+  const vertices = handles.filter((h) => h.kind === 'vertex').map((h) => worldToScreen(camera, h.position));
+  if (vertices.length > 0) drawPolyline(outline, vertices, emitter.type === 'polygon');
+  outline.stroke({ width: 1, color: theme.accent, alpha: 0.8 });
+
+  const shapes = new Graphics();
+  for (const h of handles) {
+    const p = worldToScreen(camera, h.position);
+    const highlighted = h.id === hoveredId || h.id === activeId;
+    const color = highlighted && deleteMode && h.kind === 'vertex' ? theme.destructive : theme.accent;
+
+    if (h.kind === 'insert') {
+      shapes.circle(p.x, p.y, INSERT_HANDLE_RADIUS);
+      shapes.fill({ color, alpha: highlighted ? 0.9 : 0.35 });
+    } else if (h.kind === 'position') {
+      shapes.circle(p.x, p.y, POSITION_HANDLE_RADIUS);
+      shapes.fill({ color: highlighted ? color : theme.fill, alpha: 1 });
+      shapes.stroke({ width: 1.5, color, alpha: 1 });
+    } else {
+      const size = GIZMO_HANDLE_SIZE;
+      shapes.rect(p.x - size, p.y - size, size * 2, size * 2);
+      shapes.fill({ color: highlighted ? color : theme.fill, alpha: 1 });
+      shapes.stroke({ width: 1.5, color, alpha: 1 });
+    }
+  }
+
+  layer.addChild(secondary, outline, shapes);
+}
@@ -0,0 +1,135 @@
+/**
+ * gridOverlay – draws the alignment grid into a dedicated Pixi layer.
+ *
+ * The layer sits underneath the particle containers and is redrawn from
+ * scratch whenever the grid settings, canvas size, camera or theme change.
+ * Lines are laid out in game space but stroked in screen space so they stay
+ * 1 px wide at any zoom. Colours are read from the design tokens so the grid
+ * follows dark / light themes.
+ */
+
+import { Container, Graphics, Text } from 'pixi.js';
+import { adaptGridSpacing, computeGridLines } from '@/utils/grid';
+import { screenToWorld, worldToScreen } from '@/utils/camera';
+import type { Camera, Vec2 } from '@/utils/camera';
+import { readThemeColor } from './themeColors';
+
+export interface GridTheme {
+  minor: number;
+  major: number;
+  axis: number;
+  label: number;
+}
+
+export interface GridDrawOptions {
+  /** Viewport size in screen pixels. */
+  width: number;
+  height: number;
+  gridSize: number;
+  camera: Camera;
+  /** Game-space point marked with the centre crosshair. */
+  centre: Vec2;
+  theme: GridTheme;
+}
+
+const CROSSHAIR_HALF_LENGTH = 10;
+const LABEL_FONT_SIZE = 10;
+const LABEL_OFFSET = 4;
+
+/**
+ * Resolve grid colours from the active theme's CSS custom properties.
+ */
+export function readGridTheme(): GridTheme {
+  const styles = getComputedStyle(document.documentElement);
+  return {
+    minor: readThemeColor(styles, '--border-subtle', 0x2e2e30),
+    major: readThemeColor(styles, '--border', 0x3c3c3c),
+    axis: readThemeColor(styles, '--accent', 0x3b82f6),
+    label: readThemeColor(styles, '--text-muted', 0x858585),
+  };
+}
+
+function createLabel(text: string, color: number, x: number, y: number): Text {
+  const label = new Text({
+    text,
+    style: {
+      fontFamily: 'JetBrains Mono, monospace',
+      fontSize: LABEL_FONT_SIZE,
+      fill: color,
+    },
+  });
+  label.position.set(x, y);
+  return label;
+}
+
+/** Snap a coordinate to the pixel centre so 1 px strokes stay crisp. */
+function crisp(value: number): number {
+  return Math.round(value) + 0.5;
+}
+
+function formatCoord(value: number): string {
+  return String(Math.round(value));
+}
+
+/**
+ * Clear `layer` and draw the minor / major grid lines, the game-space origin
+ * axes and a labelled crosshair at `centre`.
+ */
+export function drawGrid(
+  layer: Container,
+  { width, height, gridSize, camera, centre, theme }: GridDrawOptions,
+): void {
+  for (const child of layer.removeChildren()) {
+    child.destroy();
+  }
+
+  const spacing = adaptGridSpacing(gridSize, camera.zoom);
+  const topLeft = screenToWorld(camera, { x: 0, y: 0 });
+  const bottomRight = screenToWorld(camera, { x: width, y: height });
+  const xLines = computeGridLines(topLeft.x, bottomRight.x, spacing);
+  const yLines = computeGridLines(topLeft.y, bottomRight.y, spacing);
+
+  const minor = new Graphics();
+  const major = new Graphics();
+
+  for (const line of xLines) {
+    const x = crisp(line.position * camera.zoom + camera.pan.x);
+    (line.major ? major : minor).moveTo(x, 0).lineTo(x, height);
+  }
+  for (const line of yLines) {
+    const y = crisp(line.position * camera.zoom + camera.pan.y);
+    (line.major ? major : minor).moveTo(0, y).lineTo(width, y);
+  }
+
+  minor.stroke({ width: 1, color: theme.minor, alpha: 1 });
+  major.stroke({ width: 1, color: theme.major, alpha: 1 });
+
+  // Origin axes (x = 0, y = 0) in game space.
+  const origin = worldToScreen(camera, { x: 0, y: 0 });
+  const axes = new Graphics();
+  axes.moveTo(crisp(origin.x), 0).lineTo(crisp(origin.x), height);
+  axes.moveTo(0, crisp(origin.y)).lineTo(width, crisp(origin.y));
+  axes.stroke({ width: 2, color: theme.axis, alpha: 0.6 });
+
+  // Centre crosshair — fixed screen size regardless of zoom.
+  const c = worldToScreen(camera, centre);
+  const cx = crisp(c.x);
+  const cy = crisp(c.y);
+  const crosshair = new Graphics();
+  crosshair.moveTo(cx - CROSSHAIR_HALF_LENGTH, cy).lineTo(cx + CROSSHAIR_HALF_LENGTH, cy);
+  crosshair.moveTo(cx, cy - CROSSHAIR_HALF_LENGTH).lineTo(cx, cy + CROSSHAIR_HALF_LENGTH);
+  crosshair.stroke({ width: 1, color: theme.axis, alpha: 0.9 });
+
+  layer.addChild(minor, major, axes, crosshair);
+  layer.addChild(
+    createLabel('0, 0', theme.label, origin.x + LABEL_OFFSET, origin.y + LABEL_OFFSET),
+  );
+  layer.addChild(
+    createLabel(
+      `${formatCoord(centre.x)}, ${formatCoord(centre.y)}`,
+      theme.label,
+      c.x + LABEL_OFFSET,
+      c.y + LABEL_OFFSET,
+    ),
+  );
+}
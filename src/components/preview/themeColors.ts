@@ -0,0 +1,17 @@
+/**
+ * themeColors – resolve design tokens to Pixi colour numbers.
+ *
+ * Canvas overlays can't use CSS variables directly, so they read the computed
+ * token values from the document root whenever the theme changes.
+ */
+
+import { hexToNumber } from '@/lib/utils';
+
+/**
+ * Read a `#rrggbb` custom property from `styles`, falling back when the token
+ * is missing or uses a format Pixi can't take as a number.
+ */
+export function readThemeColor(styles: CSSStyleDeclaration, name: string, fallback: number): number {
+  const raw = styles.getPropertyValue(name).trim();
+  return /^#[0-9a-f]{6}$/i.test(raw) ? hexToNumber(raw) : fallback;
+}
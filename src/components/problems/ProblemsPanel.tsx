@@ -0,0 +1,83 @@
+import { useEditorStore } from '@/store/editorStore';
+import type { EditorConfig, ValidationError } from '@/store/types';
+import { useValidation } from '@/hooks/useValidation';
+import { parseValidationPath } from '@/utils/configTransform';
+import { IconButton } from '@/components/ui/icon-button';
+import { AlertCircle, AlertTriangle, CheckCircle2, X } from 'lucide-react';
+
+function describeLocation(entry: ValidationError, config: EditorConfig): string {
+  const { emitterIndex } = parseValidationPath(entry.path);
+  if (emitterIndex === null) return 'System';
+  const emitter = config.emitters[emitterIndex];
+  if (!emitter) return `Emitter ${emitterIndex}`;
+  return (emitter.name as string) || `${emitter.type} Emitter`;
+}
+
+/**
+ * Dockable list of validation errors and warnings for the current document.
+ * Clicking an entry selects the emitter / behavior and focuses the field.
+ */
+export function ProblemsPanel() {
+  const config = useEditorStore((s) => s.config);
+  const revealValidationPath = useEditorStore((s) => s.revealValidationPath);
+  const toggleProblemsPanel = useEditorStore((s) => s.toggleProblemsPanel);
+  const { errors } = useValidation();
+
+  // Errors first, then document order.
+  const entries = [...errors].sort(
+    (a, b) => Number(a.severity === 'warning') - Number(b.severity === 'warning'),
+  );
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center gap-2 px-3 h-7 border-b border-[var(--border)] shrink-0">
+        <span className="text-[var(--text-xs)] font-semibold text-[var(--text-strong)] uppercase tracking-wide">
+          Problems
+        </span>
+        <span className="text-[var(--text-xs)] text-[var(--text-dimmed)]">{errors.length}</span>
+        <div className="flex-1" />
+        <IconButton size="xs" variant="ghost" title="Close problems" onClick={toggleProblemsPanel}>
+          <X size={12} />
+        </IconButton>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {entries.length === 0 ? (
+          <div className="h-full flex items-center justify-center gap-2 text-[var(--text-xs)] text-[var(--text-muted)]">
+            <CheckCircle2 size={13} className="text-[var(--accent)]" />
+            No problems detected
+          </div>
+        ) : (
+          <ul>
+            {entries.map((entry, i) => (
+              <li key={`${entry.path}:${entry.code}:${i}`}>
+                <button
+                  type="button"
+                  className="flex items-center gap-2 w-full px-3 py-1 text-left text-[var(--text-xs)] hover:bg-[var(--surface-2)]"
+                  onClick={() => revealValidationPath(entry.path)}
+                  title={`Go to ${entry.path}`}
+                >
+                  {entry.severity === 'error' ? (
+                    <AlertCircle size={12} className="flex-shrink-0 text-[var(--destructive)]" />
+                  ) : (
+                    <AlertTriangle size={12} className="flex-shrink-0 text-[var(--warning)]" />
+                  )}
+                  <span className="flex-shrink-0 font-medium text-[var(--text)]">
+                    {describeLocation(entry, config)}
+                  </span>
+                  <span className="flex-1 min-w-0 truncate text-[var(--text-muted)]">{entry.message}</span>
+                  <span className="flex-shrink-0 font-mono text-[10px] text-[var(--text-dimmed)]">
+                    {entry.path}
+                  </span>
+                  <span className="flex-shrink-0 font-mono text-[10px] text-[var(--text-dimmed)]">
+                    {entry.code}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useEditorStore } from '@/store/editorStore';
+import { usePreviewProfiler } from '@/store/previewProfiler';
+import { getBudgetWarning, getSparklinePoints, projectSteadyState } from '@/utils/profiler';
+import { getMeanLifetime } from '@/utils/particleEstimate';
+import { getEditorId } from '@/utils/editorIds';
+import { getMaxParticles } from '@/utils/configTransform';
+import type { ProfilerSample } from '@/utils/profiler';
+import { IconButton } from '@/components/ui/icon-button';
+import { AlertTriangle, X } from 'lucide-react';
+
+const SPARKLINE_WIDTH = 96;
+const SPARKLINE_HEIGHT = 16;
+
+/** Particle count of layer `layerIndex` in each sample (0 while it wasn't live). */
+function getLayerHistory(samples: ProfilerSample[], layerIndex: number): number[] {
+  return samples.map((sample) => {
+    const live = sample.layerIndices.indexOf(layerIndex);
+    return live >= 0 ? (sample.emitters[live]?.count ?? 0) : 0;
+  });
+}
+
+function formatRate(value: number): string {
+  return value >= 100 ? Math.round(value).toString() : value.toFixed(1);
+}
+
+function Sparkline({ values, max }: { values: number[]; max?: number }) {
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} className="flex-shrink-0">
+      <polyline
+        points={getSparklinePoints(values, SPARKLINE_WIDTH, SPARKLINE_HEIGHT, max)}
+        fill="none"
+        stroke="var(--accent)"
+        strokeWidth={1}
+      />
+    </svg>
+  );
+}
+
+/**
+ * Dockable live profiler: particles per layer with spawn / death rates and
+ * a rolling history, time per behavior type, and a warning when the effect
+ * is heading for `system.maxParticles`. Samples come from PreviewCanvas
+ * while the panel is open and the preview is playing.
+ */
+export function ProfilerPanel() {
+  const config = useEditorStore((s) => s.config);
+  const selectEmitter = useEditorStore((s) => s.selectEmitter);
+  const toggleProfilerPanel = useEditorStore((s) => s.toggleProfilerPanel);
+  const samples = usePreviewProfiler((s) => s.samples);
+  const latest = samples.length > 0 ? samples[samples.length - 1] : null;
+
+  const maxParticles = getMaxParticles(config);
+  const projected = latest
+    ? projectSteadyState(
+        latest.emitters.map((e) => e.spawnRate),
+        latest.layerIndices.map((index) =>
+          index >= 0 && config.emitters[index] ? getMeanLifetime(config.emitters[index]) : 0,
+        ),
+      )
+    : 0;
+  const warning = latest ? getBudgetWarning(latest.totalParticles, projected, maxParticles) : null;
+  const countsAvailable = latest?.emitters.every((e) => e.count !== null) ?? true;
+  const behaviors = latest
+    ? Object.entries(latest.behaviorMs).sort(([, a], [, b]) => b - a)
+    : [];
+  const slowestBehavior = behaviors.length > 0 ? behaviors[0][1] : 0;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center gap-3 px-3 h-7 border-b border-[var(--border)] shrink-0">
+        <span className="text-[var(--text-xs)] font-semibold text-[var(--text-strong)] uppercase tracking-wide">
+          Profiler
+        </span>
+        {latest && (
+          <>
+            <span className="text-[var(--text-xs)] text-[var(--text-muted)] font-mono">
+              {latest.totalParticles} / {maxParticles}
+            </span>
+            <span className="text-[var(--text-xs)] text-[var(--text-dimmed)] font-mono">
+              update {latest.updateMs.toFixed(2)} ms
+            </span>
+            <Sparkline
+              values={samples.map((s) => s.totalParticles)}
+              max={Math.max(maxParticles, ...samples.map((s) => s.totalParticles))}
+            />
+          </>
+        )}
+        {warning && (
+          <span className="flex items-center gap-1 min-w-0 text-[var(--text-xs)] text-[var(--warning)]">
+            <AlertTriangle size={12} className="flex-shrink-0" />
+            <span className="truncate">{warning}</span>
+          </span>
+        )}
+        <div className="flex-1" />
+        <IconButton size="xs" variant="ghost" title="Close profiler" onClick={toggleProfilerPanel}>
+          <X size={12} />
+        </IconButton>
+      </div>
+
+      {!latest ? (
+        <div className="flex-1 flex items-center justify-center text-[var(--text-xs)] text-[var(--text-muted)]">
+          Play the preview to collect samples
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 flex">
+          {/* Per layer */}
+          <div className="flex-1 min-w-0 overflow-y-auto border-r border-[var(--border)]">
+            <table className="w-full text-[var(--text-xs)]">
+              <thead className="text-[var(--text-dimmed)] text-left">
+                <tr>
+                  <th className="px-3 py-1 font-medium">Layer</th>
+                  <th className="px-2 py-1 font-medium">History</th>
+                  <th className="px-2 py-1 font-medium text-right">Live</th>
+                  <th className="px-2 py-1 font-medium text-right">Share</th>
+                  <th className="px-2 py-1 font-medium text-right" title="Spawned per second">
+                    Spawn/s
+                  </th>
+                  <th className="px-2 py-1 font-medium text-right" title="Died per second">
+                    Death/s
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {latest.emitters.map((profile, live) => {
+                  const layerIndex = latest.layerIndices[live];
+                  const emitter = layerIndex >= 0 ? config.emitters[layerIndex] : undefined;
+                  const name = emitter
+                    ? (emitter.name as string) || `${emitter.type} ${layerIndex + 1}`
+                    : 'Removed layer';
+                  const share =
+                    profile.count !== null && latest.totalParticles > 0
+                      ? Math.round((profile.count / latest.totalParticles) * 100)
+                      : null;
+                  return (
+                    <tr
+                      key={live}
+                      className="hover:bg-[var(--surface-2)] cursor-pointer"
+                      onClick={() => emitter && selectEmitter(getEditorId(emitter))}
+                    >
+                      <td className="px-3 py-0.5 font-sans text-[var(--text)] truncate max-w-[160px]">
+                        {name}
+                      </td>
+                      <td className="px-2 py-0.5">
+                        <Sparkline values={getLayerHistory(samples, layerIndex)} />
+                      </td>
+                      <td className="px-2 py-0.5 text-right">{profile.count ?? '—'}</td>
+                      <td className="px-2 py-0.5 text-right text-[var(--text-muted)]">
+                        {share === null ? '—' : `${share}%`}
+                      </td>
+                      <td className="px-2 py-0.5 text-right">{formatRate(profile.spawnRate)}</td>
+                      <td className="px-2 py-0.5 text-right">{formatRate(profile.deathRate)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {!countsAvailable && (
+              <p className="px-3 py-1 text-[10px] text-[var(--text-dimmed)]">
+                This engine build doesn&apos;t expose which emitter owns a particle.
+              </p>
+            )}
+          </div>
+
+          {/* Per behavior type */}
+          <div className="w-64 shrink-0 overflow-y-auto px-3 py-1 text-[var(--text-xs)]">
+            <div className="text-[var(--text-dimmed)] font-medium mb-1">Behavior time / frame</div>
+            {behaviors.length === 0 ? (
+              <p className="text-[var(--text-dimmed)]">
+                No behavior timings — this engine build doesn&apos;t expose behavior instances.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {behaviors.map(([type, ms]) => (
+                  <li key={type} className="flex items-center gap-2">
+                    <span className="w-24 truncate text-[var(--text)]">{type}</span>
+                    <span className="flex-1 h-1.5 rounded-full bg-[var(--surface-2)] overflow-hidden">
+                      <span
+                        className="block h-full bg-[var(--accent)]"
+                        style={{ width: `${slowestBehavior > 0 ? (ms / slowestBehavior) * 100 : 0}%` }}
+                      />
+                    </span>
+                    <span className="w-16 text-right font-mono text-[var(--text-muted)]">
+                      {ms.toFixed(3)} ms
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
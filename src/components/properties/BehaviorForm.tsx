@@ -13,6 +13,8 @@ import { RangeInput } from './fields/RangeInput';
 import { SelectInput } from './fields/SelectInput';
 import { ColorInput } from './fields/ColorInput';
 import { EasingSelect } from './fields/EasingSelect';
+import { BEHAVIOR_REGISTRY } from '@/types/behaviorTypes';
+import { describeChange } from '@/utils/history';
 import type { BehaviorConfig } from '@eonwetheherald/swizzle';
 import type {
   TypedBehaviorConfig,
@@ -32,17 +34,20 @@ import type {
 } from '@/types/behaviorTypes';
 
 interface BehaviorFormProps {
-  emitterIndex: number;
-  behaviorIndex: number;
+  emitterId: string;
+  behaviorId: string;
   behavior: BehaviorConfig;
 }
 
-export function BehaviorForm({ emitterIndex, behaviorIndex, behavior }: BehaviorFormProps) {
-  const { updateBehavior } = useEditorStore();
+export function BehaviorForm({ emitterId, behaviorId, behavior }: BehaviorFormProps) {
+  const { pushHistory, updateBehavior } = useEditorStore();
   const typed = behavior as TypedBehaviorConfig;
+  const behaviorLabel = BEHAVIOR_REGISTRY.find((b) => b.value === behavior.type)?.label ?? behavior.type;
 
   const handleUpdate = (updates: Partial<TypedBehaviorConfig>) => {
-    updateBehavior(emitterIndex, behaviorIndex, { ...behavior, ...updates } as BehaviorConfig);
+    const label = describeChange(behaviorLabel, updates);
+    pushHistory(label, `${behaviorId}:${label}`);
+    updateBehavior(emitterId, behaviorId, { ...behavior, ...updates } as BehaviorConfig);
   };
 
   return (
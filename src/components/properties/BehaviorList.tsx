@@ -3,40 +3,44 @@
  * Uses BEHAVIOR_REGISTRY as single source of truth for behavior types and defaults.
  */
 
-import { useState } from 'react';
 import { useEditorStore } from '@/store/editorStore';
 import { Button } from '@/components/ui/button';
 import { Plus, Trash2, GripVertical, ChevronRight } from 'lucide-react';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 import { BehaviorForm } from './BehaviorForm';
 import { BEHAVIOR_REGISTRY } from '@/types/behaviorTypes';
+import { findEmitter, getEditorId } from '@/utils/editorIds';
 import type { BehaviorConfig } from '@eonwetheherald/swizzle';
 import { toast } from 'sonner';
 
 interface BehaviorListProps {
-  emitterIndex: number;
+  emitterId: string;
 }
 
-export function BehaviorList({ emitterIndex }: BehaviorListProps) {
-  const { config, addBehavior, removeBehavior } = useEditorStore();
-  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+export function BehaviorList({ emitterId }: BehaviorListProps) {
+  const { config, ui, pushHistory, addBehavior, removeBehavior, selectBehavior } = useEditorStore();
+  // The expanded behavior is the selected one (what Ctrl+C copies and what
+  // the Problems panel reveals).
+  const editingId = ui.selectedBehaviorId;
 
-  const emitter = config.emitters[emitterIndex];
-  const behaviors = emitter?.particle.behaviors || [];
+  const emitter = findEmitter(config.emitters, emitterId);
+  const behaviors = emitter?.particle?.behaviors || [];
 
   const handleAddBehavior = (type: string) => {
     const entry = BEHAVIOR_REGISTRY.find((b) => b.value === type);
     const defaultConfig = entry?.defaultConfig ?? ({ type, priority: 50 } as BehaviorConfig);
-    addBehavior(emitterIndex, defaultConfig);
-    setEditingIndex(behaviors.length); // Edit newly added behavior
+    pushHistory(`Add ${entry?.label ?? type} behavior`);
+    addBehavior(emitterId, defaultConfig);
+    // Edit the newly added behavior
+    const added = findEmitter(useEditorStore.getState().config.emitters, emitterId)?.particle.behaviors?.at(-1);
+    selectBehavior(added ? getEditorId(added) : null);
     toast.success(`Added ${entry?.label ?? type} behavior`);
   };
 
-  const handleRemoveBehavior = (behaviorIndex: number) => {
-    const behavior = behaviors[behaviorIndex];
+  const handleRemoveBehavior = (behavior: BehaviorConfig) => {
     if (!confirm(`Remove ${behavior.type} behavior?`)) return;
-    removeBehavior(emitterIndex, behaviorIndex);
-    setEditingIndex(null);
+    pushHistory(`Remove ${getBehaviorLabel(behavior.type)} behavior`);
+    removeBehavior(emitterId, getEditorId(behavior));
     toast.success(`Removed ${behavior.type} behavior`);
   };
 
@@ -85,11 +89,14 @@ export function BehaviorList({ emitterIndex }: BehaviorListProps) {
         </div>
       ) : (
         <div className="space-y-2">
-          {behaviors.map((behavior: BehaviorConfig, index: number) => (
+          {behaviors.map((behavior: BehaviorConfig, index: number) => {
+            const id = getEditorId(behavior);
+            return (
             <div
-              key={index}
+              key={id}
+              data-field={`particle.behaviors[${index}]`}
               className={`border rounded transition-colors ${
-                editingIndex === index
+                editingId === id
                   ? 'border-[var(--accent)] bg-[var(--accent-muted)]'
                   : 'border-[var(--border)] hover:bg-[var(--surface-3)]'
               }`}
@@ -98,8 +105,8 @@ export function BehaviorList({ emitterIndex }: BehaviorListProps) {
               <button
                 type="button"
                 className="flex items-center gap-2 p-3 cursor-pointer w-full text-left bg-transparent border-0"
-                onClick={() => setEditingIndex(editingIndex === index ? null : index)}
-                aria-expanded={editingIndex === index}
+                onClick={() => selectBehavior(editingId === id ? null : id)}
+                aria-expanded={editingId === id}
               >
                 <GripVertical className="h-4 w-4 text-[var(--text-muted)] flex-shrink-0" />
                 <div className="flex-1 min-w-0">
@@ -110,7 +117,7 @@ export function BehaviorList({ emitterIndex }: BehaviorListProps) {
                 </div>
                 <ChevronRight
                   className={`h-3.5 w-3.5 text-[var(--text-dimmed)] flex-shrink-0 transition-transform duration-150 ${
-                    editingIndex === index ? 'rotate-90' : ''
+                    editingId === id ? 'rotate-90' : ''
                   }`}
                 />
                 <Button
@@ -119,7 +126,7 @@ export function BehaviorList({ emitterIndex }: BehaviorListProps) {
                   className="h-6 w-6 flex-shrink-0"
                   onClick={(e) => {
                     e.stopPropagation();
-                    handleRemoveBehavior(index);
+                    handleRemoveBehavior(behavior);
                   }}
                 >
                   <Trash2 className="h-3 w-3" />
@@ -127,17 +134,14 @@ export function BehaviorList({ emitterIndex }: BehaviorListProps) {
               </button>
 
               {/* Behavior Form (when editing) */}
-              {editingIndex === index && (
+              {editingId === id && (
                 <div className="border-t border-[var(--border)] p-3">
-                  <BehaviorForm
-                    emitterIndex={emitterIndex}
-                    behaviorIndex={index}
-                    behavior={behavior}
-                  />
+                  <BehaviorForm emitterId={emitterId} behaviorId={id} behavior={behavior} />
                 </div>
               )}
             </div>
-          ))}
+            );
+          })}
         </div>
       )}
 
@@ -3,8 +3,9 @@
  * Uses registry map pattern — new emitter types added by registering one entry.
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useEditorStore } from '@/store/editorStore';
+import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
@@ -14,6 +15,10 @@ import { Vector2Input } from './fields/Vector2Input';
 import { ParticleProperties } from './ParticleProperties';
 import { VelocityProperties } from './VelocityProperties';
 import { BehaviorList } from './BehaviorList';
+import { getDefaultParticleConfig, parseValidationPath } from '@/utils/configTransform';
+import { estimateEmitter } from '@/utils/particleEstimate';
+import { getEditorId } from '@/utils/editorIds';
+import { describeChange } from '@/utils/history';
 import type { EmitterConfig } from '@eonwetheherald/swizzle';
 
 // Emitter-specific form components
@@ -47,36 +52,64 @@ const EMITTER_FORM_REGISTRY: Record<string, React.ComponentType<EmitterFormProps
 
 interface EmitterPropertiesProps {
   emitter: EmitterConfig;
-  index: number;
+}
+
+const DEFAULT_OPEN_SECTIONS = ['particle', 'velocity'];
+
+/** Accordion section that holds a revealed validation path, if any. */
+function getSectionForPath(path: string): string | null {
+  const { field } = parseValidationPath(path);
+  if (field.startsWith('particle.behaviors')) return 'behaviors';
+  if (field.startsWith('particle')) return 'particle';
+  if (field.startsWith('velocity')) return 'velocity';
+  return null;
 }
 
 /* Shared accordion trigger style */
 const triggerClass =
   'flex items-center gap-2 w-full py-2 text-[var(--text-sm)] font-medium text-[var(--text-muted)] hover:text-[var(--text)] transition-colors group';
 
-export function EmitterProperties({ emitter, index }: EmitterPropertiesProps) {
-  const { updateEmitter } = useEditorStore();
-
-  const handleUpdate = (updates: Partial<EmitterConfig>) => {
-    updateEmitter(index, updates);
+export function EmitterProperties({ emitter }: EmitterPropertiesProps) {
+  const { ui, pushHistory, updateEmitter } = useEditorStore();
+  const [openSections, setOpenSections] = useState(DEFAULT_OPEN_SECTIONS);
+  const [revealedRequestId, setRevealedRequestId] = useState<number | null>(null);
+
+  // Open the section holding a field revealed from the Problems panel. Done
+  // during render so the field exists by the time useFieldFocus looks for it.
+  const focusRequest = ui.fieldFocusRequest;
+  if (focusRequest && focusRequest.id !== revealedRequestId) {
+    setRevealedRequestId(focusRequest.id);
+    const section = getSectionForPath(focusRequest.path);
+    if (section && !openSections.includes(section)) {
+      setOpenSections([...openSections, section]);
+    }
+  }
+
+  const handleUpdate = (updates: Partial<EmitterConfig>, label = describeChange('', updates)) => {
+    const id = getEditorId(emitter);
+    pushHistory(label, `${id}:${label}`);
+    updateEmitter(id, updates);
   };
 
   const TypeForm = EMITTER_FORM_REGISTRY[emitter.type];
+  const estimate = estimateEmitter(emitter);
 
   return (
     <div className="space-y-3">
       {/* Basic Properties */}
       <div className="space-y-3">
         {/* Position */}
-        <Vector2Input
-          label="Position"
-          value={emitter.position}
-          onChange={(position) => handleUpdate({ position })}
-        />
+        <div data-field="position">
+          <Vector2Input
+            label="Position"
+            value={emitter.position}
+            onChange={(position) => handleUpdate({ position })}
+          />
+        </div>
 
         {/* Emission Rate */}
         {emitter.type !== 'burst' && emitter.type !== 'triggered' && (
-          <div className="prop-row">
+          <div className="prop-row" data-field="emissionRate">
             <Label htmlFor="emission-rate" className="prop-label">
               Rate
             </Label>
@@ -93,7 +126,7 @@ export function EmitterProperties({ emitter, index }: EmitterPropertiesProps) {
         )}
 
         {/* Max Particles (per-emitter cap) */}
-        <div className="prop-row">
+        <div className="prop-row" data-field="maxParticles">
           <Label htmlFor="max-particles" className="prop-label">
             Max
           </Label>
@@ -109,6 +142,19 @@ export function EmitterProperties({ emitter, index }: EmitterPropertiesProps) {
             }}
           />
         </div>
+
+        {/* Static particle estimate */}
+        <div className="prop-row">
+          <span className="prop-label">Estimate</span>
+          <span
+            className="text-[var(--text-xs)] font-mono text-[var(--text-muted)]"
+            title="Estimated from rate, lifetime and burst settings"
+          >
+            {estimate.onDemand
+              ? `${estimate.peak} per trigger`
+              : `~${estimate.steady} steady · ${estimate.peak} peak`}
+          </span>
+        </div>
       </div>
 
       <Separator />
@@ -119,9 +165,9 @@ export function EmitterProperties({ emitter, index }: EmitterPropertiesProps) {
       <Separator />
 
       {/* Accordion for Particle, Velocity, Behaviors */}
-      <Accordion.Root type="multiple" defaultValue={['particle', 'velocity']}>
+      <Accordion.Root type="multiple" value={openSections} onValueChange={setOpenSections}>
         {/* Particle Configuration */}
-        <Accordion.Item value="particle" className="border-b border-[var(--border)]">
+        <Accordion.Item value="particle" className="border-b border-[var(--border)]" data-field="particle">
           <Accordion.Header>
             <Accordion.Trigger className={triggerClass}>
               <ChevronRight className="h-3 w-3 transition-transform duration-150 group-data-[state=open]:rotate-90" />
@@ -129,12 +175,29 @@ export function EmitterProperties({ emitter, index }: EmitterPropertiesProps) {
             </Accordion.Trigger>
           </Accordion.Header>
           <Accordion.Content className="pb-3 pl-5">
-            <ParticleProperties emitterIndex={index} particle={emitter.particle} />
+            {emitter.particle ? (
+              <ParticleProperties emitterId={getEditorId(emitter)} particle={emitter.particle} />
+            ) : (
+              <div className="space-y-2">
+                <p className="text-[var(--text-xs)] text-[var(--destructive)]">
+                  This emitter has no particle configuration.
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    handleUpdate({ particle: getDefaultParticleConfig(emitter.type) }, 'Add default particle')
+                  }
+                >
+                  Add default particle
+                </Button>
+              </div>
+            )}
           </Accordion.Content>
         </Accordion.Item>
 
         {/* Velocity Configuration */}
-        <Accordion.Item value="velocity" className="border-b border-[var(--border)]">
+        <Accordion.Item value="velocity" className="border-b border-[var(--border)]" data-field="velocity">
           <Accordion.Header>
             <Accordion.Trigger className={triggerClass}>
               <ChevronRight className="h-3 w-3 transition-transform duration-150 group-data-[state=open]:rotate-90" />
@@ -150,18 +213,22 @@ export function EmitterProperties({ emitter, index }: EmitterPropertiesProps) {
         </Accordion.Item>
 
         {/* Behaviors */}
-        <Accordion.Item value="behaviors" className="border-b border-[var(--border)]">
+        <Accordion.Item
+          value="behaviors"
+          className="border-b border-[var(--border)]"
+          data-field="particle.behaviors"
+        >
           <Accordion.Header>
             <Accordion.Trigger className={triggerClass}>
               <ChevronRight className="h-3 w-3 transition-transform duration-150 group-data-[state=open]:rotate-90" />
               Behaviors
               <span className="text-[var(--text-xs)] text-[var(--text-dimmed)] ml-auto">
-                {emitter.particle.behaviors?.length || 0}
+                {emitter.particle?.behaviors?.length || 0}
               </span>
             </Accordion.Trigger>
           </Accordion.Header>
           <Accordion.Content className="pb-3 pl-5">
-            <BehaviorList emitterIndex={index} />
+            <BehaviorList emitterId={getEditorId(emitter)} />
           </Accordion.Content>
         </Accordion.Item>
       </Accordion.Root>
@@ -0,0 +1,88 @@
+/**
+ * GroupProperties - Transform of the selected layer group
+ *
+ * Shown above the layer properties while exactly a group's layers are
+ * selected. The transform moves, rotates and scales every member about the
+ * group's pivot; it's baked into the members on export or when ungrouping.
+ */
+
+import { useEditorStore } from '@/store/editorStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Vector2Input } from './fields/Vector2Input';
+import { isIdentityTransform } from '@/utils/layerGroups';
+import type { GroupTransform, LayerGroup } from '@/store/types';
+
+interface GroupPropertiesProps {
+  group: LayerGroup;
+}
+
+export function GroupProperties({ group }: GroupPropertiesProps) {
+  const { pushHistory, setGroupTransform } = useEditorStore();
+  const { transform } = group;
+
+  // Field edits in quick succession share one undo step; a reset is its own.
+  const handleUpdate = (updates: Partial<GroupTransform>, coalesce = true) => {
+    pushHistory(`Transform ${group.name}`, coalesce ? `${group.id}:transform` : undefined);
+    setGroupTransform(group.id, updates);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Vector2Input
+        label="Offset"
+        value={transform.offset}
+        onChange={(offset) => handleUpdate({ offset })}
+      />
+
+      <div className="prop-row">
+        <Label htmlFor="group-rotation" className="prop-label">
+          Rotation
+        </Label>
+        <Input
+          id="group-rotation"
+          type="number"
+          step="5"
+          value={transform.rotation}
+          onChange={(e) => handleUpdate({ rotation: parseFloat(e.target.value) || 0 })}
+        />
+        <span className="prop-unit">°</span>
+      </div>
+
+      <div className="prop-row">
+        <Label htmlFor="group-scale" className="prop-label">
+          Scale
+        </Label>
+        <Input
+          id="group-scale"
+          type="number"
+          min="0.01"
+          step="0.1"
+          value={transform.scale}
+          onChange={(e) => {
+            const scale = parseFloat(e.target.value);
+            handleUpdate({ scale: Number.isFinite(scale) && scale > 0 ? scale : 1 });
+          }}
+        />
+      </div>
+
+      <Vector2Input
+        label="Pivot"
+        value={transform.pivot}
+        onChange={(pivot) => handleUpdate({ pivot })}
+        description="Centre of rotation and scale"
+      />
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full"
+        disabled={isIdentityTransform(transform)}
+        onClick={() => handleUpdate({ offset: { x: 0, y: 0 }, rotation: 0, scale: 1 }, false)}
+      >
+        Reset transform
+      </Button>
+    </div>
+  );
+}
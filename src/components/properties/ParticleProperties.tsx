@@ -19,6 +19,7 @@ import { RangeInput } from './fields/RangeInput';
 import { ColorInput } from './fields/ColorInput';
 import { CheckboxField } from './fields/CheckboxField';
 import { Vector2Input } from './fields/Vector2Input';
+import { describeChange } from '@/utils/history';
 import { useEffect } from 'react';
 import { Upload } from 'lucide-react';
 import type { EmitterConfig } from '@eonwetheherald/swizzle';
@@ -26,11 +27,11 @@ import type { EmitterConfig } from '@eonwetheherald/swizzle';
 // ── Constants ────────────────────────────────────────────────────────────────
 
 interface ParticlePropertiesProps {
-  emitterIndex: number;
+  emitterId: string;
   particle: EmitterConfig['particle'];
 }
 
-const BLEND_MODE_OPTIONS = [
+export const BLEND_MODE_OPTIONS = [
   { value: '0', label: 'Normal' },
   { value: '1', label: 'Add' },
   { value: '2', label: 'Multiply' },
@@ -63,7 +64,7 @@ function SectionHeading({ children }: { children: React.ReactNode }) {
 
 // ── Component ────────────────────────────────────────────────────────────────
 
-export function ParticleProperties({ emitterIndex, particle }: ParticlePropertiesProps) {
+export function ParticleProperties({ emitterId, particle }: ParticlePropertiesProps) {
   const { assets } = useEditorStore();
   const p = particle as ParticleAny;
   const isAnimated = particle.type === 'animated';
@@ -77,47 +78,49 @@ export function ParticleProperties({ emitterIndex, particle }: ParticlePropertie
   const hasSequences = sequenceOptions.length > 0;
   const firstSequence = sequenceOptions[0]?.value;
 
-  const handleUpdate = (updates: Partial<ParticleAny>) => {
-    useEditorStore.getState().updateEmitter(emitterIndex, {
+  const handleUpdate = (updates: Partial<ParticleAny>, label = describeChange('particle', updates)) => {
+    const { pushHistory, updateEmitter } = useEditorStore.getState();
+    pushHistory(label, `${emitterId}:${label}`);
+    updateEmitter(emitterId, {
       particle: { ...particle, ...updates },
     });
   };
 
   // When switching types, reset texture/sequence fields to sensible defaults.
   const handleTypeChange = (type: string) => {
-    if (type === 'animated') {
-      handleUpdate({
-        type: 'animated',
-        texture: undefined,
-        frameSequence: firstSequence,
-        animationMode: (p.animationMode as string) ?? 'sequential',
-        loop: (p.loop as boolean) ?? true,
-      });
-    } else {
-      handleUpdate({
-        type: 'sprite',
-        frameSequence: undefined,
-        animationMode: undefined,
-        loop: undefined,
-        randomStartFrame: undefined,
-        frameRateRange: undefined,
-      });
-    }
+    const updates: Partial<ParticleAny> =
+      type === 'animated'
+        ? {
+            type: 'animated',
+            texture: undefined,
+            frameSequence: firstSequence,
+            animationMode: (p.animationMode as string) ?? 'sequential',
+            loop: (p.loop as boolean) ?? true,
+          }
+        : {
+            type: 'sprite',
+            frameSequence: undefined,
+            animationMode: undefined,
+            loop: undefined,
+            randomStartFrame: undefined,
+            frameRateRange: undefined,
+          };
+    handleUpdate(updates, 'Change particle type');
   };
 
   // Ensure animated particles always persist an actual frameSequence value.
   // Without this, the UI can display the first option while config remains undefined.
   // Deps intentionally exclude `particle` to avoid infinite re-render loops —
-  // the effect only needs to fire when the emitter index, type, or sequence changes.
+  // the effect only needs to fire when the emitter, type, or sequence changes.
   useEffect(() => {
     if (!isAnimated) return;
     if ((p.frameSequence as string | undefined) || !firstSequence) return;
 
-    useEditorStore.getState().updateEmitter(emitterIndex, {
+    useEditorStore.getState().updateEmitter(emitterId, {
       particle: { ...particle, frameSequence: firstSequence },
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [emitterIndex, firstSequence, isAnimated, p.frameSequence]);
+  }, [emitterId, firstSequence, isAnimated, p.frameSequence]);
 
   // ── Texture options for Sprite ──
 
@@ -135,17 +138,19 @@ export function ParticleProperties({ emitterIndex, particle }: ParticlePropertie
       <SectionHeading>Appearance</SectionHeading>
 
       {/* Particle Type */}
-      <SelectInput
-        label="Type"
-        value={particle.type}
-        onChange={handleTypeChange}
-        options={PARTICLE_TYPE_OPTIONS}
-        description={
-          isAnimated
-            ? 'Plays a numbered sequence of textures'
-            : 'A single static image — use the default circle or upload a texture'
-        }
-      />
+      <div data-field="particle.type">
+        <SelectInput
+          label="Type"
+          value={particle.type}
+          onChange={handleTypeChange}
+          options={PARTICLE_TYPE_OPTIONS}
+          description={
+            isAnimated
+              ? 'Plays a numbered sequence of textures'
+              : 'A single static image — use the default circle or upload a texture'
+          }
+        />
+      </div>
 
       {/* ── Sprite: texture picker ── */}
       {!isAnimated && (
@@ -204,15 +209,17 @@ export function ParticleProperties({ emitterIndex, particle }: ParticlePropertie
       <SectionHeading>Transform</SectionHeading>
 
       {/* Lifetime */}
-      <RangeInput
-        label="Lifetime (s)"
-        value={particle.lifetime}
-        onChange={(lifetime) => handleUpdate({ lifetime })}
-        min={0.1}
-        max={10}
-        step={0.1}
-        description="How long each particle lives"
-      />
+      <div data-field="particle.lifetime">
+        <RangeInput
+          label="Lifetime (s)"
+          value={particle.lifetime}
+          onChange={(lifetime) => handleUpdate({ lifetime })}
+          min={0.1}
+          max={10}
+          step={0.1}
+          description="How long each particle lives"
+        />
+      </div>
 
       {/* Scale */}
       <RangeInput
@@ -1,16 +1,58 @@
+import { useRef } from 'react';
+import type { ReactNode } from 'react';
 import { useEditorStore } from '@/store/editorStore';
+import { useFieldFocus } from '@/hooks/useFieldFocus';
 import { Separator } from '@/components/ui/separator';
+import { Button } from '@/components/ui/button';
 import { SearchInput } from '@/components/ui/search-input';
 import { SystemProperties } from './SystemProperties';
 import { EmitterProperties } from './EmitterProperties';
-import { Settings2, Layers } from 'lucide-react';
+import { MultiEmitterProperties } from './MultiEmitterProperties';
+import { GroupProperties } from './GroupProperties';
+import { findEmitter } from '@/utils/editorIds';
+import { getSelectedGroup } from '@/utils/layerGroups';
+import { Settings2, Layers, Folder, Lock } from 'lucide-react';
+import type { EmitterConfig } from '@eonwetheherald/swizzle';
+
+/** Locked layers are shown but can't be edited; native controls are disabled too. */
+function ReadOnly({ locked, children }: { locked: boolean; children: ReactNode }) {
+  return (
+    <fieldset
+      disabled={locked}
+      aria-disabled={locked}
+      className={`min-w-0 ${locked ? 'opacity-60 pointer-events-none select-none' : ''}`}
+    >
+      {children}
+    </fieldset>
+  );
+}
+
+function LockedNotice({ ids, message }: { ids: string[]; message: string }) {
+  const setEmittersLocked = useEditorStore((s) => s.setEmittersLocked);
+  return (
+    <div className="flex items-center gap-2 mb-3 px-2 py-1.5 rounded border border-[var(--border)] bg-[var(--surface-2)]">
+      <Lock size={12} className="text-[var(--text-dimmed)] shrink-0" />
+      <span className="flex-1 text-[var(--text-xs)] text-[var(--text-muted)]">{message}</span>
+      <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => setEmittersLocked(ids, false)}>
+        Unlock
+      </Button>
+    </div>
+  );
+}
 
 export function PropertyPanel() {
   const { ui, config, setInspectorSearch } = useEditorStore();
-  const { selectedEmitterIndex, inspectorSearch } = ui;
+  const { selectedEmitterId, selectedEmitterIds, lockedEmitterIds, inspectorSearch } = ui;
+  const contentRef = useRef<HTMLDivElement>(null);
+  useFieldFocus(contentRef);
 
-  const selectedEmitter =
-    selectedEmitterIndex !== null ? config.emitters[selectedEmitterIndex] : null;
+  const selectedEmitter = findEmitter(config.emitters, selectedEmitterId);
+  const selectedEmitters = selectedEmitterIds
+    .map((id) => findEmitter(config.emitters, id))
+    .filter((emitter): emitter is EmitterConfig => emitter !== null);
+  const selectedGroup = getSelectedGroup(config.groups, selectedEmitterIds);
+  const lockedIds = selectedEmitterIds.filter((id) => lockedEmitterIds.has(id));
+  const allLocked = lockedIds.length > 0 && lockedIds.length === selectedEmitterIds.length;
 
   return (
     <div className="panel-container">
@@ -29,7 +71,7 @@ export function PropertyPanel() {
         />
       </div>
 
-      <div className="panel-content">
+      <div className="panel-content" ref={contentRef}>
         {/* System Properties (always visible) */}
         <div className="panel-section">
           <h3 className="panel-section-title">System</h3>
@@ -38,8 +80,43 @@ export function PropertyPanel() {
 
         <Separator className="my-3" />
 
+        {/* Group Transform (when exactly a group's layers are selected) */}
+        {selectedGroup && (
+          <>
+            <div className="panel-section">
+              <h3 className="panel-section-title">
+                <span className="flex items-center gap-1.5">
+                  <Folder size={12} className="text-[var(--text-dimmed)]" />
+                  {selectedGroup.name}
+                </span>
+              </h3>
+              {lockedIds.length > 0 && (
+                <LockedNotice ids={lockedIds} message="Unlock the group's layers to transform it" />
+              )}
+              <ReadOnly locked={lockedIds.length > 0}>
+                <GroupProperties group={selectedGroup} />
+              </ReadOnly>
+            </div>
+
+            <Separator className="my-3" />
+          </>
+        )}
+
         {/* Emitter Properties (when selected) */}
-        {selectedEmitter ? (
+        {selectedEmitters.length > 1 ? (
+          <div className="panel-section">
+            <h3 className="panel-section-title">
+              <span className="flex items-center gap-1.5">
+                <Layers size={12} className="text-[var(--text-dimmed)]" />
+                {selectedEmitters.length} layers selected
+              </span>
+            </h3>
+            {allLocked && <LockedNotice ids={lockedIds} message="All selected layers are locked" />}
+            <ReadOnly locked={allLocked}>
+              <MultiEmitterProperties emitters={selectedEmitters} />
+            </ReadOnly>
+          </div>
+        ) : selectedEmitter ? (
           <div className="panel-section">
             <h3 className="panel-section-title">
               <span className="flex items-center gap-1.5">
@@ -47,7 +124,10 @@ export function PropertyPanel() {
                 {(selectedEmitter.name as string) || `${selectedEmitter.type} Emitter`}
               </span>
             </h3>
-            <EmitterProperties emitter={selectedEmitter} index={selectedEmitterIndex!} />
+            {allLocked && <LockedNotice ids={lockedIds} message="Layer is locked" />}
+            <ReadOnly locked={allLocked}>
+              <EmitterProperties emitter={selectedEmitter} />
+            </ReadOnly>
           </div>
         ) : (
           <div className="flex flex-col items-center justify-center py-8 text-center">
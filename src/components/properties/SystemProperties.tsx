@@ -2,12 +2,16 @@ import { useEditorStore } from '@/store/editorStore';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Toggle } from '@/components/ui/toggle';
+import { IconButton } from '@/components/ui/icon-button';
+import { getSimulationSeed } from '@/utils/random';
+import { getAutoStart, getMaxParticles } from '@/utils/configTransform';
+import { Dices } from 'lucide-react';
 
 interface SystemPropertiesProps {
   filter?: string;
 }
 
-const FIELD_LABELS = ['Max Particles', 'Auto Start', 'Debug Metrics'];
+const FIELD_LABELS = ['Max Particles', 'Budget', 'Auto Start', 'Seed', 'Debug Metrics'];
 
 function matches(label: string, filter: string): boolean {
   if (!filter) return true;
@@ -15,7 +19,17 @@ function matches(label: string, filter: string): boolean {
 }
 
 export function SystemProperties({ filter = '' }: SystemPropertiesProps) {
-  const { config, ui, setMaxParticles, setAutoStart, setShowDebugMetrics } = useEditorStore();
+  const {
+    config,
+    ui,
+    setMaxParticles,
+    setParticleBudget,
+    setAutoStart,
+    setSeed,
+    rerollSeed,
+    pushHistory,
+    setShowDebugMetrics,
+  } = useEditorStore();
 
   const visible = FIELD_LABELS.filter((label) => matches(label, filter));
   if (visible.length === 0) {
@@ -29,7 +43,7 @@ export function SystemProperties({ filter = '' }: SystemPropertiesProps) {
   return (
     <div className="space-y-3">
       {matches('Max Particles', filter) && (
-        <div className="prop-row">
+        <div className="prop-row" data-field="system.maxParticles">
           <Label htmlFor="max-particles" className="prop-label">
             Max Particles
           </Label>
@@ -38,8 +52,31 @@ export function SystemProperties({ filter = '' }: SystemPropertiesProps) {
             type="number"
             min="1"
             max="10000"
-            value={config.system.maxParticles}
-            onChange={(e) => setMaxParticles(parseInt(e.target.value) || 1000)}
+            value={getMaxParticles(config)}
+            onChange={(e) => {
+              pushHistory('Change max particles', 'system.maxParticles');
+              setMaxParticles(parseInt(e.target.value) || 1000);
+            }}
+          />
+        </div>
+      )}
+
+      {matches('Budget', filter) && (
+        <div className="prop-row" data-field="system.particleBudget">
+          <Label htmlFor="particle-budget" className="prop-label">
+            Budget
+          </Label>
+          <Input
+            id="particle-budget"
+            type="number"
+            min="1"
+            placeholder="None"
+            value={config.system.particleBudget ?? ''}
+            onChange={(e) => {
+              pushHistory('Change particle budget', 'system.particleBudget');
+              setParticleBudget(e.target.value === '' ? undefined : parseInt(e.target.value) || 1);
+            }}
+            title="Warn when the estimated peak particle count goes over this"
           />
         </div>
       )}
@@ -50,12 +87,46 @@ export function SystemProperties({ filter = '' }: SystemPropertiesProps) {
             Auto Start
           </Label>
           <Toggle
-            checked={config.system.autoStart}
-            onCheckedChange={setAutoStart}
+            checked={getAutoStart(config)}
+            onCheckedChange={(autoStart) => {
+              pushHistory(autoStart ? 'Enable auto start' : 'Disable auto start');
+              setAutoStart(autoStart);
+            }}
           />
         </div>
       )}
 
+      {matches('Seed', filter) && (
+        <div className="prop-row" data-field="system.seed">
+          <Label htmlFor="system-seed" className="prop-label">
+            Seed
+          </Label>
+          <div className="flex items-center gap-1">
+            <Input
+              id="system-seed"
+              type="number"
+              min="0"
+              step="1"
+              value={getSimulationSeed(config)}
+              onChange={(e) => {
+                pushHistory('Change seed', 'system.seed');
+                setSeed(parseInt(e.target.value) || 0);
+              }}
+            />
+            <IconButton
+              onClick={() => {
+                pushHistory('Reroll seed');
+                rerollSeed();
+              }}
+              title="Reroll seed"
+              size="sm"
+            >
+              <Dices size={14} />
+            </IconButton>
+          </div>
+        </div>
+      )}
+
       {matches('Debug Metrics', filter) && (
         <div className="prop-row">
           <Label htmlFor="debug-metrics" className="prop-label">
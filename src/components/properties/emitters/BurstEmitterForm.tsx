@@ -14,7 +14,7 @@ export function BurstEmitterForm({ emitter, onChange }: BurstEmitterFormProps) {
   return (
     <div className="space-y-3">
       <div className="grid grid-cols-2 gap-3">
-        <div className="field-group">
+        <div className="field-group" data-field="burstCount">
           <Label className="field-label">Burst Count</Label>
           <Input
             type="number"
@@ -14,7 +14,7 @@ export function CircleEmitterForm({ emitter, onChange }: CircleEmitterFormProps)
 
   return (
     <div className="space-y-3">
-      <div className="field-group">
+      <div className="field-group" data-field="radius">
         <Label className="field-label">Radius</Label>
         <Input
           type="number"
@@ -29,13 +29,15 @@ export function PathEmitterForm({ emitter, onChange }: PathEmitterFormProps) {
 
   return (
     <div className="space-y-3">
-      <PointListEditor
-        label="Path Points"
-        points={path}
-        onChange={(pts) => onChange({ path: pts })}
-        minPoints={2}
-        description="Path waypoints (relative to emitter position, minimum 2)"
-      />
+      <div data-field="path">
+        <PointListEditor
+          label="Path Points"
+          points={path}
+          onChange={(pts) => onChange({ path: pts })}
+          minPoints={2}
+          description="Path waypoints (relative to emitter position, minimum 2)"
+        />
+      </div>
       <SelectInput
         label="Path Type"
         value={data.pathType ?? 'linear'}
@@ -20,13 +20,15 @@ export function PolygonEmitterForm({ emitter, onChange }: PolygonEmitterFormProp
 
   return (
     <div className="space-y-3">
-      <PointListEditor
-        label="Vertices"
-        points={vertices}
-        onChange={(pts) => onChange({ vertices: pts })}
-        minPoints={3}
-        description="Polygon vertices (relative to emitter position, minimum 3)"
-      />
+      <div data-field="vertices">
+        <PointListEditor
+          label="Vertices"
+          points={vertices}
+          onChange={(pts) => onChange({ vertices: pts })}
+          minPoints={3}
+          description="Polygon vertices (relative to emitter position, minimum 3)"
+        />
+      </div>
       <CheckboxField
         id="polygon-edge-emit"
         label="Edge Emit"
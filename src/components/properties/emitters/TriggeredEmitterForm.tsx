@@ -26,7 +26,9 @@ export function TriggeredEmitterForm({ emitter, onChange }: TriggeredEmitterForm
       </div>
       <div className="text-xs text-[var(--text-muted)] p-2 bg-[var(--surface-2)] rounded">
         Triggered emitters spawn particles on demand via the API — call{' '}
-        <code className="font-mono">emitter.trigger()</code> programmatically to fire a burst.
+        <code className="font-mono">emitter.trigger()</code> programmatically to fire a burst. In
+        the editor, use the Fire button on the layer, press its number key, or click the canvas to
+        fire at the cursor.
       </div>
     </div>
   );
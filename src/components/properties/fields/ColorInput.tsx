@@ -5,6 +5,8 @@ interface ColorInputProps {
   value: number;
   onChange: (value: number) => void;
   description?: string;
+  /** Selected layers disagree. */
+  mixed?: boolean;
 }
 
 function numberToHex(n: number): string {
@@ -15,7 +17,7 @@ function hexToNumber(hex: string): number {
   return parseInt(hex.slice(1), 16);
 }
 
-export function ColorInput({ label, value, onChange, description }: ColorInputProps) {
+export function ColorInput({ label, value, onChange, description, mixed = false }: ColorInputProps) {
   return (
     <div className="field-group">
       <Label className="field-label">{label}</Label>
@@ -27,7 +29,7 @@ export function ColorInput({ label, value, onChange, description }: ColorInputPr
           className="h-8 w-12 cursor-pointer rounded border border-[var(--border)] bg-transparent p-0.5"
         />
         <span className="text-xs text-[var(--text-muted)] font-mono">
-          {numberToHex(value).toUpperCase()}
+          {mixed ? 'Mixed' : numberToHex(value).toUpperCase()}
         </span>
       </div>
       {description && <p className="field-description">{description}</p>}
@@ -16,6 +16,8 @@ interface RangeInputProps {
   max?: number;
   step?: number;
   description?: string;
+  /** Selected layers disagree: the inputs read "Mixed" until edited. */
+  mixed?: boolean;
 }
 
 export function RangeInput({
@@ -26,6 +28,7 @@ export function RangeInput({
   max,
   step = 0.1,
   description,
+  mixed = false,
 }: RangeInputProps) {
   // Derive showRange from the actual value type so it stays in sync with
   // external state changes (e.g. undo toggling between range ↔ single).
@@ -84,7 +87,8 @@ export function RangeInput({
             <Input
               id={`${label}-min`}
               type="number"
-              value={typeof value === 'object' ? value.min : 0}
+              value={mixed ? '' : typeof value === 'object' ? value.min : 0}
+              placeholder={mixed ? 'Mixed' : undefined}
               onChange={(e) => handleMinChange(parseFloat(e.target.value) || 0)}
               min={min}
               max={max}
@@ -98,7 +102,8 @@ export function RangeInput({
             <Input
               id={`${label}-max`}
               type="number"
-              value={typeof value === 'object' ? value.max : 0}
+              value={mixed ? '' : typeof value === 'object' ? value.max : 0}
+              placeholder={mixed ? 'Mixed' : undefined}
               onChange={(e) => handleMaxChange(parseFloat(e.target.value) || 0)}
               min={min}
               max={max}
@@ -109,7 +114,8 @@ export function RangeInput({
       ) : (
         <Input
           type="number"
-          value={typeof value === 'number' ? value : 0}
+          value={mixed ? '' : typeof value === 'number' ? value : 0}
+          placeholder={mixed ? 'Mixed' : undefined}
           onChange={(e) => handleSingleChange(parseFloat(e.target.value) || 0)}
           min={min}
           max={max}
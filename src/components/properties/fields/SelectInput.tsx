@@ -12,15 +12,17 @@ interface SelectInputProps {
   onChange: (value: string) => void;
   options: Array<{ value: string; label: string }>;
   description?: string;
+  /** Selected layers disagree: shows "Mixed" and no current option. */
+  mixed?: boolean;
 }
 
-export function SelectInput({ label, value, onChange, options, description }: SelectInputProps) {
+export function SelectInput({ label, value, onChange, options, description, mixed = false }: SelectInputProps) {
   return (
     <div className="field-group">
       <Label className="field-label">{label}</Label>
-      <Select.Root value={value} onValueChange={onChange}>
+      <Select.Root value={mixed ? '' : value} onValueChange={onChange}>
         <Select.Trigger className="flex h-9 w-full items-center justify-between rounded-md border border-[var(--border)] bg-transparent px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-1 focus:ring-[var(--focus-ring)]">
-          <Select.Value />
+          <Select.Value placeholder={mixed ? 'Mixed' : undefined} />
           <Select.Icon>
             <ChevronDown className="h-4 w-4 opacity-50" />
           </Select.Icon>
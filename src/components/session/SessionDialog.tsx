@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import { sessionDB } from '@/store/sessionDB';
+import type { SessionSnapshot } from '@/store/types';
+import { CURRENT_SESSION_ID } from '@/hooks/useSessionAutosave';
+import {
+  findRecoverableSnapshot,
+  getMissingAssetRefs,
+  summarizeSnapshot,
+} from '@/utils/sessionSnapshots';
+import { Button } from '@/components/ui/button';
+import { IconButton } from '@/components/ui/icon-button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { History, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const MAX_LISTED_LABELS = 4;
+
+function formatTimestamp(time: number): string {
+  return new Date(time).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+function describeEmitters(snapshot: SessionSnapshot): string {
+  const { emitterCount, emitterLabels, otherDocumentCount } = summarizeSnapshot(snapshot);
+  const count = `${emitterCount} emitter${emitterCount === 1 ? '' : 's'}`;
+  const tabs =
+    otherDocumentCount > 0 ? ` (+${otherDocumentCount} more tab${otherDocumentCount === 1 ? '' : 's'})` : '';
+  if (emitterLabels.length === 0) return `${count}${tabs}`;
+  const shown = emitterLabels.slice(0, MAX_LISTED_LABELS).join(', ');
+  const more = emitterLabels.length > MAX_LISTED_LABELS ? ', …' : '';
+  return `${count} — ${shown}${more}${tabs}`;
+}
+
+/**
+ * "Restore previous session?" prompt and autosave snapshot browser.
+ * Opened by useSessionAutosave on launch and from the header.
+ */
+export function SessionDialog() {
+  const mode = useEditorStore((s) => s.ui.sessionDialog);
+  const setSessionDialog = useEditorStore((s) => s.setSessionDialog);
+  const [snapshots, setSnapshots] = useState<SessionSnapshot[] | null>(null);
+
+  useEffect(() => {
+    if (!mode) return;
+    let cancelled = false;
+    setSnapshots(null);
+    sessionDB
+      .getAll()
+      .then((all) => {
+        if (!cancelled) setSnapshots(all.sort((a, b) => b.savedAt - a.savedAt));
+      })
+      .catch((err: unknown) => {
+        console.warn('Failed to read autosaved sessions:', err);
+        if (!cancelled) setSnapshots([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode]);
+
+  const close = () => setSessionDialog(null);
+
+  const restore = (snapshot: SessionSnapshot) => {
+    const state = useEditorStore.getState();
+    state.restoreSession(snapshot);
+    close();
+
+    // Only meaningful once the asset library has finished loading.
+    const missing =
+      state.assetStorage.status === 'ready' ? getMissingAssetRefs(snapshot, state.assets) : [];
+    if (missing.length > 0) {
+      toast.warning(`Session restored — ${missing.length} referenced asset(s) are no longer in the library`);
+    } else {
+      toast.success('Session restored');
+    }
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await sessionDB.delete(id);
+      setSnapshots((prev) => prev?.filter((s) => s.id !== id) ?? null);
+    } catch (err) {
+      toast.error('Failed to delete snapshot');
+      console.error(err);
+    }
+  };
+
+  const recoverable = snapshots ? findRecoverableSnapshot(snapshots, CURRENT_SESSION_ID) : null;
+
+  return (
+    <Dialog open={mode !== null} onOpenChange={(open) => !open && close()}>
+      <DialogContent>
+        {mode === 'recover' ? (
+          <>
+            <DialogTitle>Restore previous session?</DialogTitle>
+            <DialogDescription>
+              The editor found autosaved work that was not restored.
+            </DialogDescription>
+            {recoverable && (
+              <div className="mt-3 p-3 border border-[var(--border)] rounded-[var(--radius-sm)] bg-[var(--surface-2)]">
+                <div className="text-[var(--text-xs)] font-medium">
+                  {formatTimestamp(recoverable.savedAt)}
+                </div>
+                <div className="text-[var(--text-xs)] text-[var(--text-muted)] mt-0.5">
+                  {describeEmitters(recoverable)}
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="ghost" onClick={() => setSessionDialog('browse')}>
+                Browse snapshots
+              </Button>
+              <Button variant="outline" onClick={close}>
+                Start fresh
+              </Button>
+              <Button disabled={!recoverable} onClick={() => recoverable && restore(recoverable)}>
+                Restore
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <DialogTitle>Autosaved snapshots</DialogTitle>
+            <DialogDescription>
+              The most recent checkpoints across sessions, newest first. Restoring opens a new tab.
+            </DialogDescription>
+            <div className="mt-3 max-h-80 overflow-y-auto space-y-1">
+              {snapshots === null ? (
+                <p className="text-[var(--text-xs)] text-[var(--text-muted)] py-4 text-center">
+                  Loading...
+                </p>
+              ) : snapshots.length === 0 ? (
+                <p className="text-[var(--text-xs)] text-[var(--text-muted)] py-4 text-center">
+                  No snapshots yet. Work is autosaved as you edit.
+                </p>
+              ) : (
+                snapshots.map((snapshot) => (
+                  <div
+                    key={snapshot.id}
+                    className="flex items-center gap-2 p-2 rounded-[var(--radius-sm)] hover:bg-[var(--surface-2)] group"
+                  >
+                    <History size={14} className="flex-shrink-0 text-[var(--text-dimmed)]" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-[var(--text-xs)] font-medium">
+                        {formatTimestamp(snapshot.savedAt)}
+                        {snapshot.sessionId === CURRENT_SESSION_ID && (
+                          <span className="ml-2 text-[10px] text-[var(--accent)]">this session</span>
+                        )}
+                      </div>
+                      <div className="text-[10px] text-[var(--text-muted)] truncate">
+                        {describeEmitters(snapshot)}
+                      </div>
+                    </div>
+                    <Button size="sm" variant="secondary" onClick={() => restore(snapshot)}>
+                      Restore
+                    </Button>
+                    <IconButton
+                      size="xs"
+                      variant="destructive"
+                      title="Delete snapshot"
+                      className="opacity-0 group-hover:opacity-100"
+                      onClick={() => {
+                        void remove(snapshot.id);
+                      }}
+                    >
+                      <Trash2 size={12} />
+                    </IconButton>
+                  </div>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
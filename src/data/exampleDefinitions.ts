@@ -37,7 +37,7 @@ export interface ExampleDefinition {
 
 const coinFountainYaml = `\
 system:
-  maxParticles: 150
+  maxParticles: 200
   autoStart: true
 
 emitters:
@@ -119,6 +119,7 @@ emitters:
     width: 800
     height: 600
     emissionRate: 20
+    maxParticles: 100
     velocity:
       mode: radial
       speed: { min: 20, max: 50 }
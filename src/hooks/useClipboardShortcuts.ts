@@ -0,0 +1,116 @@
+/**
+ * useClipboardShortcuts - Ctrl+C / Ctrl+V for the selected emitters or behavior
+ *
+ * Listens to the document's copy / paste events rather than keydown, so the
+ * snippet goes through the system clipboard (and the Edit menu works too)
+ * without a clipboard permission prompt. Text fields and text selections
+ * keep their native behavior.
+ *
+ * Mount once, from App.
+ */
+
+import { useEffect } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import {
+  describePasteIssues,
+  parseClipboardYaml,
+  serializeBehaviors,
+  serializeEmitters,
+} from '@/utils/clipboard';
+import { findBehaviorIndex, findEmitter } from '@/utils/editorIds';
+import type { EmitterConfig } from '@eonwetheherald/swizzle';
+import { toast } from 'sonner';
+
+function isTextTarget(target: EventTarget | null): boolean {
+  const el = target as HTMLElement | null;
+  return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.isContentEditable);
+}
+
+function hasTextSelection(): boolean {
+  const selection = window.getSelection();
+  return !!selection && !selection.isCollapsed && selection.toString().length > 0;
+}
+
+export function useClipboardShortcuts() {
+  useEffect(() => {
+    const handleCopy = (e: ClipboardEvent) => {
+      if (!e.clipboardData || isTextTarget(e.target) || hasTextSelection()) return;
+      const state = useEditorStore.getState();
+      const { selectedEmitterId, selectedEmitterIds, selectedBehaviorId } = state.ui;
+      // Export-space coordinates, so the snippet matches exported files.
+      const { emitters } = state.getExportData().config;
+      const emitter = findEmitter(emitters, selectedEmitterId);
+      if (!emitter) return;
+
+      if (selectedEmitterIds.length > 1) {
+        e.preventDefault();
+        const selected = selectedEmitterIds
+          .map((id) => findEmitter(emitters, id))
+          .filter((layer): layer is EmitterConfig => layer !== null);
+        e.clipboardData.setData('text/plain', serializeEmitters(selected));
+        toast.success(`${selected.length} layers copied`);
+        return;
+      }
+
+      const behaviorIndex = findBehaviorIndex(emitter, selectedBehaviorId);
+      const behavior = behaviorIndex >= 0 ? emitter.particle.behaviors?.[behaviorIndex] : undefined;
+      e.preventDefault();
+      if (behavior) {
+        e.clipboardData.setData('text/plain', serializeBehaviors([behavior]));
+        toast.success('Behavior copied');
+      } else {
+        e.clipboardData.setData('text/plain', serializeEmitters([emitter]));
+        toast.success('Layer copied');
+      }
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (!e.clipboardData || isTextTarget(e.target)) return;
+      const content = parseClipboardYaml(e.clipboardData.getData('text/plain'));
+      if (!content) return;
+      e.preventDefault();
+
+      const state = useEditorStore.getState();
+      const description = describePasteIssues(content.issues) || undefined;
+
+      if (content.kind === 'behaviors') {
+        const emitterId = state.ui.selectedEmitterId;
+        if (emitterId === null || !findEmitter(state.config.emitters, emitterId)) {
+          toast.error('Select a layer to paste behaviors onto');
+          return;
+        }
+        if (state.ui.lockedEmitterIds.has(emitterId)) {
+          toast.error('Layer is locked');
+          return;
+        }
+        if (content.behaviors.length === 0) {
+          toast.error('Nothing to paste', { description });
+          return;
+        }
+        state.pushHistory('Paste behavior');
+        content.behaviors.forEach((behavior) => state.addBehavior(emitterId, behavior));
+        const message = `Pasted ${content.behaviors.length} behavior(s)`;
+        if (description) toast.warning(message, { description });
+        else toast.success(message);
+        return;
+      }
+
+      if (content.emitters.length === 0) {
+        toast.error('Nothing to paste', { description });
+        return;
+      }
+      state.pushHistory('Paste layer');
+      state.pasteEmitters(content.emitters);
+      const message = `Pasted ${content.emitters.length} layer(s)`;
+      if (description) toast.warning(message, { description });
+      else toast.success(message);
+    };
+
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, []);
+}
@@ -0,0 +1,57 @@
+/**
+ * useFieldFocus - Scroll to, focus and highlight the inspector field named by
+ * `ui.fieldFocusRequest` (set by revealValidationPath).
+ *
+ * Fields are tagged with `data-field` attributes holding their path relative
+ * to the emitter (`particle.lifetime`) or the full path for system settings
+ * (`system.maxParticles`). When the exact field isn't rendered — it lives in
+ * a type-specific form, or the config is too broken to show it — the
+ * nearest tagged ancestor path is used instead.
+ */
+
+import { useEffect } from 'react';
+import type { RefObject } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import { getFieldPathCandidates, parseValidationPath } from '@/utils/configTransform';
+
+const FLASH_CLASS = 'field-flash';
+
+// Module-level so a remounted inspector (pane collapsed and re-expanded)
+// doesn't replay a request it already handled.
+let handledRequestId = 0;
+
+function findField(root: HTMLElement, path: string): HTMLElement | null {
+  const { field } = parseValidationPath(path);
+  for (const candidate of getFieldPathCandidates(field)) {
+    const el = root.querySelector<HTMLElement>(`[data-field="${CSS.escape(candidate)}"]`);
+    if (el) return el;
+  }
+  return null;
+}
+
+export function useFieldFocus(containerRef: RefObject<HTMLElement>): void {
+  const request = useEditorStore((s) => s.ui.fieldFocusRequest);
+
+  useEffect(() => {
+    if (!request || request.id === handledRequestId) return;
+
+    // Wait a frame so sections opened for this request have rendered.
+    const frame = requestAnimationFrame(() => {
+      handledRequestId = request.id;
+      const root = containerRef.current;
+      if (!root) return;
+      const el = findField(root, request.path);
+      if (!el) return;
+
+      el.scrollIntoView({ block: 'center', behavior: 'smooth' });
+      el.querySelector<HTMLElement>('input, select, textarea, button')?.focus({ preventScroll: true });
+
+      el.classList.remove(FLASH_CLASS);
+      void el.offsetWidth; // restart the animation on repeat reveals
+      el.classList.add(FLASH_CLASS);
+      el.addEventListener('animationend', () => el.classList.remove(FLASH_CLASS), { once: true });
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [request, containerRef]);
+}
@@ -0,0 +1,255 @@
+/**
+ * useGizmoInteraction - Pointer handling for the selected emitter's gizmos
+ *
+ *   • Drag a handle        → move / resize the emitter; moving the primary
+ *                            layer of a multi-selection moves all of it
+ *   • Drag an insert dot   → add a polygon / path vertex and keep dragging it
+ *   • Alt+click a vertex   → delete it (down to 3 polygon / 2 path points)
+ *
+ * Locked layers have no handles and don't follow a move.
+ *
+ * Handles sit where layers render, group transforms included; edits are
+ * mapped back into each layer's own coordinates. Every gesture goes through
+ * `updateEmitter` and records exactly one undo entry. Drags are always
+ * computed from the emitter as it was on pointer-down so intermediate
+ * updates never compound.
+ *
+ * Must be called after useViewportNavigation: panning gestures mark their
+ * pointer-down as handled (`defaultPrevented`) and are ignored here.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import type { EmitterConfig } from '@eonwetheherald/swizzle';
+import { useEditorStore } from '@/store/editorStore';
+import { screenToWorld, worldToScreen } from '@/utils/camera';
+import type { Camera, Vec2 } from '@/utils/camera';
+import {
+  deleteGizmoVertex,
+  dragGizmoHandle,
+  getGizmoHandles,
+  hitTestGizmoHandles,
+  insertGizmoVertex,
+} from '@/utils/emitterGizmos';
+import type { GizmoHandle } from '@/utils/emitterGizmos';
+import { GIZMO_HIT_RADIUS } from '@/components/preview/gizmoOverlay';
+import { findEmitter, getEditorId } from '@/utils/editorIds';
+import { toLocalUpdates, toWorldEmitter } from '@/utils/layerGroups';
+
+interface GizmoDrag {
+  pointerId: number;
+  emitterId: string;
+  handle: GizmoHandle;
+  original: EmitterConfig;
+  /** Other selected layers as they were on pointer-down, moved along with a position drag. */
+  followers: EmitterConfig[];
+  grabWorld: Vec2;
+  /** Set once the first update has been recorded in history. */
+  committed: boolean;
+}
+
+const HISTORY_LABELS: Record<GizmoHandle['kind'], string> = {
+  position: 'Move emitter',
+  radius: 'Change radius',
+  innerRadius: 'Change inner radius',
+  corner: 'Resize area',
+  lineStart: 'Move line start',
+  lineEnd: 'Move line end',
+  vertex: 'Move vertex',
+  insert: 'Insert vertex',
+};
+
+function getCamera(): Camera {
+  const { ui } = useEditorStore.getState();
+  return { zoom: ui.zoom, pan: ui.pan };
+}
+
+/** Other unlocked selected layers, which follow the primary one when it's moved. */
+function getFollowers(id: string): EmitterConfig[] {
+  const { config, ui } = useEditorStore.getState();
+  return ui.selectedEmitterIds
+    .filter((selected) => selected !== id && !ui.lockedEmitterIds.has(selected))
+    .map((selected) => findEmitter(config.emitters, selected))
+    .filter((emitter): emitter is EmitterConfig => emitter !== null)
+    .map((emitter) => toWorldEmitter(config.groups, emitter));
+}
+
+/** Apply gizmo `updates` made to `world`, the layer as rendered. */
+function updateFromGizmo(id: string, world: EmitterConfig, updates: Partial<EmitterConfig>) {
+  const { config, updateEmitter } = useEditorStore.getState();
+  updateEmitter(id, toLocalUpdates(config.groups, world, updates));
+}
+
+/**
+ * Primary selected emitter (as rendered), its id and handles — or null when
+ * nothing is selected or the layer is locked.
+ */
+function getSelection() {
+  const { config, ui } = useEditorStore.getState();
+  const id = ui.selectedEmitterId;
+  const layer = findEmitter(config.emitters, id);
+  if (id === null || !layer || ui.lockedEmitterIds.has(id)) return null;
+  const emitter = toWorldEmitter(config.groups, layer);
+  const camera = getCamera();
+  return { id, emitter, camera, handles: getGizmoHandles(emitter, GIZMO_HIT_RADIUS / camera.zoom) };
+}
+
+function getGizmoCursor(
+  hoveredId: string | null,
+  activeId: string | null,
+  altHeld: boolean,
+): string | undefined {
+  if (activeId) return 'grabbing';
+  if (!hoveredId) return undefined;
+  if (hoveredId.startsWith('insert:')) return 'copy';
+  if (hoveredId.startsWith('vertex:') && altHeld) return 'pointer';
+  return 'grab';
+}
+
+export function useGizmoInteraction(targetRef: RefObject<HTMLElement>) {
+  const [hoveredHandleId, setHoveredHandleId] = useState<string | null>(null);
+  const [activeHandleId, setActiveHandleId] = useState<string | null>(null);
+  const [isAltHeld, setIsAltHeld] = useState(false);
+
+  const dragRef = useRef<GizmoDrag | null>(null);
+
+  useEffect(() => {
+    const el = targetRef.current;
+    if (!el) return;
+
+    const toLocal = (e: PointerEvent): Vec2 => {
+      const rect = el.getBoundingClientRect();
+      return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const hitTest = (screen: Vec2) => {
+      const selection = getSelection();
+      if (!selection) return null;
+      const { camera, handles } = selection;
+      const hit = hitTestGizmoHandles(handles, screen, (p) => worldToScreen(camera, p), GIZMO_HIT_RADIUS);
+      return hit ? { ...selection, hit } : null;
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.button !== 0 || e.defaultPrevented) return;
+
+      const screen = toLocal(e);
+      const target = hitTest(screen);
+      if (!target) return;
+
+      const { id, emitter, camera, hit } = target;
+      const { pushHistory } = useEditorStore.getState();
+      const world = screenToWorld(camera, screen);
+
+      e.preventDefault();
+      e.stopPropagation();
+
+      if (hit.kind === 'vertex' && e.altKey) {
+        const updates = deleteGizmoVertex(emitter, hit.index);
+        if (updates) {
+          pushHistory('Delete vertex');
+          updateFromGizmo(id, emitter, updates);
+        }
+        setHoveredHandleId(null);
+        return;
+      }
+
+      let handle = hit;
+      let original = emitter;
+      let committed = false;
+
+      if (hit.kind === 'insert') {
+        const inserted = insertGizmoVertex(emitter, hit.index, hit.position);
+        if (!inserted) return;
+        pushHistory(HISTORY_LABELS.insert);
+        updateFromGizmo(id, emitter, inserted.updates);
+        original = { ...emitter, ...inserted.updates };
+        const vertexId = `vertex:${inserted.vertexIndex}`;
+        const vertexHandle = getGizmoHandles(original).find((h) => h.id === vertexId);
+        if (!vertexHandle) return;
+        handle = vertexHandle;
+        committed = true;
+      }
+
+      el.setPointerCapture(e.pointerId);
+      dragRef.current = {
+        pointerId: e.pointerId,
+        emitterId: id,
+        handle,
+        original,
+        followers: handle.kind === 'position' ? getFollowers(id) : [],
+        grabWorld: world,
+        committed,
+      };
+      setActiveHandleId(handle.id);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      setIsAltHeld(e.altKey);
+      const screen = toLocal(e);
+      const drag = dragRef.current;
+
+      if (!drag) {
+        setHoveredHandleId(hitTest(screen)?.hit.id ?? null);
+        return;
+      }
+      if (drag.pointerId !== e.pointerId) return;
+
+      const camera = getCamera();
+      const { pushHistory } = useEditorStore.getState();
+      const updates = dragGizmoHandle(
+        drag.original,
+        drag.handle,
+        screenToWorld(camera, screen),
+        drag.grabWorld,
+        GIZMO_HIT_RADIUS / camera.zoom,
+      );
+
+      // History is recorded lazily so a click without movement leaves no entry.
+      if (!drag.committed) {
+        pushHistory(drag.followers.length > 0 ? 'Move emitters' : HISTORY_LABELS[drag.handle.kind]);
+        drag.committed = true;
+      }
+      updateFromGizmo(drag.emitterId, drag.original, updates);
+      for (const follower of drag.followers) {
+        const handle = getGizmoHandles(follower).find((h) => h.kind === 'position');
+        if (!handle) continue;
+        updateFromGizmo(
+          getEditorId(follower),
+          follower,
+          dragGizmoHandle(follower, handle, screenToWorld(camera, screen), drag.grabWorld),
+        );
+      }
+    };
+
+    const endDrag = (e: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag || drag.pointerId !== e.pointerId) return;
+      if (el.hasPointerCapture(e.pointerId)) el.releasePointerCapture(e.pointerId);
+      dragRef.current = null;
+      setActiveHandleId(null);
+    };
+
+    const handlePointerLeave = () => {
+      if (!dragRef.current) setHoveredHandleId(null);
+    };
+
+    el.addEventListener('pointerdown', handlePointerDown);
+    el.addEventListener('pointermove', handlePointerMove);
+    el.addEventListener('pointerup', endDrag);
+    el.addEventListener('pointercancel', endDrag);
+    el.addEventListener('pointerleave', handlePointerLeave);
+
+    return () => {
+      el.removeEventListener('pointerdown', handlePointerDown);
+      el.removeEventListener('pointermove', handlePointerMove);
+      el.removeEventListener('pointerup', endDrag);
+      el.removeEventListener('pointercancel', endDrag);
+      el.removeEventListener('pointerleave', handlePointerLeave);
+    };
+  }, [targetRef]);
+
+  const cursor = getGizmoCursor(hoveredHandleId, activeHandleId, isAltHeld);
+
+  return { hoveredHandleId, activeHandleId, isAltHeld, cursor };
+}
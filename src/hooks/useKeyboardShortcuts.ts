@@ -4,15 +4,23 @@
 
 import { useEffect } from 'react';
 import { useEditorStore } from '@/store/editorStore';
+import { stepPreview } from '@/store/previewClock';
+import { triggerLayer } from '@/store/previewTriggers';
+import { COARSE_STEP_SECONDS, FRAME_DURATION } from '@/utils/timeline';
 import { editorConfigToYAML } from '@/utils/configTransform';
+import { getTriggerShortcutIndex } from '@/utils/triggers';
+import { getEditorId } from '@/utils/editorIds';
+import { getGroupOf } from '@/utils/layerGroups';
 import { downloadFile } from '@/lib/utils';
 import { toast } from 'sonner';
 
 export function useKeyboardShortcuts() {
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      const { ui, removeEmitter, duplicateEmitter, setPreviewState } = useEditorStore.getState();
-      const { selectedEmitterIndex, previewState } = ui;
+      const { config, ui, pushHistory, removeEmitters, duplicateEmitters, setPreviewState } =
+        useEditorStore.getState();
+      const { selectedEmitterId, selectedEmitterIds, previewState } = ui;
+      const layers = selectedEmitterIds.length === 1 ? 'Layer' : `${selectedEmitterIds.length} layers`;
 
       // Ignore if typing in an input/textarea
       const target = e.target as HTMLElement;
@@ -24,18 +32,45 @@ export function useKeyboardShortcuts() {
         return;
       }
 
-      // Delete / Backspace - Remove selected layer
-      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedEmitterIndex !== null) {
+      // Delete / Backspace - Remove selected layers, except locked ones
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedEmitterIds.length > 0) {
         e.preventDefault();
-        removeEmitter(selectedEmitterIndex);
-        toast.success('Layer deleted');
+        const unlocked = selectedEmitterIds.filter((id) => !ui.lockedEmitterIds.has(id));
+        if (unlocked.length === 0) {
+          toast.info(selectedEmitterIds.length === 1 ? 'Layer is locked' : 'Layers are locked');
+        } else {
+          pushHistory(unlocked.length === 1 ? 'Delete layer' : 'Delete layers');
+          removeEmitters(unlocked);
+          const deleted = unlocked.length === 1 ? 'Layer' : `${unlocked.length} layers`;
+          const kept = selectedEmitterIds.length - unlocked.length;
+          toast.success(kept > 0 ? `${deleted} deleted, ${kept} locked kept` : `${deleted} deleted`);
+        }
       }
 
-      // Ctrl+D - Duplicate selected layer
-      if (e.key === 'd' && (e.ctrlKey || e.metaKey) && selectedEmitterIndex !== null) {
+      // Ctrl+D - Duplicate selected layers
+      if (e.key === 'd' && (e.ctrlKey || e.metaKey) && selectedEmitterIds.length > 0) {
         e.preventDefault();
-        duplicateEmitter(selectedEmitterIndex);
-        toast.success('Layer duplicated');
+        pushHistory(selectedEmitterIds.length === 1 ? 'Duplicate layer' : 'Duplicate layers');
+        duplicateEmitters(selectedEmitterIds);
+        toast.success(`${layers} duplicated`);
+      }
+
+      // Ctrl+G - Group selected layers / Ctrl+Shift+G - Ungroup the selected layer's group
+      if (e.key.toLowerCase() === 'g' && (e.ctrlKey || e.metaKey) && selectedEmitterId !== null) {
+        e.preventDefault();
+        const state = useEditorStore.getState();
+        if (!e.shiftKey) {
+          state.pushHistory('Group layers');
+          state.groupEmitters(selectedEmitterIds);
+          toast.success(`${layers} grouped`);
+        } else {
+          const group = getGroupOf(config.groups, selectedEmitterId);
+          if (group) {
+            state.pushHistory('Ungroup');
+            state.ungroup(group.id);
+            toast.success(`Ungrouped ${group.name}`);
+          }
+        }
       }
 
       // Space - Toggle playback
@@ -70,16 +105,41 @@ export function useKeyboardShortcuts() {
       }
 
       // Escape - Deselect
-      if (e.key === 'Escape' && selectedEmitterIndex !== null) {
+      if (e.key === 'Escape' && selectedEmitterId !== null) {
         e.preventDefault();
         useEditorStore.getState().selectEmitter(null);
       }
 
+      // Shift+1 - Fit all emitters / Shift+0 - Reset view to 1:1
+      // (matched on `code` because Shift changes `key` per keyboard layout)
+      if (e.shiftKey && !e.ctrlKey && !e.metaKey && e.code === 'Digit1') {
+        e.preventDefault();
+        useEditorStore.getState().fitViewToEmitters();
+      }
+      if (e.shiftKey && !e.ctrlKey && !e.metaKey && e.code === 'Digit0') {
+        e.preventDefault();
+        useEditorStore.getState().resetView();
+      }
+
+      // 1–9 - Fire / re-fire the triggered or burst layer at that position
+      if (!e.shiftKey && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        const layerIndex = getTriggerShortcutIndex(e.code);
+        const layer = layerIndex !== null ? config.emitters[layerIndex] : undefined;
+        if (layer && triggerLayer(getEditorId(layer))) e.preventDefault();
+      }
+
+      // , / . - Step one frame back / forward; with Shift, 0.1s
+      if (!e.ctrlKey && !e.metaKey && (e.code === 'Comma' || e.code === 'Period')) {
+        e.preventDefault();
+        const step = e.shiftKey ? COARSE_STEP_SECONDS : FRAME_DURATION;
+        stepPreview(e.code === 'Comma' ? -step : step);
+      }
+
       // Ctrl+S - Export YAML
       if (e.key === 's' && (e.ctrlKey || e.metaKey)) {
         e.preventDefault();
         try {
-          const { config } = useEditorStore.getState();
+          const { config } = useEditorStore.getState().getExportData();
           const yaml = editorConfigToYAML(config);
           const blob = new Blob([yaml], { type: 'text/yaml' });
           downloadFile(blob, 'particle-effect.yaml');
@@ -0,0 +1,127 @@
+/**
+ * useMarqueeSelection - Drag a box on the canvas to select layers
+ *
+ *   • Drag               → select the visible layers whose position is inside
+ *   • Shift/Ctrl + drag  → add them to the current selection
+ *
+ * Locked layers are never picked up. A press only becomes a marquee once the
+ * pointer has moved a few pixels, so plain clicks leave the selection alone.
+ *
+ * Must be called last: pans, handle drags and click-to-fire mark their
+ * pointer-down as handled (`defaultPrevented`) and are ignored here.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import { screenToWorld } from '@/utils/camera';
+import type { Vec2 } from '@/utils/camera';
+import { getEditorId } from '@/utils/editorIds';
+import { getEmittersInRect } from '@/utils/selection';
+import { bakeGroupTransforms } from '@/utils/layerGroups';
+
+/** Pointer travel (screen pixels) before a press starts a marquee. */
+const MARQUEE_THRESHOLD = 4;
+
+export interface MarqueeRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface MarqueeGesture {
+  pointerId: number;
+  start: Vec2;
+  /** Selection to add to (Shift/Ctrl held on pointer-down); empty otherwise. */
+  base: string[];
+  started: boolean;
+}
+
+function toRect(a: Vec2, b: Vec2): MarqueeRect {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  };
+}
+
+export function useMarqueeSelection(targetRef: RefObject<HTMLElement>) {
+  const [marquee, setMarquee] = useState<MarqueeRect | null>(null);
+  const gestureRef = useRef<MarqueeGesture | null>(null);
+
+  useEffect(() => {
+    const el = targetRef.current;
+    if (!el) return;
+
+    const toLocal = (e: PointerEvent): Vec2 => {
+      const rect = el.getBoundingClientRect();
+      return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.button !== 0 || e.defaultPrevented) return;
+      // Overlay buttons sit inside the same element; only the canvas selects.
+      if (!(e.target instanceof HTMLCanvasElement)) return;
+
+      const additive = e.shiftKey || e.ctrlKey || e.metaKey;
+      gestureRef.current = {
+        pointerId: e.pointerId,
+        start: toLocal(e),
+        base: additive ? useEditorStore.getState().ui.selectedEmitterIds : [],
+        started: false,
+      };
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const gesture = gestureRef.current;
+      if (!gesture || gesture.pointerId !== e.pointerId) return;
+
+      const screen = toLocal(e);
+      if (!gesture.started) {
+        const travel = Math.hypot(screen.x - gesture.start.x, screen.y - gesture.start.y);
+        if (travel < MARQUEE_THRESHOLD) return;
+        gesture.started = true;
+        el.setPointerCapture(e.pointerId);
+      }
+
+      const { config, ui, setEmitterSelection } = useEditorStore.getState();
+      const camera = { zoom: ui.zoom, pan: ui.pan };
+      // Group transforms baked in: select layers where they render.
+      const candidates = bakeGroupTransforms(config).emitters.filter((emitter) => {
+        const id = getEditorId(emitter);
+        return !ui.hiddenEmitterIds.has(id) && !ui.lockedEmitterIds.has(id);
+      });
+      const inside = getEmittersInRect(
+        candidates,
+        screenToWorld(camera, gesture.start),
+        screenToWorld(camera, screen),
+      );
+      setEmitterSelection([...gesture.base, ...inside]);
+      setMarquee(toRect(gesture.start, screen));
+    };
+
+    const endGesture = (e: PointerEvent) => {
+      const gesture = gestureRef.current;
+      if (!gesture || gesture.pointerId !== e.pointerId) return;
+      if (el.hasPointerCapture(e.pointerId)) el.releasePointerCapture(e.pointerId);
+      gestureRef.current = null;
+      setMarquee(null);
+    };
+
+    el.addEventListener('pointerdown', handlePointerDown);
+    el.addEventListener('pointermove', handlePointerMove);
+    el.addEventListener('pointerup', endGesture);
+    el.addEventListener('pointercancel', endGesture);
+
+    return () => {
+      el.removeEventListener('pointerdown', handlePointerDown);
+      el.removeEventListener('pointermove', handlePointerMove);
+      el.removeEventListener('pointerup', endGesture);
+      el.removeEventListener('pointercancel', endGesture);
+    };
+  }, [targetRef]);
+
+  return { marquee };
+}
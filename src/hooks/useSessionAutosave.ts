@@ -0,0 +1,101 @@
+/**
+ * useSessionAutosave - Crash recovery for the editor document
+ *
+ * On mount, looks for a snapshot left by an earlier session and opens the
+ * "Restore previous session?" dialog when one exists. Afterwards every
+ * change to the open documents — config, selection, hidden or locked
+ * layers or undo history, of any tab — is written to IndexedDB (debounced,
+ * and flushed when the tab is hidden).
+ *
+ * Mount once, from App.
+ */
+
+import { useEffect } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import { sessionDB } from '@/store/sessionDB';
+import type { EditorState } from '@/store/types';
+import { debounce, generateId } from '@/lib/utils';
+import {
+  chooseSnapshotSlot,
+  createSessionSnapshot,
+  findRecoverableSnapshot,
+  getPrunableSnapshotIds,
+  hasRecoverableWork,
+} from '@/utils/sessionSnapshots';
+
+const AUTOSAVE_DEBOUNCE_MS = 2000;
+
+/** Identifies this page load so its own snapshots are never offered back. */
+export const CURRENT_SESSION_ID = generateId();
+
+async function saveSnapshot(): Promise<void> {
+  const state = useEditorStore.getState();
+  // Empty, untouched documents have nothing worth recovering.
+  if (!hasRecoverableWork(state)) return;
+
+  const existing = await sessionDB.getAll();
+  const now = Date.now();
+  const slot = chooseSnapshotSlot(existing, CURRENT_SESSION_ID, now);
+  const snapshot = createSessionSnapshot(state, {
+    id: slot.id ?? generateId(),
+    sessionId: CURRENT_SESSION_ID,
+    createdAt: slot.createdAt,
+    savedAt: now,
+  });
+  const pruneIds = getPrunableSnapshotIds([snapshot, ...existing.filter((s) => s.id !== snapshot.id)]);
+  await sessionDB.save(snapshot, pruneIds);
+}
+
+function hasDocumentChanged(next: EditorState, prev: EditorState): boolean {
+  return (
+    next.documents !== prev.documents ||
+    next.config !== prev.config ||
+    next.history !== prev.history ||
+    next.historyIndex !== prev.historyIndex ||
+    next.ui.selectedEmitterId !== prev.ui.selectedEmitterId ||
+    next.ui.selectedEmitterIds !== prev.ui.selectedEmitterIds ||
+    next.ui.selectedBehaviorId !== prev.ui.selectedBehaviorId ||
+    next.ui.hiddenEmitterIds !== prev.ui.hiddenEmitterIds ||
+    next.ui.lockedEmitterIds !== prev.ui.lockedEmitterIds
+  );
+}
+
+export function useSessionAutosave() {
+  useEffect(() => {
+    let disposed = false;
+
+    const save = () => {
+      saveSnapshot().catch((err: unknown) => console.warn('Autosave failed:', err));
+    };
+    const debouncedSave = debounce(save, AUTOSAVE_DEBOUNCE_MS);
+
+    void sessionDB
+      .getAll()
+      .then((snapshots) => {
+        if (disposed) return;
+        if (findRecoverableSnapshot(snapshots, CURRENT_SESSION_ID)) {
+          useEditorStore.getState().setSessionDialog('recover');
+        }
+      })
+      .catch((err: unknown) => console.warn('Failed to read autosaved sessions:', err));
+
+    const unsubscribe = useEditorStore.subscribe((state, prev) => {
+      if (hasDocumentChanged(state, prev)) debouncedSave();
+    });
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        debouncedSave.cancel();
+        save();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      disposed = true;
+      unsubscribe();
+      debouncedSave.cancel();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+}
@@ -0,0 +1,24 @@
+/**
+ * useThemeVersion - Counter that bumps whenever the document theme changes
+ *
+ * Themes are switched by toggling a class on <html> (see tokens.css), which
+ * React never sees. Canvas layers that bake token colours into Pixi objects
+ * add the returned value to their effect deps to redraw on theme switches.
+ */
+
+import { useEffect, useState } from 'react';
+
+export function useThemeVersion(): number {
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const observer = new MutationObserver(() => setVersion((v) => v + 1));
+    observer.observe(document.documentElement, {
+      attributes: true,
+      attributeFilter: ['class'],
+    });
+    return () => observer.disconnect();
+  }, []);
+
+  return version;
+}
@@ -0,0 +1,49 @@
+/**
+ * useTriggerClick - Click the canvas to fire the selected triggered emitter
+ * at the cursor.
+ *
+ * Must be called after useViewportNavigation and useGizmoInteraction: pans
+ * and handle drags mark their pointer-down as handled (`defaultPrevented`)
+ * and are ignored here. A fired click is marked handled in turn, so it
+ * doesn't also start a marquee selection.
+ */
+
+import { useEffect } from 'react';
+import type { RefObject } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import { triggerLayer } from '@/store/previewTriggers';
+import { screenToWorld } from '@/utils/camera';
+import { getTriggerKind } from '@/utils/triggers';
+import { findEmitter } from '@/utils/editorIds';
+
+export function useTriggerClick(targetRef: RefObject<HTMLElement>) {
+  const canFire = useEditorStore(
+    (s) => getTriggerKind(findEmitter(s.config.emitters, s.ui.selectedEmitterId) ?? undefined) === 'fire',
+  );
+
+  useEffect(() => {
+    const el = targetRef.current;
+    if (!el) return;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.button !== 0 || e.defaultPrevented) return;
+      // Overlay buttons sit inside the same element; only the canvas fires.
+      if (!(e.target instanceof HTMLCanvasElement)) return;
+      if (e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) return;
+
+      const { ui, config } = useEditorStore.getState();
+      const id = ui.selectedEmitterId;
+      if (id === null || getTriggerKind(findEmitter(config.emitters, id) ?? undefined) !== 'fire') return;
+
+      const rect = el.getBoundingClientRect();
+      const screen = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      e.preventDefault();
+      triggerLayer(id, screenToWorld({ zoom: ui.zoom, pan: ui.pan }, screen));
+    };
+
+    el.addEventListener('pointerdown', handlePointerDown);
+    return () => el.removeEventListener('pointerdown', handlePointerDown);
+  }, [targetRef]);
+
+  return { cursor: canFire ? 'crosshair' : undefined };
+}
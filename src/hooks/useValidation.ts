@@ -0,0 +1,14 @@
+import { useMemo } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import type { ValidationResult } from '@/store/types';
+import { validateEditorConfig } from '@/utils/configTransform';
+
+/**
+ * Validation result for the current document, recomputed only when the
+ * config changes. Paths always refer to the full config, never the
+ * hidden/solo-filtered preview config.
+ */
+export function useValidation(): ValidationResult {
+  const config = useEditorStore((s) => s.config);
+  return useMemo(() => validateEditorConfig(config), [config]);
+}
@@ -0,0 +1,156 @@
+/**
+ * useViewportNavigation - Mouse / keyboard camera controls for the preview
+ *
+ *   • Wheel            → zoom around the cursor
+ *   • Middle-drag      → pan
+ *   • Space + drag     → pan (while the pointer is over the canvas)
+ *
+ * Space normally toggles playback (see useKeyboardShortcuts). While the
+ * pointer is over the canvas the key is intercepted instead: a drag pans,
+ * and a plain tap still toggles playback on key-up.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+
+// Exponential zoom so each wheel notch scales by the same ratio.
+const WHEEL_ZOOM_SENSITIVITY = 0.0015;
+
+interface PanGesture {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  startPan: { x: number; y: number };
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable;
+}
+
+export function useViewportNavigation(targetRef: RefObject<HTMLElement>) {
+  const [isPanning, setIsPanning] = useState(false);
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+
+  const hoveredRef = useRef(false);
+  const spaceHeldRef = useRef(false);
+  const pannedDuringSpaceRef = useRef(false);
+  const gestureRef = useRef<PanGesture | null>(null);
+
+  useEffect(() => {
+    const el = targetRef.current;
+    if (!el) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      const { ui, zoomAt } = useEditorStore.getState();
+      const factor = Math.exp(-e.deltaY * WHEEL_ZOOM_SENSITIVITY);
+      zoomAt(ui.zoom * factor, e.clientX - rect.left, e.clientY - rect.top);
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      const isMiddle = e.button === 1;
+      const isSpaceDrag = e.button === 0 && spaceHeldRef.current;
+      if (!isMiddle && !isSpaceDrag) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+      el.setPointerCapture(e.pointerId);
+      gestureRef.current = {
+        pointerId: e.pointerId,
+        startX: e.clientX,
+        startY: e.clientY,
+        startPan: { ...useEditorStore.getState().ui.pan },
+      };
+      if (isSpaceDrag) pannedDuringSpaceRef.current = true;
+      setIsPanning(true);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const gesture = gestureRef.current;
+      if (!gesture || gesture.pointerId !== e.pointerId) return;
+      useEditorStore
+        .getState()
+        .setPan(
+          gesture.startPan.x + (e.clientX - gesture.startX),
+          gesture.startPan.y + (e.clientY - gesture.startY),
+        );
+    };
+
+    const endGesture = (e: PointerEvent) => {
+      const gesture = gestureRef.current;
+      if (!gesture || gesture.pointerId !== e.pointerId) return;
+      if (el.hasPointerCapture(e.pointerId)) el.releasePointerCapture(e.pointerId);
+      gestureRef.current = null;
+      setIsPanning(false);
+    };
+
+    // Suppress the browser's middle-click autoscroll.
+    const handleMouseDown = (e: MouseEvent) => {
+      if (e.button === 1) e.preventDefault();
+    };
+
+    const handlePointerEnter = () => {
+      hoveredRef.current = true;
+    };
+    const handlePointerLeave = () => {
+      hoveredRef.current = false;
+    };
+
+    // Capture phase on window so this runs before the global shortcut handler.
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== ' ' || isTypingTarget(e.target)) return;
+      if (!hoveredRef.current && !spaceHeldRef.current) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+      if (spaceHeldRef.current) return; // key repeat
+
+      spaceHeldRef.current = true;
+      pannedDuringSpaceRef.current = false;
+      setIsSpaceHeld(true);
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key !== ' ' || !spaceHeldRef.current) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+      spaceHeldRef.current = false;
+      setIsSpaceHeld(false);
+
+      if (!pannedDuringSpaceRef.current) {
+        const { ui, setPreviewState } = useEditorStore.getState();
+        setPreviewState(ui.previewState === 'playing' ? 'paused' : 'playing');
+      }
+    };
+
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    el.addEventListener('pointerdown', handlePointerDown);
+    el.addEventListener('pointermove', handlePointerMove);
+    el.addEventListener('pointerup', endGesture);
+    el.addEventListener('pointercancel', endGesture);
+    el.addEventListener('mousedown', handleMouseDown);
+    el.addEventListener('pointerenter', handlePointerEnter);
+    el.addEventListener('pointerleave', handlePointerLeave);
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    window.addEventListener('keyup', handleKeyUp, { capture: true });
+
+    return () => {
+      el.removeEventListener('wheel', handleWheel);
+      el.removeEventListener('pointerdown', handlePointerDown);
+      el.removeEventListener('pointermove', handlePointerMove);
+      el.removeEventListener('pointerup', endGesture);
+      el.removeEventListener('pointercancel', endGesture);
+      el.removeEventListener('mousedown', handleMouseDown);
+      el.removeEventListener('pointerenter', handlePointerEnter);
+      el.removeEventListener('pointerleave', handlePointerLeave);
+      window.removeEventListener('keydown', handleKeyDown, { capture: true });
+      window.removeEventListener('keyup', handleKeyUp, { capture: true });
+    };
+  }, [targetRef]);
+
+  return { isPanning, isSpaceHeld };
+}
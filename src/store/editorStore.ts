@@ -1,12 +1,76 @@
 import { create } from 'zustand';
-import type { EditorState, EditorConfig, AssetState, TextureAsset, SequenceAsset, LayoutState, HistoryEntry } from './types';
+import type {
+  EditorState,
+  EditorConfig,
+  GroupTransform,
+  AssetState,
+  AssetStorageState,
+  TextureAsset,
+  SequenceAsset,
+  LayoutState,
+  HistoryEntry,
+  EditorDocument,
+  SessionDialogMode,
+  SessionSnapshot,
+  SelectionState,
+  UIState,
+} from './types';
 import type { BehaviorConfig, EmitterConfig } from '@eonwetheherald/swizzle';
-import { recentreEmittersOnResize } from '@/utils/configTransform';
-import { debounce } from '@/lib/utils';
+import { parseValidationPath, recentreEmittersOnResize } from '@/utils/configTransform';
+import { fitCameraToBounds, getEmitterBounds, zoomAtPoint } from '@/utils/camera';
+import { parseAssetRecords } from '@/utils/assetRecords';
+import { clampTimelineDuration, normalizeLoopRange } from '@/utils/timeline';
+import { generateSeed, normalizeSeed } from '@/utils/random';
+import {
+  UNTITLED_DOCUMENT_NAME,
+  activateDocument,
+  captureDocument,
+  createDocument,
+  getNextActiveDocumentId,
+  getUniqueDocumentName,
+  isPristineDocument,
+} from '@/utils/documents';
+import {
+  EDITOR_ID_KEY,
+  findBehaviorIndex,
+  findEmitter,
+  findEmitterIndex,
+  getEditorId,
+  withBehaviorId,
+  withConfigIds,
+  withEmitterIds,
+} from '@/utils/editorIds';
+import {
+  getRangeSelection,
+  moveEmitters,
+  setEmitterField,
+  sortByLayerOrder,
+  toggleInSelection,
+} from '@/utils/selection';
+import {
+  bakeGroupTransforms,
+  createGroup,
+  getGroupInsertIndex,
+  getGroupOf,
+  getLayerUnits,
+  getNextGroupName,
+  normalizeGroups,
+  recentreGroupsOnResize,
+  transformEmitter,
+} from '@/utils/layerGroups';
+import {
+  DEFAULT_HISTORY_LIMIT,
+  canCoalesce,
+  getHistoryActionCount,
+  trimHistory,
+} from '@/utils/history';
+import { getRestorableDocuments } from '@/utils/sessionSnapshots';
+import { debounce, generateId } from '@/lib/utils';
 
-const MAX_HISTORY = 100;
 const MIN_TIME_SCALE = 0.1;
 const MAX_TIME_SCALE = 4;
+const MIN_GRID_SIZE = 5;
+const MAX_GRID_SIZE = 500;
 
 /**
  * Default editor configuration
@@ -15,6 +79,7 @@ const createDefaultConfig = (): EditorConfig => ({
   system: {
     maxParticles: 1000,
     autoStart: true,
+    seed: generateSeed(),
   },
   emitters: [],
 });
@@ -30,14 +95,21 @@ const createDefaultLayout = (): LayoutState => ({
   rightPaneCollapsed: false,
   leftPaneLastWidth: 260,
   rightPaneLastWidth: 320,
+  problemsPanelOpen: false,
+  profilerPanelOpen: false,
+  historyPanelOpen: false,
+  historyLimit: DEFAULT_HISTORY_LIMIT,
 });
 
+const DEFAULT_TIMELINE_DURATION = 5;
+
 /**
  * Default UI state
  */
 const createDefaultUIState = () => ({
-  selectedEmitterIndex: null,
-  selectedBehaviorIndex: null,
+  selectedEmitterId: null,
+  selectedEmitterIds: [],
+  selectedBehaviorId: null,
   previewState: 'stopped' as const,
   showDebugMetrics: false,
   timeScale: 1.0,
@@ -46,10 +118,21 @@ const createDefaultUIState = () => ({
   showGrid: true,
   gridSize: 50,
   zoom: 1.0,
-  hiddenEmitterIndices: new Set<number>(),
+  pan: { x: 0, y: 0 },
+  hiddenEmitterIds: new Set<string>(),
+  lockedEmitterIds: new Set<string>(),
+  soloMode: false,
   canvasWidth: 800,
   canvasHeight: 600,
+  sessionDialog: null,
   inspectorSearch: '',
+  fieldFocusRequest: null,
+  timeline: {
+    duration: DEFAULT_TIMELINE_DURATION,
+    loopEnabled: false,
+    loopIn: 0,
+    loopOut: DEFAULT_TIMELINE_DURATION,
+  },
 });
 
 /**
@@ -60,6 +143,17 @@ const createDefaultAssetState = (): AssetState => ({
   sequences: new Map(),
 });
 
+const createDefaultAssetStorageState = (): AssetStorageState => ({
+  status: 'idle',
+  error: null,
+  skippedRecords: 0,
+  usage: null,
+  quota: null,
+});
+
+const ASSET_STORES = ['textures', 'sequences'] as const;
+type AssetStoreName = (typeof ASSET_STORES)[number];
+
 /**
  * IndexedDB utilities for asset persistence
  */
@@ -71,19 +165,27 @@ class AssetDB {
 
   private ensureDB(): Promise<void> {
     if (this.db) return Promise.resolve();
-    if (!this.initPromise) this.initPromise = this.init();
+    if (!this.initPromise) {
+      // Forget a failed open so the next call retries instead of rethrowing.
+      this.initPromise = this.init(this.version).catch((err: unknown) => {
+        this.initPromise = null;
+        throw err;
+      });
+    }
     return this.initPromise;
   }
 
-  private async init(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, this.version);
+  private async init(version: number): Promise<void> {
+    if (typeof indexedDB === 'undefined') {
+      throw new Error('IndexedDB is not available in this browser');
+    }
+
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, version);
 
       request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        this.db = request.result;
-        resolve();
-      };
+      request.onblocked = () => reject(new Error('Asset database is open in another tab'));
+      request.onsuccess = () => resolve(request.result);
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
@@ -95,6 +197,54 @@ class AssetDB {
         }
       };
     });
+
+    // A store can go missing if the database was created by an older build or
+    // partially cleared; bumping the version re-runs onupgradeneeded.
+    if (ASSET_STORES.some((name) => !db.objectStoreNames.contains(name))) {
+      const nextVersion = db.version + 1;
+      db.close();
+      return this.init(nextVersion);
+    }
+
+    db.onversionchange = () => {
+      db.close();
+      this.db = null;
+      this.initPromise = null;
+    };
+    this.db = db;
+  }
+
+  private getAll(storeName: AssetStoreName): Promise<unknown[]> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readonly');
+      const request = transaction.objectStore(storeName).getAll();
+      request.onsuccess = () => resolve(request.result as unknown[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Raw contents of both object stores. Records are validated by the caller.
+   */
+  async loadAll(): Promise<{ textures: unknown[]; sequences: unknown[] }> {
+    await this.ensureDB();
+    const [textures, sequences] = await Promise.all([
+      this.getAll('textures'),
+      this.getAll('sequences'),
+    ]);
+    return { textures, sequences };
+  }
+
+  async deleteRecords(storeName: AssetStoreName, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readwrite');
+      const store = transaction.objectStore(storeName);
+      ids.forEach((id) => store.delete(id));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
   }
 
   async saveTexture(texture: TextureAsset): Promise<void> {
@@ -144,6 +294,15 @@ class AssetDB {
 
 const assetDB = new AssetDB();
 
+async function estimateStorage(): Promise<Pick<AssetStorageState, 'usage' | 'quota'>> {
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    return { usage: estimate?.usage ?? null, quota: estimate?.quota ?? null };
+  } catch {
+    return { usage: null, quota: null };
+  }
+}
+
 // -- Persist layout to localStorage --
 const LAYOUT_KEY = 'swizzle-editor-layout';
 function loadPersistedLayout(): LayoutState {
@@ -178,87 +337,169 @@ const debouncedPersistLayout = debounce(persistLayout, 300);
 /**
  * Create a history snapshot
  */
-function createSnapshot(state: EditorState): HistoryEntry {
+function createSnapshot(state: EditorState, label: string): HistoryEntry {
   return {
     config: structuredClone(state.config),
     selection: {
-      selectedEmitterIndex: state.ui.selectedEmitterIndex,
-      selectedBehaviorIndex: state.ui.selectedBehaviorIndex,
+      selectedEmitterId: state.ui.selectedEmitterId,
+      selectedEmitterIds: state.ui.selectedEmitterIds,
+      selectedBehaviorId: state.ui.selectedBehaviorId,
     },
-    label: '',
+    label,
     timestamp: Date.now(),
   };
 }
 
+/**
+ * `ui` with the layers in `ids` selected. `primary` stays the primary layer
+ * if it's among them, otherwise the first one does; the selected behavior is
+ * kept only while the primary layer doesn't change.
+ */
+function withSelectedEmitters(
+  ui: UIState,
+  emitters: EmitterConfig[],
+  ids: string[],
+  primary: string | null = ui.selectedEmitterId,
+): UIState {
+  const selectedEmitterIds = sortByLayerOrder(emitters, ids);
+  const selectedEmitterId =
+    primary !== null && selectedEmitterIds.includes(primary) ? primary : selectedEmitterIds[0] ?? null;
+  return {
+    ...ui,
+    selectedEmitterId,
+    selectedEmitterIds,
+    selectedBehaviorId: selectedEmitterId === ui.selectedEmitterId ? ui.selectedBehaviorId : null,
+  };
+}
+
+/** Selection from a snapshot or history entry, dropping layers that no longer exist. */
+function restoreSelection(selection: Partial<SelectionState>, config: EditorConfig): SelectionState {
+  const { selectedEmitterId = null, selectedBehaviorId = null } = selection;
+  const primary = findEmitter(config.emitters, selectedEmitterId);
+  if (!primary) return { selectedEmitterId: null, selectedEmitterIds: [], selectedBehaviorId: null };
+  return {
+    selectedEmitterId,
+    // Older snapshots only recorded the primary layer.
+    selectedEmitterIds: sortByLayerOrder(config.emitters, [
+      selectedEmitterId!,
+      ...(selection.selectedEmitterIds ?? []),
+    ]),
+    selectedBehaviorId: findBehaviorIndex(primary, selectedBehaviorId) >= 0 ? selectedBehaviorId : null,
+  };
+}
+
+/**
+ * Open documents with the active one's live state folded back in.
+ */
+function stashActiveDocument(state: EditorState): EditorDocument[] {
+  return state.documents.map((d) => (d.id === state.activeDocumentId ? captureDocument(d, state) : d));
+}
+
+/**
+ * State for `document` opened in a tab and activated. An untouched blank
+ * active tab is replaced instead of being left behind.
+ */
+function openInTab(state: EditorState, document: EditorDocument): Partial<EditorState> {
+  const documents = stashActiveDocument(state);
+  const active = documents.find((d) => d.id === state.activeDocumentId);
+  const replaced = active && isPristineDocument(active) ? active : null;
+  const opened = {
+    ...document,
+    name: getUniqueDocumentName(documents.filter((d) => d !== replaced), document.name),
+  };
+  return {
+    documents: replaced
+      ? documents.map((d) => (d === replaced ? opened : d))
+      : [...documents, opened],
+    ...activateDocument(opened, state.ui),
+  };
+}
+
+const createUntitledDocument = (documents: EditorDocument[] = []) =>
+  createDocument(
+    generateId(),
+    getUniqueDocumentName(documents, UNTITLED_DOCUMENT_NAME),
+    createDefaultConfig(),
+  );
+
+const initialDocument = createUntitledDocument();
+
 /**
  * Zustand store for editor state
  */
 export const useEditorStore = create<EditorState>((set, get) => ({
-  config: createDefaultConfig(),
+  config: initialDocument.config,
   assets: createDefaultAssetState(),
+  assetStorage: createDefaultAssetStorageState(),
   ui: createDefaultUIState(),
   layout: loadPersistedLayout(),
   history: [],
   historyIndex: -1,
+  documents: [initialDocument],
+  activeDocumentId: initialDocument.id,
 
   // ─── History / Undo / Redo ────────────────────────────────────────────────
 
-  pushHistory: (label: string) => {
+  pushHistory: (label: string, coalesceKey?: string) => {
     const state = get();
-    const entry: HistoryEntry = {
-      ...createSnapshot(state),
-      label,
-    };
+    const now = Date.now();
+    const last = state.history[state.historyIndex];
+    // Still at the tip and editing the same thing: the entry already holds
+    // the state from before the first of these edits.
+    if (state.historyIndex === state.history.length - 1 && canCoalesce(last, coalesceKey, now)) {
+      const history = [...state.history];
+      history[state.historyIndex] = { ...last, label, timestamp: now };
+      set({ history });
+      return;
+    }
+
     // Truncate any "redo" entries beyond current index
     const history = state.history.slice(0, state.historyIndex + 1);
-    history.push(entry);
-    // Cap at MAX_HISTORY
-    if (history.length > MAX_HISTORY) history.shift();
-    set({ history, historyIndex: history.length - 1 });
+    history.push({ ...createSnapshot(state, label), coalesceKey });
+    set(trimHistory(history, history.length - 1, state.layout.historyLimit));
   },
 
-  undo: () => {
-    const { history, historyIndex } = get();
-    if (historyIndex < 0) return;
+  jumpToHistory: (index: number) => {
+    const state = get();
+    let { history } = state;
+    if (index === state.historyIndex) return;
+    if (index < -1 || index >= getHistoryActionCount(history, state.historyIndex)) return;
 
     // If at the tip, push current state so redo works
-    if (historyIndex === history.length - 1) {
-      const snapshot = createSnapshot(get());
-      snapshot.label = 'current';
-      // Clone to avoid mutating live state
-      const updatedHistory = [...history, snapshot];
-      set({ history: updatedHistory });
+    if (state.historyIndex === history.length - 1) {
+      history = [...history, createSnapshot(state, 'current')];
     }
 
-    const entry = get().history[historyIndex];
-    set((state) => ({
+    // history[index + 1] is the state before the next action, i.e. after `index`.
+    const entry = history[index + 1];
+    set({
       config: structuredClone(entry.config),
       ui: {
         ...state.ui,
-        selectedEmitterIndex: entry.selection.selectedEmitterIndex,
-        selectedBehaviorIndex: entry.selection.selectedBehaviorIndex,
+        ...entry.selection,
         hasUnsavedChanges: true,
       },
-      historyIndex: historyIndex - 1,
-    }));
+      history,
+      historyIndex: index,
+    });
+  },
+
+  undo: () => {
+    const { historyIndex, jumpToHistory } = get();
+    if (historyIndex >= 0) jumpToHistory(historyIndex - 1);
   },
 
   redo: () => {
-    const { history, historyIndex } = get();
-    const nextIndex = historyIndex + 2; // +1 for the entry ahead, +1 because historyIndex was decremented
-    if (nextIndex >= history.length) return;
+    const { historyIndex, jumpToHistory } = get();
+    jumpToHistory(historyIndex + 1);
+  },
 
-    const entry = history[nextIndex];
-    set((state) => ({
-      config: structuredClone(entry.config),
-      ui: {
-        ...state.ui,
-        selectedEmitterIndex: entry.selection.selectedEmitterIndex,
-        selectedBehaviorIndex: entry.selection.selectedBehaviorIndex,
-        hasUnsavedChanges: true,
-      },
-      historyIndex: nextIndex - 1,
-    }));
+  setHistoryLimit: (limit: number) => {
+    set((state) => {
+      const layout = { ...state.layout, historyLimit: Math.max(1, Math.round(limit)) };
+      persistLayout(layout);
+      return { layout, ...trimHistory(state.history, state.historyIndex, layout.historyLimit) };
+    });
   },
 
   canUndo: () => get().historyIndex >= 0,
@@ -267,17 +508,67 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     return historyIndex + 2 < history.length;
   },
 
-  // ─── System actions ───────────────────────────────────────────────────────
-  resetToDefault: () => {
+  // ─── Documents ────────────────────────────────────────────────────────────
+
+  newDocument: () => {
+    const state = get();
+    const documents = stashActiveDocument(state);
+    const document = createUntitledDocument(documents);
+    set({ documents: [...documents, document], ...activateDocument(document, state.ui) });
+  },
+
+  openDocument: (config: EditorConfig, name: string) => {
+    const { canvasWidth, canvasHeight } = get().ui;
+    const defaults = createDefaultUIState();
+
+    // Recentre emitters from the 800×600 authoring canvas to the actual
+    // canvas size so loaded examples / imports appear centred immediately.
+    const emitters = recentreEmittersOnResize(
+      config.emitters,
+      defaults.canvasWidth,
+      defaults.canvasHeight,
+      canvasWidth,
+      canvasHeight,
+    );
+
+    set(openInTab(get(), createDocument(generateId(), name, withConfigIds({ ...config, emitters }))));
+  },
+
+  switchDocument: (id: string) => {
+    const state = get();
+    if (id === state.activeDocumentId) return;
+    const target = state.documents.find((d) => d.id === id);
+    if (!target) return;
+    set({ documents: stashActiveDocument(state), ...activateDocument(target, state.ui) });
+  },
+
+  closeDocument: (id: string) => {
+    const state = get();
+    if (!state.documents.some((d) => d.id === id)) return;
+    const remaining = state.documents.filter((d) => d.id !== id);
+    if (id !== state.activeDocumentId) {
+      set({ documents: remaining });
+      return;
+    }
+
+    // Closing the last tab leaves a fresh blank document behind.
+    const nextId = getNextActiveDocumentId(state.documents, id);
+    const next = remaining.find((d) => d.id === nextId) ?? createUntitledDocument();
     set({
-      config: createDefaultConfig(),
-      assets: createDefaultAssetState(),
-      ui: createDefaultUIState(),
-      history: [],
-      historyIndex: -1,
+      documents: remaining.length > 0 ? remaining : [next],
+      ...activateDocument(next, state.ui),
     });
   },
 
+  renameDocument: (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    set((state) => ({
+      documents: state.documents.map((d) => (d.id === id ? { ...d, name: trimmed } : d)),
+    }));
+  },
+
+  // ─── System actions ───────────────────────────────────────────────────────
   setMaxParticles: (max: number) => {
     const clamped = Math.min(10000, Math.max(1, Math.round(Number.isFinite(max) ? max : 1000)));
     set((state) => ({
@@ -299,26 +590,56 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     }));
   },
 
+  setSeed: (seed: number) => {
+    set((state) => ({
+      config: {
+        ...state.config,
+        system: { ...state.config.system, seed: normalizeSeed(seed) },
+      },
+      ui: { ...state.ui, hasUnsavedChanges: true },
+    }));
+  },
+
+  rerollSeed: () => {
+    get().setSeed(generateSeed());
+  },
+
+  setParticleBudget: (budget: number | undefined) => {
+    set((state) => {
+      const system = { ...state.config.system, particleBudget: budget };
+      if (budget === undefined) delete system.particleBudget;
+      return {
+        config: { ...state.config, system },
+        ui: { ...state.ui, hasUnsavedChanges: true },
+      };
+    });
+  },
+
   // Emitter actions
   addEmitter: (emitter: EmitterConfig) => {
+    const added = withEmitterIds(emitter, true);
     set((state) => ({
       config: {
         ...state.config,
-        emitters: [...state.config.emitters, emitter],
+        emitters: [...state.config.emitters, added],
       },
       ui: {
         ...state.ui,
-        selectedEmitterIndex: state.config.emitters.length,
+        selectedEmitterId: getEditorId(added),
+        selectedEmitterIds: [getEditorId(added)],
+        selectedBehaviorId: null,
         hasUnsavedChanges: true,
       },
     }));
   },
 
-  updateEmitter: (index: number, updates: Partial<EmitterConfig>) => {
+  updateEmitter: (id: string, updates: Partial<EmitterConfig>) => {
     set((state) => {
+      const index = findEmitterIndex(state.config.emitters, id);
+      if (index < 0) return state;
       const emitters = [...state.config.emitters];
-      if (index < 0 || index >= emitters.length) return state;
-      emitters[index] = { ...emitters[index], ...updates };
+      // Replaced behavior lists may bring behaviors without ids.
+      emitters[index] = withEmitterIds({ ...emitters[index], ...updates, [EDITOR_ID_KEY]: id });
       return {
         config: { ...state.config, emitters },
         ui: { ...state.ui, hasUnsavedChanges: true },
@@ -326,115 +647,160 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     });
   },
 
-  removeEmitter: (index: number) => {
-    set((state) => {
-      const emitters = state.config.emitters.filter((_emitter, i) => i !== index);
-      const selectedIndex = state.ui.selectedEmitterIndex;
-      const newSelectedIndex =
-        selectedIndex === index
-          ? emitters.length > 0
-            ? Math.min(index, emitters.length - 1)
-            : null
-          : selectedIndex !== null && selectedIndex > index
-          ? selectedIndex - 1
-          : selectedIndex;
-
-      // Adjust hidden indices after removal
-      const newHiddenIndices = new Set<number>();
-      state.ui.hiddenEmitterIndices.forEach((oldIndex) => {
-        if (oldIndex === index) return; // Removed — drop it
-        if (oldIndex > index) {
-          newHiddenIndices.add(oldIndex - 1);
-        } else {
-          newHiddenIndices.add(oldIndex);
-        }
+  setEmittersField: (ids: string[], field: string, value: unknown) => {
+    set((state) => {
+      const targets = new Set(ids);
+      const emitters = state.config.emitters.map((emitter) =>
+        targets.has(getEditorId(emitter)) ? withEmitterIds(setEmitterField(emitter, field, value)) : emitter,
+      );
+      return {
+        config: { ...state.config, emitters },
+        ui: { ...state.ui, hasUnsavedChanges: true },
+      };
+    });
+  },
+
+  removeEmitters: (ids: string[]) => {
+    set((state) => {
+      const removed = new Set(ids);
+      const index = state.config.emitters.findIndex((e) => removed.has(getEditorId(e)));
+      if (index < 0) return state;
+      const emitters = state.config.emitters.filter((e) => !removed.has(getEditorId(e)));
+      const groups = normalizeGroups(emitters, state.config.groups);
+
+      // What's left of the selection stays selected; removing all of it
+      // selects the neighbour of the first removed layer.
+      const remaining = state.ui.selectedEmitterIds.filter((id) => !removed.has(id));
+      const neighbour = emitters[Math.min(index, emitters.length - 1)];
+      const selection = remaining.length > 0 ? remaining : neighbour ? [getEditorId(neighbour)] : [];
+
+      const hiddenEmitterIds = new Set(state.ui.hiddenEmitterIds);
+      const lockedEmitterIds = new Set(state.ui.lockedEmitterIds);
+      ids.forEach((id) => {
+        hiddenEmitterIds.delete(id);
+        lockedEmitterIds.delete(id);
       });
 
       return {
-        config: { ...state.config, emitters },
+        config: { ...state.config, emitters, groups },
         ui: {
-          ...state.ui,
-          selectedEmitterIndex: newSelectedIndex,
-          hiddenEmitterIndices: newHiddenIndices,
+          ...withSelectedEmitters(state.ui, emitters, selection),
+          hiddenEmitterIds,
+          lockedEmitterIds,
           hasUnsavedChanges: true,
         },
       };
     });
   },
 
-  duplicateEmitter: (index: number) => {
+  duplicateEmitters: (ids: string[]) => {
     set((state) => {
-      const emitter = state.config.emitters[index];
-      if (!emitter) return state;
+      const originals = new Set(ids);
+      const duplicates: string[] = [];
+      // Copies join their original's group, so groups stay contiguous.
+      const copiesOf = new Map<string, string>();
+      const emitters = state.config.emitters.flatMap((emitter) => {
+        if (!originals.has(getEditorId(emitter))) return [emitter];
+        const duplicate = withEmitterIds(structuredClone(emitter), true);
+        duplicates.push(getEditorId(duplicate));
+        copiesOf.set(getEditorId(emitter), getEditorId(duplicate));
+        return [emitter, duplicate];
+      });
+      if (duplicates.length === 0) return state;
+      const groups = state.config.groups?.map((group) => ({
+        ...group,
+        emitterIds: group.emitterIds.flatMap((id) => (copiesOf.has(id) ? [id, copiesOf.get(id)!] : [id])),
+      }));
+
+      return {
+        config: { ...state.config, emitters, groups },
+        ui: {
+          ...withSelectedEmitters(state.ui, emitters, duplicates, null),
+          hasUnsavedChanges: true,
+        },
+      };
+    });
+  },
 
-      const duplicate = structuredClone(emitter);
+  pasteEmitters: (pasted: EmitterConfig[]) => {
+    if (pasted.length === 0) return;
+    set((state) => {
+      const defaults = createDefaultUIState();
+      const inserted = recentreEmittersOnResize(
+        pasted,
+        defaults.canvasWidth,
+        defaults.canvasHeight,
+        state.ui.canvasWidth,
+        state.ui.canvasHeight,
+      ).map((emitter) => withEmitterIds(emitter, true));
+      // After the selected layer, or after the whole group it belongs to.
+      const { selectedEmitterId } = state.ui;
+      const group = selectedEmitterId !== null ? getGroupOf(state.config.groups, selectedEmitterId) : null;
+      const anchor = group ? group.emitterIds[group.emitterIds.length - 1] : selectedEmitterId;
+      const selected = findEmitterIndex(state.config.emitters, anchor);
+      const at = selected >= 0 ? selected + 1 : state.config.emitters.length;
       const emitters = [...state.config.emitters];
-      emitters.splice(index + 1, 0, duplicate);
+      emitters.splice(at, 0, ...inserted);
 
       return {
         config: { ...state.config, emitters },
         ui: {
-          ...state.ui,
-          selectedEmitterIndex: index + 1,
+          ...withSelectedEmitters(state.ui, emitters, inserted.map(getEditorId), null),
           hasUnsavedChanges: true,
         },
       };
     });
   },
 
-  reorderEmitters: (startIndex: number, endIndex: number) => {
+  reorderEmitters: (ids: string[], toIndex: number) => {
     set((state) => {
-      const emitters = [...state.config.emitters];
-      const [removed] = emitters.splice(startIndex, 1);
-      emitters.splice(endIndex, 0, removed);
-
-      // Update hidden indices to match new positions
-      const newHiddenIndices = new Set<number>();
-      state.ui.hiddenEmitterIndices.forEach((oldIndex) => {
-        if (oldIndex === startIndex) {
-          newHiddenIndices.add(endIndex);
-        } else if (startIndex < endIndex && oldIndex > startIndex && oldIndex <= endIndex) {
-          newHiddenIndices.add(oldIndex - 1);
-        } else if (startIndex > endIndex && oldIndex >= endIndex && oldIndex < startIndex) {
-          newHiddenIndices.add(oldIndex + 1);
-        } else {
-          newHiddenIndices.add(oldIndex);
-        }
-      });
+      if (!ids.some((id) => findEmitterIndex(state.config.emitters, id) >= 0)) return state;
+      const emitters = moveEmitters(state.config.emitters, ids, toIndex);
+      const groups = normalizeGroups(emitters, state.config.groups);
 
       return {
-        config: { ...state.config, emitters },
+        config: { ...state.config, emitters, groups },
         ui: {
-          ...state.ui,
-          selectedEmitterIndex: endIndex,
-          hiddenEmitterIndices: newHiddenIndices,
+          ...withSelectedEmitters(state.ui, emitters, ids),
           hasUnsavedChanges: true,
         },
       };
     });
   },
 
-  toggleEmitterVisibility: (index: number) => {
+  setEmittersHidden: (ids: string[], hidden: boolean) => {
     set((state) => {
-      const newHiddenIndices = new Set(state.ui.hiddenEmitterIndices);
-      if (newHiddenIndices.has(index)) {
-        newHiddenIndices.delete(index);
-      } else {
-        newHiddenIndices.add(index);
-      }
+      const hiddenEmitterIds = new Set(state.ui.hiddenEmitterIds);
+      ids.forEach((id) => (hidden ? hiddenEmitterIds.add(id) : hiddenEmitterIds.delete(id)));
       return {
-        ui: { ...state.ui, hiddenEmitterIndices: newHiddenIndices },
+        ui: { ...state.ui, hiddenEmitterIds },
       };
     });
   },
 
-  renameEmitter: (index: number, name: string) => {
+  setEmittersLocked: (ids: string[], locked: boolean) => {
     set((state) => {
-      const emitters = [...state.config.emitters];
-      const emitter = emitters[index];
-      if (!emitter) return state;
+      const lockedEmitterIds = new Set(state.ui.lockedEmitterIds);
+      ids.forEach((id) => (locked ? lockedEmitterIds.add(id) : lockedEmitterIds.delete(id)));
+      return {
+        ui: { ...state.ui, lockedEmitterIds },
+      };
+    });
+  },
+
+  setSoloMode: (soloMode: boolean) => {
+    set((state) => ({
+      ui: { ...state.ui, soloMode },
+    }));
+  },
 
-      emitters[index] = { ...emitter, name };
+  renameEmitter: (id: string, name: string) => {
+    set((state) => {
+      const index = findEmitterIndex(state.config.emitters, id);
+      if (index < 0) return state;
+
+      const emitters = [...state.config.emitters];
+      emitters[index] = { ...emitters[index], name };
       return {
         config: { ...state.config, emitters },
         ui: { ...state.ui, hasUnsavedChanges: true },
@@ -442,19 +808,130 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     });
   },
 
-  // Behavior actions
-  addBehavior: (emitterIndex: number, behavior: BehaviorConfig) => {
+  // Layer group actions
+  groupEmitters: (ids: string[]) => {
     set((state) => {
+      const members = sortByLayerOrder(state.config.emitters, ids);
+      if (members.length === 0) return state;
+
+      // Take the layers out of their current groups, then move them as one
+      // block to where the first of them sits so no other group is split.
+      const taken = new Set(members);
+      const remaining = normalizeGroups(
+        state.config.emitters,
+        state.config.groups?.map((g) => ({ ...g, emitterIds: g.emitterIds.filter((id) => !taken.has(id)) })),
+      );
+      const units = getLayerUnits(state.config.emitters, remaining);
+      const emitters = moveEmitters(state.config.emitters, members, getGroupInsertIndex(units, members));
+      const group = createGroup(
+        generateId(),
+        getNextGroupName(remaining),
+        members.map((id) => findEmitter(emitters, id)!),
+      );
+      const groups = normalizeGroups(emitters, [...remaining, group]);
+
+      return {
+        config: { ...state.config, emitters, groups },
+        ui: {
+          ...withSelectedEmitters(state.ui, emitters, members),
+          hasUnsavedChanges: true,
+        },
+      };
+    });
+  },
+
+  ungroup: (groupId: string) => {
+    set((state) => {
+      const group = state.config.groups?.find((g) => g.id === groupId);
+      if (!group) return state;
+      const emitters = state.config.emitters.map((emitter) =>
+        group.emitterIds.includes(getEditorId(emitter)) ? transformEmitter(emitter, group.transform) : emitter,
+      );
+      return {
+        config: {
+          ...state.config,
+          emitters,
+          groups: state.config.groups!.filter((g) => g.id !== groupId),
+        },
+        ui: { ...state.ui, hasUnsavedChanges: true },
+      };
+    });
+  },
+
+  renameGroup: (groupId: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    set((state) => ({
+      config: {
+        ...state.config,
+        groups: state.config.groups?.map((g) => (g.id === groupId ? { ...g, name: trimmed } : g)),
+      },
+      ui: { ...state.ui, hasUnsavedChanges: true },
+    }));
+  },
+
+  setGroupCollapsed: (groupId: string, collapsed: boolean) => {
+    set((state) => ({
+      config: {
+        ...state.config,
+        groups: state.config.groups?.map((g) => (g.id === groupId ? { ...g, collapsed } : g)),
+      },
+    }));
+  },
+
+  setGroupTransform: (groupId: string, transform: Partial<GroupTransform>) => {
+    set((state) => ({
+      config: {
+        ...state.config,
+        groups: state.config.groups?.map((g) =>
+          g.id === groupId ? { ...g, transform: { ...g.transform, ...transform } } : g,
+        ),
+      },
+      ui: { ...state.ui, hasUnsavedChanges: true },
+    }));
+  },
+
+  duplicateGroup: (groupId: string) => {
+    set((state) => {
+      const group = state.config.groups?.find((g) => g.id === groupId);
+      if (!group) return state;
+      const copies = group.emitterIds
+        .map((id) => findEmitter(state.config.emitters, id))
+        .filter((emitter): emitter is EmitterConfig => emitter !== null)
+        .map((emitter) => withEmitterIds(structuredClone(emitter), true));
+      const at = findEmitterIndex(state.config.emitters, group.emitterIds[group.emitterIds.length - 1]) + 1;
       const emitters = [...state.config.emitters];
-      const currentEmitter = emitters[emitterIndex];
-      if (!currentEmitter) return state;
+      emitters.splice(at, 0, ...copies);
+      const copy = {
+        ...structuredClone(group),
+        id: generateId(),
+        name: `${group.name} copy`,
+        emitterIds: copies.map(getEditorId),
+      };
 
-      const emitter = { ...currentEmitter };
+      return {
+        config: { ...state.config, emitters, groups: [...state.config.groups!, copy] },
+        ui: {
+          ...withSelectedEmitters(state.ui, emitters, copy.emitterIds, null),
+          hasUnsavedChanges: true,
+        },
+      };
+    });
+  },
+
+  // Behavior actions
+  addBehavior: (emitterId: string, behavior: BehaviorConfig) => {
+    set((state) => {
+      const index = findEmitterIndex(state.config.emitters, emitterId);
+      if (index < 0) return state;
+
+      const emitters = [...state.config.emitters];
+      const emitter = { ...emitters[index] };
       emitter.particle = {
         ...emitter.particle,
-        behaviors: [...(emitter.particle.behaviors || []), behavior],
+        behaviors: [...(emitter.particle.behaviors || []), withBehaviorId(behavior, true)],
       };
-      emitters[emitterIndex] = emitter;
+      emitters[index] = emitter;
 
       return {
         config: { ...state.config, emitters },
@@ -463,17 +940,19 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     });
   },
 
-  updateBehavior: (emitterIndex: number, behaviorIndex: number, behavior: BehaviorConfig) => {
+  updateBehavior: (emitterId: string, behaviorId: string, behavior: BehaviorConfig) => {
     set((state) => {
-      const emitters = [...state.config.emitters];
-      const currentEmitter = emitters[emitterIndex];
-      if (!currentEmitter) return state;
+      const index = findEmitterIndex(state.config.emitters, emitterId);
+      if (index < 0) return state;
+      const behaviorIndex = findBehaviorIndex(state.config.emitters[index], behaviorId);
+      if (behaviorIndex < 0) return state;
 
-      const emitter = { ...currentEmitter };
+      const emitters = [...state.config.emitters];
+      const emitter = { ...emitters[index] };
       const behaviors = [...(emitter.particle.behaviors || [])];
-      behaviors[behaviorIndex] = behavior;
+      behaviors[behaviorIndex] = { ...behavior, [EDITOR_ID_KEY]: behaviorId };
       emitter.particle = { ...emitter.particle, behaviors };
-      emitters[emitterIndex] = emitter;
+      emitters[index] = emitter;
 
       return {
         config: { ...state.config, emitters },
@@ -482,24 +961,25 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     });
   },
 
-  removeBehavior: (emitterIndex: number, behaviorIndex: number) => {
+  removeBehavior: (emitterId: string, behaviorId: string) => {
     set((state) => {
-      const emitters = [...state.config.emitters];
-      const currentEmitter = emitters[emitterIndex];
-      if (!currentEmitter) return state;
+      const index = findEmitterIndex(state.config.emitters, emitterId);
+      if (index < 0) return state;
 
-      const emitter = { ...currentEmitter };
+      const emitters = [...state.config.emitters];
+      const emitter = { ...emitters[index] };
       const behaviors = (emitter.particle.behaviors || []).filter(
-        (_: BehaviorConfig, i: number) => i !== behaviorIndex
+        (b: BehaviorConfig) => getEditorId(b) !== behaviorId
       );
       emitter.particle = { ...emitter.particle, behaviors };
-      emitters[emitterIndex] = emitter;
+      emitters[index] = emitter;
 
       return {
         config: { ...state.config, emitters },
         ui: {
           ...state.ui,
-          selectedBehaviorIndex: null,
+          selectedBehaviorId:
+            state.ui.selectedBehaviorId === behaviorId ? null : state.ui.selectedBehaviorId,
           hasUnsavedChanges: true,
         },
       };
@@ -509,7 +989,8 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   // Asset actions
   addTexture: async (texture: TextureAsset) => {
     try {
-      await assetDB.saveTexture(texture);
+      // Memory-only when IndexedDB couldn't be opened at startup.
+      if (get().assetStorage.status !== 'error') await assetDB.saveTexture(texture);
       set((state) => {
         const textures = new Map(state.assets.textures);
         textures.set(texture.id, texture);
@@ -518,6 +999,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
           ui: { ...state.ui, hasUnsavedChanges: true },
         };
       });
+      void get().refreshStorageEstimate();
     } catch (err) {
       const msg = err instanceof Error ? err.message : 'Unknown error';
       throw new Error(`Failed to save texture: ${msg}`);
@@ -526,7 +1008,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
   removeTexture: async (id: string) => {
     try {
-      await assetDB.deleteTexture(id);
+      if (get().assetStorage.status !== 'error') await assetDB.deleteTexture(id);
       set((state) => {
         const textures = new Map(state.assets.textures);
         textures.delete(id);
@@ -535,6 +1017,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
           ui: { ...state.ui, hasUnsavedChanges: true },
         };
       });
+      void get().refreshStorageEstimate();
     } catch (err) {
       const msg = err instanceof Error ? err.message : 'Unknown error';
       throw new Error(`Failed to delete texture: ${msg}`);
@@ -543,7 +1026,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
   addSequence: async (sequence: SequenceAsset) => {
     try {
-      await assetDB.saveSequence(sequence);
+      if (get().assetStorage.status !== 'error') await assetDB.saveSequence(sequence);
       set((state) => {
         const sequences = new Map(state.assets.sequences);
         sequences.set(sequence.id, sequence);
@@ -552,6 +1035,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
           ui: { ...state.ui, hasUnsavedChanges: true },
         };
       });
+      void get().refreshStorageEstimate();
     } catch (err) {
       const msg = err instanceof Error ? err.message : 'Unknown error';
       throw new Error(`Failed to save sequence: ${msg}`);
@@ -560,7 +1044,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
   removeSequence: async (id: string) => {
     try {
-      await assetDB.deleteSequence(id);
+      if (get().assetStorage.status !== 'error') await assetDB.deleteSequence(id);
       set((state) => {
         const sequences = new Map(state.assets.sequences);
         sequences.delete(id);
@@ -569,26 +1053,92 @@ export const useEditorStore = create<EditorState>((set, get) => ({
           ui: { ...state.ui, hasUnsavedChanges: true },
         };
       });
+      void get().refreshStorageEstimate();
     } catch (err) {
       const msg = err instanceof Error ? err.message : 'Unknown error';
       throw new Error(`Failed to delete sequence: ${msg}`);
     }
   },
 
+  hydrateAssets: async () => {
+    // Runs once per page load; StrictMode double-mounts must not re-enter.
+    if (get().assetStorage.status !== 'idle') return;
+    set((state) => ({ assetStorage: { ...state.assetStorage, status: 'loading' } }));
+
+    try {
+      const records = await assetDB.loadAll();
+      const { assets, invalidTextureIds, invalidSequenceIds, skipped } = parseAssetRecords(
+        records.textures,
+        records.sequences,
+      );
+
+      // Purge unreadable records so they don't fail again on every boot.
+      if (skipped > 0) {
+        await Promise.all([
+          assetDB.deleteRecords('textures', invalidTextureIds),
+          assetDB.deleteRecords('sequences', invalidSequenceIds),
+        ]).catch((err: unknown) => console.warn('Failed to purge invalid asset records:', err));
+      }
+
+      // Merge so anything uploaded while loading is kept.
+      set((state) => ({
+        assets: {
+          textures: new Map([...assets.textures, ...state.assets.textures]),
+          sequences: new Map([...assets.sequences, ...state.assets.sequences]),
+        },
+        assetStorage: { ...state.assetStorage, status: 'ready', error: null, skippedRecords: skipped },
+      }));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error';
+      set((state) => ({
+        assetStorage: { ...state.assetStorage, status: 'error', error: msg },
+      }));
+    }
+
+    await get().refreshStorageEstimate();
+  },
+
+  refreshStorageEstimate: async () => {
+    const estimate = await estimateStorage();
+    set((state) => ({ assetStorage: { ...state.assetStorage, ...estimate } }));
+  },
+
   // Selection actions
-  selectEmitter: (index: number | null) => {
+  selectEmitter: (id: string | null) => {
     set((state) => ({
       ui: {
         ...state.ui,
-        selectedEmitterIndex: index,
-        selectedBehaviorIndex: null,
+        selectedEmitterId: id,
+        selectedEmitterIds: id !== null ? [id] : [],
+        selectedBehaviorId: null,
       },
     }));
   },
 
-  selectBehavior: (index: number | null) => {
+  toggleEmitterSelection: (id: string) => {
+    set((state) => {
+      const { emitters } = state.config;
+      const ids = toggleInSelection(emitters, state.ui.selectedEmitterIds, id);
+      // A newly added layer becomes the primary one.
+      return { ui: withSelectedEmitters(state.ui, emitters, ids, ids.includes(id) ? id : undefined) };
+    });
+  },
+
+  selectEmitterRange: (id: string) => {
+    set((state) => {
+      const { emitters } = state.config;
+      const ids = getRangeSelection(emitters, state.ui.selectedEmitterId, id);
+      return { ui: withSelectedEmitters(state.ui, emitters, ids) };
+    });
+  },
+
+  setEmitterSelection: (ids: string[]) => {
+    set((state) => ({ ui: withSelectedEmitters(state.ui, state.config.emitters, ids) }));
+  },
+
+  selectBehavior: (id: string | null) => {
     set((state) => ({
-      ui: { ...state.ui, selectedBehaviorIndex: index },
+      ui: { ...state.ui, selectedBehaviorId: id },
     }));
   },
 
@@ -618,17 +1168,67 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   },
 
   setGridSize: (gridSize: number) => {
+    const normalizedGridSize = Number.isFinite(gridSize)
+      ? Math.min(MAX_GRID_SIZE, Math.max(MIN_GRID_SIZE, Math.round(gridSize)))
+      : 50;
+
     set((state) => ({
-      ui: { ...state.ui, gridSize },
+      ui: { ...state.ui, gridSize: normalizedGridSize },
     }));
   },
 
   setZoom: (zoom: number) => {
+    // Typed zoom values keep the canvas centre fixed.
+    set((state) => {
+      const { canvasWidth, canvasHeight } = state.ui;
+      const camera = zoomAtPoint(
+        { zoom: state.ui.zoom, pan: state.ui.pan },
+        zoom,
+        { x: canvasWidth / 2, y: canvasHeight / 2 },
+      );
+      return {
+        ui: { ...state.ui, zoom: camera.zoom, pan: camera.pan },
+      };
+    });
+  },
+
+  setPan: (x: number, y: number) => {
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return;
     set((state) => ({
-      ui: { ...state.ui, zoom },
+      ui: { ...state.ui, pan: { x, y } },
     }));
   },
 
+  zoomAt: (zoom: number, screenX: number, screenY: number) => {
+    set((state) => {
+      const camera = zoomAtPoint(
+        { zoom: state.ui.zoom, pan: state.ui.pan },
+        zoom,
+        { x: screenX, y: screenY },
+      );
+      return {
+        ui: { ...state.ui, zoom: camera.zoom, pan: camera.pan },
+      };
+    });
+  },
+
+  resetView: () => {
+    set((state) => ({
+      ui: { ...state.ui, zoom: 1, pan: { x: 0, y: 0 } },
+    }));
+  },
+
+  fitViewToEmitters: () => {
+    set((state) => {
+      const bounds = getEmitterBounds(bakeGroupTransforms(state.config).emitters);
+      if (!bounds) return state;
+      const camera = fitCameraToBounds(bounds, state.ui.canvasWidth, state.ui.canvasHeight);
+      return {
+        ui: { ...state.ui, zoom: camera.zoom, pan: camera.pan },
+      };
+    });
+  },
+
   setCanvasDimensions: (canvasWidth: number, canvasHeight: number) => {
     set((state) => {
       const oldW = state.ui.canvasWidth;
@@ -640,9 +1240,10 @@ export const useEditorStore = create<EditorState>((set, get) => ({
         canvasWidth,
         canvasHeight,
       );
+      const groups = recentreGroupsOnResize(state.config.groups, oldW, oldH, canvasWidth, canvasHeight);
       return {
         config: emitters !== state.config.emitters
-          ? { ...state.config, emitters }
+          ? { ...state.config, emitters, groups }
           : state.config,
         ui: { ...state.ui, canvasWidth, canvasHeight },
       };
@@ -659,6 +1260,34 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     }));
   },
 
+  setTimelineDuration: (duration: number) => {
+    set((state) => {
+      const clamped = clampTimelineDuration(duration);
+      const { loopIn, loopOut, duration: previous } = state.ui.timeline;
+      // An out marker sitting at the end keeps following it.
+      const out = loopOut >= previous ? clamped : Math.min(loopOut, clamped);
+      const range = normalizeLoopRange(loopIn, out, clamped);
+      return {
+        ui: { ...state.ui, timeline: { ...state.ui.timeline, duration: clamped, ...range } },
+      };
+    });
+  },
+
+  setLoopEnabled: (loopEnabled: boolean) => {
+    set((state) => ({
+      ui: { ...state.ui, timeline: { ...state.ui.timeline, loopEnabled } },
+    }));
+  },
+
+  setLoopRange: (loopIn: number, loopOut: number, moved?: 'in' | 'out') => {
+    set((state) => {
+      const range = normalizeLoopRange(loopIn, loopOut, state.ui.timeline.duration, moved);
+      return {
+        ui: { ...state.ui, timeline: { ...state.ui.timeline, ...range } },
+      };
+    });
+  },
+
   // Layout actions
   setLeftPaneWidth: (width: number) => {
     set((state) => {
@@ -698,6 +1327,39 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     });
   },
 
+  toggleProblemsPanel: () => {
+    set((state) => {
+      const layout = {
+        ...state.layout,
+        problemsPanelOpen: !state.layout.problemsPanelOpen,
+      };
+      persistLayout(layout);
+      return { layout };
+    });
+  },
+
+  toggleProfilerPanel: () => {
+    set((state) => {
+      const layout = {
+        ...state.layout,
+        profilerPanelOpen: !state.layout.profilerPanelOpen,
+      };
+      persistLayout(layout);
+      return { layout };
+    });
+  },
+
+  toggleHistoryPanel: () => {
+    set((state) => {
+      const layout = {
+        ...state.layout,
+        historyPanelOpen: !state.layout.historyPanelOpen,
+      };
+      persistLayout(layout);
+      return { layout };
+    });
+  },
+
   // Inspector
   setInspectorSearch: (inspectorSearch: string) => {
     set((state) => ({
@@ -705,6 +1367,38 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     }));
   },
 
+  revealValidationPath: (path: string) => {
+    const { emitterIndex, behaviorIndex } = parseValidationPath(path);
+    set((state) => {
+      const emitter = emitterIndex !== null ? state.config.emitters[emitterIndex] : undefined;
+      const behavior =
+        behaviorIndex !== null ? emitter?.particle?.behaviors?.[behaviorIndex] : undefined;
+
+      let layout = state.layout;
+      if (layout.rightPaneCollapsed) {
+        layout = { ...layout, rightPaneCollapsed: false };
+        persistLayout(layout);
+      }
+
+      return {
+        layout,
+        ui: {
+          ...state.ui,
+          selectedEmitterId: emitter ? getEditorId(emitter) : state.ui.selectedEmitterId,
+          selectedEmitterIds: emitter ? [getEditorId(emitter)] : state.ui.selectedEmitterIds,
+          selectedBehaviorId: emitter
+            ? behavior
+              ? getEditorId(behavior)
+              : null
+            : state.ui.selectedBehaviorId,
+          // A filtered inspector could hide the field being revealed.
+          inspectorSearch: '',
+          fieldFocusRequest: { path, id: (state.ui.fieldFocusRequest?.id ?? 0) + 1 },
+        },
+      };
+    });
+  },
+
   // Persistence
   markUnsaved: () => {
     set((state) => ({
@@ -718,37 +1412,85 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     }));
   },
 
-  // Import/Export
-  loadConfig: (config: EditorConfig, assets: AssetState) => {
-    const { canvasWidth, canvasHeight } = get().ui;
-    const defaults = createDefaultUIState();
-
-    // Recentre emitters from the 800×600 authoring canvas to the actual
-    // canvas size so loaded examples / imports appear centred immediately.
-    const emitters = recentreEmittersOnResize(
-      config.emitters,
-      defaults.canvasWidth,
-      defaults.canvasHeight,
-      canvasWidth,
-      canvasHeight,
-    );
+  // Session recovery
+  setSessionDialog: (mode: SessionDialogMode | null) => {
+    set((state) => ({ ui: { ...state.ui, sessionDialog: mode } }));
+  },
 
-    set({
-      config: { ...config, emitters },
-      assets,
-      ui: {
-        ...defaults,
+  restoreSession: (snapshot: SessionSnapshot) => {
+    const { canvasWidth, canvasHeight } = get().ui;
+    const recentre = (config: EditorConfig): EditorConfig => ({
+      ...config,
+      emitters: recentreEmittersOnResize(
+        config.emitters,
+        snapshot.canvas.width,
+        snapshot.canvas.height,
         canvasWidth,
         canvasHeight,
-        selectedEmitterIndex: config.emitters.length > 0 ? 0 : null,
-      },
+      ),
+      groups: recentreGroupsOnResize(
+        config.groups,
+        snapshot.canvas.width,
+        snapshot.canvas.height,
+        canvasWidth,
+        canvasHeight,
+      ),
     });
+    // Every saved tab is reopened; the one that was active ends up active.
+    for (const saved of getRestorableDocuments(snapshot)) {
+      // Snapshots from before editor ids get fresh ones; their index-based
+      // selection isn't carried over.
+      const config = withConfigIds(recentre(saved.config));
+      set(
+        openInTab(get(), {
+          ...createDocument(generateId(), saved.name, config),
+          history: saved.history.map((entry) => {
+            const entryConfig = withConfigIds(recentre(entry.config));
+            return { ...entry, config: entryConfig, selection: restoreSelection(entry.selection, entryConfig) };
+          }),
+          historyIndex: Math.min(saved.historyIndex, saved.history.length - 1),
+          selection: restoreSelection(saved.selection, config),
+          hiddenEmitterIds: new Set(saved.hiddenEmitterIds),
+          lockedEmitterIds: new Set(saved.lockedEmitterIds),
+          // Recovered work has not been exported yet.
+          hasUnsavedChanges: true,
+        }),
+      );
+    }
+  },
+
+  // Import/Export
+  loadBundle: async (config: EditorConfig, bundleAssets: AssetState, name: string) => {
+    // Persist bundled assets the library doesn't have yet, then open the
+    // config against the merged library so existing uploads stay available.
+    const { assets, addTexture, addSequence } = get();
+    for (const texture of bundleAssets.textures.values()) {
+      if (!assets.textures.has(texture.id)) await addTexture(texture);
+    }
+    for (const sequence of bundleAssets.sequences.values()) {
+      if (!assets.sequences.has(sequence.id)) await addSequence(sequence);
+    }
+    get().openDocument(config, name);
   },
 
   getExportData: () => {
     const state = get();
+    const defaults = createDefaultUIState();
+
+    // Undo openDocument's recentring so exported coordinates are in the
+    // 800×600 authoring space regardless of the current canvas size —
+    // re-importing the file then lands emitters exactly where they were.
+    // Groups don't exist outside the editor; their transforms are baked in.
+    const emitters = recentreEmittersOnResize(
+      bakeGroupTransforms(state.config).emitters,
+      state.ui.canvasWidth,
+      state.ui.canvasHeight,
+      defaults.canvasWidth,
+      defaults.canvasHeight,
+    );
+
     return {
-      config: state.config,
+      config: { ...state.config, emitters, groups: undefined },
       assets: state.assets,
     };
   },
@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import type { CaptureJob } from '@/utils/capture';
+
+/**
+ * Capture requests and progress. The record / bake dialogs ask, PreviewCanvas
+ * renders (it owns the renderer and the particle system) and reports back.
+ */
+interface PreviewCaptureState {
+  /** `id` changes on every request so the same job can be run twice. */
+  request: { job: CaptureJob; id: number } | null;
+  /** Frames written so far; null when no capture is running. */
+  progress: { frame: number; total: number } | null;
+  cancelRequested: boolean;
+
+  requestCapture: (job: CaptureJob) => void;
+  setCaptureProgress: (frame: number) => void;
+  cancelCapture: () => void;
+  finishCapture: () => void;
+}
+
+export const usePreviewCapture = create<PreviewCaptureState>((set) => ({
+  request: null,
+  progress: null,
+  cancelRequested: false,
+
+  requestCapture: (job: CaptureJob) => {
+    set((state) => ({
+      request: { job, id: (state.request?.id ?? 0) + 1 },
+      progress: { frame: 0, total: job.frameCount },
+      cancelRequested: false,
+    }));
+  },
+
+  setCaptureProgress: (frame: number) => {
+    set((state) => (state.progress ? { progress: { ...state.progress, frame } } : {}));
+  },
+
+  cancelCapture: () => {
+    set({ cancelRequested: true });
+  },
+
+  finishCapture: () => {
+    set({ progress: null, cancelRequested: false });
+  },
+}));
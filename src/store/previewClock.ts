@@ -0,0 +1,49 @@
+import { create } from 'zustand';
+import { useEditorStore } from './editorStore';
+import { clampToTimeline } from '@/utils/timeline';
+
+/**
+ * Simulation clock for the preview.
+ *
+ * Kept out of the editor store on purpose: `time` changes every frame while
+ * playing, and most components subscribe to the whole editor store. Only the
+ * timeline reads from here.
+ */
+interface PreviewClockState {
+  /** Simulated seconds since the particle system (re)started. */
+  time: number;
+  /**
+   * Latest seek asked for by the timeline; PreviewCanvas performs it. `id`
+   * changes on every request so seeking to the same time twice still runs.
+   */
+  seekRequest: { time: number; id: number } | null;
+
+  setTime: (time: number) => void;
+  requestSeek: (time: number) => void;
+}
+
+export const usePreviewClock = create<PreviewClockState>((set) => ({
+  time: 0,
+  seekRequest: null,
+
+  setTime: (time: number) => {
+    set({ time });
+  },
+
+  requestSeek: (time: number) => {
+    set((state) => ({
+      seekRequest: { time, id: (state.seekRequest?.id ?? 0) + 1 },
+    }));
+  },
+}));
+
+/**
+ * Step the preview by `seconds` (negative steps back) and hold it paused on
+ * the resulting frame. Shared by the timeline buttons and keyboard shortcuts.
+ */
+export function stepPreview(seconds: number): void {
+  const { ui, setPreviewState } = useEditorStore.getState();
+  const { time, requestSeek } = usePreviewClock.getState();
+  if (ui.previewState === 'playing') setPreviewState('paused');
+  requestSeek(clampToTimeline(time + seconds, ui.timeline.duration));
+}
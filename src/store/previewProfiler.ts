@@ -0,0 +1,27 @@
+import { create } from 'zustand';
+import { PROFILER_HISTORY_LENGTH } from '@/utils/profiler';
+import type { ProfilerSample } from '@/utils/profiler';
+
+/**
+ * Rolling profiler samples. PreviewCanvas collects them while the profiler
+ * panel is open; the panel draws the latest values and sparklines.
+ */
+interface PreviewProfilerState {
+  /** Oldest first, at most PROFILER_HISTORY_LENGTH entries. */
+  samples: ProfilerSample[];
+
+  pushSample: (sample: ProfilerSample) => void;
+  clearSamples: () => void;
+}
+
+export const usePreviewProfiler = create<PreviewProfilerState>((set) => ({
+  samples: [],
+
+  pushSample: (sample: ProfilerSample) => {
+    set((state) => ({ samples: [...state.samples, sample].slice(-PROFILER_HISTORY_LENGTH) }));
+  },
+
+  clearSamples: () => {
+    set({ samples: [] });
+  },
+}));
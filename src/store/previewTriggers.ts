@@ -0,0 +1,36 @@
+import { create } from 'zustand';
+import { useEditorStore } from './editorStore';
+import { getTriggerKind } from '@/utils/triggers';
+import { findEmitter } from '@/utils/editorIds';
+import type { TriggerAction } from '@/utils/triggers';
+
+/**
+ * Manual trigger requests for the preview. Layer buttons, canvas clicks and
+ * number keys ask; PreviewCanvas fires the live emitter.
+ */
+interface PreviewTriggerState {
+  /** `id` changes on every request so firing the same layer twice still runs. */
+  request: { action: TriggerAction; id: number } | null;
+
+  requestTrigger: (action: TriggerAction) => void;
+}
+
+export const usePreviewTriggers = create<PreviewTriggerState>((set) => ({
+  request: null,
+
+  requestTrigger: (action: TriggerAction) => {
+    set((state) => ({ request: { action, id: (state.request?.id ?? 0) + 1 } }));
+  },
+}));
+
+/**
+ * Fire a triggered layer or re-fire a burst layer. Returns false when the
+ * layer is neither, so callers can ignore the input.
+ */
+export function triggerLayer(emitterId: string, position?: { x: number; y: number }): boolean {
+  const emitter = findEmitter(useEditorStore.getState().config.emitters, emitterId);
+  const kind = getTriggerKind(emitter ?? undefined);
+  if (!kind) return false;
+  usePreviewTriggers.getState().requestTrigger({ kind, emitterId, position });
+  return true;
+}
@@ -0,0 +1,85 @@
+import type { SessionSnapshot } from './types';
+
+/**
+ * IndexedDB storage for autosaved session snapshots.
+ *
+ * Kept in its own database so snapshot schema changes never force an
+ * upgrade of the asset store.
+ */
+class SessionDB {
+  private dbName = 'swizzle-editor-sessions';
+  private version = 1;
+  private db: IDBDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+
+  private ensureDB(): Promise<void> {
+    if (this.db) return Promise.resolve();
+    if (!this.initPromise) {
+      this.initPromise = this.init().catch((err: unknown) => {
+        this.initPromise = null;
+        throw err;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async init(): Promise<void> {
+    if (typeof indexedDB === 'undefined') {
+      throw new Error('IndexedDB is not available in this browser');
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.version);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains('snapshots')) {
+          db.createObjectStore('snapshots', { keyPath: 'id' });
+        }
+      };
+    });
+  }
+
+  async getAll(): Promise<SessionSnapshot[]> {
+    await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['snapshots'], 'readonly');
+      const request = transaction.objectStore('snapshots').getAll();
+      request.onsuccess = () => resolve(request.result as SessionSnapshot[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Write `snapshot` and delete `pruneIds` in one transaction.
+   */
+  async save(snapshot: SessionSnapshot, pruneIds: string[] = []): Promise<void> {
+    await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['snapshots'], 'readwrite');
+      const store = transaction.objectStore('snapshots');
+      store.put(snapshot);
+      pruneIds.forEach((id) => store.delete(id));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['snapshots'], 'readwrite');
+      const request = transaction.objectStore('snapshots').delete(id);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export const sessionDB = new SessionDB();
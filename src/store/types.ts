@@ -26,10 +26,57 @@ export interface SequenceAsset {
  */
 export interface EditorConfig {
   system: {
-    maxParticles: number;
-    autoStart: boolean;
+    /** Absent when an imported file leaves them out; read via getMaxParticles / getAutoStart. */
+    maxParticles?: number;
+    autoStart?: boolean;
+    /** Seed for the preview's random generator; restarts replay identically. */
+    seed?: number;
+    /** Editor-side cap on the estimated peak particle count; warns when exceeded. */
+    particleBudget?: number;
+    /** System keys the editor doesn't edit, kept as imported. */
+    [key: string]: unknown;
   };
   emitters: EmitterConfig[];
+  /**
+   * Layer groups (editor-only, never written to YAML). Each group's
+   * members are adjacent in `emitters`; see utils/layerGroups.
+   */
+  groups?: LayerGroup[];
+  /** Top-level sections other than `system` / `emitters`, kept as imported. */
+  extraSections?: Record<string, unknown>;
+  /**
+   * YAML the config was imported from. Export patches edits into it so
+   * comments, key order and formatting survive a round-trip.
+   */
+  source?: string;
+  /**
+   * Editor id of each entry in the source's `emitters` list ('' for entries
+   * that aren't mappings), so export patches emitters into the entries they
+   * came from even after layers are deleted or reordered.
+   */
+  sourceEmitterIds?: string[];
+}
+
+/**
+ * Transform applied to every member of a layer group, about `pivot`:
+ * scale and rotate, then move by `offset`. Baked into members on export.
+ */
+export interface GroupTransform {
+  offset: { x: number; y: number };
+  /** Degrees, clockwise on screen. */
+  rotation: number;
+  scale: number;
+  /** Centre of rotation and scale, in canvas coordinates. */
+  pivot: { x: number; y: number };
+}
+
+export interface LayerGroup {
+  id: string;
+  name: string;
+  /** Member editor ids, in layer order. */
+  emitterIds: string[];
+  collapsed: boolean;
+  transform: GroupTransform;
 }
 
 /**
@@ -42,22 +89,31 @@ export interface LayoutState {
   rightPaneCollapsed: boolean;
   leftPaneLastWidth: number;
   rightPaneLastWidth: number;
+  problemsPanelOpen: boolean;
+  profilerPanelOpen: boolean;
+  historyPanelOpen: boolean;
+  /** Most undo entries kept per document (see utils/history). */
+  historyLimit: number;
 }
 
 /**
- * Selection state
+ * Selection state, by editor id (see utils/editorIds)
  */
 export interface SelectionState {
-  selectedEmitterIndex: number | null;
-  selectedBehaviorIndex: number | null;
+  /** Primary selected layer; always one of `selectedEmitterIds` (see utils/selection). */
+  selectedEmitterId: string | null;
+  /** Every selected layer, in layer order. */
+  selectedEmitterIds: string[];
+  selectedBehaviorId: string | null;
 }
 
 /**
  * UI state
  */
 export interface UIState {
-  selectedEmitterIndex: number | null;
-  selectedBehaviorIndex: number | null;
+  selectedEmitterId: string | null;
+  selectedEmitterIds: string[];
+  selectedBehaviorId: string | null;
   previewState: 'playing' | 'paused' | 'stopped';
   showDebugMetrics: boolean;
   timeScale: number;
@@ -66,10 +122,38 @@ export interface UIState {
   showGrid: boolean;
   gridSize: number;
   zoom: number;
-  hiddenEmitterIndices: Set<number>;
+  /** Screen-space offset of the preview camera (view-only, never exported). */
+  pan: { x: number; y: number };
+  hiddenEmitterIds: Set<string>;
+  /** Read-only layers: no inspector edits, gizmos, marquee selection or deleting. */
+  lockedEmitterIds: Set<string>;
+  /** Preview only the selected layers (hidden flags are ignored while soloing). */
+  soloMode: boolean;
   canvasWidth: number;
   canvasHeight: number;
+  sessionDialog: SessionDialogMode | null;
   inspectorSearch: string;
+  /**
+   * Latest request to reveal a property in the inspector. `id` changes on
+   * every request so clicking the same problem twice still refocuses.
+   */
+  fieldFocusRequest: FieldFocusRequest | null;
+  timeline: TimelineState;
+}
+
+export interface TimelineState {
+  /** Visible length of the timeline in seconds. */
+  duration: number;
+  /** Jump back to `loopIn` whenever playback reaches `loopOut`. */
+  loopEnabled: boolean;
+  loopIn: number;
+  loopOut: number;
+}
+
+export interface FieldFocusRequest {
+  /** Validation path, e.g. `emitters[2].particle.lifetime`. */
+  path: string;
+  id: number;
 }
 
 /**
@@ -80,6 +164,22 @@ export interface AssetState {
   sequences: Map<string, SequenceAsset>;
 }
 
+/**
+ * IndexedDB asset persistence status
+ */
+export type AssetStorageStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface AssetStorageState {
+  status: AssetStorageStatus;
+  /** Why persistence is unavailable; assets then live in memory only. */
+  error: string | null;
+  /** Records dropped during the last hydrate because they were unreadable. */
+  skippedRecords: number;
+  /** Bytes used / available for this origin, when the browser reports them. */
+  usage: number | null;
+  quota: number | null;
+}
+
 /**
  * Undo/redo history entry
  */
@@ -87,15 +187,84 @@ export interface HistoryEntry {
   config: EditorConfig;
   selection: SelectionState;
   label: string;
+  /** When the action was recorded; for a coalesced entry, its latest edit. */
   timestamp: number;
+  /** Later edits with the same key shortly after fold into this entry. */
+  coalesceKey?: string;
 }
 
+/**
+ * An open effect (one tab). The active document's config, history,
+ * selection, layer visibility and locks and dirty flag live at the top level of
+ * EditorState so the rest of the editor needn't know about tabs; its entry
+ * in `documents` is only brought up to date when another tab is activated.
+ */
+export interface EditorDocument {
+  id: string;
+  name: string;
+  config: EditorConfig;
+  history: HistoryEntry[];
+  historyIndex: number;
+  selection: SelectionState;
+  hiddenEmitterIds: Set<string>;
+  lockedEmitterIds: Set<string>;
+  soloMode: boolean;
+  hasUnsavedChanges: boolean;
+}
+
+/**
+ * An open tab as recorded in a session snapshot.
+ */
+export interface SessionDocumentSnapshot {
+  name: string;
+  config: EditorConfig;
+  selection: SelectionState;
+  history: HistoryEntry[];
+  historyIndex: number;
+  /** Hidden / locked layer ids; missing in snapshots from before they were saved. */
+  hiddenEmitterIds?: string[];
+  lockedEmitterIds?: string[];
+}
+
+/**
+ * Autosaved editor session, stored in IndexedDB for crash recovery. The
+ * top-level document fields hold the active tab.
+ *
+ * Assets are referenced by id only — their data lives in the asset store.
+ */
+export interface SessionSnapshot {
+  id: string;
+  /** Editor session (page load) that wrote this snapshot. */
+  sessionId: string;
+  createdAt: number;
+  savedAt: number;
+  /** Active tab's name; missing in snapshots from before tabs. */
+  name?: string;
+  config: EditorConfig;
+  selection: SelectionState;
+  history: HistoryEntry[];
+  historyIndex: number;
+  hiddenEmitterIds?: string[];
+  lockedEmitterIds?: string[];
+  /** The other tabs with something to recover, in tab order. */
+  otherDocuments?: SessionDocumentSnapshot[];
+  assetRefs: {
+    textures: string[];
+    sequences: string[];
+  };
+  /** Canvas size at save time, used to recentre emitters on restore. */
+  canvas: { width: number; height: number };
+}
+
+export type SessionDialogMode = 'recover' | 'browse';
+
 /**
  * Complete editor state
  */
 export interface EditorState {
   config: EditorConfig;
   assets: AssetState;
+  assetStorage: AssetStorageState;
   ui: UIState;
   layout: LayoutState;
 
@@ -103,34 +272,71 @@ export interface EditorState {
   history: HistoryEntry[];
   historyIndex: number;
 
+  // Documents (assets are shared by all of them)
+  documents: EditorDocument[];
+  activeDocumentId: string;
+
   // System actions
-  resetToDefault: () => void;
   setMaxParticles: (max: number) => void;
   setAutoStart: (autoStart: boolean) => void;
+  setSeed: (seed: number) => void;
+  rerollSeed: () => void;
+  /** `undefined` removes the budget. */
+  setParticleBudget: (budget: number | undefined) => void;
 
-  // Emitter actions
+  // Emitter actions (addressed by editor id)
   addEmitter: (emitter: EmitterConfig) => void;
-  updateEmitter: (index: number, emitter: Partial<EmitterConfig>) => void;
-  removeEmitter: (index: number) => void;
-  duplicateEmitter: (index: number) => void;
-  reorderEmitters: (startIndex: number, endIndex: number) => void;
-  toggleEmitterVisibility: (index: number) => void;
-  renameEmitter: (index: number, name: string) => void;
+  updateEmitter: (id: string, emitter: Partial<EmitterConfig>) => void;
+  /** Set `field` (a dotted path such as `particle.lifetime`) on every listed emitter. */
+  setEmittersField: (ids: string[], field: string, value: unknown) => void;
+  removeEmitters: (ids: string[]) => void;
+  /** Copy each emitter in place after its original and select the copies. */
+  duplicateEmitters: (ids: string[]) => void;
+  /**
+   * Insert clipboard emitters (in the 800×600 authoring space, like exported
+   * files) after the selected layer, or at the end, and select them.
+   */
+  pasteEmitters: (emitters: EmitterConfig[]) => void;
+  /** Move the emitters together to position `toIndex` among the other layers. */
+  reorderEmitters: (ids: string[], toIndex: number) => void;
+  setEmittersHidden: (ids: string[], hidden: boolean) => void;
+  setEmittersLocked: (ids: string[], locked: boolean) => void;
+  setSoloMode: (solo: boolean) => void;
+  renameEmitter: (id: string, name: string) => void;
+
+  // Layer group actions
+  /** Group the layers (ungrouping them first) into one block and select them. */
+  groupEmitters: (ids: string[]) => void;
+  /** Dissolve the group, baking its transform into the members. */
+  ungroup: (groupId: string) => void;
+  renameGroup: (groupId: string, name: string) => void;
+  setGroupCollapsed: (groupId: string, collapsed: boolean) => void;
+  setGroupTransform: (groupId: string, transform: Partial<GroupTransform>) => void;
+  /** Copy the group and its members after the original and select the copies. */
+  duplicateGroup: (groupId: string) => void;
 
   // Behavior actions
-  addBehavior: (emitterIndex: number, behavior: BehaviorConfig) => void;
-  updateBehavior: (emitterIndex: number, behaviorIndex: number, behavior: BehaviorConfig) => void;
-  removeBehavior: (emitterIndex: number, behaviorIndex: number) => void;
+  addBehavior: (emitterId: string, behavior: BehaviorConfig) => void;
+  updateBehavior: (emitterId: string, behaviorId: string, behavior: BehaviorConfig) => void;
+  removeBehavior: (emitterId: string, behaviorId: string) => void;
 
   // Asset actions
   addTexture: (texture: TextureAsset) => Promise<void>;
   removeTexture: (id: string) => Promise<void>;
   addSequence: (sequence: SequenceAsset) => Promise<void>;
   removeSequence: (id: string) => Promise<void>;
+  hydrateAssets: () => Promise<void>;
+  refreshStorageEstimate: () => Promise<void>;
 
   // Selection actions
-  selectEmitter: (index: number | null) => void;
-  selectBehavior: (index: number | null) => void;
+  selectEmitter: (id: string | null) => void;
+  /** Add the layer to the selection (as its primary), or take it out. */
+  toggleEmitterSelection: (id: string) => void;
+  /** Select every layer from the primary selected one to `id`. */
+  selectEmitterRange: (id: string) => void;
+  /** Replace the selection, keeping the primary layer if it's still in it. */
+  setEmitterSelection: (ids: string[]) => void;
+  selectBehavior: (id: string | null) => void;
 
   // Preview actions
   setPreviewState: (state: 'playing' | 'paused' | 'stopped') => void;
@@ -139,30 +345,61 @@ export interface EditorState {
   setShowGrid: (show: boolean) => void;
   setGridSize: (size: number) => void;
   setZoom: (zoom: number) => void;
+  setPan: (x: number, y: number) => void;
+  zoomAt: (zoom: number, screenX: number, screenY: number) => void;
+  resetView: () => void;
+  fitViewToEmitters: () => void;
   setCanvasDimensions: (width: number, height: number) => void;
   setTimeScale: (scale: number) => void;
+  setTimelineDuration: (duration: number) => void;
+  setLoopEnabled: (enabled: boolean) => void;
+  setLoopRange: (loopIn: number, loopOut: number, moved?: 'in' | 'out') => void;
 
   // Layout actions
   setLeftPaneWidth: (width: number) => void;
   setRightPaneWidth: (width: number) => void;
   toggleLeftPane: () => void;
   toggleRightPane: () => void;
+  toggleProblemsPanel: () => void;
+  toggleProfilerPanel: () => void;
+  toggleHistoryPanel: () => void;
 
   // Inspector
   setInspectorSearch: (search: string) => void;
+  /** Select the emitter / behavior a validation path points at and focus the field. */
+  revealValidationPath: (path: string) => void;
 
   // Persistence
   markUnsaved: () => void;
   markSaved: () => void;
 
+  // Session recovery
+  setSessionDialog: (mode: SessionDialogMode | null) => void;
+  restoreSession: (snapshot: SessionSnapshot) => void;
+
+  // Documents
+  newDocument: () => void;
+  /** Open `config` in a new tab, reusing the active one if it's an untouched blank document. */
+  openDocument: (config: EditorConfig, name: string) => void;
+  switchDocument: (id: string) => void;
+  closeDocument: (id: string) => void;
+  renameDocument: (id: string, name: string) => void;
+
   // Import/Export
-  loadConfig: (config: EditorConfig, assets: AssetState) => void;
+  loadBundle: (config: EditorConfig, assets: AssetState, name: string) => Promise<void>;
   getExportData: () => { config: EditorConfig; assets: AssetState };
 
   // Undo/Redo
   undo: () => void;
   redo: () => void;
-  pushHistory: (label: string) => void;
+  /**
+   * Record the state before an action labelled `label`. Repeated calls with
+   * the same `coalesceKey` in quick succession record it once.
+   */
+  pushHistory: (label: string, coalesceKey?: string) => void;
+  /** Go to the state after action `index`; -1 is the state before the first. */
+  jumpToHistory: (index: number) => void;
+  setHistoryLimit: (limit: number) => void;
   canUndo: () => boolean;
   canRedo: () => boolean;
 }
@@ -170,12 +407,56 @@ export interface EditorState {
 /**
  * Validation error types
  */
+export type ValidationSeverity = 'error' | 'warning';
+
 export interface ValidationError {
-  field: string;
+  severity: ValidationSeverity;
+  /** JSON path into EditorConfig, e.g. `emitters[2].particle.lifetime`. */
+  path: string;
+  /** Stable identifier for the rule, e.g. `emission-rate-invalid`. */
+  code: string;
   message: string;
 }
 
 export interface ValidationResult {
+  /** False when any entry has `error` severity; warnings never block. */
   valid: boolean;
   errors: ValidationError[];
 }
+
+/**
+ * YAML import diagnostics
+ *
+ *   dropped     – emitter can't be repaired and is left out
+ *   repairable  – emitter is left out unless auto-fixes are accepted
+ *   defaulted   – value was invalid and replaced by its default
+ */
+export type ImportIssueKind = 'dropped' | 'repairable' | 'defaulted';
+
+export interface ImportIssue {
+  kind: ImportIssueKind;
+  /** Path into the source document, e.g. `emitters[3].emissionRate`. */
+  path: string;
+  /** 1-based line in the YAML source, when known. */
+  line: number | null;
+  message: string;
+  /** What the auto-fix does (repairable issues only). */
+  fix?: string;
+}
+
+export interface YamlImportResult {
+  /** Config with repairable emitters left out — what a plain import produces. */
+  config: EditorConfig;
+  /** Config with auto-fixes applied to repairable emitters. */
+  repairedConfig: EditorConfig;
+  issues: ImportIssue[];
+}
+
+/**
+ * Behaviors parsed from a `behaviors:` YAML snippet (e.g. pasted from the
+ * clipboard). Behaviors that can't be used are left out and reported.
+ */
+export interface BehaviorImportResult {
+  behaviors: BehaviorConfig[];
+  issues: ImportIssue[];
+}
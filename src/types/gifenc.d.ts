@@ -0,0 +1,39 @@
+/**
+ * Minimal typings for the parts of gifenc the capture encoder uses.
+ * https://github.com/mattdesl/gifenc
+ */
+declare module 'gifenc' {
+  export type GifPalette = number[][];
+  export type GifColorFormat = 'rgb565' | 'rgb444' | 'rgba4444';
+
+  export interface GifFrameOptions {
+    palette?: GifPalette;
+    /** Frame delay in milliseconds. */
+    delay?: number;
+    transparent?: boolean;
+    transparentIndex?: number;
+    /** -1 = play once, 0 = loop forever. */
+    repeat?: number;
+    dispose?: number;
+  }
+
+  export interface GifEncoderInstance {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: GifFrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array<ArrayBuffer>;
+  }
+
+  export function GIFEncoder(): GifEncoderInstance;
+
+  export function quantize(
+    rgba: Uint8Array | Uint8ClampedArray,
+    maxColors: number,
+    options?: { format?: GifColorFormat; oneBitAlpha?: boolean | number },
+  ): GifPalette;
+
+  export function applyPalette(
+    rgba: Uint8Array | Uint8ClampedArray,
+    palette: GifPalette,
+    format?: GifColorFormat,
+  ): Uint8Array;
+}
@@ -0,0 +1,122 @@
+/**
+ * Validation for asset records read back from IndexedDB
+ *
+ * Records written by older builds, interrupted writes or manual tampering
+ * can be missing fields. Hydration keeps every record that still looks like
+ * a usable asset and reports the ids of the rest so they can be purged.
+ */
+
+import type { AssetState, SequenceAsset, TextureAsset } from '@/store/types';
+
+export interface AssetRecordsResult {
+  assets: AssetState;
+  /** Ids of texture records that were dropped (where an id was readable). */
+  invalidTextureIds: string[];
+  /** Ids of sequence records that were dropped (where an id was readable). */
+  invalidSequenceIds: string[];
+  /** Total number of dropped records, including ones without an id. */
+  skipped: number;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function readId(value: unknown): string | null {
+  return isRecord(value) && typeof value.id === 'string' && value.id ? value.id : null;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Returns the record as a TextureAsset, or null if it can't be displayed or
+ * handed to the renderer.
+ */
+export function parseTextureRecord(value: unknown): TextureAsset | null {
+  if (!isRecord(value) || !readId(value)) return null;
+  if (typeof value.name !== 'string') return null;
+  if (typeof value.dataURL !== 'string' || !value.dataURL.startsWith('data:image/')) return null;
+  if (!isPositiveNumber(value.width) || !isPositiveNumber(value.height)) return null;
+  if (!(value.file instanceof Blob)) return null;
+
+  return {
+    id: value.id as string,
+    name: value.name,
+    file: value.file as File,
+    dataURL: value.dataURL,
+    width: value.width,
+    height: value.height,
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : 0,
+  };
+}
+
+/**
+ * Returns the record as a SequenceAsset, or null if it or any of its frames
+ * is unusable — a sequence with gaps would animate incorrectly.
+ */
+export function parseSequenceRecord(value: unknown): SequenceAsset | null {
+  if (!isRecord(value) || !readId(value)) return null;
+  if (typeof value.name !== 'string' || !Array.isArray(value.frames) || value.frames.length === 0) {
+    return null;
+  }
+
+  const frames: TextureAsset[] = [];
+  for (const frame of value.frames) {
+    const parsed = parseTextureRecord(frame);
+    if (!parsed) return null;
+    frames.push(parsed);
+  }
+
+  return {
+    id: value.id as string,
+    name: value.name,
+    pattern: typeof value.pattern === 'string' ? value.pattern : '',
+    frames,
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : 0,
+  };
+}
+
+/**
+ * Build an AssetState from raw object-store contents, oldest first so the
+ * library keeps upload order across reloads.
+ */
+export function parseAssetRecords(
+  textureRecords: unknown[],
+  sequenceRecords: unknown[],
+): AssetRecordsResult {
+  const invalidTextureIds: string[] = [];
+  const invalidSequenceIds: string[] = [];
+  let skipped = 0;
+
+  const textures = textureRecords.flatMap((record) => {
+    const parsed = parseTextureRecord(record);
+    if (parsed) return [parsed];
+    skipped++;
+    const id = readId(record);
+    if (id) invalidTextureIds.push(id);
+    return [];
+  });
+
+  const sequences = sequenceRecords.flatMap((record) => {
+    const parsed = parseSequenceRecord(record);
+    if (parsed) return [parsed];
+    skipped++;
+    const id = readId(record);
+    if (id) invalidSequenceIds.push(id);
+    return [];
+  });
+
+  const byCreatedAt = (a: { createdAt: number }, b: { createdAt: number }) => a.createdAt - b.createdAt;
+
+  return {
+    assets: {
+      textures: new Map(textures.sort(byCreatedAt).map((t) => [t.id, t])),
+      sequences: new Map(sequences.sort(byCreatedAt).map((s) => [s.id, s])),
+    },
+    invalidTextureIds,
+    invalidSequenceIds,
+    skipped,
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Preview camera math
+ *
+ * The camera is a view-only transform applied to the Pixi world container:
+ *
+ *   screen = world * zoom + pan
+ *
+ * Emitter coordinates are never touched, so exported YAML positions are
+ * independent of how the user has zoomed or panned the preview.
+ */
+
+import type { EmitterConfig } from '@eonwetheherald/swizzle';
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 10;
+
+/** Screen-space margin kept around emitters by `fitCameraToBounds`. */
+const FIT_PADDING = 48;
+
+export interface Vec2 {
+  x: number;
+  y: number;
+}
+
+export interface Camera {
+  zoom: number;
+  pan: Vec2;
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export function clampZoom(zoom: number): number {
+  if (!Number.isFinite(zoom)) return 1;
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+export function worldToScreen(camera: Camera, point: Vec2): Vec2 {
+  return {
+    x: point.x * camera.zoom + camera.pan.x,
+    y: point.y * camera.zoom + camera.pan.y,
+  };
+}
+
+export function screenToWorld(camera: Camera, point: Vec2): Vec2 {
+  return {
+    x: (point.x - camera.pan.x) / camera.zoom,
+    y: (point.y - camera.pan.y) / camera.zoom,
+  };
+}
+
+/**
+ * Change the zoom level while keeping the world point under `anchor`
+ * (a screen-space position, e.g. the mouse cursor) fixed on screen.
+ */
+export function zoomAtPoint(camera: Camera, zoom: number, anchor: Vec2): Camera {
+  const nextZoom = clampZoom(zoom);
+  const world = screenToWorld(camera, anchor);
+  return {
+    zoom: nextZoom,
+    pan: {
+      x: anchor.x - world.x * nextZoom,
+      y: anchor.y - world.y * nextZoom,
+    },
+  };
+}
+
+function isVec2(value: unknown): value is Vec2 {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Vec2).x === 'number' &&
+    typeof (value as Vec2).y === 'number'
+  );
+}
+
+function vec2List(value: unknown): Vec2[] {
+  return Array.isArray(value) ? value.filter(isVec2) : [];
+}
+
+/**
+ * Points that outline an emitter's spawn shape in world space.
+ *
+ * Mirrors the coordinate model used by `recentreEmittersOnResize`: line
+ * endpoints and path waypoints are absolute, polygon vertices are relative
+ * to `position`.
+ */
+function getEmitterExtentPoints(emitter: EmitterConfig): Vec2[] {
+  const fields = emitter as EmitterConfig & Record<string, unknown>;
+  const { x, y } = emitter.position;
+  const points: Vec2[] = [{ x, y }];
+
+  switch (emitter.type) {
+    case 'circle': {
+      const radius = typeof fields.radius === 'number' ? fields.radius : 0;
+      points.push({ x: x - radius, y: y - radius }, { x: x + radius, y: y + radius });
+      break;
+    }
+    case 'area': {
+      const halfW = typeof fields.width === 'number' ? fields.width / 2 : 0;
+      const halfH = typeof fields.height === 'number' ? fields.height / 2 : 0;
+      points.push({ x: x - halfW, y: y - halfH }, { x: x + halfW, y: y + halfH });
+      break;
+    }
+    case 'line':
+      if (isVec2(fields.start)) points.push(fields.start);
+      if (isVec2(fields.end)) points.push(fields.end);
+      break;
+    case 'polygon':
+      for (const v of vec2List(fields.vertices)) points.push({ x: x + v.x, y: y + v.y });
+      break;
+    case 'path':
+      points.push(...vec2List(fields.path), ...vec2List(fields.points));
+      break;
+  }
+
+  return points;
+}
+
+/**
+ * Axis-aligned bounds enclosing every emitter's spawn shape, or null when
+ * there are no emitters.
+ */
+export function getEmitterBounds(emitters: EmitterConfig[]): Bounds | null {
+  let bounds: Bounds | null = null;
+  for (const emitter of emitters) {
+    if (!isVec2(emitter.position)) continue;
+    for (const p of getEmitterExtentPoints(emitter)) {
+      if (!bounds) {
+        bounds = { minX: p.x, minY: p.y, maxX: p.x, maxY: p.y };
+      } else {
+        bounds.minX = Math.min(bounds.minX, p.x);
+        bounds.minY = Math.min(bounds.minY, p.y);
+        bounds.maxX = Math.max(bounds.maxX, p.x);
+        bounds.maxY = Math.max(bounds.maxY, p.y);
+      }
+    }
+  }
+  return bounds;
+}
+
+/**
+ * Camera that centres `bounds` in a viewport of the given size, zoomed so it
+ * fits with a margin. Degenerate (zero-area) bounds keep a 1:1 zoom.
+ */
+export function fitCameraToBounds(
+  bounds: Bounds,
+  viewportWidth: number,
+  viewportHeight: number,
+): Camera {
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  const availableW = Math.max(1, viewportWidth - FIT_PADDING * 2);
+  const availableH = Math.max(1, viewportHeight - FIT_PADDING * 2);
+
+  const zoom =
+    width > 0 || height > 0
+      ? clampZoom(Math.min(
+          width > 0 ? availableW / width : Infinity,
+          height > 0 ? availableH / height : Infinity,
+        ))
+      : 1;
+
+  const centreX = (bounds.minX + bounds.maxX) / 2;
+  const centreY = (bounds.minY + bounds.maxY) / 2;
+
+  return {
+    zoom,
+    pan: {
+      x: viewportWidth / 2 - centreX * zoom,
+      y: viewportHeight / 2 - centreY * zoom,
+    },
+  };
+}
@@ -0,0 +1,269 @@
+/**
+ * Preview capture: settings, frame timing and the three output encoders.
+ *
+ * A capture is described by a `CaptureJob`. PreviewCanvas renders each frame
+ * off-screen after stepping the simulation to it, so frame N of a capture is
+ * always the same picture regardless of how long encoding takes. Everything
+ * runs in the browser; nothing is uploaded.
+ */
+
+import JSZip from 'jszip';
+import { GIFEncoder, applyPalette, quantize } from 'gifenc';
+import { timeToFrame } from './timeline';
+
+export type CaptureFormat = 'webm' | 'gif' | 'png';
+
+export interface CaptureSettings {
+  format: CaptureFormat;
+  /** Seconds of simulation to record, starting from a fresh restart. */
+  duration: number;
+  fps: number;
+  width: number;
+  height: number;
+  /** Clear to transparent instead of the preview background colour. */
+  transparent: boolean;
+}
+
+export interface CaptureEncoder {
+  addFrame: (frame: HTMLCanvasElement) => Promise<void>;
+  finish: () => Promise<Blob>;
+}
+
+/** What PreviewCanvas needs to run a capture, whatever the output. */
+export interface CaptureJob {
+  width: number;
+  height: number;
+  transparent: boolean;
+  frameCount: number;
+  /** Simulation frame (fixed 60 fps step) shown in output frame `index`. */
+  simFrame: (index: number) => number;
+  createEncoder: () => CaptureEncoder;
+  fileName: string;
+}
+
+export const CAPTURE_FPS_OPTIONS = [60, 30, 24, 15, 10];
+/** Browsers slow down GIF frames shorter than 20 ms, so GIFs top out here. */
+export const MAX_GIF_FPS = 30;
+export const MIN_CAPTURE_DURATION = 0.1;
+export const MAX_CAPTURE_DURATION = 30;
+export const MIN_CAPTURE_SIZE = 16;
+export const MAX_CAPTURE_SIZE = 4096;
+
+const FILE_NAMES: Record<CaptureFormat, string> = {
+  webm: 'particle-effect.webm',
+  gif: 'particle-effect.gif',
+  png: 'particle-effect-frames.zip',
+};
+
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const WEBM_BITS_PER_SECOND = 8_000_000;
+
+function clamp(value: number, min: number, max: number, fallback: number): number {
+  if (!Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, value));
+}
+
+export function normalizeCaptureSettings(settings: CaptureSettings): CaptureSettings {
+  const fps = CAPTURE_FPS_OPTIONS.includes(settings.fps) ? settings.fps : 30;
+  return {
+    format: settings.format,
+    duration: clamp(settings.duration, MIN_CAPTURE_DURATION, MAX_CAPTURE_DURATION, 2),
+    fps: settings.format === 'gif' ? Math.min(fps, MAX_GIF_FPS) : fps,
+    width: Math.round(clamp(settings.width, MIN_CAPTURE_SIZE, MAX_CAPTURE_SIZE, 800)),
+    height: Math.round(clamp(settings.height, MIN_CAPTURE_SIZE, MAX_CAPTURE_SIZE, 600)),
+    transparent: settings.transparent,
+  };
+}
+
+export function getCaptureFrameCount(settings: CaptureSettings): number {
+  return Math.max(1, Math.round(settings.duration * settings.fps));
+}
+
+/**
+ * Simulation frame (at the fixed 60 fps step) shown in output frame `index`.
+ * Rates that don't divide 60 land on the nearest simulation frame.
+ */
+export function getCaptureSimFrame(index: number, fps: number): number {
+  return timeToFrame(index / fps);
+}
+
+/**
+ * Scale and offset that make the visible preview cover the output frame,
+ * centred, without stretching.
+ */
+export function getCaptureTransform(
+  viewWidth: number,
+  viewHeight: number,
+  outWidth: number,
+  outHeight: number,
+): { scale: number; x: number; y: number } {
+  if (viewWidth <= 0 || viewHeight <= 0) return { scale: 1, x: 0, y: 0 };
+  const scale = Math.max(outWidth / viewWidth, outHeight / viewHeight);
+  return {
+    scale,
+    x: (outWidth - viewWidth * scale) / 2,
+    y: (outHeight - viewHeight * scale) / 2,
+  };
+}
+
+export function getCaptureFileName(format: CaptureFormat): string {
+  return FILE_NAMES[format];
+}
+
+/** `frame_0001.png`; padded so the zip sorts in playback order. */
+export function getPngFrameName(index: number, total: number): string {
+  const digits = Math.max(4, String(total).length);
+  return `frame_${String(index + 1).padStart(digits, '0')}.png`;
+}
+
+export function isWebmCaptureSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' && pickWebmMimeType() !== null;
+}
+
+function pickWebmMimeType(): string | null {
+  return WEBM_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+export function createFrameCanvas(
+  width: number,
+  height: number,
+  willReadFrequently = false,
+): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently });
+  if (!context) throw new Error('Canvas 2D is not available');
+  return { canvas, context };
+}
+
+export function drawFrame(context: CanvasRenderingContext2D, frame: HTMLCanvasElement): void {
+  context.clearRect(0, 0, context.canvas.width, context.canvas.height);
+  context.drawImage(frame, 0, 0, context.canvas.width, context.canvas.height);
+}
+
+export function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error('Failed to encode PNG frame'));
+    }, 'image/png');
+  });
+}
+
+function createPngSequenceEncoder(settings: CaptureSettings, total: number): CaptureEncoder {
+  const zip = new JSZip();
+  const { canvas, context } = createFrameCanvas(settings.width, settings.height);
+  let index = 0;
+
+  return {
+    async addFrame(frame) {
+      drawFrame(context, frame);
+      zip.file(getPngFrameName(index, total), await canvasToPng(canvas));
+      index += 1;
+    },
+    // PNGs are already compressed; deflating them again only costs time.
+    finish: () => zip.generateAsync({ type: 'blob', compression: 'STORE' }),
+  };
+}
+
+function createGifEncoder(settings: CaptureSettings): CaptureEncoder {
+  const gif = GIFEncoder();
+  const { context } = createFrameCanvas(settings.width, settings.height, true);
+  const delay = Math.round(1000 / settings.fps);
+  const format = settings.transparent ? 'rgba4444' : 'rgb565';
+
+  return {
+    async addFrame(frame) {
+      drawFrame(context, frame);
+      const { data } = context.getImageData(0, 0, settings.width, settings.height);
+      const palette = quantize(data, 256, { format, oneBitAlpha: settings.transparent });
+      const index = applyPalette(data, palette, format);
+      const transparentIndex = settings.transparent
+        ? palette.findIndex((color) => color[3] === 0)
+        : -1;
+      gif.writeFrame(index, settings.width, settings.height, {
+        palette,
+        delay,
+        repeat: 0,
+        transparent: transparentIndex >= 0,
+        transparentIndex: Math.max(0, transparentIndex),
+        // Clear between frames, otherwise old particles show through the
+        // transparent pixels.
+        dispose: settings.transparent ? 2 : -1,
+      });
+      // Quantising is synchronous; give the UI a chance to repaint.
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    },
+    finish: () => {
+      gif.finish();
+      return Promise.resolve(new Blob([gif.bytes()], { type: 'image/gif' }));
+    },
+  };
+}
+
+/**
+ * MediaRecorder stamps frames with wall-clock time, so each (already
+ * rendered) frame is held on screen for its duration before the next one is
+ * pushed. The simulation itself never sees wall-clock time.
+ */
+function createWebmEncoder(settings: CaptureSettings): CaptureEncoder {
+  const mimeType = typeof MediaRecorder !== 'undefined' ? pickWebmMimeType() : null;
+  if (!mimeType) throw new Error('This browser cannot record WebM video');
+
+  const { canvas, context } = createFrameCanvas(settings.width, settings.height);
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: WEBM_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start();
+
+  const frameMs = 1000 / settings.fps;
+  const startedAt = performance.now();
+  let index = 0;
+
+  return {
+    async addFrame(frame) {
+      drawFrame(context, frame);
+      track.requestFrame();
+      index += 1;
+      const wait = startedAt + index * frameMs - performance.now();
+      await new Promise((resolve) => setTimeout(resolve, Math.max(0, wait)));
+    },
+    finish: () =>
+      new Promise<Blob>((resolve) => {
+        recorder.onstop = () => {
+          stream.getTracks().forEach((t) => t.stop());
+          resolve(new Blob(chunks, { type: 'video/webm' }));
+        };
+        recorder.stop();
+      }),
+  };
+}
+
+function createCaptureEncoder(settings: CaptureSettings, total: number): CaptureEncoder {
+  switch (settings.format) {
+    case 'webm':
+      return createWebmEncoder(settings);
+    case 'gif':
+      return createGifEncoder(settings);
+    case 'png':
+      return createPngSequenceEncoder(settings, total);
+  }
+}
+
+export function createCaptureJob(settings: CaptureSettings): CaptureJob {
+  const frameCount = getCaptureFrameCount(settings);
+  return {
+    width: settings.width,
+    height: settings.height,
+    transparent: settings.transparent,
+    frameCount,
+    simFrame: (index) => getCaptureSimFrame(index, settings.fps),
+    createEncoder: () => createCaptureEncoder(settings, frameCount),
+    fileName: getCaptureFileName(settings.format),
+  };
+}
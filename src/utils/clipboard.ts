@@ -0,0 +1,68 @@
+/**
+ * Copy / paste of emitters and behaviors as YAML on the system clipboard.
+ *
+ * Emitters are written as an `emitters:` list (a valid partial PSAC file)
+ * and behaviors as a `behaviors:` list, so snippets can move between tabs,
+ * browser windows and text editors. Pasted text goes through the same
+ * diagnostics as a YAML import.
+ */
+
+import { parseDocument, stringify } from 'yaml';
+import type { BehaviorConfig, EmitterConfig } from '@eonwetheherald/swizzle';
+import type { ImportIssue } from '@/store/types';
+import { parseBehaviorsImport, parseYamlImport } from './configTransform';
+import { stripBehaviorId, stripEmitterIds } from './editorIds';
+
+export type ClipboardContent =
+  | {
+      kind: 'emitters';
+      /** With auto-fixes applied; emitters that can't be repaired are left out. */
+      emitters: EmitterConfig[];
+      issues: ImportIssue[];
+    }
+  | { kind: 'behaviors'; behaviors: BehaviorConfig[]; issues: ImportIssue[] };
+
+const STRINGIFY_OPTIONS = { indent: 2, lineWidth: 0, aliasDuplicateObjects: false };
+
+export function serializeEmitters(emitters: EmitterConfig[]): string {
+  return stringify({ emitters: emitters.map(stripEmitterIds) }, STRINGIFY_OPTIONS);
+}
+
+export function serializeBehaviors(behaviors: BehaviorConfig[]): string {
+  return stringify({ behaviors: behaviors.map(stripBehaviorId) }, STRINGIFY_OPTIONS);
+}
+
+/**
+ * Parse clipboard text. Returns null when it isn't YAML with an `emitters`
+ * or `behaviors` list, so unrelated text can be ignored.
+ */
+export function parseClipboardYaml(text: string): ClipboardContent | null {
+  const doc = parseDocument(text);
+  if (doc.errors.length > 0) return null;
+  const root: unknown = doc.toJS();
+  if (typeof root !== 'object' || root === null || Array.isArray(root)) return null;
+
+  if (Array.isArray((root as Record<string, unknown>).emitters)) {
+    const result = parseYamlImport(text);
+    return {
+      kind: 'emitters',
+      // Ids from the import are dropped; the store gives pasted emitters new ones.
+      emitters: result.repairedConfig.emitters.map(stripEmitterIds),
+      // A whole file may have been copied; only its emitters are pasted.
+      issues: result.issues.filter((issue) => issue.path.startsWith('emitters')),
+    };
+  }
+  if ('behaviors' in root) {
+    return { kind: 'behaviors', ...parseBehaviorsImport(text) };
+  }
+  return null;
+}
+
+/** One-line summary of paste issues for a toast, e.g. `Line 4: Emitter 0: Missing position`. */
+export function describePasteIssues(issues: ImportIssue[]): string {
+  const [first] = issues;
+  if (!first) return '';
+  const location = first.line !== null ? `Line ${first.line}: ` : '';
+  const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : '';
+  return `${location}${first.message}${first.fix ? ` — ${first.fix.toLowerCase()}` : ''}${more}`;
+}
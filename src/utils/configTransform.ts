@@ -3,157 +3,801 @@
  * Converts between editor config format and Swizzle YAML format
  */
 
-import { dump, load } from 'js-yaml';
-import type { EditorConfig } from '@/store/types';
-import type { EmitterConfig } from '@eonwetheherald/swizzle';
+import { LineCounter, isMap, isNode, isScalar, isSeq, parseDocument, stringify } from 'yaml';
+import type { Document, Pair } from 'yaml';
+import type {
+  BehaviorImportResult,
+  EditorConfig,
+  ImportIssue,
+  ValidationError,
+  ValidationResult,
+  YamlImportResult,
+} from '@/store/types';
+import type { BehaviorConfig, EmitterConfig } from '@eonwetheherald/swizzle';
+import { BEHAVIOR_REGISTRY } from '@/types/behaviorTypes';
+import { isValidSeed } from './random';
+import { estimateConfig, getParticleBudget, isValidParticleBudget } from './particleEstimate';
+import { EDITOR_ID_KEY, getEditorId, stripEmitterIds } from './editorIds';
+import { generateId } from '@/lib/utils';
 
-interface ParsedYamlSystemConfig {
-  maxParticles?: unknown;
-  autoStart?: unknown;
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
 }
 
-interface ParsedYamlConfig {
-  system?: ParsedYamlSystemConfig;
-  emitters?: unknown;
+/**
+ * Plain data for the YAML file, matching Swizzle's SystemConfigFile
+ * interface plus any sections the editor carried through from import.
+ */
+function toYamlData(config: EditorConfig): Record<string, unknown> {
+  // All field names are already canonical (vertices, path) — no translation needed.
+  // Line emitter start/end are stored relative to emitter position in the editor.
+  // Editor ids are editor-only and never reach the file.
+  const emitters = config.emitters.map(stripEmitterIds);
+
+  return {
+    system: { ...config.system },
+    emitters,
+    ...config.extraSections,
+  };
 }
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null;
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return isRecord(value) && !Array.isArray(value);
 }
 
-function isEmitterConfig(value: unknown): value is EmitterConfig {
-  if (!isRecord(value)) return false;
-  if (typeof value.type !== 'string') return false;
-  const rateRequired = value.type !== 'burst' && value.type !== 'triggered';
-  if (rateRequired && typeof value.emissionRate !== 'number') return false;
-  if (!isRecord(value.position)) return false;
-  if (typeof value.position.x !== 'number' || typeof value.position.y !== 'number') return false;
-  return isRecord(value.particle) && typeof value.particle.type === 'string';
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => isDeepEqual(item, b[i]))
+    );
+  }
+  if (!isPlainObject(a) || !isPlainObject(b)) return false;
+  const keys = Object.keys(a).filter((key) => a[key] !== undefined);
+  if (keys.length !== Object.keys(b).filter((key) => b[key] !== undefined).length) return false;
+  return keys.every((key) => isDeepEqual(a[key], b[key]));
 }
 
-function toParsedYamlConfig(value: unknown): ParsedYamlConfig {
-  if (!isRecord(value)) return {};
-  return {
-    system: isRecord(value.system) ? value.system : undefined,
-    emitters: value.emitters,
-  };
+function pairKey(pair: Pair): string {
+  return String(isScalar(pair.key) ? pair.key.value : pair.key);
 }
 
 /**
- * Convert editor config to YAML string for Swizzle ConfigLoader
+ * Make `node` hold `value`, touching as little of it as possible: unchanged
+ * subtrees are returned as-is (comments, quoting and flow style intact), maps
+ * and sequences are patched in place, and only changed leaves are replaced.
  */
-export function editorConfigToYAML(config: EditorConfig): string {
-  const emitters = config.emitters.map((emitter) => {
-    // All field names are already canonical (vertices, path) — no translation needed.
-    // Line emitter start/end are stored relative to emitter position in the editor.
-    return { ...emitter } as typeof emitter & { [key: string]: unknown };
+function patchNode(doc: Document, node: unknown, value: unknown): unknown {
+  if (isNode(node) && isDeepEqual(node.toJS(doc), value)) return node;
+
+  if (isMap(node) && isPlainObject(value)) {
+    const entries = Object.entries(value).filter(([, child]) => child !== undefined);
+    const wanted = new Set(entries.map(([key]) => key));
+    node.items = node.items.filter((pair) => wanted.has(pairKey(pair)));
+    for (const [key, child] of entries) {
+      const pair = node.items.find((item) => pairKey(item) === key);
+      if (pair) {
+        pair.value = patchNode(doc, pair.value, child);
+      } else {
+        node.items.push(doc.createPair(key, child));
+      }
+    }
+    return node;
+  }
+
+  if (isSeq(node) && Array.isArray(value)) {
+    node.items = value.map((child: unknown, i) =>
+      i < node.items.length ? patchNode(doc, node.items[i], child) : doc.createNode(child),
+    );
+    return node;
+  }
+
+  const replacement = doc.createNode(value);
+  if (isNode(node)) {
+    // Keep comments attached to the value being replaced.
+    replacement.commentBefore = node.commentBefore;
+    replacement.comment = node.comment;
+    replacement.spaceBefore = node.spaceBefore;
+  }
+  return replacement;
+}
+
+/**
+ * Put each emitter in the source entry it was imported from, matched by
+ * editor id, so comments and unknown fields stay with their emitter when
+ * layers are deleted or reordered. Emitters without one get a fresh node.
+ */
+function patchSourceEmitters(doc: Document, config: EditorConfig): void {
+  const node = isMap(doc.contents) ? doc.contents.get('emitters', true) : null;
+  if (!isSeq(node) || !config.sourceEmitterIds) return;
+
+  // The parser files a comment above the first entry under the list itself.
+  const [first] = node.items;
+  if (node.commentBefore && isNode(first)) {
+    first.commentBefore = first.commentBefore ? `${node.commentBefore}\n${first.commentBefore}` : node.commentBefore;
+    node.commentBefore = undefined;
+  }
+
+  const sourceItems = new Map<string, unknown>();
+  config.sourceEmitterIds.forEach((id, i) => {
+    if (id && i < node.items.length) sourceItems.set(id, node.items[i]);
   });
+  node.items = config.emitters.map((emitter) => {
+    const data = stripEmitterIds(emitter);
+    const item = sourceItems.get(getEditorId(emitter));
+    sourceItems.delete(getEditorId(emitter));
+    return item ? patchNode(doc, item, data) : doc.createNode(data);
+  });
+}
 
-  // Build YAML structure matching Swizzle's SystemConfigFile interface
-  const yamlConfig = {
-    system: {
-      maxParticles: config.system.maxParticles,
-      autoStart: config.system.autoStart,
-    },
-    emitters,
-  };
+/**
+ * Apply the config to the document it was imported from. Returns null when
+ * the source can't be used (parse errors, not a mapping), so the caller can
+ * fall back to a fresh dump.
+ */
+function patchYamlSource(source: string, config: EditorConfig, data: Record<string, unknown>): string | null {
+  const doc = parseDocument(source);
+  if (doc.errors.length > 0 || !isMap(doc.contents)) return null;
+  patchSourceEmitters(doc, config);
+  doc.contents = patchNode(doc, doc.contents, data) as typeof doc.contents;
+  return doc.toString({ lineWidth: 0 });
+}
+
+/**
+ * Convert editor config to YAML string for Swizzle ConfigLoader.
+ *
+ * Configs imported from YAML are written back into their source document,
+ * so a file that's opened and re-saved only differs where it was edited.
+ */
+export function editorConfigToYAML(config: EditorConfig): string {
+  const data = toYamlData(config);
 
-  return dump(yamlConfig, {
+  if (config.source) {
+    const patched = patchYamlSource(config.source, config, data);
+    if (patched !== null) return patched;
+  }
+
+  return stringify(data, {
     indent: 2,
-    lineWidth: -1, // Don't wrap lines
-    noRefs: true, // Don't use references
+    lineWidth: 0, // Don't wrap lines
+    aliasDuplicateObjects: false, // Don't use references
   });
 }
 
+// ─── Import ─────────────────────────────────────────────────────────────────
+
+const DEFAULT_MAX_PARTICLES = 1000;
+const DEFAULT_AUTO_START = true;
+const DEFAULT_EMISSION_RATE = 50;
+const EDITOR_SECTIONS = new Set(['system', 'emitters']);
+
 /**
- * Parse YAML string back to editor config
+ * System values as Swizzle reads them. Imports keep the `system` block as
+ * written, so these may be absent and fall back to the library defaults.
  */
-export function yamlToEditorConfig(yaml: string): EditorConfig {
-  let parsed: ParsedYamlConfig;
-  try {
-    parsed = toParsedYamlConfig(load(yaml));
-  } catch (err) {
-    const msg = err instanceof Error ? err.message : 'Unknown YAML parse error';
-    throw new Error(`Failed to parse YAML: ${msg}`);
+export function getMaxParticles(config: EditorConfig): number {
+  return config.system.maxParticles ?? DEFAULT_MAX_PARTICLES;
+}
+
+export function getAutoStart(config: EditorConfig): boolean {
+  return config.system.autoStart ?? DEFAULT_AUTO_START;
+}
+
+/**
+ * Parse YAML, recording the 1-based line each mapping / sequence starts on.
+ * Objects are used as keys, so lookups must use the parsed values themselves.
+ */
+function loadWithLines(yaml: string): { value: unknown; lines: Map<object, number> } {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(yaml, { lineCounter });
+  if (doc.errors.length > 0) throw new Error(`Failed to parse YAML: ${doc.errors[0].message}`);
+
+  const value: unknown = doc.toJS();
+  const lines = new Map<object, number>();
+  const lineOf = (node: unknown) =>
+    isNode(node) && node.range ? lineCounter.linePos(node.range[0]).line : null;
+  // Walk the node tree alongside the plain values it produced. A block
+  // mapping under a key starts on the line after it; report the key's line.
+  const visit = (node: unknown, result: unknown, line: number | null) => {
+    if (!isNode(node) || !isRecord(result) || lines.has(result)) return;
+    if (line !== null) lines.set(result, line);
+    if (isMap(node) && isPlainObject(result)) {
+      for (const pair of node.items) {
+        visit(pair.value, result[pairKey(pair)], lineOf(pair.key) ?? lineOf(pair.value));
+      }
+    } else if (isSeq(node) && Array.isArray(result)) {
+      node.items.forEach((item, i) => visit(item, result[i], lineOf(item)));
+    }
+  };
+  visit(doc.contents, value, lineOf(doc.contents));
+  return { value, lines };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * First line at or after `fromLine` (1-based) that declares `key`, for keys
+ * known to exist in the mapping starting there. Falls back to `fromLine`.
+ */
+function findKeyLine(sourceLines: string[], fromLine: number | null, key: string): number | null {
+  if (fromLine === null) return null;
+  const pattern = new RegExp(`(^|[\\s{,])["']?${escapeRegExp(key)}["']?\\s*:`);
+  for (let i = fromLine - 1; i < sourceLines.length; i++) {
+    if (pattern.test(sourceLines[i])) return i + 1;
+  }
+  return fromLine;
+}
+
+interface EmitterProblem {
+  field: string;
+  message: string;
+  /** Description of the auto-fix; absent when the emitter can't be repaired. */
+  fix?: string;
+}
+
+/**
+ * Everything that keeps a parsed emitter from loading, and a repaired copy
+ * when every problem has an auto-fix.
+ */
+function diagnoseEmitter(value: unknown): { problems: EmitterProblem[]; repaired: EmitterConfig | null } {
+  if (!isRecord(value)) {
+    return { problems: [{ field: '', message: 'Emitter is not a mapping' }], repaired: null };
+  }
+  if (typeof value.type !== 'string') {
+    return { problems: [{ field: 'type', message: 'Missing emitter type' }], repaired: null };
+  }
+
+  const problems: EmitterProblem[] = [];
+  const repaired: Record<string, unknown> = { ...value };
+
+  const rateRequired = value.type !== 'burst' && value.type !== 'triggered';
+  if (rateRequired && typeof value.emissionRate !== 'number') {
+    problems.push({
+      field: 'emissionRate',
+      message: value.emissionRate === undefined ? 'Missing emissionRate' : 'emissionRate is not a number',
+      fix: `Set emissionRate to ${DEFAULT_EMISSION_RATE}`,
+    });
+    repaired.emissionRate = DEFAULT_EMISSION_RATE;
+  }
+
+  const position = isRecord(value.position) ? value.position : {};
+  if (typeof position.x !== 'number' || typeof position.y !== 'number') {
+    const x = typeof position.x === 'number' ? position.x : 0;
+    const y = typeof position.y === 'number' ? position.y : 0;
+    problems.push({
+      field: 'position',
+      message: value.position === undefined ? 'Missing position' : 'Position needs numeric x and y',
+      fix: `Set position to (${x}, ${y})`,
+    });
+    repaired.position = { ...position, x, y };
+  }
+
+  if (!isRecord(value.particle)) {
+    problems.push({
+      field: 'particle',
+      message: 'Missing particle configuration',
+      fix: 'Use the default particle',
+    });
+    repaired.particle = getDefaultParticleConfig(value.type);
+  } else if (typeof value.particle.type !== 'string') {
+    const type = typeof value.particle.frameSequence === 'string' ? 'animatedSprite' : 'sprite';
+    problems.push({
+      field: 'particle.type',
+      message: 'Missing particle type',
+      fix: `Set particle type to ${type}`,
+    });
+    repaired.particle = { ...value.particle, type };
   }
-  // All field names are canonical (vertices, path) — no translation needed on import.
-  const emitters = Array.isArray(parsed.emitters)
-    ? parsed.emitters.filter(isEmitterConfig)
-    : [];
 
-  const maxParticles =
-    typeof parsed.system?.maxParticles === 'number' ? parsed.system.maxParticles : 1000;
-  const autoStart = typeof parsed.system?.autoStart === 'boolean' ? parsed.system.autoStart : true;
+  return { problems, repaired: repaired as unknown as EmitterConfig };
+}
+
+function describeEmitter(value: unknown, index: number): string {
+  const name = isRecord(value) && typeof value.name === 'string' ? ` "${value.name}"` : '';
+  return `Emitter ${index}${name}`;
+}
+
+/**
+ * Parse YAML into an editor config and report everything that didn't make
+ * it in as-is: dropped or repairable emitters and defaulted system values,
+ * each with its line in the source.
+ *
+ * Keys the editor doesn't know about (extra system keys, other top-level
+ * sections, unknown emitter fields) are kept, and the source text is stored
+ * on the config so export can preserve comments and formatting.
+ *
+ * Throws if the YAML itself can't be parsed.
+ */
+export function parseYamlImport(yaml: string): YamlImportResult {
+  const { value, lines } = loadWithLines(yaml);
+  const sourceLines = yaml.split(/\r?\n/);
+  const root = isRecord(value) && !Array.isArray(value) ? value : {};
+  const rootLine = lines.get(root) ?? null;
+  const issues: ImportIssue[] = [];
+
+  // System
+  const system = isRecord(root.system) ? root.system : {};
+  const systemLine = lines.get(system) ?? rootLine;
+  // Absent keys stay absent so export doesn't add them; only values the
+  // editor can't use are replaced.
+  const importedSystem: EditorConfig['system'] = { ...system };
+  if (system.maxParticles !== undefined && typeof system.maxParticles !== 'number') {
+    importedSystem.maxParticles = DEFAULT_MAX_PARTICLES;
+    issues.push({
+      kind: 'defaulted',
+      path: 'system.maxParticles',
+      line: findKeyLine(sourceLines, systemLine, 'maxParticles'),
+      message: `maxParticles is not a number, using ${DEFAULT_MAX_PARTICLES}`,
+    });
+  }
+  if (system.autoStart !== undefined && typeof system.autoStart !== 'boolean') {
+    importedSystem.autoStart = DEFAULT_AUTO_START;
+    issues.push({
+      kind: 'defaulted',
+      path: 'system.autoStart',
+      line: findKeyLine(sourceLines, systemLine, 'autoStart'),
+      message: `autoStart is not a boolean, using ${DEFAULT_AUTO_START}`,
+    });
+  }
+
+  // Emitters
+  const emitters: EmitterConfig[] = [];
+  const repairedEmitters: EmitterConfig[] = [];
+  if (root.emitters !== undefined && !Array.isArray(root.emitters)) {
+    issues.push({
+      kind: 'dropped',
+      path: 'emitters',
+      line: isRecord(root.emitters) ? (lines.get(root.emitters) ?? rootLine) : rootLine,
+      message: 'emitters is not a list, no emitters were imported',
+    });
+  }
+  const sourceEmitters: unknown[] = Array.isArray(root.emitters) ? root.emitters : [];
+  const emittersLine = lines.get(sourceEmitters) ?? rootLine;
+
+  // Point at the offending key when it's present, otherwise at the emitter.
+  const problemLine = (emitter: unknown, field: string, fallback: number | null) => {
+    const key = field.split('.')[0];
+    if (!isRecord(emitter) || !(key in emitter)) return fallback;
+    const fieldValue = emitter[key];
+    if (isRecord(fieldValue)) return lines.get(fieldValue) ?? fallback;
+    return findKeyLine(sourceLines, fallback, key);
+  };
+
+  // Ids are given here, before repairs copy the emitter, so both configs
+  // share them and export can find each emitter's source entry.
+  const sourceEmitterIds = sourceEmitters.map((source) => (isPlainObject(source) ? generateId() : ''));
+
+  sourceEmitters.forEach((source, index) => {
+    const identified = isPlainObject(source) ? { ...source, [EDITOR_ID_KEY]: sourceEmitterIds[index] } : source;
+    const { problems, repaired } = diagnoseEmitter(identified);
+    if (problems.length === 0) {
+      emitters.push(identified as EmitterConfig);
+      repairedEmitters.push(identified as EmitterConfig);
+      return;
+    }
 
+    const repairable = repaired !== null && problems.every((problem) => problem.fix);
+    if (repairable) repairedEmitters.push(repaired);
+
+    const emitterLine = isRecord(source) ? (lines.get(source) ?? emittersLine) : emittersLine;
+    for (const problem of problems) {
+      issues.push({
+        kind: repairable ? 'repairable' : 'dropped',
+        path: problem.field ? `emitters[${index}].${problem.field}` : `emitters[${index}]`,
+        line: problemLine(source, problem.field, emitterLine),
+        message: `${describeEmitter(source, index)}: ${problem.message}`,
+        ...(repairable && { fix: problem.fix }),
+      });
+    }
+  });
+
+  const extraSections = Object.fromEntries(
+    Object.entries(root).filter(([key]) => !EDITOR_SECTIONS.has(key)),
+  );
+  const base = {
+    system: importedSystem,
+    ...(Object.keys(extraSections).length > 0 && { extraSections }),
+    source: yaml,
+    sourceEmitterIds,
+  };
   return {
-    system: {
-      maxParticles,
-      autoStart,
-    },
-    emitters,
+    config: { ...base, emitters },
+    repairedConfig: { ...structuredClone(base), emitters: repairedEmitters },
+    issues,
   };
 }
 
 /**
- * Validate editor config before conversion
+ * Parse YAML string back to editor config. Emitters that can't be loaded
+ * as-is are left out; use parseYamlImport to find out what was dropped.
  */
-export function validateEditorConfig(config: EditorConfig): {
-  valid: boolean;
-  errors: string[];
-} {
-  const errors: string[] = [];
+export function yamlToEditorConfig(yaml: string): EditorConfig {
+  // All field names are canonical (vertices, path) — no translation needed on import.
+  return parseYamlImport(yaml).config;
+}
+
+/**
+ * Parse a `behaviors:` list, e.g. behaviors copied from another emitter.
+ * Entries that aren't a mapping with a known behavior type are dropped and
+ * reported like emitter import issues. Throws if the YAML can't be parsed.
+ */
+export function parseBehaviorsImport(yaml: string): BehaviorImportResult {
+  const { value, lines } = loadWithLines(yaml);
+  const root = isRecord(value) && !Array.isArray(value) ? value : {};
+  const rootLine = lines.get(root) ?? null;
+  const behaviors: BehaviorConfig[] = [];
+  const issues: ImportIssue[] = [];
+
+  if (!Array.isArray(root.behaviors)) {
+    issues.push({
+      kind: 'dropped',
+      path: 'behaviors',
+      line: rootLine,
+      message: 'behaviors is not a list, no behaviors were imported',
+    });
+    return { behaviors, issues };
+  }
+
+  const listLine = lines.get(root.behaviors) ?? rootLine;
+  root.behaviors.forEach((source: unknown, index) => {
+    const line = isRecord(source) ? (lines.get(source) ?? listLine) : listLine;
+    let message: string | null = null;
+    if (!isRecord(source) || Array.isArray(source)) message = 'Behavior is not a mapping';
+    else if (typeof source.type !== 'string') message = 'Missing behavior type';
+    else if (!KNOWN_BEHAVIOR_TYPES.has(source.type)) message = `Unknown behavior type "${source.type}"`;
+
+    if (message === null) {
+      behaviors.push(source as BehaviorConfig);
+    } else {
+      issues.push({ kind: 'dropped', path: `behaviors[${index}]`, line, message: `Behavior ${index}: ${message}` });
+    }
+  });
+  return { behaviors, issues };
+}
+
+// ─── Validation ─────────────────────────────────────────────────────────────
+
+const MIN_SYSTEM_PARTICLES = 1;
+const MAX_SYSTEM_PARTICLES = 10000;
+
+const KNOWN_BEHAVIOR_TYPES = new Set(BEHAVIOR_REGISTRY.map((entry) => entry.value));
+
+type LifetimeValue = number | { min?: unknown; max?: unknown };
+
+function issue(
+  severity: ValidationError['severity'],
+  path: string,
+  code: string,
+  message: string,
+): ValidationError {
+  return { severity, path, code, message };
+}
+
+function validateLifetime(lifetime: LifetimeValue, path: string, index: number): ValidationError[] {
+  const prefix = `Emitter ${index}:`;
+  if (typeof lifetime === 'number') {
+    return lifetime > 0
+      ? []
+      : [issue('error', path, 'lifetime-invalid', `${prefix} Particle lifetime must be greater than 0`)];
+  }
+  if (!isRecord(lifetime) || typeof lifetime.min !== 'number' || typeof lifetime.max !== 'number') {
+    return [
+      issue('error', path, 'lifetime-invalid', `${prefix} Particle lifetime must be a number or a { min, max } range`),
+    ];
+  }
+  if (lifetime.min <= 0) {
+    return [issue('error', `${path}.min`, 'lifetime-invalid', `${prefix} Particle lifetime must be greater than 0`)];
+  }
+  if (lifetime.min > lifetime.max) {
+    return [issue('warning', path, 'lifetime-range-inverted', `${prefix} Particle lifetime min is greater than max`)];
+  }
+  return [];
+}
+
+/**
+ * Validate a single emitter. Paths are rooted at `emitters[index]`.
+ */
+export function validateEmitter(
+  emitter: EmitterConfig,
+  index: number,
+  systemMaxParticles?: number,
+): ValidationError[] {
+  const at = (field: string) => `emitters[${index}].${field}`;
+  const errors: ValidationError[] = [];
+  const data = emitter as EmitterConfig & Record<string, unknown>;
+
+  if (!emitter.type) {
+    errors.push(issue('error', at('type'), 'emitter-type-missing', `Emitter ${index}: Missing type`));
+  }
+  if (!emitter.position || typeof emitter.position.x !== 'number' || typeof emitter.position.y !== 'number') {
+    errors.push(issue('error', at('position'), 'position-invalid', `Emitter ${index}: Invalid position`));
+  }
+
+  const rateRequired = emitter.type !== 'burst' && emitter.type !== 'triggered';
+  if (rateRequired && (typeof emitter.emissionRate !== 'number' || emitter.emissionRate < 0)) {
+    errors.push(
+      issue('error', at('emissionRate'), 'emission-rate-invalid', `Emitter ${index}: Invalid emissionRate`),
+    );
+  } else if (rateRequired && emitter.emissionRate === 0) {
+    errors.push(
+      issue('warning', at('emissionRate'), 'emission-rate-zero', `Emitter ${index}: emissionRate is 0, nothing will spawn`),
+    );
+  }
+
+  if (emitter.type === 'burst' && (typeof data.burstCount !== 'number' || data.burstCount < 1)) {
+    errors.push(
+      issue('error', at('burstCount'), 'burst-count-invalid', `Emitter ${index}: burstCount must be a number >= 1`),
+    );
+  }
+
+  // Shape fields are optional (the runtime has defaults) but must be usable when set.
+  if (emitter.type === 'circle' && data.radius !== undefined) {
+    if (typeof data.radius !== 'number' || data.radius <= 0) {
+      errors.push(
+        issue('error', at('radius'), 'radius-invalid', `Emitter ${index}: radius must be greater than 0`),
+      );
+    }
+  }
+  if (emitter.type === 'polygon' && data.vertices !== undefined) {
+    if (!Array.isArray(data.vertices) || data.vertices.length < 3) {
+      errors.push(
+        issue('error', at('vertices'), 'polygon-vertices-too-few', `Emitter ${index}: a polygon needs at least 3 vertices`),
+      );
+    }
+  }
+  if (emitter.type === 'path') {
+    const points = data.path ?? data.points;
+    if (points !== undefined && (!Array.isArray(points) || points.length < 2)) {
+      errors.push(
+        issue('error', at('path'), 'path-points-too-few', `Emitter ${index}: a path needs at least 2 points`),
+      );
+    }
+  }
+
+  if (
+    typeof data.maxParticles === 'number' &&
+    systemMaxParticles !== undefined &&
+    data.maxParticles > systemMaxParticles
+  ) {
+    errors.push(
+      issue(
+        'warning',
+        at('maxParticles'),
+        'emitter-max-exceeds-system',
+        `Emitter ${index}: maxParticles exceeds the system limit of ${systemMaxParticles}`,
+      ),
+    );
+  }
+
+  if (!emitter.particle) {
+    errors.push(
+      issue('error', at('particle'), 'particle-missing', `Emitter ${index}: Missing particle configuration`),
+    );
+    return errors;
+  }
+
+  if (!emitter.particle.type) {
+    errors.push(
+      issue('error', at('particle.type'), 'particle-type-missing', `Emitter ${index}: Missing particle type`),
+    );
+  }
+  if (!emitter.particle.lifetime) {
+    errors.push(
+      issue('error', at('particle.lifetime'), 'lifetime-missing', `Emitter ${index}: Missing particle lifetime`),
+    );
+  } else {
+    errors.push(...validateLifetime(emitter.particle.lifetime as LifetimeValue, at('particle.lifetime'), index));
+  }
+
+  const behaviors: unknown = emitter.particle.behaviors;
+  if (Array.isArray(behaviors)) {
+    behaviors.forEach((behavior: unknown, behaviorIndex) => {
+      const type = isRecord(behavior) ? behavior.type : undefined;
+      if (typeof type !== 'string' || !KNOWN_BEHAVIOR_TYPES.has(type)) {
+        errors.push(
+          issue(
+            'warning',
+            at(`particle.behaviors[${behaviorIndex}].type`),
+            'behavior-unknown',
+            `Emitter ${index}: Unknown behavior type "${String(type)}"`,
+          ),
+        );
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validate editor config before conversion.
+ *
+ * Every entry carries a severity, a JSON path into the config and a rule
+ * code. Only `error` entries make the config invalid.
+ */
+export function validateEditorConfig(config: EditorConfig): ValidationResult {
+  const errors: ValidationError[] = [];
 
   // Validate system config
   if (!config.system) {
-    errors.push('Missing system configuration');
-  } else {
-    if (config.system.maxParticles < 1 || config.system.maxParticles > 10000) {
-      errors.push('maxParticles must be between 1 and 10000');
-    }
+    errors.push(issue('error', 'system', 'system-missing', 'Missing system configuration'));
+  } else if (
+    getMaxParticles(config) < MIN_SYSTEM_PARTICLES ||
+    getMaxParticles(config) > MAX_SYSTEM_PARTICLES
+  ) {
+    errors.push(
+      issue(
+        'error',
+        'system.maxParticles',
+        'max-particles-range',
+        `maxParticles must be between ${MIN_SYSTEM_PARTICLES} and ${MAX_SYSTEM_PARTICLES}`,
+      ),
+    );
+  }
+
+  if (config.system && config.system.seed !== undefined && !isValidSeed(config.system.seed)) {
+    errors.push(
+      issue(
+        'warning',
+        'system.seed',
+        'seed-invalid',
+        'seed should be a non-negative 32-bit integer; the preview rounds it',
+      ),
+    );
   }
 
-  // Validate emitters
+  // Validate emitters (an empty list is valid, it just won't render anything)
   if (!config.emitters || !Array.isArray(config.emitters)) {
-    errors.push('Emitters must be an array');
-  } else if (config.emitters.length === 0) {
-    // Empty emitters is valid, just won't render anything
+    errors.push(issue('error', 'emitters', 'emitters-not-array', 'Emitters must be an array'));
   } else {
     config.emitters.forEach((emitter, index) => {
-      if (!emitter.type) {
-        errors.push(`Emitter ${index}: Missing type`);
-      }
-      if (!emitter.position || typeof emitter.position.x !== 'number' || typeof emitter.position.y !== 'number') {
-        errors.push(`Emitter ${index}: Invalid position`);
-      }
-      const rateRequired = emitter.type !== 'burst' && emitter.type !== 'triggered';
-      if (rateRequired && (typeof emitter.emissionRate !== 'number' || emitter.emissionRate < 0)) {
-        errors.push(`Emitter ${index}: Invalid emissionRate`);
-      }
-      if (emitter.type === 'burst') {
-        const burstCount = (emitter as EmitterConfig & { burstCount?: unknown }).burstCount;
-        if (typeof burstCount !== 'number' || burstCount < 1) {
-          errors.push(`Emitter ${index}: burstCount must be a number >= 1`);
-        }
-      }
-      if (!emitter.particle) {
-        errors.push(`Emitter ${index}: Missing particle configuration`);
-      } else {
-        if (!emitter.particle.type) {
-          errors.push(`Emitter ${index}: Missing particle type`);
-        }
-        if (!emitter.particle.lifetime) {
-          errors.push(`Emitter ${index}: Missing particle lifetime`);
-        }
-      }
+      errors.push(...validateEmitter(emitter, index, config.system ? getMaxParticles(config) : undefined));
     });
+    if (config.system) errors.push(...validateParticleBudget(config));
   }
 
   return {
-    valid: errors.length === 0,
+    valid: !errors.some((e) => e.severity === 'error'),
     errors,
   };
 }
 
+/** Budget warnings from the static estimate (see utils/particleEstimate). */
+function validateParticleBudget(config: EditorConfig): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!isValidParticleBudget(config.system.particleBudget)) {
+    errors.push(
+      issue(
+        'warning',
+        'system.particleBudget',
+        'particle-budget-invalid',
+        'particleBudget should be a positive whole number; it is ignored',
+      ),
+    );
+  }
+
+  const { peak } = estimateConfig(config).total;
+  const maxParticles = getMaxParticles(config);
+  if (peak > maxParticles) {
+    errors.push(
+      issue(
+        'warning',
+        'system.maxParticles',
+        'max-particles-exceeded',
+        `The effect may need up to ${peak} particles but maxParticles is ${maxParticles}; the rest are dropped`,
+      ),
+    );
+  }
+
+  const budget = getParticleBudget(config);
+  if (budget !== null && peak > budget) {
+    errors.push(
+      issue(
+        'warning',
+        'system.particleBudget',
+        'particle-budget-exceeded',
+        `The effect may need up to ${peak} particles, over the project budget of ${budget}`,
+      ),
+    );
+  }
+  return errors;
+}
+
+export interface ValidationTarget {
+  emitterIndex: number | null;
+  behaviorIndex: number | null;
+  /** Path relative to the emitter (or the full path for system-level entries). */
+  field: string;
+}
+
+/**
+ * Split a validation path into the emitter / behavior it belongs to.
+ *
+ *   `emitters[2].particle.behaviors[1].endAlpha`
+ *     → { emitterIndex: 2, behaviorIndex: 1, field: 'particle.behaviors[1].endAlpha' }
+ */
+export function parseValidationPath(path: string): ValidationTarget {
+  const emitterMatch = /^emitters\[(\d+)\](?:\.(.*))?$/.exec(path);
+  if (!emitterMatch) return { emitterIndex: null, behaviorIndex: null, field: path };
+
+  const field = emitterMatch[2] ?? '';
+  const behaviorMatch = /^particle\.behaviors\[(\d+)\]/.exec(field);
+  return {
+    emitterIndex: Number(emitterMatch[1]),
+    behaviorIndex: behaviorMatch ? Number(behaviorMatch[1]) : null,
+    field,
+  };
+}
+
+/**
+ * Indices of emitters with at least one `error` entry. The preview skips
+ * these so a single bad layer doesn't take the whole effect down.
+ */
+export function getInvalidEmitterIndices(result: ValidationResult): Set<number> {
+  const indices = new Set<number>();
+  for (const entry of result.errors) {
+    if (entry.severity !== 'error') continue;
+    const { emitterIndex } = parseValidationPath(entry.path);
+    if (emitterIndex !== null) indices.add(emitterIndex);
+  }
+  return indices;
+}
+
+/**
+ * A field path followed by each of its ancestors, most specific first:
+ *
+ *   `particle.behaviors[1].type`
+ *     → ['particle.behaviors[1].type', 'particle.behaviors[1]', 'particle.behaviors', 'particle']
+ */
+export function getFieldPathCandidates(field: string): string[] {
+  const candidates: string[] = [];
+  let current = field;
+  while (current) {
+    candidates.push(current);
+    current = current.replace(/(\.[^.[\]]+|\[\d+\])$/, '');
+    if (current === candidates[candidates.length - 1]) break;
+  }
+  return candidates;
+}
+
+// ─── Preview filtering ──────────────────────────────────────────────────────
+
+/**
+ * Build the config the preview should render.
+ *
+ * Hidden layers are left out and, when `soloIds` names an existing emitter,
+ * every layer not listed is dropped too. `excludedIndices` (emitters with
+ * validation errors, which are reported by position) are always dropped,
+ * soloed or not. This only affects the preview — export always serialises
+ * the full config.
+ *
+ * Returns `config` unchanged when nothing is filtered so callers can rely on
+ * referential equality.
+ */
+export function getPreviewConfig(
+  config: EditorConfig,
+  hiddenIds: ReadonlySet<string>,
+  soloIds: readonly string[],
+  excludedIndices: ReadonlySet<number> = new Set(),
+): EditorConfig {
+  const soloActive = config.emitters.some((e) => soloIds.includes(getEditorId(e)));
+
+  if (!soloActive && hiddenIds.size === 0 && excludedIndices.size === 0) return config;
+
+  const emitters = config.emitters.filter((emitter, index) => {
+    const id = getEditorId(emitter);
+    return !excludedIndices.has(index) && (soloActive ? soloIds.includes(id) : !hiddenIds.has(id));
+  });
+  if (emitters.length === config.emitters.length) return config;
+
+  return { ...config, emitters };
+}
+
 // ─── Canvas-resize centering ────────────────────────────────────────────────
 
 interface Vec2 {
@@ -0,0 +1,107 @@
+/**
+ * Open-document (tab) helpers.
+ *
+ * The active document is kept flattened into EditorState's top-level fields;
+ * `captureDocument` folds those back into its tab entry and `activateDocument`
+ * spreads another entry out again.
+ */
+
+import type { EditorConfig, EditorDocument, EditorState, UIState } from '@/store/types';
+import { getEditorId } from './editorIds';
+
+export const UNTITLED_DOCUMENT_NAME = 'Untitled';
+
+type DocumentFields = Pick<EditorState, 'config' | 'history' | 'historyIndex' | 'ui'>;
+
+export function createDocument(id: string, name: string, config: EditorConfig): EditorDocument {
+  const firstId = config.emitters.length > 0 ? getEditorId(config.emitters[0]) || null : null;
+  return {
+    id,
+    name,
+    config,
+    history: [],
+    historyIndex: -1,
+    selection: {
+      selectedEmitterId: firstId,
+      selectedEmitterIds: firstId !== null ? [firstId] : [],
+      selectedBehaviorId: null,
+    },
+    hiddenEmitterIds: new Set<string>(),
+    lockedEmitterIds: new Set<string>(),
+    soloMode: false,
+    hasUnsavedChanges: false,
+  };
+}
+
+/** `document` with the live state of the active document folded in. */
+export function captureDocument(document: EditorDocument, state: DocumentFields): EditorDocument {
+  return {
+    ...document,
+    config: state.config,
+    history: state.history,
+    historyIndex: state.historyIndex,
+    selection: {
+      selectedEmitterId: state.ui.selectedEmitterId,
+      selectedEmitterIds: state.ui.selectedEmitterIds,
+      selectedBehaviorId: state.ui.selectedBehaviorId,
+    },
+    hiddenEmitterIds: state.ui.hiddenEmitterIds,
+    lockedEmitterIds: state.ui.lockedEmitterIds,
+    soloMode: state.ui.soloMode,
+    hasUnsavedChanges: state.ui.hasUnsavedChanges,
+  };
+}
+
+/** Top-level state for `document` becoming the active one. */
+export function activateDocument(
+  document: EditorDocument,
+  ui: UIState,
+): Pick<EditorState, 'activeDocumentId' | 'config' | 'history' | 'historyIndex' | 'ui'> {
+  return {
+    activeDocumentId: document.id,
+    config: document.config,
+    history: document.history,
+    historyIndex: document.historyIndex,
+    ui: {
+      ...ui,
+      ...document.selection,
+      hiddenEmitterIds: document.hiddenEmitterIds,
+      lockedEmitterIds: document.lockedEmitterIds,
+      soloMode: document.soloMode,
+      hasUnsavedChanges: document.hasUnsavedChanges,
+      fieldFocusRequest: null,
+    },
+  };
+}
+
+/** A blank document nobody has touched, which opening something may replace. */
+export function isPristineDocument(document: EditorDocument): boolean {
+  return (
+    document.config.emitters.length === 0 &&
+    document.history.length === 0 &&
+    !document.hasUnsavedChanges
+  );
+}
+
+/** `name`, or `name 2`, `name 3`… if another tab already uses it. */
+export function getUniqueDocumentName(documents: EditorDocument[], name: string): string {
+  const base = name.trim() || UNTITLED_DOCUMENT_NAME;
+  const taken = new Set(documents.map((d) => d.name));
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base} ${n}`)) n++;
+  return `${base} ${n}`;
+}
+
+/** Tab name for an imported file: the file name without its extension. */
+export function getDocumentNameFromFile(fileName: string): string {
+  return fileName.replace(/\.[^./\\]+$/, '');
+}
+
+/** The tab to activate after closing `id`: its right neighbour, else its left; null if none. */
+export function getNextActiveDocumentId(documents: EditorDocument[], id: string): string | null {
+  const index = documents.findIndex((d) => d.id === id);
+  if (index < 0) return null;
+  const next = documents[index + 1] ?? documents[index - 1];
+  return next ? next.id : null;
+}
@@ -0,0 +1,83 @@
+/**
+ * Editor-side identity for emitters and behaviors.
+ *
+ * Every emitter and behavior in the store carries an `editorId` so
+ * selection, visibility, history and actions survive reordering. The id is
+ * editor-only: it's stripped before YAML export and the clipboard, and
+ * reassigned to anything that enters the store without one.
+ */
+
+import type { BehaviorConfig, EmitterConfig } from '@eonwetheherald/swizzle';
+import type { EditorConfig } from '@/store/types';
+import { generateId } from '@/lib/utils';
+
+export const EDITOR_ID_KEY = 'editorId';
+
+type Identified = { [EDITOR_ID_KEY]?: unknown };
+
+/** The item's editor id, or '' if it hasn't been given one. */
+export function getEditorId(item: EmitterConfig | BehaviorConfig | null | undefined): string {
+  const id = (item as Identified | null | undefined)?.[EDITOR_ID_KEY];
+  return typeof id === 'string' ? id : '';
+}
+
+export function withBehaviorId(behavior: BehaviorConfig, fresh = false): BehaviorConfig {
+  if (!fresh && getEditorId(behavior)) return behavior;
+  return { ...behavior, [EDITOR_ID_KEY]: generateId() } as BehaviorConfig;
+}
+
+/**
+ * `emitter` with ids on itself and its behaviors. Returns the same object
+ * when nothing was missing; `fresh` replaces every id (copies).
+ */
+export function withEmitterIds(emitter: EmitterConfig, fresh = false): EmitterConfig {
+  const behaviors: BehaviorConfig[] | undefined = emitter.particle?.behaviors;
+  const nextBehaviors = behaviors?.map((b) => withBehaviorId(b, fresh));
+  const behaviorsChanged = !!nextBehaviors && nextBehaviors.some((b, i) => b !== behaviors?.[i]);
+  if (!fresh && getEditorId(emitter) && !behaviorsChanged) return emitter;
+
+  return {
+    ...emitter,
+    [EDITOR_ID_KEY]: !fresh && getEditorId(emitter) ? getEditorId(emitter) : generateId(),
+    ...(behaviorsChanged && { particle: { ...emitter.particle, behaviors: nextBehaviors } }),
+  } as EmitterConfig;
+}
+
+/** `config` with ids on every emitter and behavior; the same object if none were missing. */
+export function withConfigIds(config: EditorConfig): EditorConfig {
+  const emitters = config.emitters.map((e) => withEmitterIds(e));
+  return emitters.some((e, i) => e !== config.emitters[i]) ? { ...config, emitters } : config;
+}
+
+function withoutId<T>(item: T): T {
+  if (!item || typeof item !== 'object' || !(EDITOR_ID_KEY in item)) return item;
+  const copy = { ...item } as Identified;
+  delete copy[EDITOR_ID_KEY];
+  return copy as T;
+}
+
+export function stripBehaviorId(behavior: BehaviorConfig): BehaviorConfig {
+  return withoutId(behavior);
+}
+
+/** `emitter` and its behaviors without editor ids, for export. */
+export function stripEmitterIds(emitter: EmitterConfig): EmitterConfig {
+  const stripped = withoutId(emitter);
+  const behaviors: BehaviorConfig[] | undefined = stripped.particle?.behaviors;
+  if (!behaviors?.some((b) => getEditorId(b))) return stripped;
+  return { ...stripped, particle: { ...stripped.particle, behaviors: behaviors.map(stripBehaviorId) } };
+}
+
+export function findEmitterIndex(emitters: EmitterConfig[], id: string | null): number {
+  return id ? emitters.findIndex((e) => getEditorId(e) === id) : -1;
+}
+
+export function findEmitter(emitters: EmitterConfig[], id: string | null): EmitterConfig | null {
+  const index = findEmitterIndex(emitters, id);
+  return index >= 0 ? emitters[index] : null;
+}
+
+export function findBehaviorIndex(emitter: EmitterConfig | null | undefined, id: string | null): number {
+  const behaviors: BehaviorConfig[] = emitter?.particle?.behaviors ?? [];
+  return id ? behaviors.findIndex((b) => getEditorId(b) === id) : -1;
+}
@@ -0,0 +1,302 @@
+/**
+ * Transform gizmo geometry for the selected emitter
+ *
+ * Pure functions that describe the draggable handles for each emitter type
+ * and translate a handle drag into a `Partial<EmitterConfig>` update. The
+ * preview overlay draws the handles; pointer handling lives in
+ * `useGizmoInteraction`.
+ *
+ * Coordinate model (matches `recentreEmittersOnResize`):
+ *   • line `start` / `end` and path waypoints are absolute
+ *   • polygon `vertices` are relative to `position`
+ *   • area rectangles are centred on `position`
+ */
+
+import type { EmitterConfig } from '@eonwetheherald/swizzle';
+import { asEmitterData } from '@/types/emitterTypes';
+import type { Vec2 } from './camera';
+
+export type GizmoHandleKind =
+  | 'position'
+  | 'radius'
+  | 'innerRadius'
+  | 'corner'
+  | 'lineStart'
+  | 'lineEnd'
+  | 'vertex'
+  | 'insert';
+
+export interface GizmoHandle {
+  /** Stable id within one emitter, e.g. `vertex:2`. */
+  id: string;
+  kind: GizmoHandleKind;
+  /** Corner / vertex / segment index for indexed handle kinds. */
+  index: number;
+  /** World-space position of the handle. */
+  position: Vec2;
+}
+
+/** Minimum number of points kept when deleting polygon / path vertices. */
+const MIN_POLYGON_VERTICES = 3;
+const MIN_PATH_POINTS = 2;
+
+// Area corners clockwise from top-left, as multiples of the half extents.
+const AREA_CORNERS: ReadonlyArray<Vec2> = [
+  { x: -1, y: -1 },
+  { x: 1, y: -1 },
+  { x: 1, y: 1 },
+  { x: -1, y: 1 },
+];
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function roundPoint(p: Vec2): Vec2 {
+  return { x: round(p.x), y: round(p.y) };
+}
+
+function distance(a: Vec2, b: Vec2): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function midpoint(a: Vec2, b: Vec2): Vec2 {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+function handle(kind: GizmoHandleKind, position: Vec2, index = 0): GizmoHandle {
+  return { id: `${kind}:${index}`, kind, index, position };
+}
+
+/** Waypoints of a path emitter, preferring the canonical `path` field. */
+function getPathPoints(emitter: EmitterConfig): { field: 'path' | 'points'; points: Vec2[] } {
+  const data = asEmitterData(emitter, 'path');
+  if (Array.isArray(data.path)) return { field: 'path', points: data.path };
+  const legacy = (emitter as EmitterConfig & { points?: Vec2[] }).points;
+  if (Array.isArray(legacy)) return { field: 'points', points: legacy };
+  return { field: 'path', points: [] };
+}
+
+function getAreaCorner(emitter: EmitterConfig, index: number): Vec2 {
+  const data = asEmitterData(emitter, 'area');
+  const corner = AREA_CORNERS[index];
+  return {
+    x: emitter.position.x + corner.x * ((data.width ?? 0) / 2),
+    y: emitter.position.y + corner.y * ((data.height ?? 0) / 2),
+  };
+}
+
+/**
+ * Handles for `emitter` in world space.
+ *
+ * `minOffset` (world units) keeps the inner-radius handle clear of the
+ * position handle when the inner radius is 0 — pass the hit radius divided by
+ * the camera zoom.
+ */
+export function getGizmoHandles(emitter: EmitterConfig, minOffset = 0): GizmoHandle[] {
+  const { x, y } = emitter.position;
+  const handles: GizmoHandle[] = [];
+
+  switch (emitter.type) {
+    case 'circle': {
+      const data = asEmitterData(emitter, 'circle');
+      const radius = data.radius ?? 0;
+      const inner = Math.max(data.innerRadius ?? 0, minOffset);
+      handles.push(handle('radius', { x: x + radius, y }));
+      handles.push(handle('innerRadius', { x: x - inner, y }));
+      break;
+    }
+    case 'area':
+      AREA_CORNERS.forEach((_corner, i) => handles.push(handle('corner', getAreaCorner(emitter, i), i)));
+      break;
+    case 'line': {
+      const data = asEmitterData(emitter, 'line');
+      if (data.start) handles.push(handle('lineStart', data.start));
+      if (data.end) handles.push(handle('lineEnd', data.end));
+      break;
+    }
+    case 'polygon': {
+      const vertices = asEmitterData(emitter, 'polygon').vertices ?? [];
+      const absolute = vertices.map((v) => ({ x: x + v.x, y: y + v.y }));
+      absolute.forEach((p, i) => {
+        handles.push(handle('insert', midpoint(p, absolute[(i + 1) % absolute.length]), i));
+      });
+      absolute.forEach((p, i) => handles.push(handle('vertex', p, i)));
+      break;
+    }
+    case 'path': {
+      const { points } = getPathPoints(emitter);
+      for (let i = 0; i < points.length - 1; i++) {
+        handles.push(handle('insert', midpoint(points[i], points[i + 1]), i));
+      }
+      points.forEach((p, i) => handles.push(handle('vertex', p, i)));
+      break;
+    }
+  }
+
+  handles.push(handle('position', { x, y }));
+  return handles;
+}
+
+/**
+ * Update produced by dragging `target` so that the point grabbed at
+ * `grabWorld` now sits under `pointerWorld`.
+ *
+ * Always computed from the emitter as it was when the drag started, so the
+ * result never accumulates rounding error across pointer moves.
+ */
+export function dragGizmoHandle(
+  emitter: EmitterConfig,
+  target: GizmoHandle,
+  pointerWorld: Vec2,
+  grabWorld: Vec2,
+  minOffset = 0,
+): Partial<EmitterConfig> {
+  const to = {
+    x: target.position.x + (pointerWorld.x - grabWorld.x),
+    y: target.position.y + (pointerWorld.y - grabWorld.y),
+  };
+  const centre = emitter.position;
+
+  switch (target.kind) {
+    case 'position': {
+      const dx = to.x - centre.x;
+      const dy = to.y - centre.y;
+      const shift = (p: Vec2) => roundPoint({ x: p.x + dx, y: p.y + dy });
+      const updates: Record<string, unknown> = { position: roundPoint(to) };
+
+      // Absolute-coordinate shapes move with the emitter.
+      if (emitter.type === 'line') {
+        const data = asEmitterData(emitter, 'line');
+        if (data.start) updates.start = shift(data.start);
+        if (data.end) updates.end = shift(data.end);
+      } else if (emitter.type === 'path') {
+        const { field, points } = getPathPoints(emitter);
+        updates[field] = points.map(shift);
+      }
+      return updates as Partial<EmitterConfig>;
+    }
+
+    case 'radius': {
+      const data = asEmitterData(emitter, 'circle');
+      const radius = Math.max(1, round(distance(to, centre)));
+      const inner = data.innerRadius ?? 0;
+      return (inner > radius ? { radius, innerRadius: radius } : { radius }) as Partial<EmitterConfig>;
+    }
+
+    case 'innerRadius': {
+      const data = asEmitterData(emitter, 'circle');
+      const d = distance(to, centre);
+      // Inside the snap zone around the centre handle the ring collapses to 0.
+      const innerRadius = d <= minOffset ? 0 : Math.min(round(d), data.radius ?? d);
+      return { innerRadius } as Partial<EmitterConfig>;
+    }
+
+    case 'corner': {
+      const opposite = getAreaCorner(emitter, (target.index + 2) % 4);
+      return {
+        position: roundPoint(midpoint(to, opposite)),
+        width: Math.max(1, round(Math.abs(to.x - opposite.x))),
+        height: Math.max(1, round(Math.abs(to.y - opposite.y))),
+      } as Partial<EmitterConfig>;
+    }
+
+    case 'lineStart':
+      return { start: roundPoint(to) } as Partial<EmitterConfig>;
+
+    case 'lineEnd':
+      return { end: roundPoint(to) } as Partial<EmitterConfig>;
+
+    case 'vertex': {
+      if (emitter.type === 'polygon') {
+        const vertices = [...(asEmitterData(emitter, 'polygon').vertices ?? [])];
+        vertices[target.index] = roundPoint({ x: to.x - centre.x, y: to.y - centre.y });
+        return { vertices } as Partial<EmitterConfig>;
+      }
+      const { field, points } = getPathPoints(emitter);
+      const next = [...points];
+      next[target.index] = roundPoint(to);
+      return { [field]: next } as Partial<EmitterConfig>;
+    }
+
+    case 'insert':
+      // Insert handles become vertices on pointer-down (see insertGizmoVertex).
+      return {};
+  }
+}
+
+/**
+ * Insert a vertex after `segmentIndex` at `world`. Returns the update and the
+ * index of the new vertex so the caller can continue dragging it.
+ */
+export function insertGizmoVertex(
+  emitter: EmitterConfig,
+  segmentIndex: number,
+  world: Vec2,
+): { updates: Partial<EmitterConfig>; vertexIndex: number } | null {
+  const vertexIndex = segmentIndex + 1;
+
+  if (emitter.type === 'polygon') {
+    const vertices = [...(asEmitterData(emitter, 'polygon').vertices ?? [])];
+    vertices.splice(vertexIndex, 0, roundPoint({
+      x: world.x - emitter.position.x,
+      y: world.y - emitter.position.y,
+    }));
+    return { updates: { vertices } as Partial<EmitterConfig>, vertexIndex };
+  }
+
+  if (emitter.type === 'path') {
+    const { field, points } = getPathPoints(emitter);
+    const next = [...points];
+    next.splice(vertexIndex, 0, roundPoint(world));
+    return { updates: { [field]: next } as Partial<EmitterConfig>, vertexIndex };
+  }
+
+  return null;
+}
+
+/**
+ * Remove vertex `index`, or return null when the shape is already at its
+ * minimum vertex count (3 for polygons, 2 for paths).
+ */
+export function deleteGizmoVertex(
+  emitter: EmitterConfig,
+  index: number,
+): Partial<EmitterConfig> | null {
+  if (emitter.type === 'polygon') {
+    const vertices = asEmitterData(emitter, 'polygon').vertices ?? [];
+    if (vertices.length <= MIN_POLYGON_VERTICES) return null;
+    return { vertices: vertices.filter((_v, i) => i !== index) } as Partial<EmitterConfig>;
+  }
+
+  if (emitter.type === 'path') {
+    const { field, points } = getPathPoints(emitter);
+    if (points.length <= MIN_PATH_POINTS) return null;
+    return { [field]: points.filter((_p, i) => i !== index) } as Partial<EmitterConfig>;
+  }
+
+  return null;
+}
+
+/**
+ * Closest handle within `hitRadius` screen pixels of `screenPoint`, given a
+ * world→screen projection.
+ */
+export function hitTestGizmoHandles(
+  handles: GizmoHandle[],
+  screenPoint: Vec2,
+  project: (world: Vec2) => Vec2,
+  hitRadius: number,
+): GizmoHandle | null {
+  let best: GizmoHandle | null = null;
+  let bestDistance = hitRadius;
+  for (const h of handles) {
+    const d = distance(project(h.position), screenPoint);
+    // `<=` lets later (higher-priority) handles win exact ties.
+    if (d <= bestDistance) {
+      best = h;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,284 @@
+/**
+ * Flipbook baking: packs captured frames into one spritesheet PNG plus a
+ * TexturePacker "JSON (Hash)" atlas, zipped together.
+ *
+ * Frames come from the same off-screen capture loop as recordings (see
+ * utils/capture), always on a transparent background. Packing and the atlas
+ * are pure so they can be tested without a canvas.
+ */
+
+import JSZip from 'jszip';
+import { canvasToPng, createFrameCanvas, drawFrame } from './capture';
+import type { CaptureEncoder, CaptureJob } from './capture';
+import { timeToFrame } from './timeline';
+
+export interface FlipbookSettings {
+  frameCount: number;
+  /** Seconds of simulation spread evenly over the frames. */
+  duration: number;
+  cellWidth: number;
+  cellHeight: number;
+  /** Crop each frame to its non-transparent pixels. */
+  trim: boolean;
+  premultipliedAlpha: boolean;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface PackedSheet {
+  /** Top-left of each input size, in input order. */
+  positions: Array<{ x: number; y: number }>;
+  width: number;
+  height: number;
+}
+
+export interface FlipbookFrame {
+  name: string;
+  /** Where the frame sits in the sheet. */
+  frame: Rect;
+  /** Where the trimmed pixels sat in the original cell. */
+  sourceRect: Rect;
+  trimmed: boolean;
+}
+
+export const MIN_FLIPBOOK_FRAMES = 1;
+export const MAX_FLIPBOOK_FRAMES = 256;
+export const MIN_FLIPBOOK_CELL = 8;
+export const MAX_FLIPBOOK_CELL = 1024;
+export const MIN_FLIPBOOK_DURATION = 0.1;
+export const MAX_FLIPBOOK_DURATION = 30;
+/** Largest sheet most GPUs accept. */
+export const MAX_SHEET_SIZE = 8192;
+/** Transparent gap between frames so filtering doesn't bleed neighbours in. */
+export const SHEET_PADDING = 2;
+
+const SHEET_IMAGE_NAME = 'particle-effect.png';
+const SHEET_ATLAS_NAME = 'particle-effect.json';
+const ANIMATION_NAME = 'effect';
+
+function clamp(value: number, min: number, max: number, fallback: number): number {
+  if (!Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, value));
+}
+
+function clampInt(value: number, min: number, max: number, fallback: number): number {
+  return Math.round(clamp(value, min, max, fallback));
+}
+
+export function normalizeFlipbookSettings(settings: FlipbookSettings): FlipbookSettings {
+  return {
+    frameCount: clampInt(settings.frameCount, MIN_FLIPBOOK_FRAMES, MAX_FLIPBOOK_FRAMES, 16),
+    duration: clamp(settings.duration, MIN_FLIPBOOK_DURATION, MAX_FLIPBOOK_DURATION, 1),
+    cellWidth: clampInt(settings.cellWidth, MIN_FLIPBOOK_CELL, MAX_FLIPBOOK_CELL, 128),
+    cellHeight: clampInt(settings.cellHeight, MIN_FLIPBOOK_CELL, MAX_FLIPBOOK_CELL, 128),
+    trim: settings.trim,
+    premultipliedAlpha: settings.premultipliedAlpha,
+  };
+}
+
+/** Simulation frame for flipbook frame `index`, spread evenly over `duration`. */
+export function getFlipbookSimFrame(index: number, settings: FlipbookSettings): number {
+  return timeToFrame((index * settings.duration) / settings.frameCount);
+}
+
+export function getFlipbookFrameName(index: number): string {
+  return `${ANIMATION_NAME}_${String(index).padStart(4, '0')}`;
+}
+
+/** Bounding box of pixels with any alpha, or null for a fully clear frame. */
+export function findOpaqueBounds(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+): Rect | null {
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+}
+
+/** Multiply colour by alpha in place. */
+export function premultiplyAlpha(data: Uint8ClampedArray): void {
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    data[i] = Math.round(data[i] * alpha);
+    data[i + 1] = Math.round(data[i + 1] * alpha);
+    data[i + 2] = Math.round(data[i + 2] * alpha);
+  }
+}
+
+/**
+ * Shelf-pack `sizes` in order: left to right, wrapping to a new row at
+ * `maxWidth`. Frame order is kept so the sheet reads like the animation.
+ */
+export function packShelves(
+  sizes: Array<{ w: number; h: number }>,
+  maxWidth: number,
+  padding = SHEET_PADDING,
+): PackedSheet {
+  const positions: PackedSheet['positions'] = [];
+  let x = 0;
+  let y = 0;
+  let rowHeight = 0;
+  let width = 0;
+
+  for (const size of sizes) {
+    if (x > 0 && x + size.w > maxWidth) {
+      x = 0;
+      y += rowHeight + padding;
+      rowHeight = 0;
+    }
+    positions.push({ x, y });
+    x += size.w + padding;
+    rowHeight = Math.max(rowHeight, size.h);
+    width = Math.max(width, x - padding);
+  }
+
+  return { positions, width: Math.max(1, width), height: Math.max(1, y + rowHeight) };
+}
+
+/** Roughly square sheet: as many cells per row as there are rows. */
+export function getSheetRowWidth(settings: FlipbookSettings): number {
+  const columns = Math.ceil(Math.sqrt(settings.frameCount));
+  return columns * (settings.cellWidth + SHEET_PADDING) - SHEET_PADDING;
+}
+
+/** Sheet size without trimming — the largest the bake can produce. */
+export function estimateSheetSize(settings: FlipbookSettings): { width: number; height: number } {
+  const columns = Math.ceil(Math.sqrt(settings.frameCount));
+  const rows = Math.ceil(settings.frameCount / columns);
+  return {
+    width: getSheetRowWidth(settings),
+    height: rows * (settings.cellHeight + SHEET_PADDING) - SHEET_PADDING,
+  };
+}
+
+export function buildTexturePackerAtlas(
+  frames: FlipbookFrame[],
+  sheet: { width: number; height: number },
+  settings: FlipbookSettings,
+  imageName = SHEET_IMAGE_NAME,
+): Record<string, unknown> {
+  return {
+    frames: Object.fromEntries(
+      frames.map((f) => [
+        f.name,
+        {
+          frame: f.frame,
+          rotated: false,
+          trimmed: f.trimmed,
+          spriteSourceSize: f.sourceRect,
+          sourceSize: { w: settings.cellWidth, h: settings.cellHeight },
+          pivot: { x: 0.5, y: 0.5 },
+        },
+      ]),
+    ),
+    animations: { [ANIMATION_NAME]: frames.map((f) => f.name) },
+    meta: {
+      app: 'Swizzle Particle Editor',
+      version: '1.0',
+      image: imageName,
+      format: 'RGBA8888',
+      size: { w: sheet.width, h: sheet.height },
+      scale: '1',
+      premultiplyAlpha: settings.premultipliedAlpha,
+      frameRate: Math.round((settings.frameCount / settings.duration) * 100) / 100,
+    },
+  };
+}
+
+interface BakedFrame {
+  image: ImageData;
+  sourceRect: Rect;
+  trimmed: boolean;
+}
+
+function createFlipbookEncoder(settings: FlipbookSettings): CaptureEncoder {
+  const { context } = createFrameCanvas(settings.cellWidth, settings.cellHeight, true);
+  const baked: BakedFrame[] = [];
+  const full: Rect = { x: 0, y: 0, w: settings.cellWidth, h: settings.cellHeight };
+
+  return {
+    addFrame(frame) {
+      drawFrame(context, frame);
+      const cell = context.getImageData(0, 0, settings.cellWidth, settings.cellHeight);
+      let sourceRect = full;
+      if (settings.trim) {
+        // An empty frame still needs a 1×1 entry so the animation keeps its length.
+        sourceRect = findOpaqueBounds(cell.data, cell.width, cell.height) ?? {
+          x: 0,
+          y: 0,
+          w: 1,
+          h: 1,
+        };
+      }
+      const trimmed = sourceRect.w !== full.w || sourceRect.h !== full.h;
+      const image = trimmed
+        ? context.getImageData(sourceRect.x, sourceRect.y, sourceRect.w, sourceRect.h)
+        : cell;
+      if (settings.premultipliedAlpha) premultiplyAlpha(image.data);
+      baked.push({ image, sourceRect, trimmed });
+      return Promise.resolve();
+    },
+
+    async finish() {
+      const sheet = packShelves(
+        baked.map(({ image }) => ({ w: image.width, h: image.height })),
+        getSheetRowWidth(settings),
+      );
+      if (sheet.width > MAX_SHEET_SIZE || sheet.height > MAX_SHEET_SIZE) {
+        throw new Error(
+          `Spritesheet would be ${sheet.width}×${sheet.height}px; use fewer frames or smaller cells`,
+        );
+      }
+
+      const { canvas, context: sheetContext } = createFrameCanvas(sheet.width, sheet.height);
+      const frames: FlipbookFrame[] = baked.map(({ image, sourceRect, trimmed }, index) => {
+        const { x, y } = sheet.positions[index];
+        // putImageData writes the values as-is, so premultiplied colour
+        // survives into the PNG.
+        sheetContext.putImageData(image, x, y);
+        return {
+          name: getFlipbookFrameName(index),
+          frame: { x, y, w: image.width, h: image.height },
+          sourceRect,
+          trimmed,
+        };
+      });
+
+      const atlas = buildTexturePackerAtlas(frames, sheet, settings);
+      const zip = new JSZip();
+      zip.file(SHEET_IMAGE_NAME, await canvasToPng(canvas));
+      zip.file(SHEET_ATLAS_NAME, JSON.stringify(atlas, null, 2));
+      return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+    },
+  };
+}
+
+export function createFlipbookJob(settings: FlipbookSettings): CaptureJob {
+  return {
+    width: settings.cellWidth,
+    height: settings.cellHeight,
+    transparent: true,
+    frameCount: settings.frameCount,
+    simFrame: (index) => getFlipbookSimFrame(index, settings),
+    createEncoder: () => createFlipbookEncoder(settings),
+    fileName: 'particle-effect-flipbook.zip',
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Grid geometry for the preview canvas overlay.
+ *
+ * Pure functions only — the Pixi drawing lives in `components/preview`.
+ * Lines are expressed in game-space coordinates and always aligned to
+ * multiples of the grid size, so the origin (0, 0) sits on a major line.
+ */
+
+/** Every Nth grid line is drawn as a major line. */
+export const GRID_MAJOR_EVERY = 5;
+
+/** Hard cap on lines per axis — protects the renderer from degenerate sizes. */
+const MAX_LINES_PER_AXIS = 1000;
+
+/** Minor lines closer together than this (in screen pixels) are skipped. */
+const MIN_SCREEN_SPACING = 6;
+
+export interface GridLine {
+  /** Game-space coordinate of the line along its axis. */
+  position: number;
+  /** True when the line falls on a multiple of `spacing * majorEvery`. */
+  major: boolean;
+}
+
+/**
+ * Compute the grid lines covering the inclusive range [min, max].
+ *
+ * Returns an empty array for non-positive / non-finite spacings or when the
+ * range would need more than MAX_LINES_PER_AXIS lines.
+ */
+export function computeGridLines(
+  min: number,
+  max: number,
+  spacing: number,
+  majorEvery: number = GRID_MAJOR_EVERY,
+): GridLine[] {
+  if (!Number.isFinite(spacing) || spacing <= 0) return [];
+  if (!Number.isFinite(min) || !Number.isFinite(max) || max < min) return [];
+
+  const first = Math.ceil(min / spacing);
+  const last = Math.floor(max / spacing);
+  if (last - first + 1 > MAX_LINES_PER_AXIS) return [];
+
+  const lines: GridLine[] = [];
+  for (let i = first; i <= last; i++) {
+    lines.push({
+      position: i * spacing,
+      major: majorEvery > 0 && i % majorEvery === 0,
+    });
+  }
+  return lines;
+}
+
+/**
+ * Coarsen the grid spacing when zoomed out so minor lines never crowd
+ * together: the spacing grows by GRID_MAJOR_EVERY until it spans at least
+ * MIN_SCREEN_SPACING pixels on screen. Zooming in never subdivides.
+ */
+export function adaptGridSpacing(gridSize: number, zoom: number): number {
+  if (!Number.isFinite(gridSize) || gridSize <= 0) return gridSize;
+  if (!Number.isFinite(zoom) || zoom <= 0) return gridSize;
+
+  let spacing = gridSize;
+  while (spacing * zoom < MIN_SCREEN_SPACING) {
+    spacing *= GRID_MAJOR_EVERY;
+  }
+  return spacing;
+}
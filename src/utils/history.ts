@@ -0,0 +1,87 @@
+/**
+ * Undo history helpers: entry labels, coalescing and the size cap.
+ *
+ * `history[k]` is the state before action k. While nothing is undone the
+ * live state is the only one after the last action; undoing appends it as a
+ * trailing "current" entry so it can be redone (see editorStore).
+ */
+
+import type { HistoryEntry } from '@/store/types';
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+export const HISTORY_LIMIT_OPTIONS = [25, 50, 100, 250, 500];
+
+/** Rough memory allowance for one document's undo history, in bytes. */
+export const HISTORY_MEMORY_BUDGET = 64 * 1024 * 1024;
+
+/** Edits with the same coalesce key this close together share one entry. */
+export const HISTORY_COALESCE_MS = 1000;
+
+/** "Change Fade endAlpha": what changed, from the keys of an update. */
+export function describeChange(subject: string, updates: object): string {
+  return ['Change', subject, Object.keys(updates).join(', ')].filter(Boolean).join(' ');
+}
+
+/** "Change lifetime on 3 layers": one field edited across the selected layers. */
+export function describeBulkChange(field: string, layerCount: number): string {
+  const name = field.split('.').pop();
+  return layerCount === 1 ? `Change ${name}` : `Change ${name} on ${layerCount} layers`;
+}
+
+/** Coalesce key for a bulk edit, so repeated edits of one field on the same layers share an entry. */
+export function getBulkEditKey(ids: string[], field: string): string {
+  return `bulk:${ids.join(',')}:${field}`;
+}
+
+/** Whether an edit keyed `coalesceKey` at `now` folds into `last`, the newest entry. */
+export function canCoalesce(last: HistoryEntry | undefined, coalesceKey: string | undefined, now: number): boolean {
+  return (
+    coalesceKey !== undefined &&
+    last?.coalesceKey === coalesceKey &&
+    now - last.timestamp < HISTORY_COALESCE_MS
+  );
+}
+
+/** Number of recorded actions, whether or not some are undone. */
+export function getHistoryActionCount(history: HistoryEntry[], historyIndex: number): number {
+  return historyIndex === history.length - 1 ? history.length : history.length - 1;
+}
+
+const entrySizes = new WeakMap<HistoryEntry, number>();
+
+/** Approximate memory held by an entry's config snapshot, in bytes. */
+export function estimateEntrySize(entry: HistoryEntry): number {
+  let size = entrySizes.get(entry);
+  if (size === undefined) {
+    // Two bytes per UTF-16 character of the serialized config.
+    size = JSON.stringify(entry.config).length * 2;
+    entrySizes.set(entry, size);
+  }
+  return size;
+}
+
+export function estimateHistorySize(history: HistoryEntry[]): number {
+  return history.reduce((total, entry) => total + estimateEntrySize(entry), 0);
+}
+
+/**
+ * Drop the oldest entries until there are at most `limit` and they fit in
+ * `budget` bytes. The entry the current state was reached from is kept, so
+ * one undo step always survives.
+ */
+export function trimHistory(
+  history: HistoryEntry[],
+  historyIndex: number,
+  limit: number,
+  budget = HISTORY_MEMORY_BUDGET,
+): { history: HistoryEntry[]; historyIndex: number } {
+  const maxDrop = Math.max(historyIndex, 0);
+  let size = estimateHistorySize(history);
+  let drop = 0;
+  while (drop < maxDrop && (history.length - drop > limit || size > budget)) {
+    size -= estimateEntrySize(history[drop]);
+    drop++;
+  }
+  if (drop === 0) return { history, historyIndex };
+  return { history: history.slice(drop), historyIndex: historyIndex - drop };
+}
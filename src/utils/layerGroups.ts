@@ -0,0 +1,233 @@
+/**
+ * Layer groups: named, collapsible runs of adjacent layers.
+ *
+ * Groups are editor-only. Members keep their own (untransformed)
+ * coordinates; a group's transform is applied on top of them for the
+ * preview, the gizmos and export, where it's baked into each member's
+ * position and shape. Coordinate conventions match `emitterGizmos`:
+ *   • line `start` / `end` and path waypoints are absolute
+ *   • polygon `vertices` are relative to `position`
+ *   • area and circle sizes scale; area rectangles stay axis-aligned
+ */
+
+import type { EmitterConfig } from '@eonwetheherald/swizzle';
+import type { EditorConfig, GroupTransform, LayerGroup } from '@/store/types';
+import type { Vec2 } from './camera';
+import { getEditorId } from './editorIds';
+
+export const DEFAULT_GROUP_NAME = 'Group';
+
+/** Point fields per emitter type that are absolute and move like `position`. */
+const ABSOLUTE_POINT_FIELDS: Record<string, string[]> = {
+  line: ['start', 'end'],
+  path: ['path', 'points'],
+};
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isVec2(value: unknown): value is Vec2 {
+  return typeof value === 'object' && value !== null && 'x' in value && 'y' in value;
+}
+
+export function createGroup(id: string, name: string, members: EmitterConfig[]): LayerGroup {
+  const positions = members.map((e) => e.position).filter(isVec2);
+  const centre = (axis: 'x' | 'y') =>
+    positions.length > 0 ? round(positions.reduce((sum, p) => sum + p[axis], 0) / positions.length) : 0;
+  return {
+    id,
+    name,
+    emitterIds: members.map(getEditorId),
+    collapsed: false,
+    transform: { offset: { x: 0, y: 0 }, rotation: 0, scale: 1, pivot: { x: centre('x'), y: centre('y') } },
+  };
+}
+
+/** `Group 1`, `Group 2`… — the first number no group uses yet. */
+export function getNextGroupName(groups: LayerGroup[]): string {
+  const taken = new Set(groups.map((g) => g.name));
+  let n = 1;
+  while (taken.has(`${DEFAULT_GROUP_NAME} ${n}`)) n++;
+  return `${DEFAULT_GROUP_NAME} ${n}`;
+}
+
+export function getGroupOf(groups: LayerGroup[] | undefined, emitterId: string): LayerGroup | null {
+  return groups?.find((g) => g.emitterIds.includes(emitterId)) ?? null;
+}
+
+/** The group whose members are exactly `ids`, if any. */
+export function getSelectedGroup(groups: LayerGroup[] | undefined, ids: string[]): LayerGroup | null {
+  return (
+    groups?.find((g) => g.emitterIds.length === ids.length && g.emitterIds.every((id) => ids.includes(id))) ??
+    null
+  );
+}
+
+export function isIdentityTransform({ offset, rotation, scale }: GroupTransform): boolean {
+  return offset.x === 0 && offset.y === 0 && rotation === 0 && scale === 1;
+}
+
+/**
+ * `emitter` with the group transform applied, or removed again with
+ * `inverse`. Returns the same object for an identity transform.
+ */
+export function transformEmitter(emitter: EmitterConfig, transform: GroupTransform, inverse = false): EmitterConfig {
+  if (isIdentityTransform(transform)) return emitter;
+  const { offset, pivot } = transform;
+  const angle = ((inverse ? -transform.rotation : transform.rotation) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const scale = inverse ? 1 / transform.scale : transform.scale;
+
+  const rotateScale = (v: Vec2): Vec2 => ({
+    x: (v.x * cos - v.y * sin) * scale,
+    y: (v.x * sin + v.y * cos) * scale,
+  });
+  const mapPoint = (p: Vec2): Vec2 => {
+    const local = inverse
+      ? rotateScale({ x: p.x - offset.x - pivot.x, y: p.y - offset.y - pivot.y })
+      : rotateScale({ x: p.x - pivot.x, y: p.y - pivot.y });
+    const shift = inverse ? { x: 0, y: 0 } : offset;
+    return { x: round(pivot.x + shift.x + local.x), y: round(pivot.y + shift.y + local.y) };
+  };
+  const mapVector = (v: Vec2): Vec2 => {
+    const r = rotateScale(v);
+    return { x: round(r.x), y: round(r.y) };
+  };
+
+  const source = emitter as Record<string, unknown>;
+  const updated: Record<string, unknown> = { ...emitter };
+  if (isVec2(source.position)) updated.position = mapPoint(source.position);
+
+  for (const field of ABSOLUTE_POINT_FIELDS[emitter.type] ?? []) {
+    const value = source[field];
+    if (Array.isArray(value)) updated[field] = value.map((p) => (isVec2(p) ? mapPoint(p) : p));
+    else if (isVec2(value)) updated[field] = mapPoint(value);
+  }
+  if (emitter.type === 'polygon' && Array.isArray(source.vertices)) {
+    updated.vertices = source.vertices.map((v) => (isVec2(v) ? mapVector(v) : v));
+  }
+  for (const field of ['radius', 'innerRadius', 'width', 'height']) {
+    if (typeof source[field] === 'number') updated[field] = round(source[field] * scale);
+  }
+  return updated as EmitterConfig;
+}
+
+/**
+ * `config` with every group transform baked into its members; the same
+ * object when there is nothing to bake.
+ */
+export function bakeGroupTransforms(config: EditorConfig): EditorConfig {
+  const groups = config.groups?.filter((g) => !isIdentityTransform(g.transform)) ?? [];
+  if (groups.length === 0) return config;
+  const emitters = config.emitters.map((emitter) => {
+    const group = getGroupOf(groups, getEditorId(emitter));
+    return group ? transformEmitter(emitter, group.transform) : emitter;
+  });
+  return { ...config, emitters };
+}
+
+/** Where the member appears (preview / gizmo space); non-members as they are. */
+export function toWorldEmitter(groups: LayerGroup[] | undefined, emitter: EmitterConfig): EmitterConfig {
+  const group = getGroupOf(groups, getEditorId(emitter));
+  return group ? transformEmitter(emitter, group.transform) : emitter;
+}
+
+/** Inverse of `toWorldEmitter`, for writing a gizmo edit back. */
+export function toLocalEmitter(groups: LayerGroup[] | undefined, emitter: EmitterConfig): EmitterConfig {
+  const group = getGroupOf(groups, getEditorId(emitter));
+  return group ? transformEmitter(emitter, group.transform, true) : emitter;
+}
+
+/** Gizmo `updates` to `world` (a layer as rendered) in the layer's own coordinates. */
+export function toLocalUpdates(
+  groups: LayerGroup[] | undefined,
+  world: EmitterConfig,
+  updates: Partial<EmitterConfig>,
+): Partial<EmitterConfig> {
+  const local = toLocalEmitter(groups, { ...world, ...updates } as EmitterConfig) as Record<string, unknown>;
+  return Object.fromEntries(Object.keys(updates).map((key) => [key, local[key]])) as Partial<EmitterConfig>;
+}
+
+/** Groups without layers that no longer exist, members in layer order, empty groups dropped. */
+export function normalizeGroups(emitters: EmitterConfig[], groups: LayerGroup[] | undefined): LayerGroup[] {
+  const order = emitters.map(getEditorId);
+  return (groups ?? [])
+    .map((group) => ({ ...group, emitterIds: order.filter((id) => group.emitterIds.includes(id)) }))
+    .filter((group) => group.emitterIds.length > 0);
+}
+
+/** Shift group pivots along with `recentreEmittersOnResize`. */
+export function recentreGroupsOnResize(
+  groups: LayerGroup[] | undefined,
+  oldWidth: number,
+  oldHeight: number,
+  newWidth: number,
+  newHeight: number,
+): LayerGroup[] | undefined {
+  const dx = newWidth / 2 - oldWidth / 2;
+  const dy = newHeight / 2 - oldHeight / 2;
+  if (!groups || (dx === 0 && dy === 0)) return groups;
+  return groups.map((group) => ({
+    ...group,
+    transform: {
+      ...group.transform,
+      pivot: { x: group.transform.pivot.x + dx, y: group.transform.pivot.y + dy },
+    },
+  }));
+}
+
+// ─── Layer list units ────────────────────────────────────────────────────────
+
+/** A top-level row of the layer list: a whole group, or an ungrouped layer. */
+export type LayerUnit =
+  | { kind: 'group'; group: LayerGroup; ids: string[] }
+  | { kind: 'layer'; ids: [string] };
+
+export function getLayerUnits(emitters: EmitterConfig[], groups: LayerGroup[] | undefined): LayerUnit[] {
+  const units: LayerUnit[] = [];
+  const listed = new Set<string>();
+  for (const emitter of emitters) {
+    const id = getEditorId(emitter);
+    const group = getGroupOf(groups, id);
+    if (!group) {
+      units.push({ kind: 'layer', ids: [id] });
+    } else if (!listed.has(group.id)) {
+      listed.add(group.id);
+      units.push({ kind: 'group', group, ids: normalizeGroups(emitters, [group])[0].emitterIds });
+    }
+  }
+  return units;
+}
+
+/**
+ * Translate a drop among top-level units (an index in the list without the
+ * dragged unit) into `moveEmitters`' index among the layers not moving.
+ */
+export function getUnitDropIndex(
+  units: LayerUnit[],
+  ids: string[],
+  draggedIndex: number,
+  destinationIndex: number,
+): number {
+  const moving = new Set(ids);
+  return units
+    .filter((_unit, i) => i !== draggedIndex)
+    .slice(0, destinationIndex)
+    .flatMap((unit) => unit.ids)
+    .filter((id) => !moving.has(id)).length;
+}
+
+/**
+ * Index among the layers not in `ids` at which a new block of `ids` keeps
+ * every group contiguous: just before the first unit holding one of them.
+ */
+export function getGroupInsertIndex(units: LayerUnit[], ids: string[]): number {
+  const moving = new Set(ids);
+  const first = units.findIndex((unit) => unit.ids.some((id) => moving.has(id)));
+  return units
+    .slice(0, Math.max(0, first))
+    .flatMap((unit) => unit.ids)
+    .filter((id) => !moving.has(id)).length;
+}
@@ -0,0 +1,63 @@
+/**
+ * Access to the emitters inside a running particle system.
+ *
+ * The engine has no API for swapping one emitter of a live system, so the
+ * preview's hot patching and trigger firing go through these helpers
+ * instead of reaching into the system themselves. Like the profiler, they
+ * read the live objects defensively. An emitter that is swapped out is
+ * stopped and disposed, so its particles and display objects are released
+ * rather than left behind.
+ */
+
+/** The parts of a runtime emitter the preview drives directly. */
+export interface LiveEmitter {
+  start?: () => void;
+  stop?: () => void;
+  dispose?: () => void;
+  trigger?: () => void;
+  position?: { x: number; y: number };
+}
+
+/** The system's emitter list, or null when it doesn't have one. */
+function getEmitterList(system: unknown): LiveEmitter[] | null {
+  const emitters = (system as { emitters?: unknown } | null)?.emitters;
+  return Array.isArray(emitters) ? emitters : null;
+}
+
+export function getLiveEmitterCount(system: unknown): number | null {
+  return getEmitterList(system)?.length ?? null;
+}
+
+export function getLiveEmitter(system: unknown, index: number): LiveEmitter | null {
+  return getEmitterList(system)?.[index] ?? null;
+}
+
+/**
+ * Take every emitter out of `system`, e.g. a scratch system built just to
+ * load replacements, so disposing the system leaves them alone.
+ */
+export function detachLiveEmitters(system: unknown): LiveEmitter[] {
+  return getEmitterList(system)?.splice(0) ?? [];
+}
+
+/**
+ * Put `replacement` in the emitter's place at `index`, stopping and
+ * disposing the emitter it replaces. The replacement is started when
+ * `start` is set. Returns false when there is no emitter at `index`.
+ */
+export function replaceLiveEmitter(
+  system: unknown,
+  index: number,
+  replacement: LiveEmitter,
+  start: boolean,
+): boolean {
+  const emitters = getEmitterList(system);
+  if (!emitters || index < 0 || index >= emitters.length) return false;
+
+  const previous = emitters[index];
+  previous?.stop?.();
+  previous?.dispose?.();
+  emitters[index] = replacement;
+  if (start) replacement.start?.();
+  return true;
+}
@@ -0,0 +1,120 @@
+/**
+ * Static particle-count estimates, computed from the config alone so the
+ * editor can say what an effect needs before it runs.
+ *
+ *   • steady – particles alive once emission has settled (continuous and
+ *     repeating bursts), or while a timed emitter is running.
+ *   • peak   – the most that can be alive at one instant, using the longest
+ *     lifetime. Compared against `system.maxParticles` and the project budget.
+ *
+ * Triggered emitters depend on how often they are fired, so they count one
+ * trigger's worth towards the peak and nothing towards the steady state.
+ */
+
+import type { EmitterConfig } from '@eonwetheherald/swizzle';
+import type { EditorConfig } from '@/store/types';
+import { FRAME_DURATION } from './timeline';
+
+export interface ParticleEstimate {
+  steady: number;
+  peak: number;
+  /** Triggered emitters: the numbers are per trigger. */
+  onDemand: boolean;
+}
+
+export interface ConfigEstimate {
+  total: ParticleEstimate;
+  emitters: ParticleEstimate[];
+}
+
+type EstimatedEmitter = EmitterConfig & {
+  emissionRate?: unknown;
+  maxParticles?: unknown;
+  burstCount?: unknown;
+  burstInterval?: unknown;
+  burstLimit?: unknown;
+  emitterLifetime?: unknown;
+  particlesPerTrigger?: unknown;
+};
+
+function nonNegative(value: unknown, fallback = 0): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/** Shortest and longest particle lifetime for a number or `{ min, max }` lifetime. */
+export function getLifetimeRange(emitter: EmitterConfig): { min: number; max: number } {
+  const lifetime = (emitter.particle as { lifetime?: unknown } | undefined)?.lifetime;
+  if (typeof lifetime === 'number') {
+    const value = nonNegative(lifetime);
+    return { min: value, max: value };
+  }
+  if (lifetime && typeof lifetime === 'object') {
+    const { min, max } = lifetime as { min?: unknown; max?: unknown };
+    const low = nonNegative(min);
+    const high = nonNegative(max, low);
+    return { min: Math.min(low, high), max: Math.max(low, high) };
+  }
+  return { min: 0, max: 0 };
+}
+
+/** Mean particle lifetime in seconds. */
+export function getMeanLifetime(emitter: EmitterConfig): number {
+  const { min, max } = getLifetimeRange(emitter);
+  return (min + max) / 2;
+}
+
+export function estimateEmitter(emitter: EmitterConfig): ParticleEstimate {
+  const e = emitter as EstimatedEmitter;
+  const { max: longest } = getLifetimeRange(emitter);
+  const mean = getMeanLifetime(emitter);
+  let steady: number;
+  let peak: number;
+  let onDemand = false;
+
+  if (e.type === 'burst') {
+    const count = nonNegative(e.burstCount);
+    // A zero interval still can't burst more than once per frame.
+    const interval = Math.max(nonNegative(e.burstInterval, 1), FRAME_DURATION);
+    const limit = typeof e.burstLimit === 'number' && e.burstLimit >= 0 ? e.burstLimit : Infinity;
+    // Bursts whose particles overlap: every burst in the last `lifetime` seconds.
+    steady = count * Math.min(mean / interval, limit);
+    peak = count * Math.min(Math.max(1, Math.ceil(longest / interval)), limit);
+  } else if (e.type === 'triggered') {
+    steady = 0;
+    peak = nonNegative(e.particlesPerTrigger, 10);
+    onDemand = true;
+  } else {
+    const rate = nonNegative(e.emissionRate);
+    // Timed emitters stop after `emitterLifetime`, so particles alive at once
+    // can't span more than that.
+    const window = e.type === 'timed' ? nonNegative(e.emitterLifetime, Infinity) : Infinity;
+    steady = rate * Math.min(mean, window);
+    peak = rate * Math.min(longest, window);
+  }
+
+  const cap = nonNegative(e.maxParticles, Infinity);
+  return {
+    steady: Math.round(Math.min(steady, cap)),
+    peak: Math.ceil(Math.min(peak, cap)),
+    onDemand,
+  };
+}
+
+export function estimateConfig(config: EditorConfig): ConfigEstimate {
+  const emitters = config.emitters.map(estimateEmitter);
+  const total = emitters.reduce<ParticleEstimate>(
+    (sum, e) => ({ steady: sum.steady + e.steady, peak: sum.peak + e.peak, onDemand: false }),
+    { steady: 0, peak: 0, onDemand: false },
+  );
+  return { total, emitters };
+}
+
+/** The project budget, or null when none is set. */
+export function getParticleBudget(config: EditorConfig): number | null {
+  const budget = config.system.particleBudget;
+  return typeof budget === 'number' && Number.isInteger(budget) && budget > 0 ? budget : null;
+}
+
+export function isValidParticleBudget(value: unknown): boolean {
+  return value === undefined || (typeof value === 'number' && Number.isInteger(value) && value > 0);
+}
@@ -0,0 +1,68 @@
+/**
+ * Decide how the preview should follow a config change: leave it alone,
+ * hot-patch individual emitters in the running system, or rebuild.
+ *
+ * Store updates are immutable, so an untouched emitter keeps its object
+ * identity; the JSON comparison only runs for emitters that were replaced.
+ */
+
+import type { EditorConfig } from '@/store/types';
+import type { EmitterConfig } from '@eonwetheherald/swizzle';
+
+export type PreviewUpdate =
+  | { kind: 'unchanged' }
+  | { kind: 'patch'; emitterIndices: number[] }
+  | { kind: 'rebuild' };
+
+function sameData(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function emitterType(emitter: EmitterConfig): unknown {
+  return (emitter as { type?: unknown }).type;
+}
+
+/**
+ * Emitters can be patched in place as long as the system settings, the
+ * emitter count and every emitter's type stay the same. Anything else
+ * (including the very first build) needs a full rebuild.
+ */
+export function diffPreviewConfigs(prev: EditorConfig | null, next: EditorConfig): PreviewUpdate {
+  if (!prev) return { kind: 'rebuild' };
+  if (!sameData(prev.system, next.system)) return { kind: 'rebuild' };
+  if (!sameData(prev.extraSections, next.extraSections)) return { kind: 'rebuild' };
+  if (prev.emitters.length !== next.emitters.length) return { kind: 'rebuild' };
+
+  const emitterIndices: number[] = [];
+  for (let i = 0; i < next.emitters.length; i++) {
+    const before = prev.emitters[i];
+    const after = next.emitters[i];
+    if (sameData(before, after)) continue;
+    if (emitterType(before) !== emitterType(after)) return { kind: 'rebuild' };
+    emitterIndices.push(i);
+  }
+
+  return emitterIndices.length === 0 ? { kind: 'unchanged' } : { kind: 'patch', emitterIndices };
+}
+
+/**
+ * Which cached textures to (re)load and which to drop, keyed by asset id.
+ * A cached entry whose data URL no longer matches the asset was replaced
+ * and is reloaded.
+ */
+export function planTextureCacheUpdate(
+  cache: ReadonlyMap<string, { dataURL: string }>,
+  textures: ReadonlyMap<string, { dataURL: string }>,
+): { load: string[]; evict: string[] } {
+  const load: string[] = [];
+  const evict: string[] = [];
+  for (const [id, asset] of textures) {
+    const cached = cache.get(id);
+    if (!cached || cached.dataURL !== asset.dataURL) load.push(id);
+  }
+  for (const [id, cached] of cache) {
+    const asset = textures.get(id);
+    if (!asset || asset.dataURL !== cached.dataURL) evict.push(id);
+  }
+  return { load, evict };
+}
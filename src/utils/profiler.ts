@@ -0,0 +1,300 @@
+/**
+ * Preview profiler: per-emitter particle counts, spawn / death rates and
+ * time spent per behavior type, sampled from the live particle system.
+ *
+ * The engine doesn't expose a profiling API, so everything here reads the
+ * live objects defensively: particles are attributed to emitters through
+ * their `emitter` back-reference (or the emitter's own count), and behavior
+ * timings come from wrapping each behavior instance's `update` / `apply`.
+ * Whatever can't be found is reported as unavailable rather than guessed.
+ */
+
+import { FRAME_DURATION } from './timeline';
+
+export interface EmitterProfile {
+  /** Live particles, or null when they can't be attributed to emitters. */
+  count: number | null;
+  /** Particles per second over the sample window. */
+  spawnRate: number;
+  deathRate: number;
+}
+
+export interface ProfilerSample {
+  /** `performance.now()` at the end of the window, in ms. */
+  time: number;
+  totalParticles: number;
+  /** One per live emitter, in the order of the config the system was built from. */
+  emitters: EmitterProfile[];
+  /**
+   * `config.emitters` index of each live emitter (hidden, soloed-out and
+   * invalid layers aren't in the preview), or -1 if it's no longer there.
+   */
+  layerIndices: number[];
+  /** Average ms per frame spent in each behavior type; empty when unavailable. */
+  behaviorMs: Record<string, number>;
+  /** Average ms per frame spent in the whole system update. */
+  updateMs: number;
+}
+
+export interface Profiler {
+  /** Record one fixed-step frame of `system` that took `updateMs` to simulate. */
+  observe(system: unknown, updateMs: number): void;
+  /** Close the current window and start a new one; null if no frame ran in it. */
+  sample(now: number, layerIndices: number[]): ProfilerSample | null;
+  /** The simulation restarted; don't count the cleared particles as deaths. */
+  reset(): void;
+  /** Undo behavior instrumentation. */
+  dispose(): void;
+}
+
+/** Samples kept for the sparklines (~30 s at the default interval). */
+export const PROFILER_HISTORY_LENGTH = 120;
+export const PROFILER_SAMPLE_INTERVAL_MS = 250;
+
+type Particle = { emitter?: unknown; age?: unknown };
+type LiveEmitter = { particleCount?: unknown; particles?: unknown };
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Live particles per emitter. Uses each particle's `emitter` back-reference
+ * when present, else each emitter's `particleCount` / `particles.length`.
+ * Returns null when neither is available.
+ */
+export function countParticlesByEmitter(particles: unknown[], emitters: unknown[]): number[] | null {
+  const counts = new Array<number>(emitters.length).fill(0);
+  const indexOf = new Map(emitters.map((emitter, index) => [emitter, index]));
+
+  let attributed = 0;
+  for (const particle of particles) {
+    const index = indexOf.get((particle as Particle)?.emitter);
+    if (index === undefined) continue;
+    counts[index]++;
+    attributed++;
+  }
+  if (attributed > 0 || particles.length === 0) return counts;
+
+  for (let i = 0; i < emitters.length; i++) {
+    const emitter = emitters[i] as LiveEmitter;
+    if (typeof emitter?.particleCount === 'number') counts[i] = emitter.particleCount;
+    else if (Array.isArray(emitter?.particles)) counts[i] = emitter.particles.length;
+    else return null;
+  }
+  return counts;
+}
+
+/**
+ * Particle count the system settles at if every emitter keeps spawning at
+ * its measured rate (Little's law: arrivals per second × time in system).
+ */
+export function projectSteadyState(spawnRates: number[], lifetimes: number[]): number {
+  let total = 0;
+  for (let i = 0; i < spawnRates.length; i++) total += spawnRates[i] * (lifetimes[i] ?? 0);
+  return Math.round(total);
+}
+
+/** Budget warning for the profiler, or null while comfortably under `maxParticles`. */
+export function getBudgetWarning(current: number, projected: number, maxParticles: number): string | null {
+  if (maxParticles <= 0) return null;
+  if (current >= maxParticles) {
+    return `At the ${maxParticles} particle limit — new particles are being dropped`;
+  }
+  if (projected >= maxParticles) {
+    return `Steady state of ~${projected} particles will hit the ${maxParticles} particle limit`;
+  }
+  return null;
+}
+
+/** SVG polyline points for `values`, scaled to fill `width` × `height`. */
+export function getSparklinePoints(
+  values: number[],
+  width: number,
+  height: number,
+  max = Math.max(0, ...values),
+): string {
+  if (values.length === 0) return '';
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+  const scale = max > 0 ? height / max : 0;
+  return values
+    .map((value, i) => `${(i * step).toFixed(1)},${(height - value * scale).toFixed(1)}`)
+    .join(' ');
+}
+
+// ─── Behavior instrumentation ────────────────────────────────────────────────
+
+const BEHAVIOR_METHODS = ['update', 'apply'] as const;
+
+interface Patch {
+  target: Record<string, unknown>;
+  key: string;
+  original: unknown;
+  own: boolean;
+}
+
+function getBehaviorInstances(emitter: unknown): unknown[] {
+  const e = emitter as { behaviors?: unknown; particleBehaviors?: unknown };
+  return [...asArray(e?.behaviors), ...asArray(e?.particleBehaviors)];
+}
+
+function getBehaviorType(behavior: object): string {
+  const type = (behavior as { type?: unknown }).type;
+  if (typeof type === 'string' && type) return type;
+  const name = behavior.constructor?.name;
+  return name && name !== 'Object' ? name.replace(/Behaviou?r$/, '').toLowerCase() : 'unknown';
+}
+
+function instrument(behavior: unknown, record: (type: string, ms: number) => void): Patch | null {
+  if (typeof behavior !== 'object' || behavior === null) return null;
+  const target = behavior as Record<string, unknown>;
+  const key = BEHAVIOR_METHODS.find((name) => typeof target[name] === 'function');
+  if (!key) return null;
+
+  const original = target[key] as (...args: unknown[]) => unknown;
+  const own = Object.prototype.hasOwnProperty.call(target, key);
+  const type = getBehaviorType(behavior);
+  target[key] = function (this: unknown, ...args: unknown[]) {
+    const start = performance.now();
+    try {
+      return original.apply(this, args);
+    } finally {
+      record(type, performance.now() - start);
+    }
+  };
+  return { target, key, original, own };
+}
+
+function restore(patch: Patch): void {
+  if (patch.own) patch.target[patch.key] = patch.original;
+  else delete patch.target[patch.key];
+}
+
+// ─── Collector ───────────────────────────────────────────────────────────────
+
+export function createProfiler(): Profiler {
+  // Last seen age per particle, to catch new and recycled (pooled) particles.
+  const seen = new WeakMap<object, number>();
+  let emitters: unknown[] = [];
+  let previousCounts: number[] = [];
+  let primed = false;
+  let spawned: number[] = [];
+  let died: number[] = [];
+  let frames = 0;
+  let elapsed = 0;
+  let updateMs = 0;
+  let counts: number[] | null = null;
+  let totalParticles = 0;
+  let behaviorMs: Record<string, number> = {};
+  let patches: Patch[] = [];
+  const instrumented = new WeakSet<object>();
+
+  const record = (type: string, ms: number) => {
+    behaviorMs[type] = (behaviorMs[type] ?? 0) + ms;
+  };
+
+  const track = (liveEmitters: unknown[]) => {
+    const changed =
+      liveEmitters.length !== emitters.length || liveEmitters.some((e, i) => e !== emitters[i]);
+    if (!changed) return;
+
+    // Rebuilt or hot-patched: start the rates over for the new emitters.
+    emitters = [...liveEmitters];
+    previousCounts = new Array<number>(emitters.length).fill(0);
+    primed = false;
+    spawned = new Array<number>(emitters.length).fill(0);
+    died = new Array<number>(emitters.length).fill(0);
+    for (const emitter of emitters) {
+      for (const behavior of getBehaviorInstances(emitter)) {
+        if (typeof behavior !== 'object' || behavior === null || instrumented.has(behavior)) continue;
+        const patch = instrument(behavior, record);
+        if (!patch) continue;
+        instrumented.add(behavior);
+        patches.push(patch);
+      }
+    }
+  };
+
+  return {
+    observe(system, ms) {
+      const live = system as { emitters?: unknown; particles?: unknown };
+      const liveEmitters = asArray(live?.emitters);
+      const particles = asArray(live?.particles);
+      track(liveEmitters);
+
+      frames++;
+      elapsed += FRAME_DURATION;
+      updateMs += ms;
+      totalParticles = particles.length;
+      counts = countParticlesByEmitter(particles, liveEmitters);
+      if (!counts) return;
+
+      // Particles seen for the first time (or whose age went backwards, i.e.
+      // recycled from a pool) were spawned since the last frame.
+      const fresh = new Array<number>(emitters.length).fill(0);
+      const indexOf = new Map(emitters.map((emitter, index) => [emitter, index]));
+      let attributed = false;
+      for (const particle of particles) {
+        if (typeof particle !== 'object' || particle === null) continue;
+        const index = indexOf.get((particle as Particle).emitter);
+        if (index === undefined) continue;
+        attributed = true;
+        const age = (particle as Particle).age;
+        const ageNow = typeof age === 'number' ? age : 0;
+        const lastAge = seen.get(particle);
+        if (lastAge === undefined || ageNow < lastAge) fresh[index]++;
+        seen.set(particle, ageNow);
+      }
+
+      // The first frame after (re)tracking only establishes a baseline.
+      if (primed) {
+        for (let i = 0; i < emitters.length; i++) {
+          // Without back-references only the net change per emitter is known.
+          const born = attributed ? fresh[i] : Math.max(0, counts[i] - previousCounts[i]);
+          spawned[i] += born;
+          died[i] += Math.max(0, previousCounts[i] + born - counts[i]);
+        }
+      }
+      previousCounts = counts;
+      primed = true;
+    },
+
+    sample(now, layerIndices) {
+      if (frames === 0) return null;
+      const seconds = elapsed;
+      const perFrame = 1 / frames;
+      const result: ProfilerSample = {
+        time: now,
+        totalParticles,
+        layerIndices,
+        emitters: emitters.map((_emitter, i) => ({
+          count: counts ? (counts[i] ?? 0) : null,
+          spawnRate: spawned[i] / seconds,
+          deathRate: died[i] / seconds,
+        })),
+        behaviorMs: Object.fromEntries(
+          Object.entries(behaviorMs).map(([type, ms]) => [type, ms * perFrame]),
+        ),
+        updateMs: updateMs * perFrame,
+      };
+
+      frames = 0;
+      elapsed = 0;
+      updateMs = 0;
+      behaviorMs = {};
+      spawned = spawned.map(() => 0);
+      died = died.map(() => 0);
+      return result;
+    },
+
+    reset() {
+      primed = false;
+    },
+
+    dispose() {
+      patches.forEach(restore);
+      patches = [];
+      emitters = [];
+    },
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * Self-contained .zip project bundles
+ *
+ * A bundle carries everything needed to open an effect on another machine:
+ *
+ *   effect.yaml      – the PSAC config, exactly as "Export YAML" writes it
+ *   manifest.json    – bundle metadata and the asset index
+ *   textures/…       – every referenced texture and sequence frame
+ *
+ * Only assets the config actually references are included, so bundles stay
+ * small even with a large asset library.
+ */
+
+import JSZip from 'jszip';
+import type { AssetState, EditorConfig, SequenceAsset, TextureAsset } from '@/store/types';
+import { editorConfigToYAML, yamlToEditorConfig } from './configTransform';
+
+export const BUNDLE_FORMAT = 'swizzle-bundle';
+export const BUNDLE_VERSION = 1;
+
+const CONFIG_PATH = 'effect.yaml';
+const MANIFEST_PATH = 'manifest.json';
+const TEXTURE_DIR = 'textures/';
+
+export interface BundleTextureEntry {
+  id: string;
+  name: string;
+  /** Path of the image inside the zip. */
+  path: string;
+  width: number;
+  height: number;
+}
+
+export interface BundleSequenceEntry {
+  id: string;
+  name: string;
+  pattern: string;
+  /** Texture entry ids, in playback order. */
+  frames: string[];
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  createdAt: number;
+  config: string;
+  textures: BundleTextureEntry[];
+  sequences: BundleSequenceEntry[];
+}
+
+export interface ProjectBundle {
+  config: EditorConfig;
+  assets: AssetState;
+  manifest: BundleManifest;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function stripExtension(name: string): string {
+  return name.replace(/\.[^/.]+$/, '');
+}
+
+/** Keys a particle may use to point at a texture (mirrors buildTextureMap). */
+function textureKeys(texture: TextureAsset): string[] {
+  return [texture.id, texture.name, stripExtension(texture.name)];
+}
+
+/**
+ * Textures and sequences referenced by any emitter's particle config.
+ * Sequence frames are included in `textures` as well.
+ */
+export function collectReferencedAssets(
+  config: EditorConfig,
+  assets: AssetState,
+): { textures: TextureAsset[]; sequences: SequenceAsset[] } {
+  const textureRefs = new Set<string>();
+  const sequenceRefs = new Set<string>();
+
+  for (const emitter of config.emitters) {
+    const particle = emitter.particle as unknown;
+    if (!isRecord(particle)) continue;
+    if (typeof particle.texture === 'string') textureRefs.add(particle.texture);
+    if (typeof particle.frameSequence === 'string') sequenceRefs.add(particle.frameSequence);
+  }
+
+  const sequences = Array.from(assets.sequences.values()).filter(
+    (seq) => sequenceRefs.has(seq.name) || sequenceRefs.has(seq.id),
+  );
+
+  const textures = new Map<string, TextureAsset>();
+  for (const texture of assets.textures.values()) {
+    if (textureKeys(texture).some((key) => textureRefs.has(key))) textures.set(texture.id, texture);
+  }
+  for (const seq of sequences) {
+    for (const frame of seq.frames) textures.set(frame.id, frame);
+  }
+
+  return { textures: Array.from(textures.values()), sequences };
+}
+
+function sanitizeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]/g, '_') || 'texture';
+}
+
+/** `name`, or `name-2.ext`, `name-3.ext`, … if already taken. */
+function uniquePath(name: string, taken: Set<string>): string {
+  const safe = sanitizeFileName(name);
+  const dot = safe.lastIndexOf('.');
+  const base = dot > 0 ? safe.slice(0, dot) : safe;
+  const ext = dot > 0 ? safe.slice(dot) : '';
+  let path = `${TEXTURE_DIR}${safe}`;
+  for (let n = 2; taken.has(path); n++) path = `${TEXTURE_DIR}${base}-${n}${ext}`;
+  taken.add(path);
+  return path;
+}
+
+function dataURLPayload(dataURL: string): string {
+  const comma = dataURL.indexOf(',');
+  if (comma < 0 || !dataURL.slice(0, comma).endsWith(';base64')) {
+    throw new Error('Texture data is not base64 encoded');
+  }
+  return dataURL.slice(comma + 1);
+}
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+function mimeTypeFor(path: string): string {
+  const ext = path.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES[ext] ?? 'image/png';
+}
+
+/**
+ * Build a bundle zip for `config` with the assets it references.
+ */
+export async function createProjectBundle(
+  config: EditorConfig,
+  assets: AssetState,
+  now = Date.now(),
+): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  const { textures, sequences } = collectReferencedAssets(config, assets);
+  const taken = new Set<string>();
+
+  const textureEntries = textures.map((texture): BundleTextureEntry => {
+    const path = uniquePath(texture.name, taken);
+    zip.file(path, dataURLPayload(texture.dataURL), { base64: true });
+    return { id: texture.id, name: texture.name, path, width: texture.width, height: texture.height };
+  });
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    createdAt: now,
+    config: CONFIG_PATH,
+    textures: textureEntries,
+    sequences: sequences.map((seq) => ({
+      id: seq.id,
+      name: seq.name,
+      pattern: seq.pattern,
+      frames: seq.frames.map((frame) => frame.id),
+    })),
+  };
+
+  zip.file(CONFIG_PATH, editorConfigToYAML(config));
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+}
+
+function parseManifest(raw: string): BundleManifest {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    throw new Error('Bundle manifest is not valid JSON');
+  }
+
+  if (!isRecord(value) || value.format !== BUNDLE_FORMAT) {
+    throw new Error('Not a Swizzle project bundle');
+  }
+  if (typeof value.version !== 'number' || value.version > BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version: ${String(value.version)}`);
+  }
+  if (!Array.isArray(value.textures) || !Array.isArray(value.sequences)) {
+    throw new Error('Bundle manifest is missing its asset index');
+  }
+
+  return value as unknown as BundleManifest;
+}
+
+/**
+ * Read a bundle produced by createProjectBundle.
+ *
+ * Throws if the zip has no manifest or config. Texture entries whose file is
+ * missing are skipped; sequences that lose a frame that way are dropped.
+ */
+export async function readProjectBundle(
+  data: ArrayBuffer | Uint8Array | Blob,
+): Promise<ProjectBundle> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error('File is not a valid .zip archive');
+  }
+
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) throw new Error('Bundle is missing manifest.json');
+  const manifest = parseManifest(await manifestFile.async('string'));
+
+  const configFile = zip.file(typeof manifest.config === 'string' ? manifest.config : CONFIG_PATH);
+  if (!configFile) throw new Error('Bundle is missing its effect YAML');
+  const config = yamlToEditorConfig(await configFile.async('string'));
+
+  const textures = new Map<string, TextureAsset>();
+  for (const entry of manifest.textures) {
+    const file = zip.file(entry.path);
+    if (!file) continue;
+    const mime = mimeTypeFor(entry.path);
+    const [base64, bytes] = await Promise.all([file.async('base64'), file.async('arraybuffer')]);
+    textures.set(entry.id, {
+      id: entry.id,
+      name: entry.name,
+      file: new File([bytes], entry.name, { type: mime }),
+      dataURL: `data:${mime};base64,${base64}`,
+      width: entry.width,
+      height: entry.height,
+      createdAt: manifest.createdAt,
+    });
+  }
+
+  const sequences = new Map<string, SequenceAsset>();
+  for (const entry of manifest.sequences) {
+    const frames = entry.frames.map((id) => textures.get(id));
+    if (frames.length === 0 || frames.some((frame) => !frame)) continue;
+    sequences.set(entry.id, {
+      id: entry.id,
+      name: entry.name,
+      pattern: entry.pattern,
+      frames: frames as TextureAsset[],
+      createdAt: manifest.createdAt,
+    });
+  }
+
+  return { config, assets: { textures, sequences }, manifest };
+}
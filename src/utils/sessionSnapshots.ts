@@ -0,0 +1,179 @@
+/**
+ * Session snapshot helpers for autosave / crash recovery
+ *
+ * Autosave rewrites the current session's newest snapshot in place and only
+ * starts a new one every SNAPSHOT_INTERVAL_MS, so the rolling set holds
+ * checkpoints spread over time rather than the last few keystrokes.
+ */
+
+import type {
+  AssetState,
+  EditorDocument,
+  EditorState,
+  SessionDocumentSnapshot,
+  SessionSnapshot,
+} from '@/store/types';
+
+/** How often a new checkpoint is started instead of updating the latest one. */
+export const SNAPSHOT_INTERVAL_MS = 60_000;
+/** Snapshots kept across all sessions; the oldest are pruned first. */
+export const MAX_SNAPSHOTS = 10;
+
+export interface SnapshotSummary {
+  id: string;
+  sessionId: string;
+  savedAt: number;
+  emitterCount: number;
+  /** Layer names (or types for unnamed layers) for the snapshot browser. */
+  emitterLabels: string[];
+  /** Tabs recorded besides the active one, which the other fields describe. */
+  otherDocumentCount: number;
+}
+
+type SnapshotMeta = Pick<SessionSnapshot, 'id' | 'sessionId' | 'createdAt' | 'savedAt'>;
+
+type SnapshotSource = Pick<
+  EditorState,
+  'config' | 'ui' | 'history' | 'historyIndex' | 'assets' | 'documents' | 'activeDocumentId'
+>;
+
+/** Name given to recovered tabs from snapshots that didn't record one. */
+export const RECOVERED_DOCUMENT_NAME = 'Recovered session';
+
+const byNewest = (a: SnapshotMeta, b: SnapshotMeta) => b.savedAt - a.savedAt;
+
+/** A document is only worth recovering if it holds more than an empty config. */
+function hasContent(document: Pick<SessionDocumentSnapshot, 'config' | 'history'>): boolean {
+  return document.config.emitters.length > 0 || document.history.length > 0;
+}
+
+/** The open tabs other than the active one that have something to recover. */
+function getOtherDocuments(state: SnapshotSource): EditorDocument[] {
+  return state.documents.filter((d) => d.id !== state.activeDocumentId && hasContent(d));
+}
+
+/** Whether any open tab has something worth autosaving. */
+export function hasRecoverableWork(state: SnapshotSource): boolean {
+  return hasContent(state) || getOtherDocuments(state).length > 0;
+}
+
+/**
+ * Capture the recoverable parts of the editor state: the active tab in the
+ * top-level fields, the other non-empty tabs in `otherDocuments`.
+ */
+export function createSessionSnapshot(
+  state: SnapshotSource,
+  meta: Pick<SessionSnapshot, 'id' | 'sessionId' | 'createdAt' | 'savedAt'>,
+): SessionSnapshot {
+  return {
+    ...meta,
+    name: state.documents.find((d) => d.id === state.activeDocumentId)?.name,
+    config: structuredClone(state.config),
+    selection: {
+      selectedEmitterId: state.ui.selectedEmitterId,
+      selectedEmitterIds: state.ui.selectedEmitterIds,
+      selectedBehaviorId: state.ui.selectedBehaviorId,
+    },
+    history: structuredClone(state.history),
+    historyIndex: state.historyIndex,
+    hiddenEmitterIds: Array.from(state.ui.hiddenEmitterIds),
+    lockedEmitterIds: Array.from(state.ui.lockedEmitterIds),
+    otherDocuments: getOtherDocuments(state).map((d) => ({
+      name: d.name,
+      config: structuredClone(d.config),
+      selection: d.selection,
+      history: structuredClone(d.history),
+      historyIndex: d.historyIndex,
+      hiddenEmitterIds: Array.from(d.hiddenEmitterIds),
+      lockedEmitterIds: Array.from(d.lockedEmitterIds),
+    })),
+    assetRefs: {
+      textures: Array.from(state.assets.textures.keys()),
+      sequences: Array.from(state.assets.sequences.keys()),
+    },
+    canvas: { width: state.ui.canvasWidth, height: state.ui.canvasHeight },
+  };
+}
+
+/**
+ * Pick where the next autosave goes: the session's latest snapshot while it
+ * is younger than `interval`, otherwise a fresh slot (`id: null`).
+ */
+export function chooseSnapshotSlot(
+  existing: SnapshotMeta[],
+  sessionId: string,
+  now: number,
+  interval = SNAPSHOT_INTERVAL_MS,
+): { id: string | null; createdAt: number } {
+  const latest = existing.filter((s) => s.sessionId === sessionId).sort(byNewest)[0];
+  if (latest && now - latest.createdAt < interval) {
+    return { id: latest.id, createdAt: latest.createdAt };
+  }
+  return { id: null, createdAt: now };
+}
+
+/**
+ * Ids of snapshots beyond the newest `max`.
+ */
+export function getPrunableSnapshotIds(existing: SnapshotMeta[], max = MAX_SNAPSHOTS): string[] {
+  return [...existing].sort(byNewest).slice(max).map((s) => s.id);
+}
+
+/**
+ * The tabs to reopen from a snapshot, ending with the one that was active
+ * (unless it was empty).
+ */
+export function getRestorableDocuments(snapshot: SessionSnapshot): SessionDocumentSnapshot[] {
+  const active: SessionDocumentSnapshot = {
+    name: snapshot.name ?? RECOVERED_DOCUMENT_NAME,
+    config: snapshot.config,
+    selection: snapshot.selection,
+    history: snapshot.history,
+    historyIndex: snapshot.historyIndex,
+    hiddenEmitterIds: snapshot.hiddenEmitterIds,
+    lockedEmitterIds: snapshot.lockedEmitterIds,
+  };
+  return [...(snapshot.otherDocuments ?? []), active].filter(hasContent);
+}
+
+/**
+ * A snapshot is only worth offering if it holds more than an empty document.
+ */
+export function isRestorableSnapshot(snapshot: SessionSnapshot): boolean {
+  return getRestorableDocuments(snapshot).length > 0;
+}
+
+/**
+ * Newest restorable snapshot written by an earlier session.
+ */
+export function findRecoverableSnapshot(
+  snapshots: SessionSnapshot[],
+  currentSessionId: string,
+): SessionSnapshot | null {
+  return (
+    [...snapshots]
+      .sort(byNewest)
+      .find((s) => s.sessionId !== currentSessionId && isRestorableSnapshot(s)) ?? null
+  );
+}
+
+export function summarizeSnapshot(snapshot: SessionSnapshot): SnapshotSummary {
+  return {
+    id: snapshot.id,
+    sessionId: snapshot.sessionId,
+    savedAt: snapshot.savedAt,
+    emitterCount: snapshot.config.emitters.length,
+    emitterLabels: snapshot.config.emitters.map((e) => e.name || e.type),
+    otherDocumentCount: snapshot.otherDocuments?.length ?? 0,
+  };
+}
+
+/**
+ * Asset ids the snapshot referenced that are no longer in the library.
+ */
+export function getMissingAssetRefs(snapshot: SessionSnapshot, assets: AssetState): string[] {
+  return [
+    ...snapshot.assetRefs.textures.filter((id) => !assets.textures.has(id)),
+    ...snapshot.assetRefs.sequences.filter((id) => !assets.sequences.has(id)),
+  ];
+}
@@ -0,0 +1,112 @@
+/**
+ * Timeline maths for the preview scrubber.
+ *
+ * Pure functions only — the simulation itself lives in PreviewCanvas.
+ * Seeking re-simulates with a fixed step of 1 / TIMELINE_FPS, so a given
+ * frame number always corresponds to the same number of `update(dt)` calls.
+ */
+
+export const TIMELINE_FPS = 60;
+export const FRAME_DURATION = 1 / TIMELINE_FPS;
+
+/** Coarse step for the ±0.1s buttons. */
+export const COARSE_STEP_SECONDS = 0.1;
+
+export const MIN_TIMELINE_DURATION = 0.5;
+export const MAX_TIMELINE_DURATION = 60;
+
+export interface LoopRange {
+  loopIn: number;
+  loopOut: number;
+}
+
+export function timeToFrame(time: number): number {
+  if (!Number.isFinite(time) || time <= 0) return 0;
+  return Math.round(time * TIMELINE_FPS);
+}
+
+export function frameToTime(frame: number): number {
+  return frame / TIMELINE_FPS;
+}
+
+/** Snap `time` to the nearest frame inside [0, duration]. */
+export function clampToTimeline(time: number, duration: number): number {
+  return frameToTime(Math.min(timeToFrame(time), timeToFrame(duration)));
+}
+
+export function clampTimelineDuration(duration: number): number {
+  if (!Number.isFinite(duration)) return MIN_TIMELINE_DURATION;
+  return Math.min(MAX_TIMELINE_DURATION, Math.max(MIN_TIMELINE_DURATION, duration));
+}
+
+/**
+ * How to reach `targetFrame`. Stepping forward is incremental; going
+ * backwards, or from a system with no known frame (`null`: stopped or just
+ * rebuilt), restarts from frame 0.
+ */
+export function planSeek(
+  currentFrame: number | null,
+  targetFrame: number,
+): { reset: boolean; steps: number } {
+  if (currentFrame === null || targetFrame < currentFrame) {
+    return { reset: true, steps: targetFrame };
+  }
+  return { reset: false, steps: targetFrame - currentFrame };
+}
+
+/** Longest stretch of wall-clock time one ticker callback may catch up on. */
+export const MAX_CATCH_UP_SECONDS = 0.25;
+
+/**
+ * Split accumulated playback time into whole fixed-size frames. Live playback
+ * steps the system in FRAME_DURATION increments too, so a restart replays
+ * the same updates regardless of the display's frame rate.
+ */
+export function consumeFixedSteps(
+  accumulator: number,
+  dt: number,
+): { steps: number; remainder: number } {
+  const total = Math.min(accumulator + Math.max(0, dt), MAX_CATCH_UP_SECONDS);
+  // The epsilon keeps a 60 Hz display from alternating between 0 and 2 steps.
+  const steps = Math.floor(total / FRAME_DURATION + 1e-6);
+  return { steps, remainder: Math.max(0, total - steps * FRAME_DURATION) };
+}
+
+/**
+ * Snap loop markers to frames, keep them inside the timeline and at least
+ * one frame apart. `moved` says which marker the user is dragging so the
+ * other one stays put when they collide.
+ */
+export function normalizeLoopRange(
+  loopIn: number,
+  loopOut: number,
+  duration: number,
+  moved: 'in' | 'out' = 'out',
+): LoopRange {
+  const last = timeToFrame(duration);
+  let inFrame = Math.min(timeToFrame(loopIn), last);
+  let outFrame = Math.min(timeToFrame(loopOut), last);
+
+  if (outFrame - inFrame < 1) {
+    if (moved === 'in') {
+      inFrame = Math.max(0, outFrame - 1);
+      outFrame = inFrame + 1;
+    } else {
+      outFrame = Math.min(last, inFrame + 1);
+      inFrame = outFrame - 1;
+    }
+  }
+
+  return { loopIn: frameToTime(inFrame), loopOut: frameToTime(outFrame) };
+}
+
+/** Fraction of the timeline at `time`, clamped to [0, 1]. */
+export function timeToFraction(time: number, duration: number): number {
+  if (duration <= 0) return 0;
+  return Math.min(1, Math.max(0, time / duration));
+}
+
+/** `1.20s` — two decimals are enough to tell 60 fps frames apart. */
+export function formatTimelineTime(time: number): string {
+  return `${time.toFixed(2)}s`;
+}
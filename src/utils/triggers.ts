@@ -0,0 +1,38 @@
+/**
+ * Manual triggers for the preview: triggered emitters only spawn when told
+ * to, and burst emitters stop after `burstLimit` bursts. The editor lets the
+ * user fire the former and re-fire (reset) the latter from the layer list,
+ * the canvas and the number keys.
+ */
+
+import type { EmitterConfig } from '@eonwetheherald/swizzle';
+
+export type TriggerKind = 'fire' | 'refire';
+
+export interface TriggerAction {
+  kind: TriggerKind;
+  /** Editor id of the emitter in `config.emitters`. */
+  emitterId: string;
+  /** World position to fire at instead of the emitter's own position. */
+  position?: { x: number; y: number };
+}
+
+/** Layers 1–9 can be fired from the number keys. */
+export const MAX_TRIGGER_SHORTCUTS = 9;
+
+export function getTriggerKind(emitter: EmitterConfig | undefined): TriggerKind | null {
+  if (emitter?.type === 'triggered') return 'fire';
+  if (emitter?.type === 'burst') return 'refire';
+  return null;
+}
+
+/** Layer index for a `KeyboardEvent.code` of Digit1–Digit9, or null. */
+export function getTriggerShortcutIndex(code: string): number | null {
+  const match = /^Digit([1-9])$/.exec(code);
+  return match ? Number(match[1]) - 1 : null;
+}
+
+/** Key label for firing `emitterIndex`, or null past the ninth layer. */
+export function getTriggerShortcutLabel(emitterIndex: number): string | null {
+  return emitterIndex >= 0 && emitterIndex < MAX_TRIGGER_SHORTCUTS ? String(emitterIndex + 1) : null;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseTextureRecord,
+  parseSequenceRecord,
+  parseAssetRecords,
+} from '../../../src/utils/assetRecords';
+
+describe('assetRecords', () => {
+  const createTexture = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    name: `${id}.png`,
+    file: new File([], `${id}.png`, { type: 'image/png' }),
+    dataURL: 'data:image/png;base64,AAAA',
+    width: 16,
+    height: 16,
+    createdAt: 1,
+    ...overrides,
+  });
+
+  describe('parseTextureRecord', () => {
+    it('should accept a complete record', () => {
+      const record = createTexture('a');
+
+      expect(parseTextureRecord(record)).toEqual(record);
+    });
+
+    it('should reject records missing image data or dimensions', () => {
+      expect(parseTextureRecord(createTexture('a', { dataURL: undefined }))).toBeNull();
+      expect(parseTextureRecord(createTexture('a', { dataURL: 'data:text/plain,hi' }))).toBeNull();
+      expect(parseTextureRecord(createTexture('a', { width: 0 }))).toBeNull();
+      expect(parseTextureRecord(createTexture('a', { file: 'not a file' }))).toBeNull();
+      expect(parseTextureRecord(null)).toBeNull();
+    });
+
+    it('should default a missing createdAt', () => {
+      expect(parseTextureRecord(createTexture('a', { createdAt: undefined }))?.createdAt).toBe(0);
+    });
+  });
+
+  describe('parseSequenceRecord', () => {
+    it('should reject a sequence with any unusable frame', () => {
+      const sequence = {
+        id: 's',
+        name: 'coin',
+        pattern: 'coin_{000-001}.png',
+        frames: [createTexture('f0'), createTexture('f1', { height: -1 })],
+        createdAt: 1,
+      };
+
+      expect(parseSequenceRecord(sequence)).toBeNull();
+    });
+
+    it('should reject a sequence without frames', () => {
+      expect(parseSequenceRecord({ id: 's', name: 'coin', frames: [] })).toBeNull();
+    });
+  });
+
+  describe('parseAssetRecords', () => {
+    it('should keep valid records in creation order', () => {
+      const result = parseAssetRecords(
+        [createTexture('late', { createdAt: 5 }), createTexture('early', { createdAt: 2 })],
+        [],
+      );
+
+      expect(Array.from(result.assets.textures.keys())).toEqual(['early', 'late']);
+      expect(result.skipped).toBe(0);
+    });
+
+    it('should report ids of invalid records for purging', () => {
+      const result = parseAssetRecords(
+        [createTexture('ok'), createTexture('broken', { dataURL: '' }), { junk: true }],
+        [{ id: 'seq', name: 'coin', frames: 'nope' }],
+      );
+
+      expect(result.assets.textures.size).toBe(1);
+      expect(result.invalidTextureIds).toEqual(['broken']);
+      expect(result.invalidSequenceIds).toEqual(['seq']);
+      expect(result.skipped).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clampZoom,
+  worldToScreen,
+  screenToWorld,
+  zoomAtPoint,
+  getEmitterBounds,
+  fitCameraToBounds,
+  MIN_ZOOM,
+  MAX_ZOOM,
+} from '../../../src/utils/camera';
+import type { Camera } from '../../../src/utils/camera';
+
+const particle = { type: 'sprite', texture: 'default', lifetime: 1, behaviors: [] };
+
+describe('camera', () => {
+  describe('clampZoom', () => {
+    it('should clamp to the supported range', () => {
+      expect(clampZoom(0)).toBe(MIN_ZOOM);
+      expect(clampZoom(100)).toBe(MAX_ZOOM);
+      expect(clampZoom(2)).toBe(2);
+    });
+
+    it('should fall back to 1 for non-finite values', () => {
+      expect(clampZoom(NaN)).toBe(1);
+    });
+  });
+
+  describe('worldToScreen / screenToWorld', () => {
+    it('should be inverse transforms', () => {
+      const camera: Camera = { zoom: 2.5, pan: { x: -40, y: 120 } };
+      const world = { x: 13, y: -7 };
+
+      const screen = worldToScreen(camera, world);
+      const back = screenToWorld(camera, screen);
+
+      expect(screen).toEqual({ x: -7.5, y: 102.5 });
+      expect(back.x).toBeCloseTo(world.x);
+      expect(back.y).toBeCloseTo(world.y);
+    });
+  });
+
+  describe('zoomAtPoint', () => {
+    it('should keep the world point under the anchor fixed', () => {
+      const camera: Camera = { zoom: 1, pan: { x: 0, y: 0 } };
+      const anchor = { x: 200, y: 150 };
+      const before = screenToWorld(camera, anchor);
+
+      const zoomed = zoomAtPoint(camera, 3, anchor);
+      const after = screenToWorld(zoomed, anchor);
+
+      expect(zoomed.zoom).toBe(3);
+      expect(after.x).toBeCloseTo(before.x);
+      expect(after.y).toBeCloseTo(before.y);
+    });
+
+    it('should clamp the requested zoom', () => {
+      const camera: Camera = { zoom: 1, pan: { x: 0, y: 0 } };
+
+      expect(zoomAtPoint(camera, 1000, { x: 0, y: 0 }).zoom).toBe(MAX_ZOOM);
+    });
+  });
+
+  describe('getEmitterBounds', () => {
+    it('should return null for no emitters', () => {
+      expect(getEmitterBounds([])).toBeNull();
+    });
+
+    it('should include circle radius, area size and absolute line endpoints', () => {
+      const bounds = getEmitterBounds([
+        { type: 'circle', position: { x: 100, y: 100 }, radius: 50, emissionRate: 1, particle },
+        { type: 'area', position: { x: 400, y: 300 }, width: 200, height: 100, emissionRate: 1, particle },
+        {
+          type: 'line',
+          position: { x: 0, y: 0 },
+          start: { x: -20, y: 10 },
+          end: { x: 30, y: 600 },
+          emissionRate: 1,
+          particle,
+        },
+      ] as any);
+
+      expect(bounds).toEqual({ minX: -20, minY: 0, maxX: 500, maxY: 600 });
+    });
+
+    it('should treat polygon vertices as relative to position', () => {
+      const bounds = getEmitterBounds([
+        {
+          type: 'polygon',
+          position: { x: 100, y: 100 },
+          vertices: [{ x: -10, y: 0 }, { x: 10, y: 20 }, { x: 0, y: -30 }],
+          emissionRate: 1,
+          particle,
+        },
+      ] as any);
+
+      expect(bounds).toEqual({ minX: 90, minY: 70, maxX: 110, maxY: 120 });
+    });
+  });
+
+  describe('fitCameraToBounds', () => {
+    it('should centre and scale the bounds into the viewport', () => {
+      const camera = fitCameraToBounds({ minX: 0, minY: 0, maxX: 1000, maxY: 100 }, 800, 600);
+      const topLeft = worldToScreen(camera, { x: 0, y: 0 });
+      const bottomRight = worldToScreen(camera, { x: 1000, y: 100 });
+
+      expect(camera.zoom).toBeCloseTo((800 - 96) / 1000);
+      expect((topLeft.x + bottomRight.x) / 2).toBeCloseTo(400);
+      expect((topLeft.y + bottomRight.y) / 2).toBeCloseTo(300);
+    });
+
+    it('should keep 1:1 zoom for a single point', () => {
+      const camera = fitCameraToBounds({ minX: 50, minY: 50, maxX: 50, maxY: 50 }, 800, 600);
+
+      expect(camera).toEqual({ zoom: 1, pan: { x: 350, y: 250 } });
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCaptureFileName,
+  getCaptureFrameCount,
+  getCaptureSimFrame,
+  getCaptureTransform,
+  getPngFrameName,
+  normalizeCaptureSettings,
+  MAX_CAPTURE_SIZE,
+  MAX_GIF_FPS,
+} from '../../../src/utils/capture';
+import type { CaptureSettings } from '../../../src/utils/capture';
+
+const settings = (overrides: Partial<CaptureSettings> = {}): CaptureSettings => ({
+  format: 'png',
+  duration: 2,
+  fps: 30,
+  width: 800,
+  height: 600,
+  transparent: false,
+  ...overrides,
+});
+
+describe('capture', () => {
+  describe('normalizeCaptureSettings', () => {
+    it('should clamp duration and size', () => {
+      const result = normalizeCaptureSettings(
+        settings({ duration: 500, width: 10_000, height: 1.6 }),
+      );
+      expect(result.duration).toBe(30);
+      expect(result.width).toBe(MAX_CAPTURE_SIZE);
+      expect(result.height).toBe(16);
+    });
+
+    it('should fall back to 30 fps for unsupported rates', () => {
+      expect(normalizeCaptureSettings(settings({ fps: 7 })).fps).toBe(30);
+    });
+
+    it('should cap GIF frame rates', () => {
+      expect(normalizeCaptureSettings(settings({ format: 'gif', fps: 60 })).fps).toBe(MAX_GIF_FPS);
+      expect(normalizeCaptureSettings(settings({ format: 'webm', fps: 60 })).fps).toBe(60);
+    });
+  });
+
+  describe('getCaptureFrameCount', () => {
+    it('should render duration × fps frames, at least one', () => {
+      expect(getCaptureFrameCount(settings({ duration: 2, fps: 30 }))).toBe(60);
+      expect(getCaptureFrameCount(settings({ duration: 0.001, fps: 10 }))).toBe(1);
+    });
+  });
+
+  describe('getCaptureSimFrame', () => {
+    it('should map output frames onto the 60 fps simulation', () => {
+      expect([0, 1, 2, 3].map((i) => getCaptureSimFrame(i, 30))).toEqual([0, 2, 4, 6]);
+      expect([0, 1, 2, 3].map((i) => getCaptureSimFrame(i, 24))).toEqual([0, 3, 5, 8]);
+    });
+  });
+
+  describe('getCaptureTransform', () => {
+    it('should scale uniformly to cover the output and centre it', () => {
+      expect(getCaptureTransform(800, 600, 1600, 1200)).toEqual({ scale: 2, x: 0, y: 0 });
+      expect(getCaptureTransform(800, 600, 600, 600)).toEqual({ scale: 1, x: -100, y: 0 });
+    });
+  });
+
+  describe('file names', () => {
+    it('should name files by format', () => {
+      expect(getCaptureFileName('gif')).toBe('particle-effect.gif');
+      expect(getCaptureFileName('png')).toBe('particle-effect-frames.zip');
+    });
+
+    it('should pad PNG frame numbers so they sort in order', () => {
+      expect(getPngFrameName(0, 60)).toBe('frame_0001.png');
+      expect(getPngFrameName(41, 12_000)).toBe('frame_00042.png');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describePasteIssues,
+  parseClipboardYaml,
+  serializeBehaviors,
+  serializeEmitters,
+} from '../../../src/utils/clipboard';
+
+const emitter = {
+  type: 'point',
+  name: 'Sparks',
+  emissionRate: 20,
+  position: { x: 400, y: 300 },
+  particle: { type: 'sprite', lifetime: 1, behaviors: [{ type: 'gravity', priority: 50 }] },
+} as any;
+
+describe('emitters', () => {
+  it('round-trips through the clipboard format', () => {
+    const content = parseClipboardYaml(serializeEmitters([emitter]));
+    expect(content).toEqual({ kind: 'emitters', emitters: [emitter], issues: [] });
+  });
+
+  it('applies import auto-fixes and reports them', () => {
+    const yaml = 'emitters:\n  - type: point\n    emissionRate: 5\n    particle:\n      type: sprite\n';
+    const content = parseClipboardYaml(yaml);
+    expect(content?.kind).toBe('emitters');
+    if (content?.kind !== 'emitters') return;
+    expect(content.emitters[0].position).toEqual({ x: 0, y: 0 });
+    expect(content.issues).toHaveLength(1);
+    expect(content.issues[0]).toMatchObject({ kind: 'repairable', path: 'emitters[0].position', line: 2 });
+  });
+
+  it('leaves out emitters that cannot be repaired', () => {
+    const content = parseClipboardYaml('emitters:\n  - name: nope\n');
+    if (content?.kind !== 'emitters') throw new Error('expected emitters');
+    expect(content.emitters).toEqual([]);
+    expect(content.issues[0].kind).toBe('dropped');
+  });
+
+  it('ignores system issues when a whole file is pasted', () => {
+    const content = parseClipboardYaml(
+      'system:\n  maxParticles: lots\nemitters:\n' + serializeEmitters([emitter]).replace('emitters:\n', ''),
+    );
+    if (content?.kind !== 'emitters') throw new Error('expected emitters');
+    expect(content.emitters).toHaveLength(1);
+    expect(content.issues).toEqual([]);
+  });
+});
+
+describe('behaviors', () => {
+  it('round-trips through the clipboard format', () => {
+    const behavior = { type: 'fade', priority: 10, startAlpha: 1, endAlpha: 0 } as any;
+    expect(parseClipboardYaml(serializeBehaviors([behavior]))).toEqual({
+      kind: 'behaviors',
+      behaviors: [behavior],
+      issues: [],
+    });
+  });
+
+  it('drops unknown and malformed behaviors with their line', () => {
+    const yaml = 'behaviors:\n  - type: gravity\n  - type: teleport\n  - priority: 5\n';
+    const content = parseClipboardYaml(yaml);
+    if (content?.kind !== 'behaviors') throw new Error('expected behaviors');
+    expect(content.behaviors).toEqual([{ type: 'gravity' }]);
+    expect(content.issues.map((i) => [i.path, i.line])).toEqual([
+      ['behaviors[1]', 3],
+      ['behaviors[2]', 4],
+    ]);
+    expect(content.issues[0].message).toContain('Unknown behavior type "teleport"');
+  });
+
+  it('reports a behaviors key that is not a list', () => {
+    const content = parseClipboardYaml('behaviors: gravity\n');
+    if (content?.kind !== 'behaviors') throw new Error('expected behaviors');
+    expect(content.behaviors).toEqual([]);
+    expect(content.issues).toHaveLength(1);
+  });
+});
+
+describe('parseClipboardYaml', () => {
+  it('ignores text that is not an emitter or behavior snippet', () => {
+    expect(parseClipboardYaml('hello world')).toBeNull();
+    expect(parseClipboardYaml('- a\n- b\n')).toBeNull();
+    expect(parseClipboardYaml('key: [unclosed')).toBeNull();
+    expect(parseClipboardYaml('system:\n  maxParticles: 10\n')).toBeNull();
+  });
+});
+
+describe('describePasteIssues', () => {
+  it('summarizes the first issue', () => {
+    expect(describePasteIssues([])).toBe('');
+    expect(
+      describePasteIssues([
+        { kind: 'repairable', path: 'emitters[0].position', line: 4, message: 'Emitter 0: Missing position', fix: 'Set position to (0, 0)' },
+        { kind: 'dropped', path: 'emitters[1]', line: null, message: 'Emitter 1: Missing emitter type' },
+      ]),
+    ).toBe('Line 4: Emitter 0: Missing position — set position to (0, 0) (+1 more)');
+  });
+});
@@ -2,12 +2,20 @@ import { describe, it, expect } from 'vitest';
 import {
   editorConfigToYAML,
   yamlToEditorConfig,
+  parseYamlImport,
   validateEditorConfig,
+  parseValidationPath,
+  getInvalidEmitterIndices,
+  getFieldPathCandidates,
   getDefaultVelocityConfig,
   getDefaultParticleConfig,
   recentreEmittersOnResize,
+  getPreviewConfig,
+  getMaxParticles,
+  getAutoStart,
 } from '../../../src/utils/configTransform';
 import type { EditorConfig } from '../../../src/store/types';
+import { EXAMPLE_DEFINITIONS } from '../../../src/data/exampleDefinitions';
 
 describe('configTransform', () => {
   describe('editorConfigToYAML', () => {
@@ -115,8 +123,194 @@ emitters: []
 
       const config = yamlToEditorConfig(yaml);
 
-      expect(config.system.maxParticles).toBe(1000);
-      expect(config.system.autoStart).toBe(true);
+      expect(config.system).toEqual({});
+      expect(getMaxParticles(config)).toBe(1000);
+      expect(getAutoStart(config)).toBe(true);
+    });
+  });
+
+  describe('parseYamlImport', () => {
+    const yaml = `system:
+  maxParticles: 500
+  seed: 42
+emitters:
+  - type: point
+    name: Good
+    position: { x: 1, y: 2 }
+    emissionRate: 10
+    particle: { type: sprite, lifetime: 1 }
+  - type: point
+    name: NoRate
+    position: { x: 1, y: 2 }
+    particle: { type: sprite, lifetime: 1 }
+  - name: NoType
+    position: { x: 1, y: 2 }
+  - type: burst
+    burstCount: 5
+    position:
+      x: 3
+    particle:
+      frameSequence: coin
+      lifetime: 1
+`;
+
+    it('should drop unrepairable and repairable emitters from the plain config', () => {
+      const result = parseYamlImport(yaml);
+
+      expect(result.config.emitters.map((e) => e.name)).toEqual(['Good']);
+      expect(result.config.system.maxParticles).toBe(500);
+    });
+
+    it('should apply auto-fixes in the repaired config', () => {
+      const { repairedConfig } = parseYamlImport(yaml);
+
+      expect(repairedConfig.emitters).toHaveLength(3);
+      expect(repairedConfig.emitters[1].emissionRate).toBe(50);
+      expect(repairedConfig.emitters[2].position).toEqual({ x: 3, y: 0 });
+      expect(repairedConfig.emitters[2].particle.type).toBe('animatedSprite');
+    });
+
+    it('should report each problem with its kind, path and source line', () => {
+      const { issues } = parseYamlImport(yaml);
+
+      expect(issues.map((i) => [i.kind, i.path, i.line])).toEqual([
+        ['repairable', 'emitters[1].emissionRate', 10],
+        ['dropped', 'emitters[2].type', 14],
+        ['repairable', 'emitters[3].position', 18],
+        ['repairable', 'emitters[3].particle.type', 20],
+      ]);
+      expect(issues[0].message).toContain('NoRate');
+      expect(issues[0].fix).toBe('Set emissionRate to 50');
+      expect(issues[1].fix).toBeUndefined();
+    });
+
+    it('should report nothing for a clean file', () => {
+      const { issues } = parseYamlImport(EXAMPLE_DEFINITIONS[0].yaml);
+
+      expect(issues).toEqual([]);
+    });
+
+    it('should throw on malformed YAML', () => {
+      expect(() => parseYamlImport('emitters: [')).toThrow('Failed to parse YAML');
+    });
+  });
+
+  describe('lossless round-trip', () => {
+    const source = `# Campfire effect
+system:
+  maxParticles: 500 # budget for mobile
+  autoStart: true
+  seed: 42
+emitters:
+  # Main flame
+  - type: point
+    name: Flame
+    position: { x: 400, y: 300 }
+    emissionRate: 30
+    futureField: keep-me
+    particle:
+      type: sprite
+      texture: 'flame'
+      lifetime: 1.5
+      behaviors: []
+renderer:
+  antialias: true
+`;
+
+    it('should reproduce an unedited file exactly', () => {
+      expect(editorConfigToYAML(yamlToEditorConfig(source))).toBe(source);
+    });
+
+    it('should keep unknown system keys and top-level sections', () => {
+      const config = yamlToEditorConfig(source);
+
+      expect(config.system.seed).toBe(42);
+      expect(config.extraSections).toEqual({ renderer: { antialias: true } });
+      expect((config.emitters[0] as any).futureField).toBe('keep-me');
+    });
+
+    it('should only change the edited lines', () => {
+      const config = yamlToEditorConfig(source);
+      config.system.maxParticles = 800;
+      config.emitters[0] = { ...config.emitters[0], emissionRate: 45 };
+
+      const lines = editorConfigToYAML(config).split('\n');
+      const original = source.split('\n');
+      const changed = lines.filter((line, i) => line !== original[i]);
+
+      expect(lines).toHaveLength(original.length);
+      expect(changed).toEqual(['  maxParticles: 800 # budget for mobile', '    emissionRate: 45']);
+    });
+
+    it('should add new fields and drop removed ones', () => {
+      const config = yamlToEditorConfig(source);
+      const { futureField: _removed, ...emitter } = config.emitters[0] as any;
+      config.emitters[0] = { ...emitter, maxParticles: 100 };
+
+      const yaml = editorConfigToYAML(config);
+
+      expect(yaml).not.toContain('futureField');
+      expect(yaml).toContain('# Main flame');
+      expect(yamlToEditorConfig(yaml).emitters[0].maxParticles).toBe(100);
+    });
+
+    it('should keep comments and unknown fields with their emitter when layers change', () => {
+      const twoEmitters = source.replace(
+        'renderer:',
+        `  # Embers
+  - type: point
+    name: Embers
+    position: { x: 400, y: 320 }
+    emissionRate: 10
+    particle:
+      type: sprite
+      texture: 'ember'
+      lifetime: 3
+      behaviors: []
+renderer:`,
+      );
+      const config = yamlToEditorConfig(twoEmitters);
+
+      const deleted = editorConfigToYAML({ ...config, emitters: [config.emitters[1]] });
+      expect(deleted).not.toContain('# Main flame');
+      expect(deleted).not.toContain('futureField');
+      expect(deleted).toContain('# Embers');
+
+      const reordered = yamlToEditorConfig(
+        editorConfigToYAML({ ...config, emitters: [config.emitters[1], config.emitters[0]] }),
+      );
+      expect(reordered.emitters.map((e) => e.name)).toEqual(['Embers', 'Flame']);
+      expect((reordered.emitters[1] as any).futureField).toBe('keep-me');
+    });
+
+    it('should write emitters without a source entry as new nodes', () => {
+      const config = yamlToEditorConfig(source);
+      const { editorId: _id, futureField: _field, ...added } = config.emitters[0] as any;
+
+      const yaml = editorConfigToYAML({ ...config, emitters: [...config.emitters, { ...added, name: 'Smoke' }] });
+      const emitters = yamlToEditorConfig(yaml).emitters as any[];
+
+      expect(emitters.map((e) => [e.name, e.futureField])).toEqual([
+        ['Flame', 'keep-me'],
+        ['Smoke', undefined],
+      ]);
+    });
+
+    it('should not add system defaults the file left out', () => {
+      const minimal = `system:
+  seed: 7
+emitters: []
+`;
+      const config = yamlToEditorConfig(minimal);
+
+      expect(editorConfigToYAML(config)).toBe(minimal);
+      expect(editorConfigToYAML({ ...config, source: undefined })).not.toMatch(/maxParticles|autoStart/);
+    });
+
+    it('should fall back to a fresh dump when the source is unusable', () => {
+      const config = { ...yamlToEditorConfig(source), source: '- not a mapping' };
+
+      expect(yamlToEditorConfig(editorConfigToYAML(config)).emitters[0].name).toBe('Flame');
     });
   });
 
@@ -160,7 +354,47 @@ emitters: []
       const result = validateEditorConfig(config);
 
       expect(result.valid).toBe(false);
-      expect(result.errors.some((e) => e.includes('maxParticles'))).toBe(true);
+      expect(result.errors.some((e) => e.message.includes('maxParticles'))).toBe(true);
+    });
+
+    it('should warn about a seed that is not a 32-bit integer', () => {
+      const config: EditorConfig = {
+        system: {
+          maxParticles: 1000,
+          autoStart: true,
+          seed: 1.5,
+        },
+        emitters: [],
+      };
+
+      const result = validateEditorConfig(config);
+
+      expect(result.valid).toBe(true);
+      expect(result.errors).toEqual([
+        expect.objectContaining({ severity: 'warning', path: 'system.seed', code: 'seed-invalid' }),
+      ]);
+    });
+
+    it('should warn when the estimated peak exceeds maxParticles or the budget', () => {
+      const config: EditorConfig = {
+        system: { maxParticles: 100, autoStart: true, particleBudget: 50 },
+        emitters: [
+          {
+            type: 'point',
+            position: { x: 0, y: 0 },
+            emissionRate: 60,
+            particle: { type: 'sprite', texture: 'default', lifetime: 2, behaviors: [] },
+          } as any,
+        ],
+      };
+
+      const result = validateEditorConfig(config);
+
+      expect(result.valid).toBe(true);
+      expect(result.errors).toEqual([
+        expect.objectContaining({ path: 'system.maxParticles', code: 'max-particles-exceeded' }),
+        expect.objectContaining({ path: 'system.particleBudget', code: 'particle-budget-exceeded' }),
+      ]);
     });
 
     it('should fail validation for missing particle config', () => {
@@ -181,7 +415,7 @@ emitters: []
       const result = validateEditorConfig(config);
 
       expect(result.valid).toBe(false);
-      expect(result.errors.some((e) => e.includes('particle'))).toBe(true);
+      expect(result.errors.some((e) => e.message.includes('particle'))).toBe(true);
     });
 
     it('should pass validation for burst emitter without emissionRate', () => {
@@ -234,7 +468,7 @@ emitters: []
       const result = validateEditorConfig(config);
 
       expect(result.valid).toBe(false);
-      expect(result.errors.some((e) => e.includes('burstCount'))).toBe(true);
+      expect(result.errors.some((e) => e.message.includes('burstCount'))).toBe(true);
     });
 
     it('should pass validation for triggered emitter without emissionRate', () => {
@@ -264,6 +498,140 @@ emitters: []
     });
   });
 
+  describe('validateEditorConfig — structured entries', () => {
+    const makeEmitter = (overrides: Record<string, unknown> = {}) =>
+      ({
+        type: 'point',
+        position: { x: 0, y: 0 },
+        emissionRate: 10,
+        particle: { type: 'sprite', texture: 'default', lifetime: 1, behaviors: [] },
+        ...overrides,
+      }) as any;
+
+    const validate = (...emitters: any[]) =>
+      validateEditorConfig({ system: { maxParticles: 1000, autoStart: true }, emitters });
+
+    it('should address errors by JSON path and code', () => {
+      const result = validate(
+        makeEmitter(),
+        makeEmitter(),
+        makeEmitter({ particle: { type: 'sprite', behaviors: [] } }),
+      );
+
+      expect(result.errors).toEqual([
+        {
+          severity: 'error',
+          path: 'emitters[2].particle.lifetime',
+          code: 'lifetime-missing',
+          message: 'Emitter 2: Missing particle lifetime',
+        },
+      ]);
+    });
+
+    it('should report system-level errors at the system path', () => {
+      const result = validateEditorConfig({
+        system: { maxParticles: 20000, autoStart: true },
+        emitters: [],
+      });
+
+      expect(result.errors[0]).toMatchObject({
+        path: 'system.maxParticles',
+        code: 'max-particles-range',
+      });
+    });
+
+    it('should keep the config valid when there are only warnings', () => {
+      const result = validate(
+        makeEmitter({
+          emissionRate: 0,
+          particle: {
+            type: 'sprite',
+            lifetime: { min: 2, max: 1 },
+            behaviors: [{ type: 'fade' }, { type: 'wobble' }],
+          },
+        }),
+      );
+
+      expect(result.valid).toBe(true);
+      expect(result.errors.map((e) => [e.severity, e.code, e.path])).toEqual([
+        ['warning', 'emission-rate-zero', 'emitters[0].emissionRate'],
+        ['warning', 'lifetime-range-inverted', 'emitters[0].particle.lifetime'],
+        ['warning', 'behavior-unknown', 'emitters[0].particle.behaviors[1].type'],
+      ]);
+    });
+
+    it('should flag shape emitters without enough geometry', () => {
+      const result = validate(
+        makeEmitter({ type: 'circle', radius: 0 }),
+        makeEmitter({ type: 'polygon', vertices: [{ x: 0, y: 0 }] }),
+        makeEmitter({ type: 'path', path: [] }),
+      );
+
+      expect(result.errors.map((e) => e.code)).toEqual([
+        'radius-invalid',
+        'polygon-vertices-too-few',
+        'path-points-too-few',
+      ]);
+    });
+
+    it('should load every bundled example without errors', () => {
+      for (const example of EXAMPLE_DEFINITIONS) {
+        const result = validateEditorConfig(yamlToEditorConfig(example.yaml));
+        expect(result.errors, example.id).toEqual([]);
+      }
+    });
+  });
+
+  describe('parseValidationPath', () => {
+    it('should split emitter and behavior indices', () => {
+      expect(parseValidationPath('emitters[2].particle.behaviors[1].endAlpha')).toEqual({
+        emitterIndex: 2,
+        behaviorIndex: 1,
+        field: 'particle.behaviors[1].endAlpha',
+      });
+    });
+
+    it('should return emitter-level and system-level paths', () => {
+      expect(parseValidationPath('emitters[0].position')).toEqual({
+        emitterIndex: 0,
+        behaviorIndex: null,
+        field: 'position',
+      });
+      expect(parseValidationPath('system.maxParticles')).toEqual({
+        emitterIndex: null,
+        behaviorIndex: null,
+        field: 'system.maxParticles',
+      });
+    });
+  });
+
+  describe('getInvalidEmitterIndices', () => {
+    it('should collect emitters with errors but ignore warnings and system entries', () => {
+      const indices = getInvalidEmitterIndices({
+        valid: false,
+        errors: [
+          { severity: 'error', path: 'system.maxParticles', code: 'max-particles-range', message: '' },
+          { severity: 'error', path: 'emitters[1].position', code: 'position-invalid', message: '' },
+          { severity: 'warning', path: 'emitters[2].emissionRate', code: 'emission-rate-zero', message: '' },
+        ],
+      });
+
+      expect(Array.from(indices)).toEqual([1]);
+    });
+  });
+
+  describe('getFieldPathCandidates', () => {
+    it('should list the field and its ancestors, most specific first', () => {
+      expect(getFieldPathCandidates('particle.behaviors[1].type')).toEqual([
+        'particle.behaviors[1].type',
+        'particle.behaviors[1]',
+        'particle.behaviors',
+        'particle',
+      ]);
+      expect(getFieldPathCandidates('position')).toEqual(['position']);
+    });
+  });
+
   describe('getDefaultParticleConfig', () => {
     it.each(['point', 'circle', 'area', 'line', 'polygon', 'path', 'burst', 'timed'])(
       'should include velocity behavior for %s emitter',
@@ -491,4 +859,70 @@ emitters: []
       expect(original.position).toEqual({ x: 400, y: 300 });
     });
   });
+
+  describe('getPreviewConfig', () => {
+    const makeConfig = (count: number): EditorConfig => ({
+      system: { maxParticles: 1000, autoStart: true },
+      emitters: Array.from({ length: count }, (_, i) => ({
+        editorId: `e${i}`,
+        type: 'point',
+        name: `Layer ${i}`,
+        position: { x: 0, y: 0 },
+        emissionRate: 10,
+        particle: { type: 'sprite', texture: 'default', lifetime: 1, behaviors: [] },
+      })) as any,
+    });
+
+    it('should return the same reference when nothing is hidden or soloed', () => {
+      const config = makeConfig(3);
+
+      expect(getPreviewConfig(config, new Set(), [])).toBe(config);
+    });
+
+    it('should drop hidden emitters', () => {
+      const config = makeConfig(3);
+      const result = getPreviewConfig(config, new Set(['e0', 'e2']), []);
+
+      expect(result.emitters.map((e) => e.name)).toEqual(['Layer 1']);
+      expect(result.system).toBe(config.system);
+    });
+
+    it('should keep only the soloed emitter, even if it is hidden', () => {
+      const config = makeConfig(3);
+      const result = getPreviewConfig(config, new Set(['e1']), ['e1']);
+
+      expect(result.emitters.map((e) => e.name)).toEqual(['Layer 1']);
+    });
+
+    it('should keep every soloed emitter', () => {
+      const config = makeConfig(3);
+      const result = getPreviewConfig(config, new Set(), ['e2', 'e0']);
+
+      expect(result.emitters.map((e) => e.name)).toEqual(['Layer 0', 'Layer 2']);
+    });
+
+    it('should ignore a solo id that is not in the config', () => {
+      const config = makeConfig(2);
+      const result = getPreviewConfig(config, new Set(['e0']), ['e5']);
+
+      expect(result.emitters.map((e) => e.name)).toEqual(['Layer 1']);
+    });
+
+    it('should always drop excluded emitters, even when soloed', () => {
+      const config = makeConfig(3);
+
+      expect(getPreviewConfig(config, new Set(), [], new Set([1])).emitters.map((e) => e.name)).toEqual([
+        'Layer 0',
+        'Layer 2',
+      ]);
+      expect(getPreviewConfig(config, new Set(), ['e1'], new Set([1])).emitters).toEqual([]);
+    });
+
+    it('should not mutate the source config', () => {
+      const config = makeConfig(2);
+      getPreviewConfig(config, new Set(['e0']), []);
+
+      expect(config.emitters.length).toBe(2);
+    });
+  });
 });
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  activateDocument,
+  captureDocument,
+  createDocument,
+  getDocumentNameFromFile,
+  getNextActiveDocumentId,
+  getUniqueDocumentName,
+  isPristineDocument,
+} from '../../../src/utils/documents';
+
+const config = (emitters: unknown[] = []) =>
+  ({ system: { maxParticles: 100, autoStart: true, seed: 1 }, emitters }) as any;
+
+const ui = {
+  selectedEmitterId: 'e2',
+  selectedEmitterIds: ['e0', 'e2'],
+  selectedBehaviorId: 'b1',
+  hiddenEmitterIds: new Set(['e1']),
+  lockedEmitterIds: new Set(['e0']),
+  soloMode: true,
+  hasUnsavedChanges: true,
+  zoom: 2,
+  fieldFocusRequest: { path: 'emitters[0]', id: 3 },
+} as any;
+
+describe('createDocument', () => {
+  it('selects the first layer when there is one', () => {
+    const emitters = [{ type: 'continuous', editorId: 'e0' }, { type: 'burst', editorId: 'e1' }];
+    expect(createDocument('a', 'A', config(emitters)).selection.selectedEmitterId).toBe('e0');
+    expect(createDocument('a', 'A', config()).selection.selectedEmitterId).toBeNull();
+  });
+});
+
+describe('captureDocument / activateDocument', () => {
+  it('round-trips the per-document state', () => {
+    const live = { config: config([{}, {}, {}]), history: [{ label: 'x' }] as any, historyIndex: 0, ui };
+    const captured = captureDocument(createDocument('a', 'A', config()), live);
+
+    expect(captured).toMatchObject({
+      id: 'a',
+      name: 'A',
+      historyIndex: 0,
+      selection: { selectedEmitterId: 'e2', selectedEmitterIds: ['e0', 'e2'], selectedBehaviorId: 'b1' },
+      soloMode: true,
+      hasUnsavedChanges: true,
+    });
+    expect(captured.config).toBe(live.config);
+
+    const restored = activateDocument(captured, { ...ui, soloMode: false, hasUnsavedChanges: false });
+    expect(restored.activeDocumentId).toBe('a');
+    expect(restored.config).toBe(live.config);
+    expect(restored.ui.selectedEmitterIds).toEqual(['e0', 'e2']);
+    expect(restored.ui.hiddenEmitterIds).toBe(ui.hiddenEmitterIds);
+    expect(restored.ui.lockedEmitterIds).toBe(ui.lockedEmitterIds);
+    expect(restored.ui.soloMode).toBe(true);
+    expect(restored.ui.hasUnsavedChanges).toBe(true);
+  });
+
+  it('keeps view settings and drops pending field focus', () => {
+    const restored = activateDocument(createDocument('b', 'B', config()), ui);
+    expect(restored.ui.zoom).toBe(2);
+    expect(restored.ui.fieldFocusRequest).toBeNull();
+    expect(restored.ui.hiddenEmitterIds.size).toBe(0);
+    expect(restored.ui.lockedEmitterIds.size).toBe(0);
+  });
+});
+
+describe('isPristineDocument', () => {
+  it('is true only for an untouched blank document', () => {
+    const blank = createDocument('a', 'A', config());
+    expect(isPristineDocument(blank)).toBe(true);
+    expect(isPristineDocument({ ...blank, hasUnsavedChanges: true })).toBe(false);
+    expect(isPristineDocument({ ...blank, history: [{}] as any })).toBe(false);
+    expect(isPristineDocument(createDocument('b', 'B', config([{}])))).toBe(false);
+  });
+});
+
+describe('getUniqueDocumentName', () => {
+  const docs = ['Untitled', 'Untitled 2', 'Fire'].map((name, i) => createDocument(String(i), name, config()));
+
+  it('numbers names already in use', () => {
+    expect(getUniqueDocumentName(docs, 'Untitled')).toBe('Untitled 3');
+    expect(getUniqueDocumentName(docs, 'Fire')).toBe('Fire 2');
+    expect(getUniqueDocumentName(docs, 'Smoke')).toBe('Smoke');
+  });
+
+  it('falls back to Untitled for blank names', () => {
+    expect(getUniqueDocumentName([], '  ')).toBe('Untitled');
+  });
+});
+
+describe('getDocumentNameFromFile', () => {
+  it('strips the extension', () => {
+    expect(getDocumentNameFromFile('campfire.yaml')).toBe('campfire');
+    expect(getDocumentNameFromFile('my.effect.zip')).toBe('my.effect');
+    expect(getDocumentNameFromFile('noext')).toBe('noext');
+  });
+});
+
+describe('getNextActiveDocumentId', () => {
+  const docs = ['a', 'b', 'c'].map((id) => createDocument(id, id, config()));
+
+  it('prefers the right neighbour, then the left', () => {
+    expect(getNextActiveDocumentId(docs, 'b')).toBe('c');
+    expect(getNextActiveDocumentId(docs, 'c')).toBe('b');
+  });
+
+  it('returns null for the last tab or an unknown id', () => {
+    expect(getNextActiveDocumentId(docs.slice(0, 1), 'a')).toBeNull();
+    expect(getNextActiveDocumentId(docs, 'z')).toBeNull();
+  });
+});
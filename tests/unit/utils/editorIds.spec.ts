@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findBehaviorIndex,
+  findEmitter,
+  findEmitterIndex,
+  getEditorId,
+  stripEmitterIds,
+  withConfigIds,
+  withEmitterIds,
+} from '../../../src/utils/editorIds';
+import { editorConfigToYAML } from '../../../src/utils/configTransform';
+
+const emitter = (editorId?: string, behaviorIds: (string | undefined)[] = []) =>
+  ({
+    type: 'continuous',
+    ...(editorId && { editorId }),
+    particle: {
+      type: 'sprite',
+      behaviors: behaviorIds.map((id) => ({ type: 'gravity', ...(id && { editorId: id }) })),
+    },
+  }) as any;
+
+describe('withEmitterIds', () => {
+  it('returns the same emitter when it is fully identified', () => {
+    const e = emitter('e1', ['b1']);
+    expect(withEmitterIds(e)).toBe(e);
+  });
+
+  it('fills in missing ids and keeps existing ones', () => {
+    const result = withEmitterIds(emitter('e1', ['b1', undefined]));
+    expect(getEditorId(result)).toBe('e1');
+    expect(getEditorId(result.particle.behaviors[0])).toBe('b1');
+    expect(getEditorId(result.particle.behaviors[1])).not.toBe('');
+  });
+
+  it('replaces every id when fresh', () => {
+    const result = withEmitterIds(emitter('e1', ['b1']), true);
+    expect(getEditorId(result)).not.toBe('e1');
+    expect(getEditorId(result.particle.behaviors[0])).not.toBe('b1');
+  });
+});
+
+describe('withConfigIds', () => {
+  it('returns the same config when nothing is missing', () => {
+    const config = { system: {}, emitters: [emitter('e1')] } as any;
+    expect(withConfigIds(config)).toBe(config);
+    expect(getEditorId(withConfigIds({ system: {}, emitters: [emitter()] } as any).emitters[0])).not.toBe('');
+  });
+});
+
+describe('stripEmitterIds', () => {
+  it('removes ids from the emitter and its behaviors', () => {
+    const stripped = stripEmitterIds(emitter('e1', ['b1']));
+    expect(stripped).toEqual(emitter(undefined, [undefined]));
+  });
+
+  it('keeps ids out of exported YAML', () => {
+    const yaml = editorConfigToYAML({
+      system: { maxParticles: 100, autoStart: true },
+      emitters: [emitter('e1', ['b1'])],
+    } as any);
+    expect(yaml).not.toContain('editorId');
+  });
+});
+
+describe('find helpers', () => {
+  const emitters = [emitter('e1'), emitter('e2', ['b1', 'b2'])];
+
+  it('look emitters and behaviors up by id', () => {
+    expect(findEmitterIndex(emitters, 'e2')).toBe(1);
+    expect(findEmitter(emitters, 'e2')).toBe(emitters[1]);
+    expect(findBehaviorIndex(emitters[1], 'b2')).toBe(1);
+  });
+
+  it('miss for null and unknown ids', () => {
+    expect(findEmitterIndex(emitters, null)).toBe(-1);
+    expect(findEmitter(emitters, 'nope')).toBeNull();
+    expect(findBehaviorIndex(emitters[0], 'b1')).toBe(-1);
+    expect(findBehaviorIndex(null, null)).toBe(-1);
+  });
+});
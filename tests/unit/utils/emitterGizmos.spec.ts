@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getGizmoHandles,
+  dragGizmoHandle,
+  insertGizmoVertex,
+  deleteGizmoVertex,
+  hitTestGizmoHandles,
+} from '../../../src/utils/emitterGizmos';
+import type { GizmoHandle } from '../../../src/utils/emitterGizmos';
+
+const particle = { type: 'sprite', texture: 'default', lifetime: 1, behaviors: [] };
+
+const makeEmitter = (overrides: Record<string, unknown>) =>
+  ({
+    type: 'point',
+    position: { x: 100, y: 100 },
+    emissionRate: 10,
+    particle,
+    ...overrides,
+  } as any);
+
+const findHandle = (handles: GizmoHandle[], id: string) => {
+  const found = handles.find((h) => h.id === id);
+  if (!found) throw new Error(`Missing handle ${id}`);
+  return found;
+};
+
+const identity = (p: { x: number; y: number }) => p;
+
+describe('emitterGizmos', () => {
+  describe('getGizmoHandles', () => {
+    it('should give every emitter a position handle', () => {
+      const handles = getGizmoHandles(makeEmitter({}));
+
+      expect(handles.map((h) => h.id)).toEqual(['position:0']);
+      expect(handles[0].position).toEqual({ x: 100, y: 100 });
+    });
+
+    it('should place circle radius handles on the horizontal axis', () => {
+      const handles = getGizmoHandles(
+        makeEmitter({ type: 'circle', radius: 50, innerRadius: 20 }),
+      );
+
+      expect(findHandle(handles, 'radius:0').position).toEqual({ x: 150, y: 100 });
+      expect(findHandle(handles, 'innerRadius:0').position).toEqual({ x: 80, y: 100 });
+    });
+
+    it('should keep the inner radius handle clear of the centre', () => {
+      const handles = getGizmoHandles(makeEmitter({ type: 'circle', radius: 50 }), 8);
+
+      expect(findHandle(handles, 'innerRadius:0').position).toEqual({ x: 92, y: 100 });
+    });
+
+    it('should place area corners around the centred rectangle', () => {
+      const handles = getGizmoHandles(makeEmitter({ type: 'area', width: 40, height: 20 }));
+
+      expect(findHandle(handles, 'corner:0').position).toEqual({ x: 80, y: 90 });
+      expect(findHandle(handles, 'corner:2').position).toEqual({ x: 120, y: 110 });
+    });
+
+    it('should convert relative polygon vertices to world space', () => {
+      const handles = getGizmoHandles(
+        makeEmitter({
+          type: 'polygon',
+          vertices: [{ x: 0, y: -10 }, { x: 10, y: 10 }, { x: -10, y: 10 }],
+        }),
+      );
+
+      expect(findHandle(handles, 'vertex:0').position).toEqual({ x: 100, y: 90 });
+      // Closing edge (last → first) also gets an insert handle.
+      expect(findHandle(handles, 'insert:2').position).toEqual({ x: 95, y: 100 });
+    });
+
+    it('should not add a closing insert handle for open paths', () => {
+      const handles = getGizmoHandles(
+        makeEmitter({ type: 'path', path: [{ x: 0, y: 0 }, { x: 10, y: 0 }] }),
+      );
+
+      expect(handles.filter((h) => h.kind === 'insert').map((h) => h.id)).toEqual(['insert:0']);
+    });
+  });
+
+  describe('dragGizmoHandle', () => {
+    it('should move the position by the drag delta, preserving the grab offset', () => {
+      const emitter = makeEmitter({});
+      const [position] = getGizmoHandles(emitter);
+
+      const updates = dragGizmoHandle(emitter, position, { x: 130, y: 95 }, { x: 103, y: 100 });
+
+      expect(updates).toEqual({ position: { x: 127, y: 95 } });
+    });
+
+    it('should carry absolute line endpoints along with the position', () => {
+      const emitter = makeEmitter({ type: 'line', start: { x: 0, y: 0 }, end: { x: 50, y: 0 } });
+      const position = findHandle(getGizmoHandles(emitter), 'position:0');
+
+      const updates = dragGizmoHandle(emitter, position, { x: 110, y: 120 }, { x: 100, y: 100 });
+
+      expect(updates).toEqual({
+        position: { x: 110, y: 120 },
+        start: { x: 10, y: 20 },
+        end: { x: 60, y: 20 },
+      });
+    });
+
+    it('should set the circle radius from the distance to the centre', () => {
+      const emitter = makeEmitter({ type: 'circle', radius: 50, innerRadius: 40 });
+      const radius = findHandle(getGizmoHandles(emitter), 'radius:0');
+
+      const updates = dragGizmoHandle(emitter, radius, { x: 130, y: 100 }, { x: 150, y: 100 });
+
+      // Inner radius is pulled in so it never exceeds the outer radius.
+      expect(updates).toEqual({ radius: 30, innerRadius: 30 });
+    });
+
+    it('should snap the inner radius to 0 near the centre', () => {
+      const emitter = makeEmitter({ type: 'circle', radius: 50, innerRadius: 20 });
+      const inner = findHandle(getGizmoHandles(emitter, 8), 'innerRadius:0');
+
+      const updates = dragGizmoHandle(emitter, inner, { x: 97, y: 100 }, inner.position, 8);
+
+      expect(updates).toEqual({ innerRadius: 0 });
+    });
+
+    it('should resize an area around the opposite corner', () => {
+      const emitter = makeEmitter({ type: 'area', width: 40, height: 20 });
+      const corner = findHandle(getGizmoHandles(emitter), 'corner:2');
+
+      const updates = dragGizmoHandle(emitter, corner, { x: 140, y: 130 }, corner.position);
+
+      expect(updates).toEqual({ position: { x: 110, y: 110 }, width: 60, height: 40 });
+    });
+
+    it('should write polygon vertices back relative to the position', () => {
+      const emitter = makeEmitter({
+        type: 'polygon',
+        vertices: [{ x: 0, y: -10 }, { x: 10, y: 10 }, { x: -10, y: 10 }],
+      });
+      const vertex = findHandle(getGizmoHandles(emitter), 'vertex:1');
+
+      const updates = dragGizmoHandle(emitter, vertex, { x: 125, y: 115 }, vertex.position);
+
+      expect((updates as any).vertices[1]).toEqual({ x: 25, y: 15 });
+    });
+  });
+
+  describe('insertGizmoVertex / deleteGizmoVertex', () => {
+    it('should insert a path waypoint after the segment', () => {
+      const emitter = makeEmitter({ type: 'path', path: [{ x: 0, y: 0 }, { x: 10, y: 0 }] });
+
+      const result = insertGizmoVertex(emitter, 0, { x: 5, y: 5 });
+
+      expect(result?.vertexIndex).toBe(1);
+      expect((result?.updates as any).path).toEqual([
+        { x: 0, y: 0 },
+        { x: 5, y: 5 },
+        { x: 10, y: 0 },
+      ]);
+    });
+
+    it('should refuse to delete below the minimum vertex count', () => {
+      const polygon = makeEmitter({
+        type: 'polygon',
+        vertices: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }],
+      });
+      const path = makeEmitter({ type: 'path', path: [{ x: 0, y: 0 }, { x: 1, y: 0 }] });
+
+      expect(deleteGizmoVertex(polygon, 0)).toBeNull();
+      expect(deleteGizmoVertex(path, 0)).toBeNull();
+    });
+
+    it('should delete a vertex when above the minimum', () => {
+      const emitter = makeEmitter({
+        type: 'path',
+        path: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }],
+      });
+
+      expect((deleteGizmoVertex(emitter, 1) as any).path).toEqual([
+        { x: 0, y: 0 },
+        { x: 2, y: 0 },
+      ]);
+    });
+  });
+
+  describe('hitTestGizmoHandles', () => {
+    it('should return the closest handle within the hit radius', () => {
+      const handles = getGizmoHandles(makeEmitter({ type: 'circle', radius: 10 }));
+
+      expect(hitTestGizmoHandles(handles, { x: 108, y: 101 }, identity, 6)?.id).toBe('radius:0');
+      expect(hitTestGizmoHandles(handles, { x: 101, y: 100 }, identity, 6)?.id).toBe('position:0');
+      expect(hitTestGizmoHandles(handles, { x: 200, y: 200 }, identity, 6)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTexturePackerAtlas,
+  estimateSheetSize,
+  findOpaqueBounds,
+  getFlipbookSimFrame,
+  normalizeFlipbookSettings,
+  packShelves,
+  premultiplyAlpha,
+  SHEET_PADDING,
+} from '../../../src/utils/flipbook';
+import type { FlipbookSettings } from '../../../src/utils/flipbook';
+
+const settings = (overrides: Partial<FlipbookSettings> = {}): FlipbookSettings => ({
+  frameCount: 16,
+  duration: 1,
+  cellWidth: 64,
+  cellHeight: 32,
+  trim: false,
+  premultipliedAlpha: false,
+  ...overrides,
+});
+
+/** RGBA buffer with the given pixels set to opaque white. */
+function image(width: number, height: number, opaque: Array<[number, number]>): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (const [x, y] of opaque) data.set([255, 255, 255, 255], (y * width + x) * 4);
+  return data;
+}
+
+describe('flipbook', () => {
+  describe('normalizeFlipbookSettings', () => {
+    it('should clamp frame count and cell size to whole numbers in range', () => {
+      const result = normalizeFlipbookSettings(
+        settings({ frameCount: 1000, cellWidth: 2, cellHeight: 100.4 }),
+      );
+      expect(result.frameCount).toBe(256);
+      expect(result.cellWidth).toBe(8);
+      expect(result.cellHeight).toBe(100);
+    });
+  });
+
+  describe('getFlipbookSimFrame', () => {
+    it('should spread frames evenly over the duration', () => {
+      const s = settings({ frameCount: 4, duration: 1 });
+      expect([0, 1, 2, 3].map((i) => getFlipbookSimFrame(i, s))).toEqual([0, 15, 30, 45]);
+    });
+  });
+
+  describe('findOpaqueBounds', () => {
+    it('should return the box around every non-transparent pixel', () => {
+      const data = image(8, 8, [
+        [2, 3],
+        [5, 1],
+        [4, 6],
+      ]);
+      expect(findOpaqueBounds(data, 8, 8)).toEqual({ x: 2, y: 1, w: 4, h: 6 });
+    });
+
+    it('should return null for an empty frame', () => {
+      expect(findOpaqueBounds(image(4, 4, []), 4, 4)).toBeNull();
+    });
+  });
+
+  describe('premultiplyAlpha', () => {
+    it('should scale colour by alpha', () => {
+      const data = new Uint8ClampedArray([200, 100, 50, 128, 10, 20, 30, 0]);
+      premultiplyAlpha(data);
+      expect(Array.from(data)).toEqual([100, 50, 25, 128, 0, 0, 0, 0]);
+    });
+  });
+
+  describe('packShelves', () => {
+    it('should lay frames out in rows, in order, with padding', () => {
+      const sheet = packShelves(
+        [
+          { w: 10, h: 5 },
+          { w: 10, h: 8 },
+          { w: 10, h: 4 },
+        ],
+        22,
+      );
+      expect(sheet.positions).toEqual([
+        { x: 0, y: 0 },
+        { x: 10 + SHEET_PADDING, y: 0 },
+        { x: 0, y: 8 + SHEET_PADDING },
+      ]);
+      expect(sheet.width).toBe(22);
+      expect(sheet.height).toBe(8 + SHEET_PADDING + 4);
+    });
+
+    it('should fit an untrimmed flipbook in the estimated sheet', () => {
+      const s = settings({ frameCount: 10 });
+      const sheet = packShelves(
+        Array.from({ length: 10 }, () => ({ w: s.cellWidth, h: s.cellHeight })),
+        estimateSheetSize(s).width,
+      );
+      expect({ width: sheet.width, height: sheet.height }).toEqual(estimateSheetSize(s));
+    });
+  });
+
+  describe('buildTexturePackerAtlas', () => {
+    it('should describe frames, the animation and the sheet', () => {
+      const s = settings({ frameCount: 2, duration: 0.5, premultipliedAlpha: true });
+      const atlas = buildTexturePackerAtlas(
+        [
+          {
+            name: 'effect_0000',
+            frame: { x: 0, y: 0, w: 64, h: 32 },
+            sourceRect: { x: 0, y: 0, w: 64, h: 32 },
+            trimmed: false,
+          },
+          {
+            name: 'effect_0001',
+            frame: { x: 66, y: 0, w: 20, h: 10 },
+            sourceRect: { x: 4, y: 6, w: 20, h: 10 },
+            trimmed: true,
+          },
+        ],
+        { width: 86, height: 32 },
+        s,
+      );
+
+      expect(atlas).toMatchObject({
+        frames: {
+          effect_0001: {
+            frame: { x: 66, y: 0, w: 20, h: 10 },
+            rotated: false,
+            trimmed: true,
+            spriteSourceSize: { x: 4, y: 6, w: 20, h: 10 },
+            sourceSize: { w: 64, h: 32 },
+          },
+        },
+        animations: { effect: ['effect_0000', 'effect_0001'] },
+        meta: {
+          image: 'particle-effect.png',
+          size: { w: 86, h: 32 },
+          premultiplyAlpha: true,
+          frameRate: 4,
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { computeGridLines, adaptGridSpacing, GRID_MAJOR_EVERY } from '../../../src/utils/grid';
+
+describe('grid', () => {
+  describe('computeGridLines', () => {
+    it('should cover the range with lines aligned to the spacing', () => {
+      const lines = computeGridLines(0, 200, 50);
+
+      expect(lines.map((l) => l.position)).toEqual([0, 50, 100, 150, 200]);
+    });
+
+    it('should mark every Nth line from the origin as major', () => {
+      const lines = computeGridLines(0, 500, 50);
+      const majors = lines.filter((l) => l.major).map((l) => l.position);
+
+      expect(GRID_MAJOR_EVERY).toBe(5);
+      expect(majors).toEqual([0, 250, 500]);
+    });
+
+    it('should align to the origin when the range starts off-grid', () => {
+      const lines = computeGridLines(-30, 70, 25);
+
+      expect(lines.map((l) => l.position)).toEqual([-25, 0, 25, 50]);
+      expect(lines.find((l) => l.position === 0)?.major).toBe(true);
+    });
+
+    it('should honour a custom major interval', () => {
+      const lines = computeGridLines(0, 40, 10, 2);
+
+      expect(lines.filter((l) => l.major).map((l) => l.position)).toEqual([0, 20, 40]);
+    });
+
+    it('should return no lines for invalid spacing', () => {
+      expect(computeGridLines(0, 100, 0)).toEqual([]);
+      expect(computeGridLines(0, 100, -10)).toEqual([]);
+      expect(computeGridLines(0, 100, NaN)).toEqual([]);
+    });
+
+    it('should return no lines for an inverted range', () => {
+      expect(computeGridLines(100, 0, 10)).toEqual([]);
+    });
+
+    it('should refuse to generate an excessive number of lines', () => {
+      expect(computeGridLines(0, 1_000_000, 1)).toEqual([]);
+    });
+  });
+
+  describe('adaptGridSpacing', () => {
+    it('should keep the grid size at 1:1 zoom', () => {
+      expect(adaptGridSpacing(50, 1)).toBe(50);
+    });
+
+    it('should not subdivide when zoomed in', () => {
+      expect(adaptGridSpacing(10, 8)).toBe(10);
+    });
+
+    it('should coarsen by the major interval when lines get too dense', () => {
+      expect(adaptGridSpacing(10, 0.5)).toBe(50);
+      expect(adaptGridSpacing(10, 0.1)).toBe(250);
+    });
+
+    it('should pass invalid input through unchanged', () => {
+      expect(adaptGridSpacing(0, 1)).toBe(0);
+      expect(adaptGridSpacing(50, 0)).toBe(50);
+    });
+  });
+});
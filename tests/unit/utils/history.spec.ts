@@ -0,0 +1,135 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import {
+  HISTORY_COALESCE_MS,
+  canCoalesce,
+  describeBulkChange,
+  describeChange,
+  estimateEntrySize,
+  getBulkEditKey,
+  getHistoryActionCount,
+  trimHistory,
+} from '../../../src/utils/history';
+import { useEditorStore } from '../../../src/store/editorStore';
+
+const entry = (label: string, extra: Record<string, unknown> = {}) =>
+  ({
+    config: { system: {}, emitters: [] },
+    selection: { selectedEmitterId: null, selectedEmitterIds: [], selectedBehaviorId: null },
+    label,
+    timestamp: 1000,
+    ...extra,
+  }) as any;
+
+const labels = (history: any[]) => history.map((e) => e.label);
+
+describe('describeChange', () => {
+  it('names the changed fields', () => {
+    expect(describeChange('Fade', { endAlpha: 0 })).toBe('Change Fade endAlpha');
+    expect(describeChange('particle', { scale: 1, alpha: 1 })).toBe('Change particle scale, alpha');
+    expect(describeChange('', { emissionRate: 10 })).toBe('Change emissionRate');
+  });
+});
+
+describe('describeBulkChange', () => {
+  it('names the field and how many layers it was changed on', () => {
+    expect(describeBulkChange('particle.lifetime', 3)).toBe('Change lifetime on 3 layers');
+    expect(describeBulkChange('emissionRate', 1)).toBe('Change emissionRate');
+  });
+});
+
+describe('getBulkEditKey', () => {
+  it('depends on both the layers and the field', () => {
+    const key = getBulkEditKey(['a', 'b'], 'emissionRate');
+    expect(getBulkEditKey(['a', 'b'], 'emissionRate')).toBe(key);
+    expect(getBulkEditKey(['a'], 'emissionRate')).not.toBe(key);
+    expect(getBulkEditKey(['a', 'b'], 'maxParticles')).not.toBe(key);
+  });
+});
+
+describe('canCoalesce', () => {
+  it('folds quick edits with the same key into the last entry', () => {
+    const last = entry('Change seed', { coalesceKey: 'system.seed' });
+    expect(canCoalesce(last, 'system.seed', 1000 + HISTORY_COALESCE_MS - 1)).toBe(true);
+    expect(canCoalesce(last, 'system.seed', 1000 + HISTORY_COALESCE_MS)).toBe(false);
+    expect(canCoalesce(last, 'system.maxParticles', 1100)).toBe(false);
+  });
+
+  it('never folds uncoalesced edits', () => {
+    expect(canCoalesce(entry('Move layer'), undefined, 1100)).toBe(false);
+    expect(canCoalesce(undefined, 'system.seed', 1100)).toBe(false);
+  });
+});
+
+describe('getHistoryActionCount', () => {
+  it('leaves out the trailing state kept for redo', () => {
+    const history = [entry('a'), entry('b'), entry('c')];
+    expect(getHistoryActionCount(history, 2)).toBe(3);
+    // After one undo the live state was appended as "current".
+    expect(getHistoryActionCount([...history, entry('current')], 1)).toBe(3);
+    expect(getHistoryActionCount([], -1)).toBe(0);
+  });
+});
+
+describe('trimHistory', () => {
+  const history = ['a', 'b', 'c', 'd', 'e'].map((label) => entry(label));
+
+  it('drops the oldest entries over the limit', () => {
+    const trimmed = trimHistory(history, 4, 3);
+    expect(labels(trimmed.history)).toEqual(['c', 'd', 'e']);
+    expect(trimmed.historyIndex).toBe(2);
+    expect(trimHistory(history, 4, 5).history).toBe(history);
+  });
+
+  it('stays within the memory budget', () => {
+    const size = estimateEntrySize(history[0]);
+    expect(size).toBeGreaterThan(0);
+    expect(labels(trimHistory(history, 4, 100, size * 2).history)).toEqual(['d', 'e']);
+  });
+
+  it('keeps the entries needed to undo once and redo', () => {
+    expect(labels(trimHistory(history, 4, 100, 0).history)).toEqual(['e']);
+    const undone = trimHistory(history, 1, 2);
+    expect(labels(undone.history)).toEqual(['b', 'c', 'd', 'e']);
+    expect(undone.historyIndex).toBe(0);
+  });
+});
+
+describe('editor store history', () => {
+  const layer = (name: string) =>
+    ({ type: 'point', name, position: { x: 0, y: 0 }, particle: { type: 'sprite', lifetime: 1 } }) as any;
+
+  beforeEach(() => {
+    const store = useEditorStore.getState();
+    useEditorStore.setState({ config: { ...store.config, emitters: [] }, history: [], historyIndex: -1 });
+    store.addEmitter(layer('a'));
+    store.addEmitter(layer('b'));
+  });
+
+  it('folds repeated bulk edits of one field into one entry', () => {
+    const ids = useEditorStore.getState().config.emitters.map((e: any) => e.editorId);
+    const bulkEdit = (field: string, value: unknown) => {
+      const { pushHistory, setEmittersField } = useEditorStore.getState();
+      pushHistory(describeBulkChange(field, ids.length), getBulkEditKey(ids, field));
+      setEmittersField(ids, field, value);
+    };
+
+    bulkEdit('emissionRate', 1);
+    bulkEdit('emissionRate', 12);
+    bulkEdit('emissionRate', 120);
+    expect(useEditorStore.getState().history).toHaveLength(1);
+
+    bulkEdit('particle.lifetime', 2);
+    expect(labels(useEditorStore.getState().history)).toEqual([
+      'Change emissionRate on 2 layers',
+      'Change lifetime on 2 layers',
+    ]);
+
+    // One undo reverts the whole run of rate edits.
+    useEditorStore.getState().undo();
+    useEditorStore.getState().undo();
+    expect(useEditorStore.getState().config.emitters.map((e: any) => e.emissionRate)).toEqual([
+      undefined,
+      undefined,
+    ]);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bakeGroupTransforms,
+  createGroup,
+  getGroupInsertIndex,
+  getLayerUnits,
+  getNextGroupName,
+  getSelectedGroup,
+  getUnitDropIndex,
+  normalizeGroups,
+  recentreGroupsOnResize,
+  toLocalUpdates,
+  transformEmitter,
+} from '../../../src/utils/layerGroups';
+import { moveEmitters } from '../../../src/utils/selection';
+
+const layer = (editorId: string, x = 0, y = 0, extra: Record<string, unknown> = {}) =>
+  ({ type: 'point', editorId, position: { x, y }, particle: { type: 'sprite', lifetime: 1 }, ...extra }) as any;
+
+const transform = (t: Record<string, unknown>) =>
+  ({ offset: { x: 0, y: 0 }, rotation: 0, scale: 1, pivot: { x: 0, y: 0 }, ...t }) as any;
+
+const ids = (list: any[]) => list.map((e) => e.editorId);
+
+describe('createGroup', () => {
+  it('pivots about the centre of its members', () => {
+    const group = createGroup('g1', 'Group 1', [layer('a', 0, 0), layer('b', 100, 50)]);
+    expect(group.emitterIds).toEqual(['a', 'b']);
+    expect(group.transform).toEqual({ offset: { x: 0, y: 0 }, rotation: 0, scale: 1, pivot: { x: 50, y: 25 } });
+  });
+
+  it('names groups after the first free number', () => {
+    expect(getNextGroupName([])).toBe('Group 1');
+    expect(getNextGroupName([{ name: 'Group 1' }, { name: 'Group 3' }] as any)).toBe('Group 2');
+  });
+});
+
+describe('transformEmitter', () => {
+  it('leaves the emitter alone for an identity transform', () => {
+    const emitter = layer('a', 10, 10);
+    expect(transformEmitter(emitter, transform({}))).toBe(emitter);
+  });
+
+  it('rotates and scales about the pivot, then offsets', () => {
+    const t = transform({ offset: { x: 5, y: 0 }, rotation: 90, scale: 2, pivot: { x: 100, y: 100 } });
+    expect(transformEmitter(layer('a', 110, 100), t).position).toEqual({ x: 105, y: 120 });
+  });
+
+  it('maps absolute points, relative vertices and sizes', () => {
+    const t = transform({ rotation: 90, scale: 2 });
+    const line = transformEmitter(
+      layer('l', 0, 0, { type: 'line', start: { x: 10, y: 0 }, end: { x: 0, y: 10 } }),
+      t,
+    ) as any;
+    expect(line.start).toEqual({ x: 0, y: 20 });
+    expect(line.end).toEqual({ x: -20, y: 0 });
+
+    const polygon = transformEmitter(layer('p', 10, 0, { type: 'polygon', vertices: [{ x: 5, y: 0 }] }), t) as any;
+    expect(polygon.position).toEqual({ x: 0, y: 20 });
+    expect(polygon.vertices).toEqual([{ x: 0, y: 10 }]);
+
+    const area = transformEmitter(layer('r', 0, 0, { type: 'area', width: 100, height: 40 }), t) as any;
+    expect([area.width, area.height]).toEqual([200, 80]);
+  });
+
+  it('round-trips through the inverse', () => {
+    const t = transform({ offset: { x: -30, y: 12 }, rotation: 33, scale: 1.5, pivot: { x: 200, y: 150 } });
+    const path = layer('p', 250, 100, { type: 'path', path: [{ x: 0, y: 0 }, { x: 300, y: 40 }], radius: 12 });
+    const back = transformEmitter(transformEmitter(path, t), t, true) as any;
+    expect(back.position.x).toBeCloseTo(250, 1);
+    expect(back.position.y).toBeCloseTo(100, 1);
+    expect(back.path[1].x).toBeCloseTo(300, 1);
+    expect(back.path[1].y).toBeCloseTo(40, 1);
+    expect(back.radius).toBeCloseTo(12, 1);
+  });
+});
+
+describe('bakeGroupTransforms', () => {
+  it('bakes members only and returns the config unchanged when nothing moves', () => {
+    const config = {
+      system: {},
+      emitters: [layer('a', 10, 10), layer('b', 20, 20)],
+      groups: [{ id: 'g', name: 'G', emitterIds: ['a'], collapsed: false, transform: transform({}) }],
+    } as any;
+    expect(bakeGroupTransforms(config)).toBe(config);
+
+    config.groups[0].transform = transform({ offset: { x: 5, y: -5 } });
+    const baked = bakeGroupTransforms(config);
+    expect(baked.emitters[0].position).toEqual({ x: 15, y: 5 });
+    expect(baked.emitters[1]).toBe(config.emitters[1]);
+    expect(config.emitters[0].position).toEqual({ x: 10, y: 10 });
+  });
+
+  it('maps gizmo edits back into the layer’s own coordinates', () => {
+    const groups = [
+      { id: 'g', name: 'G', emitterIds: ['a'], collapsed: false, transform: transform({ offset: { x: 100, y: 0 } }) },
+    ] as any;
+    const world = layer('a', 110, 0, { radius: 5 });
+    expect(toLocalUpdates(groups, world, { position: { x: 150, y: 20 } })).toEqual({ position: { x: 50, y: 20 } });
+  });
+});
+
+describe('group bookkeeping', () => {
+  const emitters = [layer('a'), layer('b'), layer('c'), layer('d'), layer('e')];
+  const group = (id: string, emitterIds: string[]) =>
+    ({ id, name: id, emitterIds, collapsed: false, transform: transform({}) }) as any;
+
+  it('drops missing layers and empty groups, keeping layer order', () => {
+    const groups = normalizeGroups(emitters, [group('g1', ['d', 'x', 'b']), group('g2', ['y'])]);
+    expect(groups.map((g) => g.emitterIds)).toEqual([['b', 'd']]);
+  });
+
+  it('finds the group a selection consists of', () => {
+    const groups = [group('g1', ['b', 'c'])];
+    expect(getSelectedGroup(groups, ['c', 'b'])?.id).toBe('g1');
+    expect(getSelectedGroup(groups, ['b'])).toBeNull();
+    expect(getSelectedGroup(groups, ['a', 'b', 'c'])).toBeNull();
+  });
+
+  it('shifts pivots with the canvas', () => {
+    const groups = [{ ...group('g1', ['a']), transform: transform({ pivot: { x: 400, y: 300 } }) }];
+    expect(recentreGroupsOnResize(groups, 800, 600, 1000, 800)![0].transform.pivot).toEqual({ x: 500, y: 400 });
+    expect(recentreGroupsOnResize(groups, 800, 600, 800, 600)).toBe(groups);
+  });
+
+  it('lists groups as single units', () => {
+    const units = getLayerUnits(emitters, [group('g1', ['b', 'c'])]);
+    expect(units.map((u) => (u.kind === 'group' ? u.group.id : u.ids[0]))).toEqual(['a', 'g1', 'd', 'e']);
+  });
+
+  it('moves a whole group between units', () => {
+    const units = getLayerUnits(emitters, [group('g1', ['b', 'c'])]);
+    // Drag the group (unit 1) below `d`: without it the list is a, d, e.
+    const toIndex = getUnitDropIndex(units, ['b', 'c'], 1, 2);
+    expect(ids(moveEmitters(emitters, ['b', 'c'], toIndex))).toEqual(['a', 'd', 'b', 'c', 'e']);
+  });
+
+  it('inserts a new group where its first layer was without splitting others', () => {
+    expect(getGroupInsertIndex(getLayerUnits(emitters, []), ['e', 'a'])).toBe(0);
+    // `c` was taken out of g1 (now just `b`): the block lands after g1.
+    const units = getLayerUnits(emitters, [group('g1', ['b'])]);
+    expect(ids(moveEmitters(emitters, ['c', 'e'], getGroupInsertIndex(units, ['c', 'e'])))).toEqual([
+      'a',
+      'b',
+      'c',
+      'e',
+      'd',
+    ]);
+  });
+});
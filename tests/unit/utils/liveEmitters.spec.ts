@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detachLiveEmitters,
+  getLiveEmitter,
+  getLiveEmitterCount,
+  replaceLiveEmitter,
+} from '../../../src/utils/liveEmitters';
+
+const createEmitter = (log: string[], name: string) => ({
+  start: () => log.push(`${name}.start`),
+  stop: () => log.push(`${name}.stop`),
+  dispose: () => log.push(`${name}.dispose`),
+});
+
+describe('liveEmitters', () => {
+  it('should read emitters from a system', () => {
+    const emitter = {};
+    const system = { emitters: [emitter] };
+
+    expect(getLiveEmitterCount(system)).toBe(1);
+    expect(getLiveEmitter(system, 0)).toBe(emitter);
+    expect(getLiveEmitter(system, 1)).toBeNull();
+  });
+
+  it('should treat a system without an emitter list as empty', () => {
+    expect(getLiveEmitterCount({})).toBeNull();
+    expect(getLiveEmitter(null, 0)).toBeNull();
+    expect(detachLiveEmitters({})).toEqual([]);
+    expect(replaceLiveEmitter({}, 0, {}, false)).toBe(false);
+  });
+
+  it('should detach every emitter from a system', () => {
+    const emitters = [{}, {}];
+    const system = { emitters: [...emitters] };
+
+    expect(detachLiveEmitters(system)).toEqual(emitters);
+    expect(system.emitters).toEqual([]);
+  });
+
+  it('should stop and dispose the emitter it replaces', () => {
+    const log: string[] = [];
+    const old = createEmitter(log, 'old');
+    const next = createEmitter(log, 'next');
+    const system = { emitters: [{}, old] };
+
+    expect(replaceLiveEmitter(system, 1, next, true)).toBe(true);
+    expect(system.emitters[1]).toBe(next);
+    expect(log).toEqual(['old.stop', 'old.dispose', 'next.start']);
+  });
+
+  it('should leave the replacement stopped unless asked to start it', () => {
+    const log: string[] = [];
+    const system = { emitters: [createEmitter(log, 'old')] };
+
+    replaceLiveEmitter(system, 0, createEmitter(log, 'next'), false);
+    expect(log).toEqual(['old.stop', 'old.dispose']);
+  });
+
+  it('should not replace outside the list', () => {
+    const system = { emitters: [{}] };
+
+    expect(replaceLiveEmitter(system, 1, {}, false)).toBe(false);
+    expect(replaceLiveEmitter(system, -1, {}, false)).toBe(false);
+    expect(system.emitters).toHaveLength(1);
+  });
+});
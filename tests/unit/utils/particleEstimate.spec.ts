@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateConfig,
+  estimateEmitter,
+  getLifetimeRange,
+  getMeanLifetime,
+  getParticleBudget,
+} from '../../../src/utils/particleEstimate';
+import type { EditorConfig } from '../../../src/store/types';
+
+function emitter(fields: Record<string, unknown>, lifetime: unknown = 2) {
+  return {
+    type: 'point',
+    position: { x: 0, y: 0 },
+    particle: { type: 'sprite', texture: 'default', lifetime, behaviors: [] },
+    ...fields,
+  } as any;
+}
+
+describe('particleEstimate', () => {
+  describe('lifetimes', () => {
+    it('should read numbers and min / max ranges', () => {
+      expect(getLifetimeRange(emitter({}, 2))).toEqual({ min: 2, max: 2 });
+      expect(getLifetimeRange(emitter({}, { min: 1, max: 3 }))).toEqual({ min: 1, max: 3 });
+      expect(getMeanLifetime(emitter({}, { min: 1, max: 3 }))).toBe(2);
+      expect(getMeanLifetime(emitter({}, null))).toBe(0);
+    });
+  });
+
+  describe('estimateEmitter', () => {
+    it('should multiply emission rate by lifetime for continuous emitters', () => {
+      expect(estimateEmitter(emitter({ emissionRate: 50 }, { min: 1, max: 3 }))).toEqual({
+        steady: 100,
+        peak: 150,
+        onDemand: false,
+      });
+    });
+
+    it('should cap timed emitters at their emitter lifetime', () => {
+      const timed = emitter({ type: 'timed', emissionRate: 100, emitterLifetime: 0.5 }, 2);
+      expect(estimateEmitter(timed)).toMatchObject({ steady: 50, peak: 50 });
+    });
+
+    it('should count overlapping bursts', () => {
+      const burst = emitter({ type: 'burst', burstCount: 30, burstInterval: 1, burstLimit: -1 }, 2.5);
+      expect(estimateEmitter(burst)).toMatchObject({ steady: 75, peak: 90 });
+    });
+
+    it('should respect the burst limit', () => {
+      const once = emitter({ type: 'burst', burstCount: 100, burstInterval: 0.5, burstLimit: 1 }, 3);
+      expect(estimateEmitter(once)).toMatchObject({ steady: 100, peak: 100 });
+    });
+
+    it('should report triggered emitters per trigger', () => {
+      expect(estimateEmitter(emitter({ type: 'triggered', particlesPerTrigger: 25 }))).toEqual({
+        steady: 0,
+        peak: 25,
+        onDemand: true,
+      });
+    });
+
+    it('should clamp to the emitter maxParticles', () => {
+      expect(estimateEmitter(emitter({ emissionRate: 100, maxParticles: 40 }, 2))).toMatchObject({
+        steady: 40,
+        peak: 40,
+      });
+    });
+  });
+
+  describe('estimateConfig', () => {
+    it('should sum every emitter', () => {
+      const config: EditorConfig = {
+        system: { maxParticles: 1000, autoStart: true },
+        emitters: [emitter({ emissionRate: 10 }, 1), emitter({ type: 'triggered', particlesPerTrigger: 5 })],
+      };
+      const estimate = estimateConfig(config);
+      expect(estimate.total).toEqual({ steady: 10, peak: 15, onDemand: false });
+      expect(estimate.emitters).toHaveLength(2);
+    });
+  });
+
+  describe('getParticleBudget', () => {
+    it('should ignore missing and invalid budgets', () => {
+      const system = { maxParticles: 1000, autoStart: true };
+      expect(getParticleBudget({ system, emitters: [] })).toBeNull();
+      expect(getParticleBudget({ system: { ...system, particleBudget: -5 }, emitters: [] })).toBeNull();
+      expect(getParticleBudget({ system: { ...system, particleBudget: 800 }, emitters: [] })).toBe(800);
+    });
+  });
+});
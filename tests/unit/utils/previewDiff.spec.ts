@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { diffPreviewConfigs, planTextureCacheUpdate } from '../../../src/utils/previewDiff';
+import type { EditorConfig } from '../../../src/store/types';
+
+function emitter(type: string, x: number) {
+  return {
+    type,
+    position: { x, y: 0 },
+    emissionRate: 10,
+    particle: { type: 'sprite', texture: 'default', lifetime: 1, behaviors: [] },
+  } as any;
+}
+
+function config(...emitters: any[]): EditorConfig {
+  return { system: { maxParticles: 100, autoStart: true, seed: 1 }, emitters };
+}
+
+describe('previewDiff', () => {
+  describe('diffPreviewConfigs', () => {
+    it('should rebuild when nothing was built yet', () => {
+      expect(diffPreviewConfigs(null, config(emitter('point', 0)))).toEqual({ kind: 'rebuild' });
+    });
+
+    it('should report unchanged for equal configs, even as new objects', () => {
+      const prev = config(emitter('point', 0), emitter('circle', 10));
+      const next = config(emitter('point', 0), emitter('circle', 10));
+      expect(diffPreviewConfigs(prev, next)).toEqual({ kind: 'unchanged' });
+    });
+
+    it('should patch only the emitters that changed', () => {
+      const a = emitter('point', 0);
+      const prev = config(a, emitter('circle', 10), emitter('point', 20));
+      const next = config(a, emitter('circle', 15), emitter('point', 20));
+      expect(diffPreviewConfigs(prev, next)).toEqual({ kind: 'patch', emitterIndices: [1] });
+    });
+
+    it('should patch behaviour edits inside an emitter', () => {
+      const prev = config(emitter('point', 0));
+      const changed = emitter('point', 0);
+      changed.particle.behaviors = [{ type: 'alpha', start: 1, end: 0 }];
+      expect(diffPreviewConfigs(prev, config(changed))).toEqual({
+        kind: 'patch',
+        emitterIndices: [0],
+      });
+    });
+
+    it('should rebuild when the system section changes', () => {
+      const prev = config(emitter('point', 0));
+      const next: EditorConfig = { ...prev, system: { ...prev.system, seed: 2 } };
+      expect(diffPreviewConfigs(prev, next)).toEqual({ kind: 'rebuild' });
+    });
+
+    it('should rebuild when emitters are added, removed or change type', () => {
+      const prev = config(emitter('point', 0));
+      expect(diffPreviewConfigs(prev, config())).toEqual({ kind: 'rebuild' });
+      expect(diffPreviewConfigs(prev, config(emitter('point', 0), emitter('point', 0)))).toEqual({
+        kind: 'rebuild',
+      });
+      expect(diffPreviewConfigs(prev, config(emitter('circle', 0)))).toEqual({ kind: 'rebuild' });
+    });
+  });
+
+  describe('planTextureCacheUpdate', () => {
+    it('should load new assets, reload replaced ones and evict removed ones', () => {
+      const cache = new Map([
+        ['kept', { dataURL: 'data:kept' }],
+        ['replaced', { dataURL: 'data:old' }],
+        ['removed', { dataURL: 'data:gone' }],
+      ]);
+      const textures = new Map([
+        ['kept', { dataURL: 'data:kept' }],
+        ['replaced', { dataURL: 'data:new' }],
+        ['added', { dataURL: 'data:added' }],
+      ]);
+
+      const plan = planTextureCacheUpdate(cache, textures);
+      expect(plan.load).toEqual(['replaced', 'added']);
+      expect(plan.evict).toEqual(['replaced', 'removed']);
+    });
+
+    it('should do nothing when the cache is up to date', () => {
+      const textures = new Map([['a', { dataURL: 'data:a' }]]);
+      expect(planTextureCacheUpdate(new Map(textures), textures)).toEqual({ load: [], evict: [] });
+    });
+  });
+});
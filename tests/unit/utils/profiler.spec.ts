@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countParticlesByEmitter,
+  createProfiler,
+  getBudgetWarning,
+  getSparklinePoints,
+  projectSteadyState,
+} from '../../../src/utils/profiler';
+
+describe('profiler', () => {
+  describe('countParticlesByEmitter', () => {
+    it('should attribute particles through their emitter back-reference', () => {
+      const a = {};
+      const b = {};
+      const particles = [{ emitter: a }, { emitter: b }, { emitter: a }];
+      expect(countParticlesByEmitter(particles, [a, b])).toEqual([2, 1]);
+    });
+
+    it('should fall back to per-emitter counts', () => {
+      const emitters = [{ particleCount: 3 }, { particles: [1, 2] }];
+      expect(countParticlesByEmitter([{}, {}, {}, {}, {}], emitters)).toEqual([3, 2]);
+    });
+
+    it('should return null when particles cannot be attributed', () => {
+      expect(countParticlesByEmitter([{}], [{}])).toBeNull();
+    });
+  });
+
+  describe('steady state', () => {
+    it('should multiply spawn rate by lifetime per emitter', () => {
+      expect(projectSteadyState([50, 10], [2, 0.5])).toBe(105);
+    });
+
+    it('should warn when at or heading for the limit', () => {
+      expect(getBudgetWarning(100, 400, 500)).toBeNull();
+      expect(getBudgetWarning(100, 600, 500)).toContain('~600');
+      expect(getBudgetWarning(500, 500, 500)).toContain('dropped');
+    });
+  });
+
+  describe('getSparklinePoints', () => {
+    it('should scale values to the box with the maximum at the top', () => {
+      expect(getSparklinePoints([0, 5, 10], 20, 10)).toBe('0.0,10.0 10.0,5.0 20.0,0.0');
+      expect(getSparklinePoints([], 20, 10)).toBe('');
+    });
+  });
+
+  describe('createProfiler', () => {
+    it('should measure spawn and death rates per emitter', () => {
+      const emitter = {};
+      const system = { emitters: [emitter], particles: [] as Array<{ emitter: object; age: number }> };
+      const profiler = createProfiler();
+
+      profiler.observe(system, 1);
+      expect(profiler.sample(0, [0])).not.toBeNull();
+
+      // 60 frames (one simulated second): one particle born per frame, each
+      // living two frames, so the first one dies on frame 2.
+      for (let frame = 0; frame < 60; frame++) {
+        for (const p of system.particles) p.age += 1;
+        system.particles = system.particles.filter((p) => p.age < 2);
+        system.particles.push({ emitter, age: 0 });
+        profiler.observe(system, 0.5);
+      }
+      const sample = profiler.sample(1000, [0])!;
+
+      expect(sample.emitters[0].spawnRate).toBeCloseTo(60);
+      expect(sample.emitters[0].deathRate).toBeCloseTo(58);
+      expect(sample.emitters[0].count).toBe(2);
+      expect(sample.updateMs).toBeCloseTo(0.5);
+      expect(sample.layerIndices).toEqual([0]);
+    });
+
+    it('should return null for a window without frames', () => {
+      expect(createProfiler().sample(0, [])).toBeNull();
+    });
+
+    it('should time behaviors by type and restore them on dispose', () => {
+      const original = function () {
+        return 'done';
+      };
+      const behavior = { type: 'gravity', update: original };
+      const system = { emitters: [{ behaviors: [behavior] }], particles: [] };
+      const profiler = createProfiler();
+
+      profiler.observe(system, 0);
+      expect(behavior.update).not.toBe(original);
+      expect(behavior.update()).toBe('done');
+      expect(Object.keys(profiler.sample(0, [0])!.behaviorMs)).toEqual(['gravity']);
+
+      profiler.dispose();
+      expect(behavior.update).toBe(original);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  collectReferencedAssets,
+  createProjectBundle,
+  readProjectBundle,
+} from '../../../src/utils/projectBundle';
+import { getEditorId } from '../../../src/utils/editorIds';
+import type { AssetState, EditorConfig, TextureAsset } from '../../../src/store/types';
+
+// 1×1 transparent PNG.
+const PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const createTexture = (id: string, name: string): TextureAsset => ({
+  id,
+  name,
+  file: new File([], name, { type: 'image/png' }),
+  dataURL: `data:image/png;base64,${PNG_BASE64}`,
+  width: 1,
+  height: 1,
+  createdAt: 1,
+});
+
+const makeConfig = (particles: Array<Record<string, unknown>>): EditorConfig => ({
+  system: { maxParticles: 500, autoStart: true },
+  emitters: particles.map(
+    (particle) =>
+      ({
+        type: 'point',
+        position: { x: 10, y: 20 },
+        emissionRate: 5,
+        particle: { lifetime: 1, behaviors: [], ...particle },
+      }) as any,
+  ),
+});
+
+describe('projectBundle', () => {
+  const spark = createTexture('t-spark', 'spark.png');
+  const unused = createTexture('t-unused', 'unused.png');
+  const frame0 = createTexture('t-f0', 'coin_000.png');
+  const frame1 = createTexture('t-f1', 'coin_001.png');
+
+  const assets: AssetState = {
+    textures: new Map([spark, unused, frame0, frame1].map((t) => [t.id, t])),
+    sequences: new Map([
+      [
+        's-coin',
+        { id: 's-coin', name: 'coin', pattern: 'coin_{000-001}.png', frames: [frame0, frame1], createdAt: 1 },
+      ],
+    ]),
+  };
+
+  describe('collectReferencedAssets', () => {
+    it('should include referenced textures and sequence frames only', () => {
+      const config = makeConfig([
+        { type: 'sprite', texture: 'spark' },
+        { type: 'animatedSprite', frameSequence: 'coin' },
+      ]);
+
+      const result = collectReferencedAssets(config, assets);
+
+      expect(result.textures.map((t) => t.id).sort()).toEqual(['t-f0', 't-f1', 't-spark']);
+      expect(result.sequences.map((s) => s.id)).toEqual(['s-coin']);
+    });
+
+    it('should not include the built-in default texture', () => {
+      const result = collectReferencedAssets(makeConfig([{ type: 'sprite', texture: 'default' }]), assets);
+
+      expect(result.textures).toEqual([]);
+    });
+  });
+
+  describe('createProjectBundle / readProjectBundle', () => {
+    it('should round-trip config and referenced assets', async () => {
+      const config = makeConfig([
+        { type: 'sprite', texture: 'spark.png' },
+        { type: 'animatedSprite', frameSequence: 'coin' },
+      ]);
+
+      const bytes = await createProjectBundle(config, assets, 42);
+      const bundle = await readProjectBundle(bytes);
+
+      expect(bundle.config).toEqual({
+        ...config,
+        emitters: config.emitters.map((emitter) => ({ ...emitter, editorId: expect.any(String) })),
+        source: expect.any(String),
+        sourceEmitterIds: bundle.config.emitters.map(getEditorId),
+      });
+      expect(bundle.manifest.createdAt).toBe(42);
+      expect(Array.from(bundle.assets.textures.keys()).sort()).toEqual(['t-f0', 't-f1', 't-spark']);
+      expect(bundle.assets.textures.get('t-spark')?.dataURL).toBe(spark.dataURL);
+      expect(bundle.assets.sequences.get('s-coin')?.frames.map((f) => f.id)).toEqual(['t-f0', 't-f1']);
+    });
+
+    it('should give clashing file names unique paths', async () => {
+      const a = createTexture('a', 'fx.png');
+      const b = createTexture('b', 'fx.png');
+      const config = makeConfig([
+        { type: 'sprite', texture: 'a' },
+        { type: 'sprite', texture: 'b' },
+      ]);
+
+      const bytes = await createProjectBundle(config, {
+        textures: new Map([['a', a], ['b', b]]),
+        sequences: new Map(),
+      });
+      const { manifest } = await readProjectBundle(bytes);
+
+      expect(manifest.textures.map((t) => t.path)).toEqual(['textures/fx.png', 'textures/fx-2.png']);
+    });
+
+    it('should reject archives without a manifest', async () => {
+      const zip = new JSZip();
+      zip.file('effect.yaml', 'emitters: []');
+      const bytes = await zip.generateAsync({ type: 'uint8array' });
+
+      await expect(readProjectBundle(bytes)).rejects.toThrow('manifest.json');
+    });
+
+    it('should reject files that are not zips', async () => {
+      await expect(readProjectBundle(new Uint8Array([1, 2, 3]))).rejects.toThrow('.zip');
+    });
+
+    it('should drop sequences whose frames are missing from the archive', async () => {
+      const config = makeConfig([{ type: 'animatedSprite', frameSequence: 'coin' }]);
+      const zip = await JSZip.loadAsync(await createProjectBundle(config, assets));
+      zip.remove('textures/coin_001.png');
+
+      const bundle = await readProjectBundle(await zip.generateAsync({ type: 'uint8array' }));
+
+      expect(bundle.assets.textures.size).toBe(1);
+      expect(bundle.assets.sequences.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSeededRandom,
+  getSimulationSeed,
+  isValidSeed,
+  normalizeSeed,
+  withRandom,
+  DEFAULT_SEED,
+} from '../../../src/utils/random';
+import type { EditorConfig } from '../../../src/store/types';
+
+function draw(seed: number, count: number): number[] {
+  const random = createSeededRandom(seed);
+  return Array.from({ length: count }, () => random());
+}
+
+describe('random', () => {
+  describe('createSeededRandom', () => {
+    it('should replay the same sequence for the same seed', () => {
+      expect(draw(1234, 20)).toEqual(draw(1234, 20));
+    });
+
+    it('should produce different sequences for different seeds', () => {
+      expect(draw(1, 5)).not.toEqual(draw(2, 5));
+    });
+
+    it('should stay within [0, 1)', () => {
+      for (const value of draw(99, 1000)) {
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe('normalizeSeed / isValidSeed', () => {
+    it('should coerce values to non-negative 32-bit integers', () => {
+      expect(normalizeSeed(42.9)).toBe(42);
+      expect(normalizeSeed(-7)).toBe(7);
+      expect(normalizeSeed(2 ** 32 + 5)).toBe(5);
+      expect(normalizeSeed('abc')).toBe(DEFAULT_SEED);
+    });
+
+    it('should only accept integers in range', () => {
+      expect(isValidSeed(0)).toBe(true);
+      expect(isValidSeed(0xffffffff)).toBe(true);
+      expect(isValidSeed(1.5)).toBe(false);
+      expect(isValidSeed(-1)).toBe(false);
+    });
+  });
+
+  describe('getSimulationSeed', () => {
+    it('should fall back to the default seed when the config has none', () => {
+      const config: EditorConfig = { system: { maxParticles: 10, autoStart: true }, emitters: [] };
+      expect(getSimulationSeed(config)).toBe(DEFAULT_SEED);
+      expect(getSimulationSeed({ ...config, system: { ...config.system, seed: 77 } })).toBe(77);
+    });
+  });
+
+  describe('withRandom', () => {
+    it('should route Math.random through the given source and restore it', () => {
+      const original = Math.random;
+      const values = withRandom(createSeededRandom(5), () => [Math.random(), Math.random()]);
+      expect(values).toEqual(draw(5, 2));
+      expect(Math.random).toBe(original);
+    });
+
+    it('should restore Math.random when the callback throws', () => {
+      const original = Math.random;
+      expect(() =>
+        withRandom(createSeededRandom(5), () => {
+          throw new Error('boom');
+        }),
+      ).toThrow('boom');
+      expect(Math.random).toBe(original);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDropIndex,
+  getEmittersInRect,
+  getRangeSelection,
+  getSharedValue,
+  moveEmitters,
+  setEmitterField,
+  sortByLayerOrder,
+  toggleInSelection,
+} from '../../../src/utils/selection';
+
+const layer = (editorId: string, x = 0, y = 0, particle: Record<string, unknown> = {}) =>
+  ({ type: 'point', editorId, position: { x, y }, particle: { type: 'sprite', lifetime: 1, ...particle } }) as any;
+
+const emitters = [layer('a', 0, 0), layer('b', 100, 100), layer('c', 200, 50), layer('d', 300, 300)];
+const ids = (list: any[]) => list.map((e) => e.editorId);
+
+describe('selection', () => {
+  it('keeps ids in layer order and drops unknown ones', () => {
+    expect(sortByLayerOrder(emitters, ['c', 'x', 'a', 'c'])).toEqual(['a', 'c']);
+  });
+
+  it('toggles a layer in and out of the selection', () => {
+    expect(toggleInSelection(emitters, ['c'], 'a')).toEqual(['a', 'c']);
+    expect(toggleInSelection(emitters, ['a', 'c'], 'a')).toEqual(['c']);
+  });
+
+  it('selects a range from the anchor in either direction', () => {
+    expect(getRangeSelection(emitters, 'b', 'd')).toEqual(['b', 'c', 'd']);
+    expect(getRangeSelection(emitters, 'c', 'a')).toEqual(['a', 'b', 'c']);
+    expect(getRangeSelection(emitters, null, 'b')).toEqual(['b']);
+    expect(getRangeSelection(emitters, 'a', 'x')).toEqual([]);
+  });
+
+  it('finds layers whose position is inside a rectangle', () => {
+    expect(getEmittersInRect(emitters, { x: 250, y: 120 }, { x: 50, y: 0 })).toEqual(['b', 'c']);
+    expect(getEmittersInRect(emitters, { x: 400, y: 400 }, { x: 350, y: 350 })).toEqual([]);
+  });
+});
+
+describe('moveEmitters / getDropIndex', () => {
+  it('moves a group together, keeping its order', () => {
+    expect(ids(moveEmitters(emitters, ['d', 'a'], 1))).toEqual(['b', 'a', 'd', 'c']);
+    expect(ids(moveEmitters(emitters, ['b'], 99))).toEqual(['a', 'c', 'd', 'b']);
+  });
+
+  it('translates a drop position into an index among the other layers', () => {
+    // Dragging `a` (with `b` selected too) below `c`: the list without `a`
+    // is b, c, d and the drop lands at index 2.
+    const toIndex = getDropIndex(emitters, ['a', 'b'], 'a', 2);
+    expect(toIndex).toBe(1);
+    expect(ids(moveEmitters(emitters, ['a', 'b'], toIndex))).toEqual(['c', 'a', 'b', 'd']);
+    expect(getDropIndex(emitters, ['c'], 'c', 0)).toBe(0);
+  });
+});
+
+describe('bulk edit', () => {
+  it('reports shared and mixed values', () => {
+    const list = [layer('a', 0, 0, { scale: 2 }), layer('b', 0, 0, { scale: 2 }), layer('c')];
+    expect(getSharedValue(list.slice(0, 2), 'particle.scale', 1)).toEqual({ value: 2, mixed: false });
+    expect(getSharedValue(list, 'particle.scale', 1)).toEqual({ value: 2, mixed: true });
+    expect(getSharedValue(list, 'particle.lifetime', 1)).toEqual({ value: 1, mixed: false });
+    // A missing value counts as the fallback.
+    expect(getSharedValue([layer('d', 0, 0, { scale: 1 }), layer('e')], 'particle.scale', 1).mixed).toBe(false);
+  });
+
+  it('sets a nested field without touching the original', () => {
+    const original = layer('a', 5, 5, { scale: 2 });
+    const updated = setEmitterField(original, 'particle.lifetime', { min: 1, max: 2 });
+    expect(updated.particle).toEqual({ type: 'sprite', lifetime: { min: 1, max: 2 }, scale: 2 });
+    expect(updated.position).toBe(original.position);
+    expect(original.particle.lifetime).toBe(1);
+    expect(setEmitterField(original, 'emissionRate', 30).emissionRate).toBe(30);
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chooseSnapshotSlot,
+  createSessionSnapshot,
+  findRecoverableSnapshot,
+  getMissingAssetRefs,
+  getPrunableSnapshotIds,
+  getRestorableDocuments,
+  hasRecoverableWork,
+  summarizeSnapshot,
+} from '../../../src/utils/sessionSnapshots';
+import { useEditorStore } from '../../../src/store/editorStore';
+import type { SessionSnapshot } from '../../../src/store/types';
+
+const particle = { type: 'sprite', texture: 'default', lifetime: 1, behaviors: [] };
+
+const makeSnapshot = (overrides: Partial<SessionSnapshot> = {}): SessionSnapshot => ({
+  id: 'snap',
+  sessionId: 'session-a',
+  createdAt: 0,
+  savedAt: 0,
+  config: {
+    system: { maxParticles: 1000, autoStart: true },
+    emitters: [{ type: 'point', position: { x: 0, y: 0 }, emissionRate: 10, particle } as any],
+  },
+  selection: { selectedEmitterId: 'e1', selectedEmitterIds: ['e1'], selectedBehaviorId: null },
+  history: [],
+  historyIndex: -1,
+  assetRefs: { textures: [], sequences: [] },
+  canvas: { width: 800, height: 600 },
+  ...overrides,
+});
+
+describe('sessionSnapshots', () => {
+  describe('createSessionSnapshot', () => {
+    it('should capture config, selection, history and asset ids', () => {
+      const source = makeSnapshot();
+      const state = {
+        config: source.config,
+        ui: {
+          selectedEmitterId: 'e1',
+          selectedEmitterIds: ['e1', 'e3'],
+          selectedBehaviorId: 'b2',
+          hiddenEmitterIds: new Set(['e2']),
+          lockedEmitterIds: new Set(['e1']),
+          canvasWidth: 1024,
+          canvasHeight: 768,
+        },
+        history: [],
+        historyIndex: -1,
+        assets: {
+          textures: new Map([['tex-1', {}]]),
+          sequences: new Map([['seq-1', {}]]),
+        },
+        documents: [{ id: 'doc', name: 'Sparks' }],
+        activeDocumentId: 'doc',
+      } as any;
+
+      const snapshot = createSessionSnapshot(state, {
+        id: 'x',
+        sessionId: 's',
+        createdAt: 1,
+        savedAt: 2,
+      });
+
+      expect(snapshot.config).toEqual(source.config);
+      expect(snapshot.config).not.toBe(source.config);
+      expect(snapshot.selection).toEqual({
+        selectedEmitterId: 'e1',
+        selectedEmitterIds: ['e1', 'e3'],
+        selectedBehaviorId: 'b2',
+      });
+      expect(snapshot.assetRefs).toEqual({ textures: ['tex-1'], sequences: ['seq-1'] });
+      expect(snapshot.canvas).toEqual({ width: 1024, height: 768 });
+      expect(snapshot.hiddenEmitterIds).toEqual(['e2']);
+      expect(snapshot.lockedEmitterIds).toEqual(['e1']);
+      expect(snapshot.name).toBe('Sparks');
+      expect(snapshot.otherDocuments).toEqual([]);
+    });
+
+    it('should capture every open tab with something to recover', () => {
+      const source = makeSnapshot();
+      const empty = { system: { maxParticles: 1000, autoStart: true }, emitters: [] };
+      const tab = (id: string, name: string, config: any) => ({
+        id,
+        name,
+        config,
+        selection: { selectedEmitterId: null, selectedEmitterIds: [], selectedBehaviorId: null },
+        history: [],
+        historyIndex: -1,
+        hiddenEmitterIds: new Set([`${id}-hidden`]),
+        lockedEmitterIds: new Set([`${id}-locked`]),
+      });
+      const state = {
+        config: empty,
+        ui: {
+          selectedEmitterId: null,
+          selectedEmitterIds: [],
+          selectedBehaviorId: null,
+          hiddenEmitterIds: new Set(),
+          lockedEmitterIds: new Set(),
+        },
+        history: [],
+        historyIndex: -1,
+        assets: { textures: new Map(), sequences: new Map() },
+        // The active entry is stale: the top-level fields are what counts.
+        documents: [tab('a', 'Smoke', source.config), tab('b', 'Active', source.config), tab('c', 'Blank', empty)],
+        activeDocumentId: 'b',
+      } as any;
+
+      expect(hasRecoverableWork(state)).toBe(true);
+      const snapshot = createSessionSnapshot(state, { id: 'x', sessionId: 's', createdAt: 1, savedAt: 2 });
+
+      expect(snapshot.name).toBe('Active');
+      expect(snapshot.otherDocuments?.map((d) => d.name)).toEqual(['Smoke']);
+      expect(snapshot.otherDocuments?.[0].config).toEqual(source.config);
+      expect(snapshot.otherDocuments?.[0].config).not.toBe(source.config);
+      expect(snapshot.otherDocuments?.[0].hiddenEmitterIds).toEqual(['a-hidden']);
+      expect(snapshot.otherDocuments?.[0].lockedEmitterIds).toEqual(['a-locked']);
+      // Only the background tab is reopened: the active one was empty.
+      expect(getRestorableDocuments(snapshot).map((d) => d.name)).toEqual(['Smoke']);
+
+      expect(hasRecoverableWork({ ...state, documents: [tab('b', 'Active', empty)] })).toBe(false);
+    });
+  });
+
+  describe('getRestorableDocuments', () => {
+    it('should reopen the other tabs, then the active one', () => {
+      const snapshot = makeSnapshot({ name: 'Sparks', otherDocuments: [{ ...makeSnapshot(), name: 'Smoke' }] });
+
+      expect(getRestorableDocuments(snapshot).map((d) => d.name)).toEqual(['Smoke', 'Sparks']);
+      expect(getRestorableDocuments(makeSnapshot())[0].name).toBe('Recovered session');
+    });
+
+    it('should restore every saved tab into the editor', () => {
+      const snapshot = makeSnapshot({
+        name: 'Sparks',
+        hiddenEmitterIds: ['e1'],
+        otherDocuments: [{ ...makeSnapshot(), name: 'Smoke', lockedEmitterIds: ['e2'] }],
+      });
+      expect(useEditorStore.getState().documents).toHaveLength(1);
+
+      useEditorStore.getState().restoreSession(snapshot);
+      const { documents, activeDocumentId, config, ui } = useEditorStore.getState();
+
+      // The blank start-up tab is replaced by the first recovered one.
+      expect(documents.map((d) => d.name)).toEqual(['Smoke', 'Sparks']);
+      expect(documents.find((d) => d.id === activeDocumentId)?.name).toBe('Sparks');
+      expect(config.emitters).toHaveLength(1);
+      expect(Array.from(ui.hiddenEmitterIds)).toEqual(['e1']);
+      expect(Array.from(ui.lockedEmitterIds)).toEqual([]);
+      expect(Array.from(documents[0].lockedEmitterIds)).toEqual(['e2']);
+      expect(Array.from(documents[0].hiddenEmitterIds)).toEqual([]);
+    });
+  });
+
+  describe('chooseSnapshotSlot', () => {
+    it('should reuse the session snapshot while it is recent', () => {
+      const existing = [makeSnapshot({ id: 'a', createdAt: 1000, savedAt: 5000 })];
+
+      expect(chooseSnapshotSlot(existing, 'session-a', 20_000, 60_000)).toEqual({
+        id: 'a',
+        createdAt: 1000,
+      });
+    });
+
+    it('should start a new checkpoint once the interval has passed', () => {
+      const existing = [makeSnapshot({ id: 'a', createdAt: 1000, savedAt: 5000 })];
+
+      expect(chooseSnapshotSlot(existing, 'session-a', 70_000, 60_000)).toEqual({
+        id: null,
+        createdAt: 70_000,
+      });
+    });
+
+    it('should never reuse another session snapshot', () => {
+      const existing = [makeSnapshot({ id: 'a', sessionId: 'old', createdAt: 1000 })];
+
+      expect(chooseSnapshotSlot(existing, 'session-a', 2000).id).toBeNull();
+    });
+  });
+
+  describe('getPrunableSnapshotIds', () => {
+    it('should drop the oldest snapshots beyond the limit', () => {
+      const existing = [
+        makeSnapshot({ id: 'old', savedAt: 1 }),
+        makeSnapshot({ id: 'new', savedAt: 3 }),
+        makeSnapshot({ id: 'mid', savedAt: 2 }),
+      ];
+
+      expect(getPrunableSnapshotIds(existing, 2)).toEqual(['old']);
+    });
+  });
+
+  describe('findRecoverableSnapshot', () => {
+    it('should return the newest snapshot from an earlier session', () => {
+      const snapshots = [
+        makeSnapshot({ id: 'older', sessionId: 'prev', savedAt: 1 }),
+        makeSnapshot({ id: 'newer', sessionId: 'prev', savedAt: 2 }),
+        makeSnapshot({ id: 'mine', sessionId: 'current', savedAt: 3 }),
+      ];
+
+      expect(findRecoverableSnapshot(snapshots, 'current')?.id).toBe('newer');
+    });
+
+    it('should skip empty documents', () => {
+      const empty = makeSnapshot({
+        sessionId: 'prev',
+        config: { system: { maxParticles: 1000, autoStart: true }, emitters: [] },
+      });
+
+      expect(findRecoverableSnapshot([empty], 'current')).toBeNull();
+    });
+  });
+
+  describe('summarizeSnapshot / getMissingAssetRefs', () => {
+    it('should summarise emitters by name or type', () => {
+      const summary = summarizeSnapshot(makeSnapshot());
+
+      expect(summary.emitterCount).toBe(1);
+      expect(summary.emitterLabels).toEqual(['point']);
+      expect(summary.otherDocumentCount).toBe(0);
+    });
+
+    it('should list asset ids that are no longer in the library', () => {
+      const snapshot = makeSnapshot({ assetRefs: { textures: ['a', 'b'], sequences: ['s'] } });
+      const assets = { textures: new Map([['a', {}]]), sequences: new Map() } as any;
+
+      expect(getMissingAssetRefs(snapshot, assets)).toEqual(['b', 's']);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clampTimelineDuration,
+  clampToTimeline,
+  consumeFixedSteps,
+  frameToTime,
+  normalizeLoopRange,
+  planSeek,
+  timeToFrame,
+  timeToFraction,
+  FRAME_DURATION,
+  MAX_CATCH_UP_SECONDS,
+  MAX_TIMELINE_DURATION,
+} from '../../../src/utils/timeline';
+
+describe('timeline', () => {
+  describe('timeToFrame / frameToTime', () => {
+    it('should convert at 60 fps and round to the nearest frame', () => {
+      expect(timeToFrame(1.2)).toBe(72);
+      expect(timeToFrame(0.009)).toBe(1);
+      expect(frameToTime(90)).toBe(1.5);
+    });
+
+    it('should treat negative and non-finite times as frame 0', () => {
+      expect(timeToFrame(-1)).toBe(0);
+      expect(timeToFrame(Number.NaN)).toBe(0);
+    });
+  });
+
+  describe('clampToTimeline', () => {
+    it('should snap to a frame inside the timeline', () => {
+      expect(clampToTimeline(7, 5)).toBe(5);
+      expect(clampToTimeline(-2, 5)).toBe(0);
+      expect(clampToTimeline(1.204, 5)).toBe(1.2);
+    });
+  });
+
+  describe('clampTimelineDuration', () => {
+    it('should keep durations within the supported range', () => {
+      expect(clampTimelineDuration(1000)).toBe(MAX_TIMELINE_DURATION);
+      expect(clampTimelineDuration(0)).toBe(0.5);
+      expect(clampTimelineDuration(3)).toBe(3);
+    });
+  });
+
+  describe('planSeek', () => {
+    it('should step forward incrementally', () => {
+      expect(planSeek(60, 72)).toEqual({ reset: false, steps: 12 });
+    });
+
+    it('should re-simulate from zero when going backwards', () => {
+      expect(planSeek(72, 30)).toEqual({ reset: true, steps: 30 });
+    });
+
+    it('should re-simulate from zero when the frame is unknown', () => {
+      expect(planSeek(null, 30)).toEqual({ reset: true, steps: 30 });
+    });
+  });
+
+  describe('consumeFixedSteps', () => {
+    it('should take one step per display frame at 60 Hz', () => {
+      let accumulator = 0;
+      for (let i = 0; i < 120; i++) {
+        const { steps, remainder } = consumeFixedSteps(accumulator, 16.667 / 1000);
+        expect(steps).toBe(1);
+        accumulator = remainder;
+      }
+    });
+
+    it('should carry partial frames over', () => {
+      const first = consumeFixedSteps(0, FRAME_DURATION / 2);
+      expect(first.steps).toBe(0);
+      expect(consumeFixedSteps(first.remainder, FRAME_DURATION / 2).steps).toBe(1);
+    });
+
+    it('should cap how much time a single tick catches up on', () => {
+      const { steps } = consumeFixedSteps(0, 5);
+      expect(steps).toBe(Math.floor(MAX_CATCH_UP_SECONDS / FRAME_DURATION + 1e-6));
+    });
+  });
+
+  describe('normalizeLoopRange', () => {
+    it('should snap markers to frames inside the timeline', () => {
+      expect(normalizeLoopRange(0.504, 9, 5)).toEqual({ loopIn: 0.5, loopOut: 5 });
+    });
+
+    it('should keep the markers at least one frame apart', () => {
+      expect(normalizeLoopRange(2, 1, 5, 'out')).toEqual({ loopIn: 2, loopOut: frameToTime(121) });
+      expect(normalizeLoopRange(2, 1, 5, 'in')).toEqual({ loopIn: frameToTime(59), loopOut: 1 });
+    });
+
+    it('should push the in marker back when out hits the end', () => {
+      expect(normalizeLoopRange(5, 5, 5, 'out')).toEqual({ loopIn: frameToTime(299), loopOut: 5 });
+    });
+  });
+
+  describe('timeToFraction', () => {
+    it('should clamp to [0, 1]', () => {
+      expect(timeToFraction(2.5, 5)).toBe(0.5);
+      expect(timeToFraction(8, 5)).toBe(1);
+      expect(timeToFraction(1, 0)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getTriggerKind,
+  getTriggerShortcutIndex,
+  getTriggerShortcutLabel,
+} from '../../../src/utils/triggers';
+
+describe('triggers', () => {
+  describe('getTriggerKind', () => {
+    it('should fire triggered emitters and re-fire burst emitters', () => {
+      expect(getTriggerKind({ type: 'triggered' } as any)).toBe('fire');
+      expect(getTriggerKind({ type: 'burst' } as any)).toBe('refire');
+    });
+
+    it('should ignore continuous emitters and missing layers', () => {
+      expect(getTriggerKind({ type: 'point' } as any)).toBeNull();
+      expect(getTriggerKind(undefined)).toBeNull();
+    });
+  });
+
+  describe('shortcuts', () => {
+    it('should map Digit1–Digit9 to the first nine layers', () => {
+      expect(getTriggerShortcutIndex('Digit1')).toBe(0);
+      expect(getTriggerShortcutIndex('Digit9')).toBe(8);
+      expect(getTriggerShortcutIndex('Digit0')).toBeNull();
+      expect(getTriggerShortcutIndex('Numpad1')).toBeNull();
+    });
+
+    it('should only label layers that have a key', () => {
+      expect(getTriggerShortcutLabel(0)).toBe('1');
+      expect(getTriggerShortcutLabel(8)).toBe('9');
+      expect(getTriggerShortcutLabel(9)).toBeNull();
+    });
+  });
+});